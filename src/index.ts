@@ -1,3 +1,276 @@
-import { createClient } from './lib/client/ethereumClient.js';
+import { ENS_REGISTRY_ADDRESS } from './integrations/ens.js';
+import { PERMIT2_ADDRESS } from './integrations/erc20.js';
+import {
+  ERC1155_EVENTS,
+  ERC20_EVENTS,
+  ERC721_EVENTS,
+} from './integrations/logs.js';
+import { CachedBlock, createClient } from './lib/client/ethereumClient.js';
+import {
+  ClientError,
+  ContractRevertError,
+  EmptyResultError,
+  HttpTransportError,
+  InvalidAddressError,
+  RpcError,
+  SiweError,
+  TransactionRevertedError,
+} from './lib/errors/errors.js';
+import {
+  Abi,
+  AbiError,
+  AbiEvent,
+  AbiFunction,
+  AbiParameter,
+  AbiValue,
+} from './lib/interfaces/abi.js';
+import {
+  CallRequest,
+  CallRequestBase,
+  ContractCallRequest,
+  RawCallRequest,
+} from './lib/interfaces/call.js';
+import {
+  AccessListEntry,
+  Block,
+  BlockByTimestampOptions,
+  FeeHistory,
+  FeeHistoryOptions,
+  GetBlockOptions,
+  Log,
+  Transaction,
+  TransactionReceipt,
+} from './lib/interfaces/chain.js';
+import {
+  AbiOutputsType,
+  AbiParameterType,
+  AbiParametersType,
+  Contract,
+} from './lib/interfaces/contract.js';
+import {
+  FeeSpeed,
+  FeeSuggestion,
+  GasEstimateRequest,
+  SuggestFeesOptions,
+} from './lib/interfaces/gas.js';
+import {
+  BlockIdentifier,
+  BlockTag,
+  JsonRpcCall,
+  ReadOptions,
+  RequestOptions,
+} from './lib/interfaces/jsonRpcRequest.js';
+import {
+  JsonRpcError,
+  JsonRpcResponse,
+} from './lib/interfaces/jsonRpcResponse.js';
+import { Logger } from './lib/interfaces/logger.js';
+import {
+  AbiEventArgs,
+  DecodedLog,
+  LogFilter,
+  LogFilterArgs,
+} from './lib/interfaces/logs.js';
+import {
+  MulticallCall,
+  MulticallOptions,
+  MulticallResult,
+} from './lib/interfaces/multicall.js';
+import {
+  Permit2Options,
+  Permit2Signature,
+  PermitBatch,
+  PermitDetails,
+  PermitDetailsRequest,
+  PermitOptions,
+  PermitSignature,
+  PermitSingle,
+} from './lib/interfaces/permit.js';
+import {
+  Signature,
+  Signer,
+  TransactionRequest,
+  TransactionResponse,
+  WaitOptions,
+  WriteOptions,
+} from './lib/interfaces/signer.js';
+import {
+  SiweErrorReason,
+  SiweMessage,
+  SiweMessageRequest,
+  SiweSession,
+  SiweValidateOptions,
+  SiweVerifyOptions,
+} from './lib/interfaces/siwe.js';
+import {
+  AmountFormat,
+  AmountResult,
+  TokenAmount,
+} from './lib/interfaces/tokenAmount.js';
+import {
+  Erc1155Transfer,
+  Erc20Transfer,
+  Erc721Transfer,
+  TokenTransfer,
+  TransferOptions,
+  TransferPage,
+} from './lib/interfaces/transfers.js';
+import {
+  TypedData,
+  TypedDataDomain,
+  TypedDataField,
+  TypedDataTypes,
+} from './lib/interfaces/typedData.js';
+import { BatchOptions } from './lib/transport/batch.js';
+import {
+  EndpointConfig,
+  FailoverOptions,
+  FailoverStrategy,
+  QUORUM_METHODS,
+} from './lib/transport/failover.js';
+import { MULTICALL3_ADDRESS } from './lib/transport/multicall.js';
+import { RetryOptions } from './lib/transport/retry.js';
+import { createPrivateKeySigner } from './lib/signer/privateKey.js';
+import { abi } from './utils/abi.js';
+import { AddressOptions, address } from './utils/address.js';
+import { hex } from './utils/hex.js';
+import { eventTopic, keccak256, selector } from './utils/keccak.js';
+import { dnsEncode, namehash, normalize } from './utils/namehash.js';
+import { DecodedRevert, PANIC_REASONS, revert } from './utils/revert.js';
+import { RlpInput, RlpValue, rlp } from './utils/rlp.js';
+import { secp256k1 } from './utils/secp256k1.js';
+import { hmacSha256, sha256 } from './utils/sha256.js';
+import { signature } from './utils/signature.js';
+import { siwe } from './utils/siwe.js';
+import { transaction } from './utils/transaction.js';
+import { typedData } from './utils/typedData.js';
+import { FormatUnitsOptions, RoundingMode, units } from './utils/units.js';
 
-export { createClient };
+export {
+  ClientError,
+  ContractRevertError,
+  ENS_REGISTRY_ADDRESS,
+  ERC1155_EVENTS,
+  ERC20_EVENTS,
+  ERC721_EVENTS,
+  EmptyResultError,
+  HttpTransportError,
+  InvalidAddressError,
+  MULTICALL3_ADDRESS,
+  PANIC_REASONS,
+  PERMIT2_ADDRESS,
+  QUORUM_METHODS,
+  RpcError,
+  SiweError,
+  TransactionRevertedError,
+  abi,
+  address,
+  createClient,
+  createPrivateKeySigner,
+  dnsEncode,
+  eventTopic,
+  hex,
+  hmacSha256,
+  keccak256,
+  namehash,
+  normalize,
+  revert,
+  rlp,
+  secp256k1,
+  selector,
+  sha256,
+  signature,
+  siwe,
+  transaction,
+  typedData,
+  units,
+};
+export type {
+  Abi,
+  AbiError,
+  AbiEvent,
+  AbiEventArgs,
+  AbiFunction,
+  AbiOutputsType,
+  AbiParameter,
+  AbiParameterType,
+  AbiParametersType,
+  AbiValue,
+  AccessListEntry,
+  AddressOptions,
+  AmountFormat,
+  Contract,
+  AmountResult,
+  EndpointConfig,
+  Erc1155Transfer,
+  Erc20Transfer,
+  Erc721Transfer,
+  FailoverOptions,
+  FailoverStrategy,
+  BatchOptions,
+  Block,
+  BlockByTimestampOptions,
+  BlockIdentifier,
+  BlockTag,
+  CachedBlock,
+  CallRequest,
+  CallRequestBase,
+  ContractCallRequest,
+  DecodedLog,
+  DecodedRevert,
+  FeeHistory,
+  FeeHistoryOptions,
+  FeeSpeed,
+  FeeSuggestion,
+  FormatUnitsOptions,
+  GasEstimateRequest,
+  GetBlockOptions,
+  JsonRpcCall,
+  JsonRpcError,
+  JsonRpcResponse,
+  Log,
+  LogFilter,
+  LogFilterArgs,
+  Logger,
+  MulticallCall,
+  MulticallOptions,
+  MulticallResult,
+  Permit2Options,
+  Permit2Signature,
+  PermitBatch,
+  PermitDetails,
+  PermitDetailsRequest,
+  PermitOptions,
+  PermitSignature,
+  PermitSingle,
+  RawCallRequest,
+  ReadOptions,
+  RequestOptions,
+  RetryOptions,
+  RlpInput,
+  RlpValue,
+  RoundingMode,
+  Signature,
+  Signer,
+  SiweErrorReason,
+  SiweMessage,
+  SiweMessageRequest,
+  SiweSession,
+  SiweValidateOptions,
+  SiweVerifyOptions,
+  SuggestFeesOptions,
+  TokenAmount,
+  TokenTransfer,
+  Transaction,
+  TransactionReceipt,
+  TransactionRequest,
+  TransactionResponse,
+  TransferOptions,
+  TransferPage,
+  TypedData,
+  TypedDataDomain,
+  TypedDataField,
+  TypedDataTypes,
+  WaitOptions,
+  WriteOptions,
+};
@@ -0,0 +1,666 @@
+import { CachedBlock, State } from '../lib/client/ethereumClient.js';
+import { EmptyResultError } from '../lib/errors/errors.js';
+import {
+  Block,
+  BlockByTimestampOptions,
+  FeeHistory,
+  FeeHistoryOptions,
+  GetBlockOptions,
+  RpcObject,
+  Transaction,
+  TransactionReceipt,
+} from '../lib/interfaces/chain.js';
+import { EthMethod } from '../lib/interfaces/ethMethods.js';
+import {
+  BlockIdentifier,
+  BlockParameter,
+  BlockTag,
+  JsonRpcRequestPayload,
+  ReadOptions,
+  RequestOptions,
+} from '../lib/interfaces/jsonRpcRequest.js';
+
+import { constructRpcPayload } from '../utils/ethCall.js';
+import { format } from '../utils/formatting.js';
+import { hex } from '../utils/hex.js';
+import { ens } from './ens.js';
+import { rpc } from './rpc.js';
+
+/**
+ * The maximum number of block timestamps cached in the client state, the oldest entries being evicted first.
+ */
+const MAX_CACHED_BLOCKS: number = 1024;
+
+/**
+ * Caches the timestamp of a block in the client state, evicting the oldest entry when the cache is full.
+ *
+ * @param {CachedBlock} block - The block number and timestamp.
+ * @param {State} state - The client state holding the cached blocks.
+ */
+const cacheBlock = (block: CachedBlock, state: State): void => {
+  state.cachedBlocks.delete(block.block);
+  state.cachedBlocks.set(block.block, block);
+  if (state.cachedBlocks.size > MAX_CACHED_BLOCKS) {
+    state.cachedBlocks.delete(state.cachedBlocks.keys().next().value);
+  }
+};
+
+/**
+ * Sends a request whose result may be null, e.g. for an unknown block or transaction.
+ *
+ * @param {JsonRpcRequestPayload} payload - The JSON-RPC request.
+ * @param {State} state - The client state holding the ethereum instance and the logger.
+ * @param {string} context - The module and function sending the request.
+ * @param {RequestOptions} options - The request timeout and abort signal.
+ * @returns {Promise<RpcObject | null>} The result, or null when the node returned none.
+ */
+const sendNullable = async (
+  payload: JsonRpcRequestPayload,
+  state: State,
+  context: string,
+  options: RequestOptions
+): Promise<RpcObject | null> => {
+  try {
+    return await rpc.send<RpcObject>(payload, state, context, options);
+  } catch (e) {
+    if (e instanceof EmptyResultError) {
+      return null;
+    }
+    throw e;
+  }
+};
+
+/**
+ * Chain integration for reading blocks, transactions, accounts and fees.
+ *
+ * @fileoverview This file provides helper functions for the core Ethereum JSON-RPC read methods.
+ * @namespace chain
+ */
+export const chain = {
+  /**
+   * Fetches the number of the latest block.
+   *
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<number>} The latest block number.
+   *
+   * @example
+   * const data = chain.getBlockNumber(state);
+   */
+  getBlockNumber: async (
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<number> => {
+    try {
+      const response: string = await rpc.send<string>(
+        constructRpcPayload(EthMethod.BlockNumber),
+        state,
+        '[chain/getBlockNumber]',
+        options
+      );
+
+      return Number(response);
+    } catch (e) {
+      state.logger.error('[chain/getBlockNumber] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches the chain id.
+   *
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<number>} The chain id, e.g. 1 for mainnet.
+   *
+   * @example
+   * const data = chain.getChainId(state);
+   */
+  getChainId: async (
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<number> => {
+    try {
+      const response: string = await rpc.send<string>(
+        constructRpcPayload(EthMethod.ChainId),
+        state,
+        '[chain/getChainId]',
+        options
+      );
+
+      return Number(response);
+    } catch (e) {
+      state.logger.error('[chain/getChainId] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches a block by number, tag or hash.
+   *
+   * @param {BlockIdentifier} [block='latest'] - Optional. The block: a tag, a block number, a 32 byte block hash or an EIP-1898 object.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {GetBlockOptions} [options] - Optional. Whether to include full transactions, the request timeout and abort signal.
+   * @returns {Promise<Block<string | Transaction> | null>} The block, or null when it does not exist.
+   *
+   * @example
+   * const data = chain.getBlock('finalized', state, { includeTransactions: true });
+   */
+  getBlock: async (
+    block: BlockIdentifier = 'latest',
+    state: State,
+    { includeTransactions = false, ...options }: GetBlockOptions = {}
+  ): Promise<Block<string | Transaction> | null> => {
+    const parameter: BlockParameter = format.toBlockParameter(block);
+    const data: JsonRpcRequestPayload =
+      typeof parameter === 'object' && 'blockHash' in parameter
+        ? constructRpcPayload(EthMethod.GetBlockByHash, [
+            parameter.blockHash,
+            includeTransactions,
+          ])
+        : constructRpcPayload(EthMethod.GetBlockByNumber, [
+            typeof parameter === 'object' ? parameter.blockNumber : parameter,
+            includeTransactions,
+          ]);
+
+    try {
+      const response: RpcObject | null = await sendNullable(
+        data,
+        state,
+        '[chain/getBlock]',
+        options
+      );
+
+      return response ? format.toBlock(response) : null;
+    } catch (e) {
+      state.logger.error('[chain/getBlock] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Resolves a block number or tag into a block number.
+   *
+   * @param {number | bigint | BlockTag} block - The block number or tag.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<number>} The block number.
+   *
+   * @example
+   * const data = chain.resolveBlockNumber('finalized', state);
+   */
+  resolveBlockNumber: async (
+    block: number | bigint | BlockTag,
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<number> => {
+    if (typeof block === 'number' || typeof block === 'bigint') {
+      return Number(block);
+    }
+    if (block === 'earliest') {
+      return 0;
+    }
+    if (block === 'latest' || block === 'pending') {
+      return chain.getBlockNumber(state, options);
+    }
+
+    const response: Block<string | Transaction> | null = await chain.getBlock(
+      block,
+      state,
+      options
+    );
+    if (!response) {
+      throw new Error(
+        `[chain/resolveBlockNumber] error: No ${block} block on this chain`
+      );
+    }
+    return response.number;
+  },
+
+  /**
+   * Fetches the timestamp of a block, cached in the client state up to 1024 blocks.
+   *
+   * @param {number} blockNumber - The block number.
+   * @param {State} state - The client state holding the ethereum instance, the logger and the cached blocks.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<number>} The unix timestamp of the block, in seconds.
+   *
+   * @example
+   * const data = chain.getBlockTimestamp(19000000, state);
+   */
+  getBlockTimestamp: async (
+    blockNumber: number,
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<number> => {
+    const cached: CachedBlock | undefined = state.cachedBlocks.get(blockNumber);
+    if (cached) {
+      return cached.timestamp;
+    }
+
+    state.requests += 1;
+    const response: Block<string | Transaction> | null = await chain.getBlock(
+      blockNumber,
+      state,
+      options
+    );
+    if (!response) {
+      throw new Error(
+        `[chain/getBlockTimestamp] error: Block ${blockNumber} does not exist`
+      );
+    }
+
+    cacheBlock({ block: blockNumber, timestamp: response.timestamp }, state);
+    return response.timestamp;
+  },
+
+  /**
+   * Finds the block closest to a timestamp: the last block at or before it, or the first block at or after it.
+   * The first probe is estimated with the average block time of the chain, the next ones interpolate between the
+   * closest blocks known on each side, falling back to bisection when interpolation converges slowly. Block
+   * timestamps are cached in the client state, so later lookups start from a narrower range.
+   *
+   * @param {number | Date} timestamp - The unix timestamp in seconds, or a date.
+   * @param {State} state - The client state holding the ethereum instance, the logger and the cached blocks.
+   * @param {BlockByTimestampOptions} [options] - Optional. The direction of the search, defaults to 'before', the request timeout and abort signal.
+   * @returns {Promise<CachedBlock>} The block number and its timestamp.
+   * @throws {Error} When no block matches: a timestamp before genesis, or after the latest block.
+   *
+   * @example
+   * const data = chain.getBlockByTimestamp(new Date('2024-01-01T00:00:00Z'), state);
+   */
+  getBlockByTimestamp: async (
+    timestamp: number | Date,
+    state: State,
+    { direction = 'before', ...options }: BlockByTimestampOptions = {}
+  ): Promise<CachedBlock> => {
+    const target: number =
+      timestamp instanceof Date
+        ? Math.floor(timestamp.getTime() / 1000)
+        : timestamp;
+    const isLow = (block: CachedBlock): boolean =>
+      direction === 'before'
+        ? block.timestamp <= target
+        : block.timestamp < target;
+    const requests: number = state.requests;
+
+    try {
+      if (!state.latestBlock || state.latestBlock.timestamp <= target) {
+        const latest: Block<string | Transaction> = await chain.getBlock(
+          'latest',
+          state,
+          options
+        );
+        state.latestBlock = {
+          block: latest.number,
+          timestamp: latest.timestamp,
+        };
+        cacheBlock(state.latestBlock, state);
+      }
+      if (!state.firstBlock) {
+        const first: number = Math.min(1, state.latestBlock.block);
+        state.firstBlock = {
+          block: first,
+          timestamp: await chain.getBlockTimestamp(first, state, options),
+        };
+      }
+      state.averageBlockTime =
+        (state.latestBlock.timestamp - state.firstBlock.timestamp) /
+          Math.max(1, state.latestBlock.block - state.firstBlock.block) || 1;
+
+      if (isLow(state.latestBlock)) {
+        if (direction === 'before') {
+          return state.latestBlock;
+        }
+        throw new Error(
+          `[chain/getBlockByTimestamp] error: No block after ${target} yet`
+        );
+      }
+      if (!isLow(state.firstBlock)) {
+        if (direction === 'after') {
+          return state.firstBlock;
+        }
+        const genesis: CachedBlock = {
+          block: 0,
+          timestamp: await chain.getBlockTimestamp(0, state, options),
+        };
+        if (isLow(genesis)) {
+          return genesis;
+        }
+        throw new Error(
+          `[chain/getBlockByTimestamp] error: No block before ${target}`
+        );
+      }
+
+      let low: CachedBlock = state.firstBlock;
+      let high: CachedBlock = state.latestBlock;
+      state.cachedBlocks.forEach((block: CachedBlock): void => {
+        if (isLow(block) && block.block > low.block) {
+          low = block;
+        } else if (!isLow(block) && block.block < high.block) {
+          high = block;
+        }
+      });
+
+      let guess: number =
+        target - low.timestamp < high.timestamp - target
+          ? low.block +
+            Math.round((target - low.timestamp) / state.averageBlockTime)
+          : high.block -
+            Math.round((high.timestamp - target) / state.averageBlockTime);
+      let bisect: boolean = false;
+
+      while (high.block - low.block > 1) {
+        const span: number = high.block - low.block;
+        guess = Math.min(high.block - 1, Math.max(low.block + 1, guess));
+
+        const probe: CachedBlock = {
+          block: guess,
+          timestamp: await chain.getBlockTimestamp(guess, state, options),
+        };
+        if (isLow(probe)) {
+          low = probe;
+        } else {
+          high = probe;
+        }
+
+        bisect = !bisect && high.block - low.block > span / 2;
+        guess = bisect
+          ? low.block + Math.floor((high.block - low.block) / 2)
+          : low.block +
+            Math.round(
+              ((target - low.timestamp) * (high.block - low.block)) /
+                Math.max(1, high.timestamp - low.timestamp)
+            );
+      }
+
+      const result: CachedBlock = direction === 'before' ? low : high;
+      state.logger.debug(
+        `[chain/getBlockByTimestamp] found block ${
+          result.block
+        } for ${target} in ${state.requests - requests} requests`
+      );
+      return result;
+    } catch (e) {
+      state.logger.error('[chain/getBlockByTimestamp] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches a transaction by hash.
+   *
+   * @param {string} transactionHash - The transaction hash.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<Transaction | null>} The transaction, or null when it is unknown to the node.
+   *
+   * @example
+   * const data = chain.getTransaction('0xTRANSACTION_HASH', state);
+   */
+  getTransaction: async (
+    transactionHash: string,
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<Transaction | null> => {
+    try {
+      const response: RpcObject | null = await sendNullable(
+        constructRpcPayload(EthMethod.GetTransactionByHash, [transactionHash]),
+        state,
+        '[chain/getTransaction]',
+        options
+      );
+
+      return response ? format.toTransaction(response) : null;
+    } catch (e) {
+      state.logger.error('[chain/getTransaction] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches the receipt of a mined transaction.
+   *
+   * @param {string} transactionHash - The transaction hash.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<TransactionReceipt | null>} The receipt, or null when the transaction is pending or unknown.
+   *
+   * @example
+   * const data = chain.getTransactionReceipt('0xTRANSACTION_HASH', state);
+   */
+  getTransactionReceipt: async (
+    transactionHash: string,
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<TransactionReceipt | null> => {
+    try {
+      const response: RpcObject | null = await sendNullable(
+        constructRpcPayload(EthMethod.GetTransactionReceipt, [transactionHash]),
+        state,
+        '[chain/getTransactionReceipt]',
+        options
+      );
+
+      return response ? format.toReceipt(response) : null;
+    } catch (e) {
+      state.logger.error('[chain/getTransactionReceipt] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches the bytecode deployed at an address.
+   *
+   * @param {string} accountAddress - The address or ENS name.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<string>} The bytecode, '0x' for accounts without code.
+   *
+   * @example
+   * const data = chain.getCode('0xCONTRACT_ADDRESS', state);
+   */
+  getCode: async (
+    accountAddress: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<string> => {
+    accountAddress = await ens.toAddress(
+      accountAddress,
+      '[chain/getCode]',
+      state,
+      options
+    );
+
+    try {
+      return await rpc.send<string>(
+        constructRpcPayload(EthMethod.GetCode, [
+          accountAddress,
+          format.toBlockParameter(options.block),
+        ]),
+        state,
+        '[chain/getCode]',
+        options
+      );
+    } catch (e) {
+      state.logger.error('[chain/getCode] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches the value of a storage slot of a contract.
+   *
+   * @param {string} accountAddress - The contract address or ENS name.
+   * @param {bigint | number | string} slot - The storage slot, as a number or `0x` prefixed hex string.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<string>} The 32 byte value of the slot.
+   *
+   * @example
+   * const data = chain.getStorageAt('0xCONTRACT_ADDRESS', 0, state);
+   */
+  getStorageAt: async (
+    accountAddress: string,
+    slot: bigint | number | string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<string> => {
+    accountAddress = await ens.toAddress(
+      accountAddress,
+      '[chain/getStorageAt]',
+      state,
+      options
+    );
+
+    try {
+      return await rpc.send<string>(
+        constructRpcPayload(EthMethod.GetStorageAt, [
+          accountAddress,
+          typeof slot === 'string' ? slot : hex.fromNumber(slot),
+          format.toBlockParameter(options.block),
+        ]),
+        state,
+        '[chain/getStorageAt]',
+        options
+      );
+    } catch (e) {
+      state.logger.error('[chain/getStorageAt] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches the number of transactions sent from an address, which is also its next nonce.
+   *
+   * @param {string} accountAddress - The address or ENS name.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. 'pending' to include pending transactions.
+   * @returns {Promise<number>} The transaction count.
+   *
+   * @example
+   * const data = chain.getTransactionCount('0xACCOUNT_ADDRESS', state, { block: 'pending' });
+   */
+  getTransactionCount: async (
+    accountAddress: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<number> => {
+    accountAddress = await ens.toAddress(
+      accountAddress,
+      '[chain/getTransactionCount]',
+      state,
+      options
+    );
+
+    try {
+      const response: string = await rpc.send<string>(
+        constructRpcPayload(EthMethod.GetTransactionCount, [
+          accountAddress,
+          format.toBlockParameter(options.block),
+        ]),
+        state,
+        '[chain/getTransactionCount]',
+        options
+      );
+
+      return Number(response);
+    } catch (e) {
+      state.logger.error('[chain/getTransactionCount] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches the current gas price.
+   *
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<bigint>} The gas price in wei.
+   *
+   * @example
+   * const data = chain.getGasPrice(state);
+   */
+  getGasPrice: async (
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<bigint> => {
+    try {
+      const response: string = await rpc.send<string>(
+        constructRpcPayload(EthMethod.GasPrice),
+        state,
+        '[chain/getGasPrice]',
+        options
+      );
+
+      return BigInt(response);
+    } catch (e) {
+      state.logger.error('[chain/getGasPrice] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches the base fees, gas usage ratios and priority fee percentiles of a range of blocks.
+   *
+   * @param {number} blockCount - The number of blocks, ending at `options.block`.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {FeeHistoryOptions} [options] - Optional. The newest block of the range, defaults to 'latest', and the reward percentiles.
+   * @returns {Promise<FeeHistory>} The fee history.
+   *
+   * @example
+   * const data = chain.getFeeHistory(10, state, { rewardPercentiles: [25, 50, 75] });
+   */
+  getFeeHistory: async (
+    blockCount: number,
+    state: State,
+    { rewardPercentiles = [], ...options }: FeeHistoryOptions = {}
+  ): Promise<FeeHistory> => {
+    try {
+      const response: RpcObject = await rpc.send<RpcObject>(
+        constructRpcPayload(EthMethod.FeeHistory, [
+          hex.fromNumber(blockCount),
+          format.toBlockParameter(options.block),
+          rewardPercentiles,
+        ]),
+        state,
+        '[chain/getFeeHistory]',
+        options
+      );
+
+      return format.toFeeHistory(response);
+    } catch (e) {
+      state.logger.error('[chain/getFeeHistory] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches a priority fee likely to get a transaction included in the next blocks.
+   *
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<bigint>} The priority fee per gas in wei.
+   *
+   * @example
+   * const data = chain.getMaxPriorityFeePerGas(state);
+   */
+  getMaxPriorityFeePerGas: async (
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<bigint> => {
+    try {
+      const response: string = await rpc.send<string>(
+        constructRpcPayload(EthMethod.MaxPriorityFeePerGas),
+        state,
+        '[chain/getMaxPriorityFeePerGas]',
+        options
+      );
+
+      return BigInt(response);
+    } catch (e) {
+      state.logger.error('[chain/getMaxPriorityFeePerGas] error:', e);
+      throw e;
+    }
+  },
+};
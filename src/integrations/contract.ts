@@ -0,0 +1,306 @@
+import { State } from '../lib/client/ethereumClient.js';
+import { Abi, AbiFunction, AbiValue } from '../lib/interfaces/abi.js';
+import {
+  CallRequest,
+  ContractCallRequest,
+  RawCallRequest,
+} from '../lib/interfaces/call.js';
+import { Contract } from '../lib/interfaces/contract.js';
+import { EthMethod } from '../lib/interfaces/ethMethods.js';
+import {
+  JsonRpcRequestPayload,
+  ReadOptions,
+} from '../lib/interfaces/jsonRpcRequest.js';
+
+import { abi as abiCoder } from '../utils/abi.js';
+import { address } from '../utils/address.js';
+import { constructEthMethodPayload } from '../utils/ethCall.js';
+import { format } from '../utils/formatting.js';
+import { hex } from '../utils/hex.js';
+import { ens } from './ens.js';
+import { rpc } from './rpc.js';
+
+/**
+ * The keys of {@link ReadOptions}, the only keys of a trailing argument taken as the options of a contract method.
+ */
+const READ_OPTIONS_KEYS: string[] = ['block', 'timeout', 'signal'];
+
+/**
+ * Checks whether the trailing argument of a contract method holds read options rather than a tuple argument.
+ *
+ * @param {unknown} value - The trailing argument.
+ * @returns {boolean} True when the value is an object with read options keys only.
+ */
+const isReadOptions = (value: unknown): value is ReadOptions =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.keys(value).every((key: string): boolean =>
+    READ_OPTIONS_KEYS.includes(key)
+  );
+
+/**
+ * Decodes the result of a function call: nothing, a single value or a list of values.
+ *
+ * @param {AbiFunction} fn - The ABI entry of the function.
+ * @param {string} data - The `0x` prefixed result of the call.
+ * @returns {AbiValue | AbiValue[] | void} The decoded result.
+ */
+const decodeResult = (
+  fn: AbiFunction,
+  data: string
+): AbiValue | AbiValue[] | void => {
+  const outputs: AbiValue[] = abiCoder.decodeParameters(fn.outputs ?? [], data);
+
+  if (outputs.length === 0) {
+    return;
+  }
+
+  return outputs.length === 1 ? outputs[0] : outputs;
+};
+
+/**
+ * Generic contract integration for calling read functions described by a JSON ABI.
+ *
+ * @fileoverview This file provides helper functions for Ethereum JSON-RPC interactions with arbitrary contracts.
+ * @namespace contract
+ */
+export const contract = {
+  /**
+   * Calls a view or pure function of a contract and decodes its result.
+   *
+   * @param {string} contractAddress - The contract address.
+   * @param {AbiFunction} fn - The ABI entry of the function to call.
+   * @param {AbiValue[]} args - The function arguments.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @param {Abi} [contractAbi] - Optional. The ABI of the contract, used to decode its custom errors.
+   * @returns {Promise<AbiValue | AbiValue[] | void>} The decoded result: nothing, a single value or a list of values.
+   *
+   * @example
+   * const data = contract.read('0xCONTRACT_ADDRESS', balanceOfAbiItem, ['0xACCOUNT_ADDRESS'], state);
+   */
+  read: async (
+    contractAddress: string,
+    fn: AbiFunction,
+    args: readonly AbiValue[],
+    state: State,
+    options: ReadOptions = {},
+    contractAbi: Abi = [fn]
+  ): Promise<AbiValue | AbiValue[] | void> => {
+    const param: string = abiCoder.encodeFunctionData(
+      abiCoder.getSelector(fn),
+      fn.inputs,
+      args
+    );
+    const data: JsonRpcRequestPayload = constructEthMethodPayload(
+      {
+        to: contractAddress,
+        data: param,
+      },
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
+    );
+
+    try {
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        `[contract/${fn.name}]`,
+        options,
+        contractAbi
+      );
+
+      return decodeResult(fn, response);
+    } catch (e) {
+      state.logger.error(`[contract/${fn.name}] error:`, e);
+      throw e;
+    }
+  },
+
+  /**
+   * Performs an `eth_call`, either with raw calldata or with a function described by a JSON ABI.
+   * Reverts are decoded as `Error(string)`, `Panic(uint256)` or a custom error of the given ABI.
+   *
+   * @param {CallRequest} request - The call: the contract address, the calldata or the ABI, function name and arguments, and optionally `from`, `value` and `gas`.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<AbiValue | AbiValue[] | string | void>} The decoded result for an ABI call, the raw hex result otherwise.
+   * @throws {ContractRevertError} When the call reverts.
+   *
+   * @example
+   * const data = contract.call({ to: '0xCONTRACT_ADDRESS', abi: vaultAbi, functionName: 'withdraw', args: [BigInt(1)], from: '0xACCOUNT_ADDRESS' }, state);
+   */
+  call: async (
+    request: CallRequest,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<AbiValue | AbiValue[] | string | void> => {
+    const fn: AbiFunction | undefined =
+      'abi' in request
+        ? abiCoder.findFunction(
+            request.abi,
+            request.functionName,
+            (request.args ?? []).length
+          )
+        : undefined;
+
+    if ('abi' in request && !fn) {
+      throw new Error(
+        `[contract/call] error: Function ${request.functionName} with ${
+          (request.args ?? []).length
+        } arguments not found in ABI`
+      );
+    }
+
+    const context: string = fn ? `[contract/${fn.name}]` : '[contract/call]';
+    const param: string | undefined = fn
+      ? abiCoder.encodeFunctionData(
+          abiCoder.getSelector(fn),
+          fn.inputs,
+          (request as ContractCallRequest).args ?? []
+        )
+      : (request as RawCallRequest).data;
+    const data: JsonRpcRequestPayload = constructEthMethodPayload(
+      {
+        to: request.to,
+        ...(param ? { data: param } : {}),
+        ...(request.from ? { from: request.from } : {}),
+        ...(request.value !== undefined
+          ? { value: hex.fromNumber(request.value) }
+          : {}),
+        ...(request.gas !== undefined
+          ? { gas: hex.fromNumber(request.gas) }
+          : {}),
+      },
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
+    );
+
+    try {
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        context,
+        options,
+        'abi' in request ? request.abi : request.errorAbi
+      );
+
+      return fn ? decodeResult(fn, response) : response;
+    } catch (e) {
+      state.logger.error(`${context} error:`, e);
+      throw e;
+    }
+  },
+
+  /**
+   * Creates a contract instance whose methods are generated from the view and pure functions of a JSON ABI.
+   * Overloaded functions are resolved by the number of arguments, and each method accepts
+   * {@link ReadOptions} as an optional extra argument, an object with no other key than `block`, `timeout` and `signal`.
+   *
+   * @param {string} contractAddress - The contract address or ENS name, resolved on each call.
+   * @param {Abi} contractAbi - The JSON ABI of the contract.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @returns {Contract<Abi>} The contract instance.
+   * @throws {InvalidAddressError} When the contract address is neither a valid address nor an ENS name.
+   * @throws {Error} When the ABI has a view or pure function named `address` or `abi`, which would be shadowed by the
+   * properties of the instance. Use `contract.call` for those functions.
+   *
+   * @example
+   * const token = contract.create('0xCONTRACT_ADDRESS', erc20Abi, state);
+   * const balance = await token.balanceOf('0xACCOUNT_ADDRESS', { block: 19000000 });
+   */
+  create: <A extends Abi>(
+    contractAddress: string,
+    contractAbi: A,
+    state: State
+  ): Contract<A> => {
+    const target: string =
+      String(contractAddress).includes('.') && !contractAddress.startsWith('0x')
+        ? contractAddress
+        : address.validate(contractAddress, '[contract/create]', {
+            strict: state.strictAddresses,
+          });
+    const overloads: { [name: string]: AbiFunction[] } = {};
+
+    contractAbi.forEach((item: A[number]): void => {
+      if (
+        item.type === 'function' &&
+        (item.stateMutability === 'view' || item.stateMutability === 'pure')
+      ) {
+        overloads[item.name] = [...(overloads[item.name] ?? []), item];
+      }
+    });
+
+    ['address', 'abi'].forEach((name: string): void => {
+      if (overloads[name]) {
+        throw new Error(
+          `[contract/create] error: The ABI function ${name} collides with the ${name} property of the contract instance`
+        );
+      }
+    });
+
+    const methods: {
+      [name: string]: (...args: (AbiValue | ReadOptions)[]) => Promise<unknown>;
+    } = {};
+
+    Object.entries(overloads).forEach(
+      ([name, fns]: [string, AbiFunction[]]): void => {
+        const read = async (
+          fn: AbiFunction,
+          args: AbiValue[],
+          options: ReadOptions
+        ): Promise<unknown> =>
+          contract.read(
+            await ens.toAddress(target, `[contract/${name}]`, state, options),
+            fn,
+            args,
+            state,
+            options,
+            contractAbi
+          );
+
+        methods[name] = (
+          ...args: (AbiValue | ReadOptions)[]
+        ): Promise<unknown> => {
+          const exact: AbiFunction | undefined = fns.find(
+            (candidate: AbiFunction): boolean =>
+              candidate.inputs.length === args.length
+          );
+          const withOptions: AbiFunction | undefined = isReadOptions(
+            args[args.length - 1]
+          )
+            ? fns.find(
+                (candidate: AbiFunction): boolean =>
+                  candidate.inputs.length === args.length - 1
+              )
+            : undefined;
+
+          if (exact) {
+            return read(exact, args as AbiValue[], {});
+          }
+
+          if (withOptions) {
+            return read(
+              withOptions,
+              args.slice(0, -1) as AbiValue[],
+              args[args.length - 1] as ReadOptions
+            );
+          }
+
+          return Promise.reject(
+            new Error(
+              `[contract/${name}] error: No overload accepts ${args.length} arguments`
+            )
+          );
+        };
+      }
+    );
+
+    return {
+      ...methods,
+      address: target,
+      abi: contractAbi,
+    } as unknown as Contract<A>;
+  },
+};
@@ -0,0 +1,693 @@
+import axios, { AxiosResponse } from 'axios';
+
+import { State } from '../lib/client/ethereumClient.js';
+import {
+  ContractRevertError,
+  EmptyResultError,
+  HttpTransportError,
+  InvalidAddressError,
+} from '../lib/errors/errors.js';
+import { Abi } from '../lib/interfaces/abi.js';
+import {
+  Ens,
+  Erc1155,
+  Erc721,
+  EthMethod,
+} from '../lib/interfaces/ethMethods.js';
+import {
+  JsonRpcRequestPayload,
+  ReadOptions,
+} from '../lib/interfaces/jsonRpcRequest.js';
+
+import { abi } from '../utils/abi.js';
+import { address } from '../utils/address.js';
+import { contentHash } from '../utils/contentHash.js';
+import {
+  constructEthMethodPayload,
+  constructRequestConfig,
+} from '../utils/ethCall.js';
+import { format } from '../utils/formatting.js';
+import { hex } from '../utils/hex.js';
+import { dnsEncode, namehash, normalize } from '../utils/namehash.js';
+import { rpc } from './rpc.js';
+
+/**
+ * The address of the ENS registry, identical on mainnet and the public testnets.
+ */
+export const ENS_REGISTRY_ADDRESS: string =
+  '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e';
+
+const ZERO_ADDRESS: string = `0x${'00'.repeat(20)}`;
+const MAX_OFFCHAIN_LOOKUPS: number = 4;
+
+/**
+ * The EIP-3668 error raised by contracts that resolve data through an offchain gateway.
+ */
+const offchainLookupAbi: Abi = [
+  {
+    type: 'error',
+    name: 'OffchainLookup',
+    inputs: [
+      { name: 'sender', type: 'address' },
+      { name: 'urls', type: 'string[]' },
+      { name: 'callData', type: 'bytes' },
+      { name: 'callbackFunction', type: 'bytes4' },
+      { name: 'extraData', type: 'bytes' },
+    ],
+  },
+];
+
+/**
+ * Represents the resolver of a name.
+ *
+ * @interface
+ * @property {string} address - The resolver address.
+ * @property {boolean} wildcard - Whether the resolver implements the ENSIP-10 `resolve` function.
+ */
+interface Resolver {
+  address: string;
+  wildcard: boolean;
+}
+
+/**
+ * Fetches the response of a CCIP-Read gateway, trying every URL in order. Client errors (4xx) stop the lookup,
+ * other failures move on to the next URL.
+ *
+ * @param {string} sender - The contract that requested the lookup.
+ * @param {string[]} urls - The gateway URL templates.
+ * @param {string} callData - The data to send to the gateway.
+ * @param {ReadOptions} options - The request timeout and abort signal.
+ * @returns {Promise<string>} The `0x` prefixed data returned by the gateway.
+ */
+const fetchOffchain = async (
+  sender: string,
+  urls: string[],
+  callData: string,
+  options: ReadOptions
+): Promise<string> => {
+  let lastError: unknown = new Error(
+    '[ens/ccipRead] error: No gateway URLs provided'
+  );
+
+  for (const template of urls) {
+    const url: string = template
+      .replace(/\{sender\}/g, sender.toLowerCase())
+      .replace(/\{data\}/g, callData);
+
+    try {
+      const response: AxiosResponse<{ data?: unknown }> = template.includes(
+        '{data}'
+      )
+        ? await axios.get(url, constructRequestConfig(options))
+        : await axios.post(
+            url,
+            { sender: sender.toLowerCase(), data: callData },
+            constructRequestConfig(options)
+          );
+
+      if (!hex.isHex(response.data?.data)) {
+        throw new Error(
+          `[ens/ccipRead] error: Invalid response from gateway ${template}`
+        );
+      }
+      return response.data.data;
+    } catch (e) {
+      lastError = axios.isAxiosError(e)
+        ? HttpTransportError.from('[ens/ccipRead]', e)
+        : e;
+
+      const status: number | undefined = axios.isAxiosError(e)
+        ? e.response?.status
+        : undefined;
+      if (status !== undefined && status >= 400 && status < 500) {
+        break;
+      }
+    }
+  }
+
+  throw lastError;
+};
+
+/**
+ * Performs an `eth_call`, following EIP-3668 `OffchainLookup` reverts through their gateways (CCIP-Read).
+ *
+ * @param {string} to - The contract address.
+ * @param {string} data - The calldata.
+ * @param {State} state - The client state holding the ethereum instance and the logger.
+ * @param {string} context - The module and function of the call, e.g. '[ens/resolveName]'.
+ * @param {ReadOptions} options - The block to read the state at, the request timeout and abort signal.
+ * @param {number} [lookups=0] - Optional. The number of offchain lookups already followed.
+ * @returns {Promise<string>} The result of the call.
+ */
+const call = async (
+  to: string,
+  data: string,
+  state: State,
+  context: string,
+  options: ReadOptions,
+  lookups: number = 0
+): Promise<string> => {
+  const payload: JsonRpcRequestPayload = constructEthMethodPayload(
+    { to, data },
+    EthMethod.Call,
+    format.toBlockParameter(options.block)
+  );
+
+  try {
+    return await rpc.send<string>(
+      payload,
+      state,
+      context,
+      options,
+      offchainLookupAbi
+    );
+  } catch (e) {
+    if (
+      !(e instanceof ContractRevertError) ||
+      e.errorName !== 'OffchainLookup'
+    ) {
+      throw e;
+    }
+
+    const [sender, urls, callData, callbackFunction, extraData] =
+      e.args as string[];
+    if (sender.toLowerCase() !== to.toLowerCase()) {
+      throw new Error(
+        `${context} error: OffchainLookup sender ${sender} does not match ${to}`
+      );
+    }
+    if (lookups >= MAX_OFFCHAIN_LOOKUPS) {
+      throw new Error(
+        `${context} error: More than ${MAX_OFFCHAIN_LOOKUPS} offchain lookups`
+      );
+    }
+
+    const response: string = await fetchOffchain(
+      sender,
+      urls as unknown as string[],
+      callData,
+      options
+    );
+    return call(
+      to,
+      abi.encodeFunctionData(
+        callbackFunction,
+        ['bytes', 'bytes'],
+        [response, extraData]
+      ),
+      state,
+      context,
+      options,
+      lookups + 1
+    );
+  }
+};
+
+/**
+ * Finds the resolver of a name, walking up to its parents for ENSIP-10 wildcard resolution.
+ *
+ * @param {string} name - The normalized name.
+ * @param {State} state - The client state holding the ethereum instance and the logger.
+ * @param {string} context - The module and function of the lookup.
+ * @param {ReadOptions} options - The block to read the state at.
+ * @returns {Promise<Resolver | null>} The resolver, or null when the name has none.
+ */
+const findResolver = async (
+  name: string,
+  state: State,
+  context: string,
+  options: ReadOptions
+): Promise<Resolver | null> => {
+  let current: string = name;
+
+  while (current) {
+    const response: string = await call(
+      ENS_REGISTRY_ADDRESS,
+      abi.encodeFunctionData(Ens.Resolver, ['bytes32'], [namehash(current)]),
+      state,
+      context,
+      options
+    );
+    const [resolver] = abi.decodeParameters(['address'], response);
+
+    if (resolver !== ZERO_ADDRESS) {
+      const wildcard: boolean = await call(
+        resolver as string,
+        abi.encodeFunctionData(
+          Ens.SupportsInterface,
+          ['bytes4'],
+          [Ens.Resolve]
+        ),
+        state,
+        context,
+        options
+      ).then(
+        (result: string): boolean =>
+          abi.decodeParameters(['bool'], result)[0] as boolean,
+        (): boolean => false
+      );
+
+      return current === name || wildcard
+        ? { address: resolver as string, wildcard }
+        : null;
+    }
+
+    current = current.includes('.')
+      ? current.slice(current.indexOf('.') + 1)
+      : '';
+  }
+
+  return null;
+};
+
+/**
+ * Reads a record of a name from its resolver, through the ENSIP-10 `resolve` function for wildcard resolvers.
+ *
+ * @param {string} name - The name.
+ * @param {string} selector - The selector of the record function, e.g. `addr(bytes32)`.
+ * @param {string[]} types - The types of the record function arguments after the node.
+ * @param {AbiValue[]} args - The record function arguments after the node.
+ * @param {State} state - The client state holding the ethereum instance and the logger.
+ * @param {string} context - The module and function of the lookup.
+ * @param {ReadOptions} options - The block to read the state at.
+ * @returns {Promise<string | null>} The ABI encoded record, or null when the name has no resolver or the resolver reverts
+ * or returns no data.
+ */
+const readRecord = async (
+  name: string,
+  selector: string,
+  types: string[],
+  args: string[],
+  state: State,
+  context: string,
+  options: ReadOptions
+): Promise<string | null> => {
+  const normalized: string = normalize(name);
+  const resolver: Resolver | null = await findResolver(
+    normalized,
+    state,
+    context,
+    options
+  );
+  if (!resolver) {
+    return null;
+  }
+
+  const data: string = abi.encodeFunctionData(
+    selector,
+    ['bytes32', ...types],
+    [namehash(normalized), ...args]
+  );
+
+  try {
+    if (!resolver.wildcard) {
+      const record: string = await call(
+        resolver.address,
+        data,
+        state,
+        context,
+        options
+      );
+      return record === '0x' ? null : record;
+    }
+
+    const response: string = await call(
+      resolver.address,
+      abi.encodeFunctionData(
+        Ens.Resolve,
+        ['bytes', 'bytes'],
+        [dnsEncode(normalized), data]
+      ),
+      state,
+      context,
+      options
+    );
+    const [result] = abi.decodeParameters(['bytes'], response);
+    return result === '0x' ? null : (result as string);
+  } catch (e) {
+    if (e instanceof ContractRevertError || e instanceof EmptyResultError) {
+      return null;
+    }
+    throw e;
+  }
+};
+
+/**
+ * Converts the URI of an avatar or NFT metadata into a URL that can be fetched over HTTP.
+ *
+ * @param {string} uri - The URI, e.g. 'ipfs://Qm...'.
+ * @returns {string} The URL.
+ */
+const toGatewayUrl = (uri: string): string => {
+  if (uri.startsWith('ipfs://')) {
+    return `https://ipfs.io/ipfs/${uri.slice(7).replace(/^ipfs\//, '')}`;
+  }
+  if (uri.startsWith('ipns://')) {
+    return `https://ipfs.io/ipns/${uri.slice(7)}`;
+  }
+  if (uri.startsWith('ar://')) {
+    return `https://arweave.net/${uri.slice(5)}`;
+  }
+  return uri;
+};
+
+/**
+ * ENS integration for resolving names, reverse records and other records of a name.
+ *
+ * @fileoverview This file provides helper functions for Ethereum Name Service lookups, including CCIP-Read.
+ * @namespace ens
+ */
+export const ens = {
+  /**
+   * Resolves a name to the address of its `addr` record.
+   *
+   * @param {string} name - The name, e.g. 'vitalik.eth'.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<string | null>} The checksummed address, or null when the name does not resolve.
+   *
+   * @example
+   * const data = ens.resolveName('vitalik.eth', state);
+   */
+  resolveName: async (
+    name: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<string | null> => {
+    try {
+      const response: string | null = await readRecord(
+        name,
+        Ens.Addr,
+        [],
+        [],
+        state,
+        '[ens/resolveName]',
+        options
+      );
+      if (!response) {
+        return null;
+      }
+
+      const [result] = abi.decodeParameters(['address'], response);
+      return result === ZERO_ADDRESS
+        ? null
+        : address.getAddress(result as string);
+    } catch (e) {
+      state.logger.error('[ens/resolveName] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Looks up the primary name of an address from its reverse record. The name is only returned when it resolves
+   * back to the same address.
+   *
+   * @param {string} accountAddress - The address.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<string | null>} The name, or null when the address has no verified primary name.
+   *
+   * @example
+   * const data = ens.lookupAddress('0xACCOUNT_ADDRESS', state);
+   */
+  lookupAddress: async (
+    accountAddress: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<string | null> => {
+    const account: string = address.validate(
+      accountAddress,
+      '[ens/lookupAddress]',
+      { strict: state.strictAddresses }
+    );
+
+    try {
+      const response: string | null = await readRecord(
+        `${account.slice(2).toLowerCase()}.addr.reverse`,
+        Ens.Name,
+        [],
+        [],
+        state,
+        '[ens/lookupAddress]',
+        options
+      );
+      if (!response) {
+        return null;
+      }
+
+      const [name] = abi.decodeParameters(['string'], response);
+      if (!name) {
+        return null;
+      }
+
+      const resolved: string | null = await ens.resolveName(
+        name as string,
+        state,
+        options
+      );
+      return resolved === account ? (name as string) : null;
+    } catch (e) {
+      state.logger.error('[ens/lookupAddress] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches a text record of a name, e.g. 'url', 'com.twitter' or 'avatar'.
+   *
+   * @param {string} name - The name.
+   * @param {string} key - The key of the text record.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<string | null>} The text record, or null when it is not set.
+   *
+   * @example
+   * const data = ens.getText('vitalik.eth', 'url', state);
+   */
+  getText: async (
+    name: string,
+    key: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<string | null> => {
+    try {
+      const response: string | null = await readRecord(
+        name,
+        Ens.Text,
+        ['string'],
+        [key],
+        state,
+        '[ens/getText]',
+        options
+      );
+      if (!response) {
+        return null;
+      }
+
+      const [result] = abi.decodeParameters(['string'], response);
+      return (result as string) || null;
+    } catch (e) {
+      state.logger.error('[ens/getText] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches the avatar of a name as a URL (ENSIP-12). IPFS and Arweave URIs are mapped to public gateways, and
+   * NFT avatars (`eip155:1/erc721:0x.../1`) are resolved to the image of the token, provided the name owns it.
+   *
+   * @param {string} name - The name.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, the request timeout and abort signal.
+   * @returns {Promise<string | null>} The avatar URL, or null when it is not set or the NFT is not owned by the name.
+   *
+   * @example
+   * const data = ens.getAvatar('vitalik.eth', state);
+   */
+  getAvatar: async (
+    name: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<string | null> => {
+    try {
+      const avatar: string | null = await ens.getText(
+        name,
+        'avatar',
+        state,
+        options
+      );
+      if (!avatar) {
+        return null;
+      }
+
+      const nft: RegExpMatchArray | null = avatar.match(
+        /^eip155:\d+\/(erc721|erc1155):(0x[0-9a-fA-F]{40})\/(\d+)$/i
+      );
+      if (!nft) {
+        return toGatewayUrl(avatar);
+      }
+
+      const [, standard, contractAddress, tokenId] = nft;
+      const owner: string | null = await ens.resolveName(name, state, options);
+      if (!owner) {
+        return null;
+      }
+
+      let uri: string;
+      if (standard.toLowerCase() === 'erc721') {
+        const [tokenOwner] = abi.decodeParameters(
+          ['address'],
+          await call(
+            contractAddress,
+            abi.encodeFunctionData(Erc721.OwnerOf, ['uint256'], [tokenId]),
+            state,
+            '[ens/getAvatar]',
+            options
+          )
+        );
+        if (address.getAddress(tokenOwner as string) !== owner) {
+          return null;
+        }
+
+        [uri] = abi.decodeParameters(
+          ['string'],
+          await call(
+            contractAddress,
+            abi.encodeFunctionData(Erc721.TokenURI, ['uint256'], [tokenId]),
+            state,
+            '[ens/getAvatar]',
+            options
+          )
+        ) as string[];
+      } else {
+        const [balance] = abi.decodeParameters(
+          ['uint256'],
+          await call(
+            contractAddress,
+            abi.encodeFunctionData(
+              Erc1155.BalanceOf,
+              ['address', 'uint256'],
+              [owner, tokenId]
+            ),
+            state,
+            '[ens/getAvatar]',
+            options
+          )
+        );
+        if (balance === BigInt(0)) {
+          return null;
+        }
+
+        const [template] = abi.decodeParameters(
+          ['string'],
+          await call(
+            contractAddress,
+            abi.encodeFunctionData(Erc1155.Uri, ['uint256'], [tokenId]),
+            state,
+            '[ens/getAvatar]',
+            options
+          )
+        );
+        uri = (template as string).replace(
+          /\{id\}/g,
+          BigInt(tokenId).toString(16).padStart(64, '0')
+        );
+      }
+
+      let metadata: { image?: string; image_url?: string; image_data?: string };
+      try {
+        const response: AxiosResponse<typeof metadata> = await axios.get(
+          toGatewayUrl(uri),
+          constructRequestConfig(options)
+        );
+        metadata = response.data;
+      } catch (e) {
+        throw HttpTransportError.from('[ens/getAvatar]', e);
+      }
+
+      const image: string | undefined =
+        metadata?.image ?? metadata?.image_url ?? metadata?.image_data;
+      return image ? toGatewayUrl(image) : null;
+    } catch (e) {
+      state.logger.error('[ens/getAvatar] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches the content hash of a name (ENSIP-7), e.g. the IPFS hash of a website.
+   *
+   * @param {string} name - The name.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<string | null>} The content URL, e.g. 'ipfs://Qm...', or null when it is not set.
+   *
+   * @example
+   * const data = ens.getContentHash('vitalik.eth', state);
+   */
+  getContentHash: async (
+    name: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<string | null> => {
+    try {
+      const response: string | null = await readRecord(
+        name,
+        Ens.ContentHash,
+        [],
+        [],
+        state,
+        '[ens/getContentHash]',
+        options
+      );
+      if (!response) {
+        return null;
+      }
+
+      const [result] = abi.decodeParameters(['bytes'], response);
+      return result === '0x' ? null : contentHash.decode(result as string);
+    } catch (e) {
+      state.logger.error('[ens/getContentHash] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Resolves the address argument of a client method, which may be an address or an ENS name.
+   *
+   * @param {string} value - The address or name.
+   * @param {string} context - The module and function of the caller, e.g. '[erc20/getBalanceOf]'.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to resolve the name at, defaults to 'latest'.
+   * @returns {Promise<string>} The checksummed address.
+   * @throws {InvalidAddressError} When the value is neither a valid address nor a name that resolves to an address.
+   *
+   * @example
+   * const data = await ens.toAddress('vitalik.eth', '[erc20/getBalance]', state);
+   */
+  toAddress: async (
+    value: string,
+    context: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<string> => {
+    if (!String(value).includes('.') || value.startsWith('0x')) {
+      return address.validate(value, context, {
+        strict: state.strictAddresses,
+      });
+    }
+
+    const resolved: string | null = await ens.resolveName(
+      value,
+      state,
+      options
+    );
+    if (!resolved) {
+      throw new InvalidAddressError(
+        `${context} error: ENS name ${value} does not resolve to an address`,
+        value
+      );
+    }
+    return resolved;
+  },
+};
@@ -1,11 +1,24 @@
-import { AxiosInstance, AxiosResponse } from 'axios';
-
+import { State } from '../lib/client/ethereumClient.js';
 import { Erc1155, EthMethod } from '../lib/interfaces/ethMethods.js';
-import { JsonRpcRequestPayload } from '../lib/interfaces/jsonRpcRequest.js';
-import { JsonRpcResponse } from '../lib/interfaces/jsonRpcResponse.js';
+import {
+  JsonRpcRequestPayload,
+  ReadOptions,
+} from '../lib/interfaces/jsonRpcRequest.js';
+import { DecodedLog } from '../lib/interfaces/logs.js';
+import { TokenAmount } from '../lib/interfaces/tokenAmount.js';
+import {
+  Erc1155Transfer,
+  TransferOptions,
+  TransferPage,
+} from '../lib/interfaces/transfers.js';
 
+import { abi } from '../utils/abi.js';
 import { constructEthMethodPayload } from '../utils/ethCall.js';
 import { format } from '../utils/formatting.js';
+import { ens } from './ens.js';
+import { ERC1155_EVENTS } from './logs.js';
+import { rpc } from './rpc.js';
+import { transfers } from './transfers.js';
 
 /**
  * erc1155 integration for managing Ethereum RPC requests related to erc1155 tokens.
@@ -17,11 +30,12 @@ export const erc1155 = {
   /**
    * Fetches the token balance for a specific token ID at a given account address.
    *
-   * @param {string} accountAddress - The account address to fetch the token balance from.
-   * @param {string} contractAddress - The contract address of the erc1155 token.
+   * @param {string} accountAddress - The account address or ENS name to fetch the token balance from.
+   * @param {string} contractAddress - The contract address or ENS name of the erc1155 token.
    * @param {string} tokenId - The specific token ID to check the balance of.
-   * @param {AxiosInstance} ethereumInstance - The ethereum client instance.
-   * @returns {Promise<string>} The balance of the erc1155 token for the specific token ID at the given account address.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<TokenAmount>} The balance of the erc1155 token for the specific token ID at the given account address.
    *
    * @example
    * const balance = erc1155.getBalanceOf('0xACCOUNT_ADDRESS', '0xCONTRACT_ADDRESS', 'TOKEN_ID', ethereumClient);
@@ -30,41 +44,48 @@ export const erc1155 = {
     accountAddress: string,
     contractAddress: string,
     tokenId: string,
-    ethereumInstance: AxiosInstance
-  ): Promise<string> => {
-    const paddedTokenId = tokenId.substring(2).padStart(64, '0');
-    const paddedAddress = accountAddress.substring(2).padStart(64, '0');
-    const param = `${Erc1155.BalanceOf}${paddedAddress}${paddedTokenId}`;
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<TokenAmount> => {
+    accountAddress = await ens.toAddress(
+      accountAddress,
+      '[erc1155/getBalanceOf]',
+      state,
+      options
+    );
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc1155/getBalanceOf]',
+      state,
+      options
+    );
+
+    const param: string = abi.encodeFunctionData(
+      Erc1155.BalanceOf,
+      ['address', 'uint256'],
+      [accountAddress, BigInt(tokenId)]
+    );
     const data: JsonRpcRequestPayload = constructEthMethodPayload(
       {
         to: contractAddress,
         data: param,
       },
-      EthMethod.Call
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
     );
 
     try {
-      const response: AxiosResponse<JsonRpcResponse<string>> =
-        await ethereumInstance.post<JsonRpcResponse<string>>('', data);
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        '[erc1155/getBalanceOf]',
+        options
+      );
 
-      if (response.data.error) {
-        console.error(
-          '[erc1155/getBalanceOf] Error:',
-          response.data.error.message
-        );
-        throw new Error(
-          `[erc1155/getBalanceOf] Error: ${response.data.error.message}`
-        );
-      }
-
-      if (!response.data.result) {
-        console.error('[erc1155/getBalanceOf] error: No result returned');
-        throw new Error('[erc1155/getBalanceOf] error: No result returned');
-      }
-
-      return format.formatTokenAmount(response.data.result, 0);
+      const [balance] = abi.decodeParameters(['uint256'], response);
+      return format.toTokenAmount(balance as bigint, 0);
     } catch (error) {
-      console.error('[erc1155/getBalanceOf] Exception:', error);
+      state.logger.error('[erc1155/getBalanceOf] error:', error);
       throw error;
     }
   },
@@ -72,11 +93,12 @@ export const erc1155 = {
   /**
    * Fetches the token balances for multiple token IDs at multiple account addresses.
    *
-   * @param {string[]} accountAddresses - The account addresses to fetch the token balances from.
-   * @param {string} contractAddress - The contract address of the erc1155 token.
+   * @param {string[]} accountAddresses - The account addresses or ENS names to fetch the token balances from.
+   * @param {string} contractAddress - The contract address or ENS name of the erc1155 token.
    * @param {string[]} tokenIds - The specific token IDs to check the balances of.
-   * @param {AxiosInstance} ethereumInstance - The ethereum client instance.
-   * @returns {Promise<string>} The balances of the erc1155 tokens for the specified token IDs at the given account addresses.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<TokenAmount[]>} The balances of the erc1155 tokens, one per account address and token ID pair.
    *
    * @example
    * const balances = erc1155.getBalanceOfBatch('0xACCOUNT_ADDRESS', '0xCONTRACT_ADDRESS', ['TOKEN_ID_1', 'TOKEN_ID_2'], ethereumClient);
@@ -85,46 +107,101 @@ export const erc1155 = {
     accountAddresses: string[],
     contractAddress: string,
     tokenIds: string[],
-    ethereumInstance: AxiosInstance
-  ): Promise<string> => {
-    const { addresses, ids } = format.concatAddressesAndIds(
-      accountAddresses,
-      tokenIds
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<TokenAmount[]> => {
+    accountAddresses = await Promise.all(
+      accountAddresses.map(
+        (accountAddress: string): Promise<string> =>
+          ens.toAddress(
+            accountAddress,
+            '[erc1155/getBalanceOfBatch]',
+            state,
+            options
+          )
+      )
+    );
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc1155/getBalanceOfBatch]',
+      state,
+      options
+    );
+
+    if (accountAddresses.length !== tokenIds.length) {
+      throw new Error(
+        '[erc1155/getBalanceOfBatch] error: Address and Token IDs arrays must be of the same length'
+      );
+    }
+
+    const param: string = abi.encodeFunctionData(
+      Erc1155.BalanceOfBatch,
+      ['address[]', 'uint256[]'],
+      [
+        accountAddresses,
+        tokenIds.map((tokenId: string): bigint => BigInt(tokenId)),
+      ]
     );
-    const param = `${Erc1155.BalanceOfBatch}${addresses}${ids}`;
     const data: JsonRpcRequestPayload = constructEthMethodPayload(
       {
         to: contractAddress,
         data: param,
       },
-      EthMethod.Call
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
     );
 
     try {
-      const response: AxiosResponse<JsonRpcResponse<string>> =
-        await ethereumInstance.post<JsonRpcResponse<string>>('', data);
-
-      if (response.data.error) {
-        console.error(
-          '[erc1155/getBalanceOfBatch] Error:',
-          response.data.error.message
-        );
-        throw new Error(
-          `[erc1155/getBalanceOfBatch] Error: ${response.data.error.message}`
-        );
-      }
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        '[erc1155/getBalanceOfBatch]',
+        options
+      );
 
-      if (!response.data.result) {
-        console.error('[erc1155/getBalanceOfBatch] error: No result returned');
-        throw new Error(
-          '[erc1155/getBalanceOfBatch] error: No result returned'
-        );
-      }
-
-      return format.formatTokenAmount(response.data.result, 0);
+      const [balances] = abi.decodeParameters(['uint256[]'], response);
+      return (balances as bigint[]).map(
+        (balance: bigint): TokenAmount => format.toTokenAmount(balance, 0)
+      );
     } catch (error) {
-      console.error('[erc1155/getBalanceOfBatch] Exception:', error);
+      state.logger.error('[erc1155/getBalanceOfBatch] error:', error);
       throw error;
     }
   },
+  /**
+   * Fetches a page of the erc1155 transfers in and out of an account, ordered by block and log index, with the
+   * timestamp of their block. Pass the returned cursor to fetch the next page.
+   *
+   * @param {string} accountAddress - The account address or ENS name.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {TransferOptions} [options] - Optional. The token contract, block range, page size and cursor.
+   * @returns {Promise<TransferPage<Erc1155Transfer>>} The transfers and the cursor of the next page, null on the last page.
+   *
+   * @example
+   * const data = erc1155.getTransfers('0xACCOUNT_ADDRESS', state, { contractAddress: '0xCONTRACT_ADDRESS', fromBlock: 19000000 });
+   */
+  getTransfers: (
+    accountAddress: string,
+    state: State,
+    options: TransferOptions = {}
+  ): Promise<TransferPage<Erc1155Transfer>> =>
+    transfers.scan(
+      [ERC1155_EVENTS.TransferSingle, ERC1155_EVENTS.TransferBatch],
+      (
+        log: DecodedLog<
+          | typeof ERC1155_EVENTS.TransferSingle
+          | typeof ERC1155_EVENTS.TransferBatch
+        >,
+        timestamp: number
+      ): Erc1155Transfer => ({
+        ...transfers.fromLog(log, timestamp),
+        operator: log.args.operator,
+        ids: 'ids' in log.args ? [...log.args.ids] : [log.args.id],
+        values: 'values' in log.args ? [...log.args.values] : [log.args.value],
+      }),
+      accountAddress,
+      '[erc1155/getTransfers]',
+      state,
+      options
+    ),
 };
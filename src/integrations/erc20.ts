@@ -1,11 +1,269 @@
-import { AxiosInstance, AxiosResponse } from 'axios';
-
-import { Erc20, EthMethod } from '../lib/interfaces/ethMethods.js';
-import { JsonRpcRequestPayload } from '../lib/interfaces/jsonRpcRequest.js';
-import { JsonRpcResponse } from '../lib/interfaces/jsonRpcResponse.js';
+import { State } from '../lib/client/ethereumClient.js';
+import { ContractRevertError, EmptyResultError } from '../lib/errors/errors.js';
+import { AbiValue } from '../lib/interfaces/abi.js';
+import { Erc20, EthMethod, Permit2 } from '../lib/interfaces/ethMethods.js';
+import {
+  JsonRpcRequestPayload,
+  ReadOptions,
+  RequestOptions,
+} from '../lib/interfaces/jsonRpcRequest.js';
+import { DecodedLog } from '../lib/interfaces/logs.js';
+import {
+  Permit2Options,
+  Permit2Signature,
+  PermitBatch,
+  PermitDetails,
+  PermitDetailsRequest,
+  PermitOptions,
+  PermitSignature,
+  PermitSingle,
+} from '../lib/interfaces/permit.js';
+import { TransactionResponse, WriteOptions } from '../lib/interfaces/signer.js';
+import { TokenAmount } from '../lib/interfaces/tokenAmount.js';
+import {
+  Erc20Transfer,
+  TransferOptions,
+  TransferPage,
+} from '../lib/interfaces/transfers.js';
+import {
+  TypedDataDomain,
+  TypedDataTypes,
+} from '../lib/interfaces/typedData.js';
 
+import { abi } from '../utils/abi.js';
 import { constructEthMethodPayload } from '../utils/ethCall.js';
 import { format } from '../utils/formatting.js';
+import { signature } from '../utils/signature.js';
+import { typedData } from '../utils/typedData.js';
+import { units } from '../utils/units.js';
+import { ens } from './ens.js';
+import { ERC20_EVENTS } from './logs.js';
+import { rpc } from './rpc.js';
+import { transfers } from './transfers.js';
+import { wallet } from './wallet.js';
+
+/**
+ * The address of the canonical Permit2 deployment, identical on every chain.
+ */
+export const PERMIT2_ADDRESS: string =
+  '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+/**
+ * The EIP-712 types of an EIP-2612 permit.
+ */
+const PERMIT_TYPES: TypedDataTypes = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+/**
+ * The EIP-712 types of the Permit2 allowance of a token.
+ */
+const PERMIT_DETAILS_TYPES: TypedDataTypes = {
+  PermitDetails: [
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'uint160' },
+    { name: 'expiration', type: 'uint48' },
+    { name: 'nonce', type: 'uint48' },
+  ],
+};
+
+/**
+ * Reads a contract with `eth_call`.
+ *
+ * @param {string} contractAddress - The contract address.
+ * @param {string} data - The calldata.
+ * @param {string} context - The module and function reading the contract, used in errors.
+ * @param {State} state - The client state holding the ethereum instance and the logger.
+ * @param {ReadOptions} options - The block to read the state at, the request timeout and abort signal.
+ * @returns {Promise<string>} The `0x` prefixed result of the call.
+ */
+const callContract = (
+  contractAddress: string,
+  data: string,
+  context: string,
+  state: State,
+  options: ReadOptions
+): Promise<string> =>
+  rpc.send<string>(
+    constructEthMethodPayload(
+      { to: contractAddress, data },
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
+    ),
+    state,
+    context,
+    options
+  );
+
+/**
+ * Converts an amount into the smallest unit of a token. Decimal strings are parsed with the token decimals, bigints
+ * are already in the smallest unit.
+ *
+ * @param {string | bigint} amount - The amount, e.g. '1.5', or a bigint in the smallest unit.
+ * @param {string} contractAddress - The contract address of the erc20 token.
+ * @param {State} state - The client state holding the ethereum instance, the logger and the decimals cache.
+ * @param {RequestOptions} options - The request timeout and abort signal.
+ * @returns {Promise<bigint>} The amount in the smallest unit of the token.
+ */
+const toTokenUnits = async (
+  amount: string | bigint,
+  contractAddress: string,
+  state: State,
+  { timeout, signal }: RequestOptions
+): Promise<bigint> =>
+  typeof amount === 'bigint'
+    ? amount
+    : units.parseUnits(
+        amount,
+        await erc20.getDecimals(contractAddress, state, { timeout, signal })
+      );
+
+/**
+ * Sends a transaction calling the erc20 contract, signed by the client signer.
+ *
+ * @param {string} contractAddress - The contract address of the erc20 token.
+ * @param {string} data - The calldata.
+ * @param {State} state - The client state holding the ethereum instance, the signer and the logger.
+ * @param {WriteOptions} options - The transaction field overrides, the request timeout and abort signal.
+ * @returns {Promise<TransactionResponse>} The transaction hash, and a function waiting for its receipt.
+ */
+const sendCall = (
+  contractAddress: string,
+  data: string,
+  state: State,
+  { timeout, signal, ...overrides }: WriteOptions
+): Promise<TransactionResponse> =>
+  wallet.sendTransaction({ ...overrides, to: contractAddress, data }, state, {
+    timeout,
+    signal,
+  });
+
+/**
+ * Derives the EIP-712 domain of a permit token from its name, version, chain and address, checked against the
+ * `DOMAIN_SEPARATOR` of the token. Tokens without a `version` function use version '1'.
+ *
+ * @param {string} contractAddress - The contract address of the erc20 token.
+ * @param {State} state - The client state holding the ethereum instance and the logger.
+ * @param {RequestOptions} options - The request timeout and abort signal.
+ * @returns {Promise<TypedDataDomain>} The domain.
+ * @throws {Error} When the derived domain does not match the domain separator of the token.
+ */
+const getPermitDomain = async (
+  contractAddress: string,
+  state: State,
+  options: RequestOptions
+): Promise<TypedDataDomain> => {
+  const [name, version, chainId, domainSeparator] = await Promise.all([
+    erc20.getName(contractAddress, state, options),
+    callContract(
+      contractAddress,
+      Erc20.Version,
+      '[erc20/signPermit]',
+      state,
+      options
+    ).then(
+      (response: string): string =>
+        response === '0x' ? '1' : abi.decodeString(response),
+      (e: unknown): string => {
+        if (e instanceof ContractRevertError) {
+          return '1';
+        }
+        throw e;
+      }
+    ),
+    wallet.getChainId(state, options),
+    erc20.getDomainSeparator(contractAddress, state, options),
+  ]);
+
+  const domain: TypedDataDomain = {
+    name,
+    version,
+    chainId,
+    verifyingContract: contractAddress,
+  };
+  if (typedData.hashDomain(domain) !== domainSeparator) {
+    throw new Error(
+      `[erc20/signPermit] error: Could not derive the EIP-712 domain of ${contractAddress}, set the domain option`
+    );
+  }
+  return domain;
+};
+
+/**
+ * Resolves the token, amount and nonce of a Permit2 allowance. Missing nonces are read from the Permit2 allowance of
+ * the owner, token and spender.
+ *
+ * @param {PermitDetailsRequest} details - The allowance.
+ * @param {string} ownerAddress - The owner address.
+ * @param {string} spenderAddress - The spender address.
+ * @param {string} permit2Address - The Permit2 contract address.
+ * @param {string} context - The module and function signing the permit, used in errors.
+ * @param {State} state - The client state holding the ethereum instance, the logger and the decimals cache.
+ * @param {RequestOptions} options - The request timeout and abort signal.
+ * @returns {Promise<PermitDetails>} The allowance, with every field resolved.
+ */
+const getPermit2Details = async (
+  details: PermitDetailsRequest,
+  ownerAddress: string,
+  spenderAddress: string,
+  permit2Address: string,
+  context: string,
+  state: State,
+  options: RequestOptions
+): Promise<PermitDetails> => {
+  const token: string = await ens.toAddress(
+    details.token,
+    context,
+    state,
+    options
+  );
+
+  const [amount, nonce] = await Promise.all([
+    toTokenUnits(details.amount, token, state, options),
+    details.nonce ??
+      callContract(
+        permit2Address,
+        abi.encodeFunctionData(
+          Permit2.Allowance,
+          ['address', 'address', 'address'],
+          [ownerAddress, token, spenderAddress]
+        ),
+        context,
+        state,
+        options
+      ).then((response: string): number =>
+        Number(
+          abi.decodeParameters(['uint160', 'uint48', 'uint48'], response)[2]
+        )
+      ),
+  ]);
+
+  return { token, amount, expiration: details.expiration, nonce };
+};
+
+/**
+ * Converts a Permit2 allowance into an EIP-712 message value.
+ *
+ * @param {PermitDetails} details - The allowance.
+ * @returns {object} The `PermitDetails` struct value.
+ */
+const toDetailsMessage = ({
+  token,
+  amount,
+  expiration,
+  nonce,
+}: PermitDetails): { readonly [key: string]: AbiValue } => ({
+  token,
+  amount,
+  expiration,
+  nonce,
+});
 
 /**
  * erc20 integration for managing Ethereum RPC requests.
@@ -17,42 +275,48 @@ export const erc20 = {
   /**
    * Fetches the balance of an account.
    *
-   * @param {JsonRpcRequestPayload} accountAddress - The account address to fetch the balance from.
-   * @param {AxiosInstance} ethereumInstance - The ethereum client to initialize the erc20 instance
-   * @returns {Promise<string>} The main token balance of the account.
+   * @param {JsonRpcRequestPayload} accountAddress - The account address or ENS name to fetch the balance from.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<TokenAmount>} The main token balance of the account.
    *
    * @example
    * const data = erc20.getBalance('0xACCOUNT_ADDRESS');
    */
   getBalance: async (
     accountAddress: string,
-    ethereumInstance: AxiosInstance
-  ): Promise<string> => {
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<TokenAmount> => {
+    accountAddress = await ens.toAddress(
+      accountAddress,
+      '[erc20/getBalance]',
+      state,
+      options
+    );
+
     const data: JsonRpcRequestPayload = constructEthMethodPayload(
       accountAddress,
-      EthMethod.GetBalance
+      EthMethod.GetBalance,
+      format.toBlockParameter(options.block)
     );
 
     try {
-      const response: AxiosResponse<JsonRpcResponse<string>> =
-        await ethereumInstance.post<JsonRpcResponse<string>>('', data);
-
-      if (response.data.error) {
-        console.log('[erc20/getBalance] error:', response.data.error.message);
-        throw new Error(
-          `[erc20/getBalance] error: ${response.data.error.message}`
-        );
-      }
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        '[erc20/getBalance]',
+        options
+      );
 
-      if (!response.data.result) {
-        console.error('[erc20/getBalance] error: No result returned');
-        throw new Error('[erc20/getBalance] error: No result returned');
-      }
-
-      const result: string = format.weiToEther(response.data.result);
+      const result: TokenAmount = {
+        raw: response === '0x' ? BigInt(0) : BigInt(response),
+        decimals: 18,
+        formatted: format.weiToEther(response),
+      };
       return result;
     } catch (e) {
-      console.error('[erc20/getBalance] error:', e);
+      state.logger.error('[erc20/getBalance] error:', e);
       throw e;
     }
   },
@@ -60,10 +324,11 @@ export const erc20 = {
   /**
    * Fetches the token balance of an account of the erc20 token.
    *
-   * @param {string} accountAddress - The account address to fetch the balance from.
-   * @param {string} contractAddress - The contract address of the erc20 instance.
-   * @param {AxiosInstance} ethereumInstance - The ethereum client to initialize the erc20 instance
-   * @returns {Promise<string>} The erc20 token balance of the account.
+   * @param {string} accountAddress - The account address or ENS name to fetch the balance from.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 instance.
+   * @param {State} state - The client state holding the ethereum instance, the logger and the decimals cache.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<TokenAmount>} The erc20 token balance of the account, formatted with the token decimals.
    *
    * @example
    * const data = erc20.getBalanceOf('0xACCOUNT_ADDRESS', '0xCONTRACT_ADDRESS');
@@ -71,41 +336,57 @@ export const erc20 = {
   getBalanceOf: async (
     accountAddress: string,
     contractAddress: string,
-    ethereumInstance: AxiosInstance
-  ): Promise<string> => {
-    const paddedAddress = accountAddress.substring(2).padStart(64, '0');
-    const param = `${Erc20.BalanceOf}${paddedAddress}`;
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<TokenAmount> => {
+    accountAddress = await ens.toAddress(
+      accountAddress,
+      '[erc20/getBalanceOf]',
+      state,
+      options
+    );
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc20/getBalanceOf]',
+      state,
+      options
+    );
+
+    const param: string = abi.encodeFunctionData(
+      Erc20.BalanceOf,
+      ['address'],
+      [accountAddress]
+    );
     const data: JsonRpcRequestPayload = constructEthMethodPayload(
       {
         to: contractAddress,
         data: param,
       },
-      EthMethod.Call
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
     );
 
     try {
-      const response: AxiosResponse<JsonRpcResponse<string>> =
-        await ethereumInstance.post<JsonRpcResponse<string>>('', data);
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        '[erc20/getBalanceOf]',
+        options
+      );
 
-      if (response.data.error) {
-        console.error(
-          '[erc20/getBalanceOf] error:',
-          response.data.error.message
-        );
-        throw new Error(
-          `[erc20/getBalanceOf] error: ${response.data.error.message}`
-        );
-      }
-
-      if (!response.data.result) {
-        console.error('[erc20/getBalanceOf] error: No result returned');
-        throw new Error('[erc20/getBalanceOf] error: No result returned');
-      }
-
-      const result: string = format.weiToEther(response.data.result);
+      const decimals: number = await erc20.getDecimals(
+        contractAddress,
+        state,
+        options
+      );
+      const [balance] = abi.decodeParameters(['uint256'], response);
+      const result: TokenAmount = format.toTokenAmount(
+        balance as bigint,
+        decimals
+      );
       return result;
     } catch (e) {
-      console.error('[erc20/getBalanceOf] error:', e);
+      state.logger.error('[erc20/getBalanceOf] error:', e);
       throw e;
     }
   },
@@ -113,8 +394,9 @@ export const erc20 = {
   /**
    * Fetches the name of the erc20 token.
    *
-   * @param {string} contractAddress - The contract address of the erc20 instance.
-   * @param {AxiosInstance} ethereumInstance - The ethereum client to initialize the erc20 instance
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 instance.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
    * @returns {Promise<string>} The name of the token.
    *
    * @example
@@ -122,36 +404,37 @@ export const erc20 = {
    */
   getName: async (
     contractAddress: string,
-    ethereumInstance: AxiosInstance
+    state: State,
+    options: ReadOptions = {}
   ): Promise<string> => {
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc20/getName]',
+      state,
+      options
+    );
+
     const data: JsonRpcRequestPayload = constructEthMethodPayload(
       {
         to: contractAddress,
         data: Erc20.Name,
       },
-      EthMethod.Call
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
     );
 
     try {
-      const response: AxiosResponse<JsonRpcResponse<string>> =
-        await ethereumInstance.post<JsonRpcResponse<string>>('', data);
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        '[erc20/getName]',
+        options
+      );
 
-      if (response.data.error) {
-        console.error('[erc20/getName] error:', response.data.error.message);
-        throw new Error(
-          `[erc20/getName] error: ${response.data.error.message}`
-        );
-      }
-
-      if (!response.data.result) {
-        console.error('[erc20/getName] error: No result returned');
-        throw new Error('[erc20/getName] error: No result returned');
-      }
-
-      const result: string = format.decodeHexString(response.data.result);
+      const result: string = abi.decodeString(response);
       return result;
     } catch (e) {
-      console.error('[erc20/getName] error:', e);
+      state.logger.error('[erc20/getName] error:', e);
       throw e;
     }
   },
@@ -159,8 +442,9 @@ export const erc20 = {
   /**
    * Fetches the symbol of the erc20 token.
    *
-   * @param {string} contractAddress - The contract address of the erc20 instance.
-   * @param {AxiosInstance} ethereumInstance - The ethereum client to initialize the erc20 instance
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 instance.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
    * @returns {Promise<string>} The symbol of the token.
    *
    * @example
@@ -168,36 +452,37 @@ export const erc20 = {
    */
   getSymbol: async (
     contractAddress: string,
-    ethereumInstance: AxiosInstance
+    state: State,
+    options: ReadOptions = {}
   ): Promise<string> => {
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc20/getSymbol]',
+      state,
+      options
+    );
+
     const data: JsonRpcRequestPayload = constructEthMethodPayload(
       {
         to: contractAddress,
         data: Erc20.Symbol,
       },
-      EthMethod.Call
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
     );
 
     try {
-      const response: AxiosResponse<JsonRpcResponse<string>> =
-        await ethereumInstance.post<JsonRpcResponse<string>>('', data);
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        '[erc20/getSymbol]',
+        options
+      );
 
-      if (response.data.error) {
-        console.error('[erc20/getSymbol] error:', response.data.error.message);
-        throw new Error(
-          `[erc20/getSymbol] error: ${response.data.error.message}`
-        );
-      }
-
-      if (!response.data.result) {
-        console.error('[erc20/getSymbol] error: No result returned');
-        throw new Error('[erc20/getSymbol] error: No result returned');
-      }
-
-      const result: string = format.decodeHexString(response.data.result);
+      const result: string = abi.decodeString(response);
       return result;
     } catch (e) {
-      console.error('[erc20/getSymbol] error:', e);
+      state.logger.error('[erc20/getSymbol] error:', e);
       throw e;
     }
   },
@@ -205,48 +490,771 @@ export const erc20 = {
   /**
    * Fetches the total supply of the erc20 token.
    *
-   * @param {string} contractAddress - The contract address of the erc20 instance.
-   * @param {AxiosInstance} ethereumInstance - The ethereum client to initialize the erc20 instance
-   * @returns {Promise<string>} The total supply of the token.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 instance.
+   * @param {State} state - The client state holding the ethereum instance, the logger and the decimals cache.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<TokenAmount>} The total supply of the token, formatted with the token decimals.
    *
    * @example
    * const data = erc20.getTotalSupply('0xCONTRACT_ADDRESS');
    */
   getTotalSupply: async (
     contractAddress: string,
-    ethereumInstance: AxiosInstance
-  ): Promise<string> => {
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<TokenAmount> => {
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc20/getTotalSupply]',
+      state,
+      options
+    );
+
     const data: JsonRpcRequestPayload = constructEthMethodPayload(
       {
         to: contractAddress,
         data: Erc20.TotalSupply,
       },
-      EthMethod.Call
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
+    );
+
+    try {
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        '[erc20/getTotalSupply]',
+        options
+      );
+
+      const decimals: number = await erc20.getDecimals(
+        contractAddress,
+        state,
+        options
+      );
+      const [totalSupply] = abi.decodeParameters(['uint256'], response);
+      const result: TokenAmount = format.toTokenAmount(
+        totalSupply as bigint,
+        decimals
+      );
+      return result;
+    } catch (e) {
+      state.logger.error('[erc20/getTotalSupply] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches the number of decimals of the erc20 token. The value is cached per contract on the client state, as it
+   * never changes, and only read at the requested block on the first call.
+   *
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 instance.
+   * @param {State} state - The client state holding the ethereum instance, the logger and the decimals cache.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<number>} The number of decimals the token uses.
+   *
+   * @example
+   * const data = erc20.getDecimals('0xCONTRACT_ADDRESS');
+   */
+  getDecimals: async (
+    contractAddress: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<number> => {
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc20/getDecimals]',
+      state,
+      options
+    );
+
+    const cacheKey: string = contractAddress.toLowerCase();
+    if (state.decimals[cacheKey] !== undefined) {
+      return state.decimals[cacheKey];
+    }
+
+    const data: JsonRpcRequestPayload = constructEthMethodPayload(
+      {
+        to: contractAddress,
+        data: Erc20.Decimals,
+      },
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
     );
 
     try {
-      const response: AxiosResponse<JsonRpcResponse<string>> =
-        await ethereumInstance.post<JsonRpcResponse<string>>('', data);
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        '[erc20/getDecimals]',
+        options
+      );
 
-      if (response.data.error) {
-        console.error(
-          '[erc20/getTotalSupply] error:',
-          response.data.error.message
+      if (response === '0x') {
+        throw new EmptyResultError(
+          '[erc20/getDecimals] error: No result returned',
+          EthMethod.Call
         );
+      }
+
+      const [result] = abi.decodeParameters(['uint8'], response);
+      const decimals: number = Number(result);
+      state.decimals[cacheKey] = decimals;
+      return decimals;
+    } catch (e) {
+      state.logger.error('[erc20/getDecimals] error:', e);
+      throw e;
+    }
+  },
+  /**
+   * Fetches a page of the erc20 transfers in and out of an account, ordered by block and log index, with the
+   * timestamp of their block. Pass the returned cursor to fetch the next page.
+   *
+   * @param {string} accountAddress - The account address or ENS name.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {TransferOptions} [options] - Optional. The token contract, block range, page size and cursor.
+   * @returns {Promise<TransferPage<Erc20Transfer>>} The transfers and the cursor of the next page, null on the last page.
+   *
+   * @example
+   * const data = erc20.getTransfers('0xACCOUNT_ADDRESS', state, { contractAddress: '0xCONTRACT_ADDRESS', fromBlock: 19000000 });
+   */
+  getTransfers: (
+    accountAddress: string,
+    state: State,
+    options: TransferOptions = {}
+  ): Promise<TransferPage<Erc20Transfer>> =>
+    transfers.scan(
+      [ERC20_EVENTS.Transfer],
+      (
+        log: DecodedLog<typeof ERC20_EVENTS.Transfer>,
+        timestamp: number
+      ): Erc20Transfer => ({
+        ...transfers.fromLog(log, timestamp),
+        value: log.args.value,
+      }),
+      accountAddress,
+      '[erc20/getTransfers]',
+      state,
+      options
+    ),
+
+  /**
+   * Fetches the amount of tokens that an owner allowed a spender to transfer.
+   *
+   * @param {string} ownerAddress - The owner address or ENS name.
+   * @param {string} spenderAddress - The spender address or ENS name.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 instance.
+   * @param {State} state - The client state holding the ethereum instance, the logger and the decimals cache.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<TokenAmount>} The allowance, formatted with the token decimals.
+   *
+   * @example
+   * const data = erc20.getAllowance('0xOWNER_ADDRESS', '0xSPENDER_ADDRESS', '0xCONTRACT_ADDRESS', state);
+   */
+  getAllowance: async (
+    ownerAddress: string,
+    spenderAddress: string,
+    contractAddress: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<TokenAmount> => {
+    ownerAddress = await ens.toAddress(
+      ownerAddress,
+      '[erc20/getAllowance]',
+      state,
+      options
+    );
+    spenderAddress = await ens.toAddress(
+      spenderAddress,
+      '[erc20/getAllowance]',
+      state,
+      options
+    );
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc20/getAllowance]',
+      state,
+      options
+    );
+
+    const data: JsonRpcRequestPayload = constructEthMethodPayload(
+      {
+        to: contractAddress,
+        data: abi.encodeFunctionData(
+          Erc20.Allowance,
+          ['address', 'address'],
+          [ownerAddress, spenderAddress]
+        ),
+      },
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
+    );
+
+    try {
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        '[erc20/getAllowance]',
+        options
+      );
+
+      const decimals: number = await erc20.getDecimals(
+        contractAddress,
+        state,
+        options
+      );
+      const [allowance] = abi.decodeParameters(['uint256'], response);
+      const result: TokenAmount = format.toTokenAmount(
+        allowance as bigint,
+        decimals
+      );
+      return result;
+    } catch (e) {
+      state.logger.error('[erc20/getAllowance] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Transfers tokens from the client signer to a recipient. The transaction is simulated by the gas estimate, so
+   * transfers that would revert throw a `ContractRevertError` before being sent.
+   *
+   * @param {string} recipientAddress - The recipient address or ENS name.
+   * @param {string | bigint} amount - The amount, as a decimal string in token units, e.g. '1.5', or a bigint in the smallest unit.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 instance.
+   * @param {State} state - The client state holding the ethereum instance, the signer, the logger and the decimals cache.
+   * @param {WriteOptions} [options] - Optional. Overrides of the nonce, gas and fees, the request timeout and abort signal.
+   * @returns {Promise<TransactionResponse>} The transaction hash, and a function waiting for its receipt.
+   *
+   * @example
+   * const data = erc20.transfer('0xRECIPIENT_ADDRESS', '1.5', '0xCONTRACT_ADDRESS', state);
+   */
+  transfer: async (
+    recipientAddress: string,
+    amount: string | bigint,
+    contractAddress: string,
+    state: State,
+    options: WriteOptions = {}
+  ): Promise<TransactionResponse> => {
+    recipientAddress = await ens.toAddress(
+      recipientAddress,
+      '[erc20/transfer]',
+      state,
+      options
+    );
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc20/transfer]',
+      state,
+      options
+    );
+
+    try {
+      const value: bigint = await toTokenUnits(
+        amount,
+        contractAddress,
+        state,
+        options
+      );
+
+      return await sendCall(
+        contractAddress,
+        abi.encodeFunctionData(
+          Erc20.Transfer,
+          ['address', 'uint256'],
+          [recipientAddress, value]
+        ),
+        state,
+        options
+      );
+    } catch (e) {
+      state.logger.error('[erc20/transfer] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Allows a spender to transfer up to an amount of tokens of the client signer, replacing the current allowance.
+   *
+   * @param {string} spenderAddress - The spender address or ENS name.
+   * @param {string | bigint} amount - The allowance, as a decimal string in token units, e.g. '1.5', or a bigint in the smallest unit.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 instance.
+   * @param {State} state - The client state holding the ethereum instance, the signer, the logger and the decimals cache.
+   * @param {WriteOptions} [options] - Optional. Overrides of the nonce, gas and fees, the request timeout and abort signal.
+   * @returns {Promise<TransactionResponse>} The transaction hash, and a function waiting for its receipt.
+   *
+   * @example
+   * const data = erc20.approve('0xSPENDER_ADDRESS', '100', '0xCONTRACT_ADDRESS', state);
+   */
+  approve: async (
+    spenderAddress: string,
+    amount: string | bigint,
+    contractAddress: string,
+    state: State,
+    options: WriteOptions = {}
+  ): Promise<TransactionResponse> => {
+    spenderAddress = await ens.toAddress(
+      spenderAddress,
+      '[erc20/approve]',
+      state,
+      options
+    );
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc20/approve]',
+      state,
+      options
+    );
+
+    try {
+      const value: bigint = await toTokenUnits(
+        amount,
+        contractAddress,
+        state,
+        options
+      );
+
+      return await sendCall(
+        contractAddress,
+        abi.encodeFunctionData(
+          Erc20.Approve,
+          ['address', 'uint256'],
+          [spenderAddress, value]
+        ),
+        state,
+        options
+      );
+    } catch (e) {
+      state.logger.error('[erc20/approve] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Transfers tokens from an account that approved the client signer to a recipient, spending the allowance.
+   *
+   * @param {string} ownerAddress - The address or ENS name of the account the tokens are taken from.
+   * @param {string} recipientAddress - The recipient address or ENS name.
+   * @param {string | bigint} amount - The amount, as a decimal string in token units, e.g. '1.5', or a bigint in the smallest unit.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 instance.
+   * @param {State} state - The client state holding the ethereum instance, the signer, the logger and the decimals cache.
+   * @param {WriteOptions} [options] - Optional. Overrides of the nonce, gas and fees, the request timeout and abort signal.
+   * @returns {Promise<TransactionResponse>} The transaction hash, and a function waiting for its receipt.
+   *
+   * @example
+   * const data = erc20.transferFrom('0xOWNER_ADDRESS', '0xRECIPIENT_ADDRESS', '1.5', '0xCONTRACT_ADDRESS', state);
+   */
+  transferFrom: async (
+    ownerAddress: string,
+    recipientAddress: string,
+    amount: string | bigint,
+    contractAddress: string,
+    state: State,
+    options: WriteOptions = {}
+  ): Promise<TransactionResponse> => {
+    ownerAddress = await ens.toAddress(
+      ownerAddress,
+      '[erc20/transferFrom]',
+      state,
+      options
+    );
+    recipientAddress = await ens.toAddress(
+      recipientAddress,
+      '[erc20/transferFrom]',
+      state,
+      options
+    );
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc20/transferFrom]',
+      state,
+      options
+    );
+
+    try {
+      const value: bigint = await toTokenUnits(
+        amount,
+        contractAddress,
+        state,
+        options
+      );
+
+      return await sendCall(
+        contractAddress,
+        abi.encodeFunctionData(
+          Erc20.TransferFrom,
+          ['address', 'address', 'uint256'],
+          [ownerAddress, recipientAddress, value]
+        ),
+        state,
+        options
+      );
+    } catch (e) {
+      state.logger.error('[erc20/transferFrom] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches the next EIP-2612 permit nonce of an owner.
+   *
+   * @param {string} ownerAddress - The owner address or ENS name.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 instance.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<bigint>} The nonce of the next permit of the owner.
+   *
+   * @example
+   * const data = erc20.getNonces('0xOWNER_ADDRESS', '0xCONTRACT_ADDRESS', state);
+   */
+  getNonces: async (
+    ownerAddress: string,
+    contractAddress: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<bigint> => {
+    ownerAddress = await ens.toAddress(
+      ownerAddress,
+      '[erc20/getNonces]',
+      state,
+      options
+    );
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc20/getNonces]',
+      state,
+      options
+    );
+
+    try {
+      const response: string = await callContract(
+        contractAddress,
+        abi.encodeFunctionData(Erc20.Nonces, ['address'], [ownerAddress]),
+        '[erc20/getNonces]',
+        state,
+        options
+      );
+
+      const [nonce] = abi.decodeParameters(['uint256'], response);
+      return nonce as bigint;
+    } catch (e) {
+      state.logger.error('[erc20/getNonces] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fetches the EIP-712 domain separator of a permit token.
+   *
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 instance.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<string>} The `0x` prefixed 32 byte domain separator.
+   *
+   * @example
+   * const data = erc20.getDomainSeparator('0xCONTRACT_ADDRESS', state);
+   */
+  getDomainSeparator: async (
+    contractAddress: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<string> => {
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc20/getDomainSeparator]',
+      state,
+      options
+    );
+
+    try {
+      const response: string = await callContract(
+        contractAddress,
+        Erc20.DomainSeparator,
+        '[erc20/getDomainSeparator]',
+        state,
+        options
+      );
+
+      const [domainSeparator] = abi.decodeParameters(['bytes32'], response);
+      return domainSeparator as string;
+    } catch (e) {
+      state.logger.error('[erc20/getDomainSeparator] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Signs an EIP-2612 permit with the client signer, allowing a spender to transfer tokens of the owner without an
+   * approve transaction. The nonce and the EIP-712 domain are read from the token unless set in the options.
+   *
+   * @param {string} ownerAddress - The owner address or ENS name, which must be the address of the client signer.
+   * @param {string} spenderAddress - The spender address or ENS name.
+   * @param {string | bigint} amount - The allowance, as a decimal string in token units, e.g. '1.5', or a bigint in the smallest unit.
+   * @param {number | bigint} deadline - The unix timestamp after which the permit expires.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 instance.
+   * @param {State} state - The client state holding the ethereum instance, the signer, the logger and the decimals cache.
+   * @param {PermitOptions} [options] - Optional. The nonce and domain overrides, the request timeout and abort signal.
+   * @returns {Promise<PermitSignature>} The permit arguments and the signature.
+   * @throws {Error} When the owner is not the signer or the domain of the token cannot be derived.
+   *
+   * @example
+   * const data = erc20.signPermit('0xOWNER_ADDRESS', '0xSPENDER_ADDRESS', '100', 1700000000, '0xCONTRACT_ADDRESS', state);
+   */
+  signPermit: async (
+    ownerAddress: string,
+    spenderAddress: string,
+    amount: string | bigint,
+    deadline: number | bigint,
+    contractAddress: string,
+    state: State,
+    { nonce, domain, ...options }: PermitOptions = {}
+  ): Promise<PermitSignature> => {
+    ownerAddress = await ens.toAddress(
+      ownerAddress,
+      '[erc20/signPermit]',
+      state,
+      options
+    );
+    spenderAddress = await ens.toAddress(
+      spenderAddress,
+      '[erc20/signPermit]',
+      state,
+      options
+    );
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc20/signPermit]',
+      state,
+      options
+    );
+
+    try {
+      const signerAddress: string = wallet.getAddress(state);
+      if (signerAddress !== ownerAddress) {
         throw new Error(
-          `[erc20/getTotalSupply] error: ${response.data.error.message}`
+          `[erc20/signPermit] error: The owner ${ownerAddress} is not the signer ${signerAddress}`
         );
       }
 
-      if (!response.data.result) {
-        console.error('[erc20/getTotalSupply] error: No result returned');
-        throw new Error('[erc20/getTotalSupply] error: No result returned');
-      }
+      const [value, permitNonce, permitDomain] = await Promise.all([
+        toTokenUnits(amount, contractAddress, state, options),
+        nonce ?? erc20.getNonces(ownerAddress, contractAddress, state, options),
+        domain ?? getPermitDomain(contractAddress, state, options),
+      ]);
+      const permitDeadline: bigint = BigInt(deadline);
 
-      const result: string = format.formatTokenAmount(response.data.result, 18);
-      return result;
+      const serialized: string = await wallet.signTypedData(
+        {
+          domain: permitDomain,
+          types: PERMIT_TYPES,
+          primaryType: 'Permit',
+          message: {
+            owner: ownerAddress,
+            spender: spenderAddress,
+            value,
+            nonce: permitNonce,
+            deadline: permitDeadline,
+          },
+        },
+        state
+      );
+      const { r, s, yParity } = signature.parse(serialized);
+
+      return {
+        owner: ownerAddress,
+        spender: spenderAddress,
+        value,
+        nonce: permitNonce,
+        deadline: permitDeadline,
+        v: 27 + yParity,
+        r,
+        s,
+        yParity,
+        signature: serialized,
+      };
+    } catch (e) {
+      state.logger.error('[erc20/signPermit] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Signs a Permit2 `PermitSingle` with the client signer, allowing a spender to transfer one token of the signer
+   * through Permit2. The token must have approved Permit2 beforehand.
+   *
+   * @param {PermitDetailsRequest} details - The token, amount, expiration and optional nonce of the allowance.
+   * @param {string} spenderAddress - The spender address or ENS name.
+   * @param {number | bigint} sigDeadline - The unix timestamp after which the signature expires.
+   * @param {State} state - The client state holding the ethereum instance, the signer, the logger and the decimals cache.
+   * @param {Permit2Options} [options] - Optional. The Permit2 contract, the request timeout and abort signal.
+   * @returns {Promise<Permit2Signature<PermitSingle>>} The signed permit and the signature.
+   *
+   * @example
+   * const data = erc20.signPermitSingle({ token: '0xCONTRACT_ADDRESS', amount: '100', expiration: 1700000000 }, '0xSPENDER_ADDRESS', 1700000000, state);
+   */
+  signPermitSingle: async (
+    details: PermitDetailsRequest,
+    spenderAddress: string,
+    sigDeadline: number | bigint,
+    state: State,
+    { permit2Address = PERMIT2_ADDRESS, ...options }: Permit2Options = {}
+  ): Promise<Permit2Signature<PermitSingle>> => {
+    spenderAddress = await ens.toAddress(
+      spenderAddress,
+      '[erc20/signPermitSingle]',
+      state,
+      options
+    );
+    permit2Address = await ens.toAddress(
+      permit2Address,
+      '[erc20/signPermitSingle]',
+      state,
+      options
+    );
+
+    try {
+      const ownerAddress: string = wallet.getAddress(state);
+      const [permitDetails, chainId] = await Promise.all([
+        getPermit2Details(
+          details,
+          ownerAddress,
+          spenderAddress,
+          permit2Address,
+          '[erc20/signPermitSingle]',
+          state,
+          options
+        ),
+        wallet.getChainId(state, options),
+      ]);
+      const permit: PermitSingle = {
+        details: permitDetails,
+        spender: spenderAddress,
+        sigDeadline: BigInt(sigDeadline),
+      };
+
+      return {
+        owner: ownerAddress,
+        permit,
+        signature: await wallet.signTypedData(
+          {
+            domain: {
+              name: 'Permit2',
+              chainId,
+              verifyingContract: permit2Address,
+            },
+            types: {
+              PermitSingle: [
+                { name: 'details', type: 'PermitDetails' },
+                { name: 'spender', type: 'address' },
+                { name: 'sigDeadline', type: 'uint256' },
+              ],
+              ...PERMIT_DETAILS_TYPES,
+            },
+            primaryType: 'PermitSingle',
+            message: {
+              details: toDetailsMessage(permit.details),
+              spender: permit.spender,
+              sigDeadline: permit.sigDeadline,
+            },
+          },
+          state
+        ),
+      };
+    } catch (e) {
+      state.logger.error('[erc20/signPermitSingle] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Signs a Permit2 `PermitBatch` with the client signer, allowing a spender to transfer several tokens of the signer
+   * through Permit2 with one signature. The tokens must have approved Permit2 beforehand.
+   *
+   * @param {PermitDetailsRequest[]} details - The token, amount, expiration and optional nonce of each allowance.
+   * @param {string} spenderAddress - The spender address or ENS name.
+   * @param {number | bigint} sigDeadline - The unix timestamp after which the signature expires.
+   * @param {State} state - The client state holding the ethereum instance, the signer, the logger and the decimals cache.
+   * @param {Permit2Options} [options] - Optional. The Permit2 contract, the request timeout and abort signal.
+   * @returns {Promise<Permit2Signature<PermitBatch>>} The signed permit and the signature.
+   *
+   * @example
+   * const data = erc20.signPermitBatch([{ token: '0xCONTRACT_ADDRESS_1', amount: '100', expiration: 1700000000 }, { token: '0xCONTRACT_ADDRESS_2', amount: '5', expiration: 1700000000 }], '0xSPENDER_ADDRESS', 1700000000, state);
+   */
+  signPermitBatch: async (
+    details: PermitDetailsRequest[],
+    spenderAddress: string,
+    sigDeadline: number | bigint,
+    state: State,
+    { permit2Address = PERMIT2_ADDRESS, ...options }: Permit2Options = {}
+  ): Promise<Permit2Signature<PermitBatch>> => {
+    spenderAddress = await ens.toAddress(
+      spenderAddress,
+      '[erc20/signPermitBatch]',
+      state,
+      options
+    );
+    permit2Address = await ens.toAddress(
+      permit2Address,
+      '[erc20/signPermitBatch]',
+      state,
+      options
+    );
+
+    try {
+      const ownerAddress: string = wallet.getAddress(state);
+      const [permitDetails, chainId] = await Promise.all([
+        Promise.all(
+          details.map(
+            (item: PermitDetailsRequest): Promise<PermitDetails> =>
+              getPermit2Details(
+                item,
+                ownerAddress,
+                spenderAddress,
+                permit2Address,
+                '[erc20/signPermitBatch]',
+                state,
+                options
+              )
+          )
+        ),
+        wallet.getChainId(state, options),
+      ]);
+      const permit: PermitBatch = {
+        details: permitDetails,
+        spender: spenderAddress,
+        sigDeadline: BigInt(sigDeadline),
+      };
+
+      return {
+        owner: ownerAddress,
+        permit,
+        signature: await wallet.signTypedData(
+          {
+            domain: {
+              name: 'Permit2',
+              chainId,
+              verifyingContract: permit2Address,
+            },
+            types: {
+              PermitBatch: [
+                { name: 'details', type: 'PermitDetails[]' },
+                { name: 'spender', type: 'address' },
+                { name: 'sigDeadline', type: 'uint256' },
+              ],
+              ...PERMIT_DETAILS_TYPES,
+            },
+            primaryType: 'PermitBatch',
+            message: {
+              details: permit.details.map(toDetailsMessage),
+              spender: permit.spender,
+              sigDeadline: permit.sigDeadline,
+            },
+          },
+          state
+        ),
+      };
     } catch (e) {
-      console.error('[erc20/getTotalSupply] error:', e);
+      state.logger.error('[erc20/signPermitBatch] error:', e);
       throw e;
     }
   },
@@ -1,11 +1,31 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosResponse } from 'axios';
 
+import { State } from '../lib/client/ethereumClient.js';
+import { HttpTransportError } from '../lib/errors/errors.js';
 import { Erc721, EthMethod } from '../lib/interfaces/ethMethods.js';
-import { JsonRpcRequestPayload } from '../lib/interfaces/jsonRpcRequest.js';
-import { JsonRpcResponse } from '../lib/interfaces/jsonRpcResponse.js';
-
-import { constructEthMethodPayload } from '../utils/ethCall.js';
+import {
+  JsonRpcRequestPayload,
+  ReadOptions,
+} from '../lib/interfaces/jsonRpcRequest.js';
+import { DecodedLog } from '../lib/interfaces/logs.js';
+import { TokenAmount } from '../lib/interfaces/tokenAmount.js';
+import {
+  Erc721Transfer,
+  TransferOptions,
+  TransferPage,
+} from '../lib/interfaces/transfers.js';
+
+import { abi } from '../utils/abi.js';
+import { address } from '../utils/address.js';
+import {
+  constructEthMethodPayload,
+  constructRequestConfig,
+} from '../utils/ethCall.js';
 import { format } from '../utils/formatting.js';
+import { ens } from './ens.js';
+import { ERC721_EVENTS } from './logs.js';
+import { rpc } from './rpc.js';
+import { transfers } from './transfers.js';
 
 /**
  * erc721 integration for managing Ethereum RPC requests.
@@ -17,10 +37,11 @@ export const erc721 = {
   /**
    * Fetches the token balance of the erc721 token.
    *
-   * @param {string} accountAddress - The account address to fetch the balance from.
-   * @param {string} contractAddress - The contract address of the erc721 instance.
-   * @param {AxiosInstance} ethereumInstance - The ethereum client to initialize the erc721 instance
-   * @returns {Promise<string>} The erc721 token balance of the account.
+   * @param {string} accountAddress - The account address or ENS name to fetch the balance from.
+   * @param {string} contractAddress - The contract address or ENS name of the erc721 instance.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<TokenAmount>} The erc721 token balance of the account.
    *
    * @example
    * const data = erc721.getBalanceOf('0xACCOUNT_ADDRESS', '0xCONTRACT_ADDRESS');
@@ -28,41 +49,49 @@ export const erc721 = {
   getBalanceOf: async (
     accountAddress: string,
     contractAddress: string,
-    ethereumInstance: AxiosInstance
-  ): Promise<string> => {
-    const paddedAddress = accountAddress.substring(2).padStart(64, '0');
-    const param = `${Erc721.BalanceOf}${paddedAddress}`;
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<TokenAmount> => {
+    accountAddress = await ens.toAddress(
+      accountAddress,
+      '[erc721/getBalanceOf]',
+      state,
+      options
+    );
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc721/getBalanceOf]',
+      state,
+      options
+    );
+
+    const param: string = abi.encodeFunctionData(
+      Erc721.BalanceOf,
+      ['address'],
+      [accountAddress]
+    );
     const data: JsonRpcRequestPayload = constructEthMethodPayload(
       {
         to: contractAddress,
         data: param,
       },
-      EthMethod.Call
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
     );
 
     try {
-      const response: AxiosResponse<JsonRpcResponse<string>> =
-        await ethereumInstance.post<JsonRpcResponse<string>>('', data);
-
-      if (response.data.error) {
-        console.error(
-          '[erc721/getBalanceOf] error:',
-          response.data.error.message
-        );
-        throw new Error(
-          `[erc721/getBalanceOf] error: ${response.data.error.message}`
-        );
-      }
-
-      if (!response.data.result) {
-        console.error('[erc721/getBalanceOf] error: No result returned');
-        throw new Error('[erc721/getBalanceOf] error: No result returned');
-      }
-
-      const result: string = format.formatTokenAmount(response.data.result, 0);
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        '[erc721/getBalanceOf]',
+        options
+      );
+
+      const [balance] = abi.decodeParameters(['uint256'], response);
+      const result: TokenAmount = format.toTokenAmount(balance as bigint, 0);
       return result;
     } catch (e) {
-      console.error('[erc721/getBalanceOf] error:', e);
+      state.logger.error('[erc721/getBalanceOf] error:', e);
       throw e;
     }
   },
@@ -70,10 +99,11 @@ export const erc721 = {
   /**
    * Fetches the owner address of the erc721 token.
    *
-   * @param {string} contractAddress - The contract address of the erc721 instance.
-   * @param {string} tokenId - The specific token ID to check the owner of.
-   * @param {AxiosInstance} ethereumInstance - The ethereum client to initialize the erc721 instance
-   * @returns {Promise<string>} The owner address of the erc721 token.
+   * @param {string} contractAddress - The contract address or ENS name of the erc721 instance.
+   * @param {string} tokenId - The token ID, as a decimal string or a `0x` prefixed hex string.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
+   * @returns {Promise<string>} The checksummed owner address of the erc721 token.
    *
    * @example
    * const data = erc721.getOwnerOf('0xCONTRACT_ADDRESS', 'TOKEN_ID');
@@ -82,41 +112,42 @@ export const erc721 = {
   getOwnerOf: async (
     contractAddress: string,
     tokenId: string,
-    ethereumInstance: AxiosInstance
+    state: State,
+    options: ReadOptions = {}
   ): Promise<string> => {
-    const paddedTokenId = tokenId.padStart(64, '0');
-    const param = `${Erc721.OwnerOf}${paddedTokenId}`;
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc721/getOwnerOf]',
+      state,
+      options
+    );
+
+    const param: string = abi.encodeFunctionData(
+      Erc721.OwnerOf,
+      ['uint256'],
+      [BigInt(tokenId)]
+    );
     const data: JsonRpcRequestPayload = constructEthMethodPayload(
       {
         to: contractAddress,
         data: param,
       },
-      EthMethod.Call
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
     );
 
     try {
-      const response: AxiosResponse<JsonRpcResponse<string>> =
-        await ethereumInstance.post<JsonRpcResponse<string>>('', data);
-
-      if (response.data.error) {
-        console.error(
-          '[erc721/getOwnerOf] error:',
-          response.data.error.message
-        );
-        throw new Error(
-          `[erc721/getOwnerOf] error: ${response.data.error.message}`
-        );
-      }
-
-      if (!response.data.result) {
-        console.error('[erc721/getOwnerOf] error: No result returned');
-        throw new Error('[erc721/getOwnerOf] error: No result returned');
-      }
-
-      const result = response.data.result.replace(/^(0x)0+/, '$1');
-      return result;
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        '[erc721/getOwnerOf]',
+        options
+      );
+
+      const [result] = abi.decodeParameters(['address'], response);
+      return address.getAddress(result as string);
     } catch (e) {
-      console.error('[erc721/getOwnerOf] error:', e);
+      state.logger.error('[erc721/getOwnerOf] error:', e);
       throw e;
     }
   },
@@ -124,9 +155,10 @@ export const erc721 = {
   /**
    * Fetches the uri of the erc721 token.
    *
-   * @param {string} contractAddress - The contract address of the erc721 instance.
-   * @param {string} tokenId - The specific token ID to check the owner of.
-   * @param {AxiosInstance} ethereumInstance - The ethereum client to initialize the erc721 instance
+   * @param {string} contractAddress - The contract address or ENS name of the erc721 instance.
+   * @param {string} tokenId - The token ID, as a decimal string or a `0x` prefixed hex string.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, defaults to 'latest'.
    * @returns {Promise<string>} The uri of the erc721 token.
    *
    * @example
@@ -136,47 +168,87 @@ export const erc721 = {
   getTokenUri: async (
     contractAddress: string,
     tokenId: string,
-    ethereumInstance: AxiosInstance
+    state: State,
+    options: ReadOptions = {}
   ): Promise<string> => {
-    const paddedTokenId = tokenId.padStart(64, '0');
-    const param = `${Erc721.TokenURI}${paddedTokenId}`;
+    contractAddress = await ens.toAddress(
+      contractAddress,
+      '[erc721/getTokenUri]',
+      state,
+      options
+    );
+
+    const param: string = abi.encodeFunctionData(
+      Erc721.TokenURI,
+      ['uint256'],
+      [BigInt(tokenId)]
+    );
     const data: JsonRpcRequestPayload = constructEthMethodPayload(
       {
         to: contractAddress,
         data: param,
       },
-      EthMethod.Call
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
     );
     try {
-      const response: AxiosResponse<JsonRpcResponse<string>> =
-        await ethereumInstance.post<JsonRpcResponse<string>>('', data);
-
-      if (response.data.error) {
-        console.error(
-          '[erc721/getBalanceOf] error:',
-          response.data.error.message
-        );
-        throw new Error(
-          `[erc721/getBalanceOf] error: ${response.data.error.message}`
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        '[erc721/getTokenUri]',
+        options
+      );
+
+      const [result] = abi.decodeParameters(['string'], response);
+      let metadataResponse: AxiosResponse<string>;
+      try {
+        metadataResponse = await axios.get(
+          result as string,
+          constructRequestConfig(options)
         );
+      } catch (e) {
+        throw HttpTransportError.from('[erc721/getTokenUri]', e);
       }
 
-      if (!response.data.result) {
-        console.error('[erc721/getBalanceOf] error: No result returned');
-        throw new Error('[erc721/getBalanceOf] error: No result returned');
-      }
-
-      const result: string = format.decodeHexString(response.data.result);
-      const metadataResponse: AxiosResponse<string> = await axios.get(result);
-
       if (metadataResponse) {
         return JSON.stringify(metadataResponse.data);
       }
 
-      return result;
+      return result as string;
     } catch (e) {
-      console.error('[erc721/getBalanceOf] error:', e);
+      state.logger.error('[erc721/getTokenUri] error:', e);
       throw e;
     }
   },
+  /**
+   * Fetches a page of the erc721 transfers in and out of an account, ordered by block and log index, with the
+   * timestamp of their block. Pass the returned cursor to fetch the next page.
+   *
+   * @param {string} accountAddress - The account address or ENS name.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {TransferOptions} [options] - Optional. The token contract, block range, page size and cursor.
+   * @returns {Promise<TransferPage<Erc721Transfer>>} The transfers and the cursor of the next page, null on the last page.
+   *
+   * @example
+   * const data = erc721.getTransfers('0xACCOUNT_ADDRESS', state, { contractAddress: '0xCONTRACT_ADDRESS', fromBlock: 19000000 });
+   */
+  getTransfers: (
+    accountAddress: string,
+    state: State,
+    options: TransferOptions = {}
+  ): Promise<TransferPage<Erc721Transfer>> =>
+    transfers.scan(
+      [ERC721_EVENTS.Transfer],
+      (
+        log: DecodedLog<typeof ERC721_EVENTS.Transfer>,
+        timestamp: number
+      ): Erc721Transfer => ({
+        ...transfers.fromLog(log, timestamp),
+        tokenId: log.args.tokenId,
+      }),
+      accountAddress,
+      '[erc721/getTransfers]',
+      state,
+      options
+    ),
 };
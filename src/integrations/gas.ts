@@ -0,0 +1,202 @@
+import { State } from '../lib/client/ethereumClient.js';
+import { RpcError } from '../lib/errors/errors.js';
+import { FeeHistory, RpcObject } from '../lib/interfaces/chain.js';
+import { EthMethod } from '../lib/interfaces/ethMethods.js';
+import {
+  FeeSpeed,
+  FeeSuggestion,
+  GasEstimateRequest,
+  SuggestFeesOptions,
+} from '../lib/interfaces/gas.js';
+import { RequestOptions } from '../lib/interfaces/jsonRpcRequest.js';
+
+import { constructRpcPayload } from '../utils/ethCall.js';
+import { format } from '../utils/formatting.js';
+import { hex } from '../utils/hex.js';
+import { chain } from './chain.js';
+import { ens } from './ens.js';
+import { rpc } from './rpc.js';
+
+/**
+ * The percentile of the priority fees of recent blocks paid at each speed.
+ */
+const REWARD_PERCENTILES: Record<FeeSpeed, number> = {
+  slow: 10,
+  standard: 50,
+  fast: 90,
+};
+
+/**
+ * The number of consecutive full blocks the maximum fee covers at each speed, the base fee rising by 12.5% per block.
+ */
+const BASE_FEE_BLOCKS: Record<FeeSpeed, number> = {
+  slow: 1,
+  standard: 3,
+  fast: 6,
+};
+
+/**
+ * The JSON-RPC error code of a method the node does not support, e.g. `eth_feeHistory` on chains without base fee.
+ */
+const METHOD_NOT_FOUND: number = -32601;
+
+/**
+ * Computes the median of amounts, the upper one for an even count.
+ *
+ * @param {bigint[]} values - The amounts, at least one.
+ * @returns {bigint} The median.
+ */
+const median = (values: bigint[]): bigint =>
+  [...values].sort((a: bigint, b: bigint): number =>
+    a < b ? -1 : a > b ? 1 : 0
+  )[Math.floor(values.length / 2)];
+
+/**
+ * Computes the highest base fee reachable after a number of full blocks.
+ *
+ * @param {bigint} baseFee - The base fee of the next block.
+ * @param {number} blocks - The number of full blocks.
+ * @returns {bigint} The base fee, rounded up.
+ */
+const projectBaseFee = (baseFee: bigint, blocks: number): bigint => {
+  let projected: bigint = baseFee;
+  for (let i = 0; i < blocks; i++) {
+    projected = (projected * BigInt(9) + BigInt(7)) / BigInt(8);
+  }
+  return projected;
+};
+
+/**
+ * Gas integration for estimating gas limits and suggesting EIP-1559 fees.
+ *
+ * @fileoverview This file provides helper functions for pricing transactions, from `eth_estimateGas`,
+ * `eth_feeHistory` and `eth_gasPrice`.
+ * @namespace gas
+ */
+export const gas = {
+  /**
+   * Estimates the gas used by a transaction with `eth_estimateGas`.
+   *
+   * @param {GasEstimateRequest} request - The transaction, with a recipient address or ENS name. The sender defaults to the client signer.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<bigint>} The gas estimate.
+   * @throws {ContractRevertError} When the transaction reverts.
+   *
+   * @example
+   * const data = gas.estimate({ to: '0xRECIPIENT_ADDRESS', value: BigInt('1000000000000000000') }, state);
+   */
+  estimate: async (
+    request: GasEstimateRequest,
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<bigint> => {
+    const to: string | undefined =
+      request.to === undefined || request.to === null
+        ? undefined
+        : await ens.toAddress(request.to, '[gas/estimate]', state, options);
+
+    try {
+      const response: string = await rpc.send<string>(
+        constructRpcPayload(EthMethod.EstimateGas, [
+          {
+            from: request.from ?? state.signer?.address,
+            to,
+            data: request.data,
+            value:
+              request.value === undefined
+                ? undefined
+                : hex.fromNumber(request.value),
+            accessList: request.accessList,
+          } as RpcObject,
+        ]),
+        state,
+        '[gas/estimate]',
+        options
+      );
+
+      return BigInt(response);
+    } catch (e) {
+      state.logger.error('[gas/estimate] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Suggests EIP-1559 fees from the priority fees paid in recent blocks and the trend of their base fee. The priority
+   * fee is the median of the reward percentile of the speed over the non empty blocks, and the maximum fee covers the
+   * base fee after several full blocks, one more when the recent blocks were more than half full. Chains without base
+   * fee, whose nodes return no base fee or do not support `eth_feeHistory`, fall back to `eth_gasPrice`.
+   *
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {SuggestFeesOptions} [options] - Optional. The speed, defaults to 'standard', and the number of recent blocks, defaults to 10.
+   * @returns {Promise<FeeSuggestion>} The suggested fees.
+   *
+   * @example
+   * const { maxFeePerGas, maxPriorityFeePerGas } = await gas.suggestFees(state, { speed: 'fast' });
+   */
+  suggestFees: async (
+    state: State,
+    { speed = 'standard', blockCount = 10, ...options }: SuggestFeesOptions = {}
+  ): Promise<FeeSuggestion> => {
+    try {
+      const history: FeeHistory | null = await rpc
+        .send<RpcObject>(
+          constructRpcPayload(EthMethod.FeeHistory, [
+            hex.fromNumber(blockCount),
+            'latest',
+            [REWARD_PERCENTILES[speed]],
+          ]),
+          state,
+          '[gas/suggestFees]',
+          options
+        )
+        .then(format.toFeeHistory, (e: unknown): null => {
+          if (e instanceof RpcError && e.code === METHOD_NOT_FOUND) {
+            return null;
+          }
+          throw e;
+        });
+
+      const baseFeePerGas: bigint | undefined =
+        history?.baseFeePerGas[history.baseFeePerGas.length - 1];
+      if (baseFeePerGas === undefined) {
+        const gasPrice: bigint = await chain.getGasPrice(state, options);
+        return {
+          maxFeePerGas: gasPrice,
+          maxPriorityFeePerGas: gasPrice,
+          gasPrice,
+        };
+      }
+
+      const rewards: bigint[] = (history.reward ?? [])
+        .filter(
+          (reward: bigint[], i: number): boolean =>
+            history.gasUsedRatio[i] > 0 && reward[0] !== undefined
+        )
+        .map((reward: bigint[]): bigint => reward[0]);
+      const maxPriorityFeePerGas: bigint = rewards.length
+        ? median(rewards)
+        : await chain.getMaxPriorityFeePerGas(state, options);
+
+      const usage: number =
+        history.gasUsedRatio.reduce(
+          (sum: number, ratio: number): number => sum + ratio,
+          0
+        ) / (history.gasUsedRatio.length || 1);
+
+      return {
+        maxFeePerGas:
+          projectBaseFee(
+            baseFeePerGas,
+            BASE_FEE_BLOCKS[speed] + (usage > 0.5 ? 1 : 0)
+          ) + maxPriorityFeePerGas,
+        maxPriorityFeePerGas,
+        baseFeePerGas,
+      };
+    } catch (e) {
+      state.logger.error('[gas/suggestFees] error:', e);
+      throw e;
+    }
+  },
+};
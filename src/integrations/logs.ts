@@ -0,0 +1,281 @@
+import { State } from '../lib/client/ethereumClient.js';
+import { RpcError } from '../lib/errors/errors.js';
+import { AbiEvent } from '../lib/interfaces/abi.js';
+import { Log, RpcObject } from '../lib/interfaces/chain.js';
+import { EthMethod } from '../lib/interfaces/ethMethods.js';
+import { BlockTag, RequestOptions } from '../lib/interfaces/jsonRpcRequest.js';
+import { AbiEventArgs, DecodedLog, LogFilter } from '../lib/interfaces/logs.js';
+
+import { abi } from '../utils/abi.js';
+import { constructRpcPayload } from '../utils/ethCall.js';
+import { format } from '../utils/formatting.js';
+import { chain } from './chain.js';
+import { ens } from './ens.js';
+import { rpc } from './rpc.js';
+
+/**
+ * The events of the ERC20 standard.
+ */
+export const ERC20_EVENTS = {
+  Transfer: {
+    type: 'event',
+    name: 'Transfer',
+    inputs: [
+      { type: 'address', name: 'from', indexed: true },
+      { type: 'address', name: 'to', indexed: true },
+      { type: 'uint256', name: 'value', indexed: false },
+    ],
+  },
+  Approval: {
+    type: 'event',
+    name: 'Approval',
+    inputs: [
+      { type: 'address', name: 'owner', indexed: true },
+      { type: 'address', name: 'spender', indexed: true },
+      { type: 'uint256', name: 'value', indexed: false },
+    ],
+  },
+} as const;
+
+/**
+ * The events of the ERC721 standard. `Transfer` shares its topic with the ERC20 event, but indexes the token id.
+ */
+export const ERC721_EVENTS = {
+  Transfer: {
+    type: 'event',
+    name: 'Transfer',
+    inputs: [
+      { type: 'address', name: 'from', indexed: true },
+      { type: 'address', name: 'to', indexed: true },
+      { type: 'uint256', name: 'tokenId', indexed: true },
+    ],
+  },
+  Approval: {
+    type: 'event',
+    name: 'Approval',
+    inputs: [
+      { type: 'address', name: 'owner', indexed: true },
+      { type: 'address', name: 'approved', indexed: true },
+      { type: 'uint256', name: 'tokenId', indexed: true },
+    ],
+  },
+  ApprovalForAll: {
+    type: 'event',
+    name: 'ApprovalForAll',
+    inputs: [
+      { type: 'address', name: 'owner', indexed: true },
+      { type: 'address', name: 'operator', indexed: true },
+      { type: 'bool', name: 'approved', indexed: false },
+    ],
+  },
+} as const;
+
+/**
+ * The events of the ERC1155 standard.
+ */
+export const ERC1155_EVENTS = {
+  TransferSingle: {
+    type: 'event',
+    name: 'TransferSingle',
+    inputs: [
+      { type: 'address', name: 'operator', indexed: true },
+      { type: 'address', name: 'from', indexed: true },
+      { type: 'address', name: 'to', indexed: true },
+      { type: 'uint256', name: 'id', indexed: false },
+      { type: 'uint256', name: 'value', indexed: false },
+    ],
+  },
+  TransferBatch: {
+    type: 'event',
+    name: 'TransferBatch',
+    inputs: [
+      { type: 'address', name: 'operator', indexed: true },
+      { type: 'address', name: 'from', indexed: true },
+      { type: 'address', name: 'to', indexed: true },
+      { type: 'uint256[]', name: 'ids', indexed: false },
+      { type: 'uint256[]', name: 'values', indexed: false },
+    ],
+  },
+  ApprovalForAll: {
+    type: 'event',
+    name: 'ApprovalForAll',
+    inputs: [
+      { type: 'address', name: 'account', indexed: true },
+      { type: 'address', name: 'operator', indexed: true },
+      { type: 'bool', name: 'approved', indexed: false },
+    ],
+  },
+  URI: {
+    type: 'event',
+    name: 'URI',
+    inputs: [
+      { type: 'string', name: 'value', indexed: false },
+      { type: 'uint256', name: 'id', indexed: true },
+    ],
+  },
+} as const;
+
+/**
+ * Matches the errors providers return when a log query spans too many blocks or matches too many logs, e.g.
+ * 'query returned more than 10000 results', 'block range too large' or 'Log response size exceeded'.
+ */
+const RANGE_ERROR: RegExp =
+  /block range|range (is )?too (large|wide|big)|limited to a [\d,]+ range|too many (logs|results|blocks)|more than \d+ results|max(imum)? results|response size/i;
+
+/**
+ * JSON-RPC error codes of rate limits, whose errors are never split even when their message matches a range error.
+ */
+const RATE_LIMIT_CODES: number[] = [-32005, 429];
+
+/**
+ * The maximum number of times a block range is halved before the error is rethrown.
+ */
+const MAX_SPLIT_DEPTH: number = 16;
+
+/**
+ * Fetches the logs of a block range, halving the range while the provider rejects it as too large.
+ *
+ * @param {RpcObject} filter - The `eth_getLogs` filter without its block range.
+ * @param {number | bigint | BlockTag} fromBlock - The first block of the range.
+ * @param {number | bigint | BlockTag} toBlock - The last block of the range.
+ * @param {State} state - The client state holding the ethereum instance and the logger.
+ * @param {RequestOptions} options - The request timeout and abort signal.
+ * @param {number} [depth=0] - Optional. The number of times the range was already halved.
+ * @returns {Promise<RpcObject[]>} The logs, in block order.
+ */
+const fetchRange = async (
+  filter: RpcObject,
+  fromBlock: number | bigint | BlockTag,
+  toBlock: number | bigint | BlockTag,
+  state: State,
+  options: RequestOptions,
+  depth: number = 0
+): Promise<RpcObject[]> => {
+  try {
+    return await rpc.send<RpcObject[]>(
+      constructRpcPayload(EthMethod.GetLogs, [
+        {
+          ...filter,
+          fromBlock: format.toBlockParameter(fromBlock),
+          toBlock: format.toBlockParameter(toBlock),
+        },
+      ]),
+      state,
+      '[logs/get]',
+      options
+    );
+  } catch (e) {
+    if (
+      !(e instanceof RpcError) ||
+      RATE_LIMIT_CODES.includes(e.code) ||
+      !RANGE_ERROR.test(e.message) ||
+      depth >= MAX_SPLIT_DEPTH
+    ) {
+      throw e;
+    }
+
+    const from: number = await chain.resolveBlockNumber(
+      fromBlock,
+      state,
+      options
+    );
+    const to: number = await chain.resolveBlockNumber(toBlock, state, options);
+    if (from >= to) {
+      throw e;
+    }
+
+    const middle: number = Math.floor((from + to) / 2);
+    state.logger.debug(
+      `[logs/get] splitting blocks ${from}-${to} at ${middle}`
+    );
+
+    return [
+      ...(await fetchRange(filter, from, middle, state, options, depth + 1)),
+      ...(await fetchRange(filter, middle + 1, to, state, options, depth + 1)),
+    ];
+  }
+};
+
+/**
+ * Logs integration for querying and decoding event logs.
+ *
+ * @fileoverview This file provides helper functions for fetching event logs with `eth_getLogs`.
+ * @namespace logs
+ */
+export const logs = {
+  /**
+   * Fetches the logs of an event, filtered by emitting contract, indexed arguments and block range, and decodes them.
+   * Ranges rejected by the provider as too large, or as matching too many logs, are split in halves until they pass,
+   * at most 16 times. Rate limit errors (code -32005 or 429) are rethrown without splitting.
+   * Logs whose topics do not match the event, e.g. ERC721 transfers matched by the ERC20 `Transfer` event, are skipped.
+   *
+   * @param {LogFilter<E>} filter - The contract addresses, event, indexed arguments and block range to query.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @returns {Promise<DecodedLog<E>[]>} The decoded logs, in block order.
+   *
+   * @example
+   * const data = logs.get({ address: '0xCONTRACT_ADDRESS', event: ERC20_EVENTS.Transfer, args: { to: '0xACCOUNT_ADDRESS' }, fromBlock: 19000000 }, state);
+   */
+  get: async <E extends AbiEvent>(
+    {
+      address,
+      event,
+      args,
+      fromBlock = 'latest',
+      toBlock = 'latest',
+      ...options
+    }: LogFilter<E>,
+    state: State
+  ): Promise<DecodedLog<E>[]> => {
+    const addresses: string[] | undefined =
+      address === undefined
+        ? undefined
+        : await Promise.all(
+            (Array.isArray(address) ? address : [address]).map(
+              (value: string): Promise<string> =>
+                ens.toAddress(value, '[logs/get]', state, options)
+            )
+          );
+
+    try {
+      const filter: RpcObject = {
+        address:
+          addresses?.length === 1 ? addresses[0] : addresses ?? undefined,
+        topics: abi.encodeEventTopics(event, args),
+      };
+
+      const response: RpcObject[] = await fetchRange(
+        filter,
+        fromBlock,
+        toBlock,
+        state,
+        options
+      );
+
+      return response.flatMap((log: RpcObject): DecodedLog<E>[] => {
+        try {
+          const decoded: Log = format.toLog(log);
+          return [
+            {
+              ...decoded,
+              eventName: event.name,
+              args: abi.decodeEventLog(
+                event,
+                decoded.topics,
+                decoded.data
+              ) as AbiEventArgs<E>,
+            },
+          ];
+        } catch (e) {
+          state.logger.debug(
+            `[logs/get] skipping log: ${(e as Error).message}`
+          );
+          return [];
+        }
+      });
+    } catch (e) {
+      state.logger.error('[logs/get] error:', e);
+      throw e;
+    }
+  },
+};
@@ -0,0 +1,148 @@
+import { State } from '../lib/client/ethereumClient.js';
+import { AbiFunction, AbiValue } from '../lib/interfaces/abi.js';
+import { EthMethod } from '../lib/interfaces/ethMethods.js';
+import { JsonRpcRequestPayload } from '../lib/interfaces/jsonRpcRequest.js';
+import {
+  MulticallCall,
+  MulticallOptions,
+  MulticallResult,
+} from '../lib/interfaces/multicall.js';
+import {
+  Call3,
+  Call3Result,
+  decodeAggregate3,
+  encodeAggregate3,
+} from '../lib/transport/multicall.js';
+
+import { abi as abiCoder } from '../utils/abi.js';
+import { constructEthMethodPayload } from '../utils/ethCall.js';
+import { format } from '../utils/formatting.js';
+import { revert } from '../utils/revert.js';
+import { rpc } from './rpc.js';
+
+/**
+ * Finds the function called by an aggregated read, resolving overloads by the number of arguments.
+ *
+ * @param {MulticallCall} call - The aggregated read.
+ * @returns {AbiFunction} The ABI entry of the function.
+ */
+const findFunction = (call: MulticallCall): AbiFunction => {
+  const fn: AbiFunction | undefined = abiCoder.findFunction(
+    call.abi,
+    call.functionName,
+    (call.args ?? []).length
+  );
+
+  if (!fn) {
+    throw new Error(
+      `[multicall/aggregate] error: Function ${call.functionName} with ${
+        (call.args ?? []).length
+      } arguments not found in ABI`
+    );
+  }
+
+  return fn;
+};
+
+/**
+ * Multicall3 integration for aggregating contract reads into a single `eth_call`.
+ *
+ * @fileoverview This file provides helper functions for Ethereum JSON-RPC interactions through Multicall3.
+ * @namespace multicall
+ */
+export const multicall = {
+  /**
+   * Aggregates contract reads into a single Multicall3 `aggregate3` call and decodes their results.
+   *
+   * @param {MulticallCall[]} calls - The contract reads.
+   * @param {string} multicallAddress - The Multicall3 address.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {MulticallOptions} [options] - Optional. Whether calls may fail, and the block to read the state at.
+   * @returns {Promise<MulticallResult[]>} The outcome of every read, in the order of the calls.
+   *
+   * @example
+   * const data = multicall.aggregate(
+   *   [{ address: '0xCONTRACT_ADDRESS', abi: erc20Abi, functionName: 'symbol' }],
+   *   MULTICALL3_ADDRESS,
+   *   state
+   * );
+   */
+  aggregate: async (
+    calls: MulticallCall[],
+    multicallAddress: string,
+    state: State,
+    options: MulticallOptions = {}
+  ): Promise<MulticallResult[]> => {
+    if (calls.length === 0) {
+      return [];
+    }
+
+    const fns: AbiFunction[] = calls.map(findFunction);
+    const param: string = encodeAggregate3(
+      calls.map(
+        (call: MulticallCall, i: number): Call3 => ({
+          target: call.address,
+          allowFailure: call.allowFailure ?? options.allowFailure ?? true,
+          callData: abiCoder.encodeFunctionData(
+            abiCoder.getSelector(fns[i]),
+            fns[i].inputs,
+            call.args ?? []
+          ),
+        })
+      )
+    );
+    const data: JsonRpcRequestPayload = constructEthMethodPayload(
+      {
+        to: multicallAddress,
+        data: param,
+      },
+      EthMethod.Call,
+      format.toBlockParameter(options.block)
+    );
+
+    try {
+      const response: string = await rpc.send<string>(
+        data,
+        state,
+        '[multicall/aggregate]',
+        options
+      );
+
+      return decodeAggregate3(response).map(
+        ({ success, returnData }: Call3Result, i: number): MulticallResult => {
+          if (!success) {
+            return {
+              status: 'failure',
+              error: revert.toError(
+                `[multicall/${fns[i].name}]`,
+                returnData,
+                calls[i].abi
+              ),
+            };
+          }
+
+          try {
+            const outputs: AbiValue[] = abiCoder.decodeParameters(
+              fns[i].outputs ?? [],
+              returnData
+            );
+            return {
+              status: 'success',
+              result:
+                outputs.length === 0
+                  ? undefined
+                  : outputs.length === 1
+                  ? outputs[0]
+                  : outputs,
+            };
+          } catch (e) {
+            return { status: 'failure', error: e as Error };
+          }
+        }
+      );
+    } catch (e) {
+      state.logger.error('[multicall/aggregate] error:', e);
+      throw e;
+    }
+  },
+};
@@ -0,0 +1,173 @@
+import { AxiosResponse } from 'axios';
+
+import { State } from '../lib/client/ethereumClient.js';
+import {
+  EmptyResultError,
+  HttpTransportError,
+  RpcError,
+} from '../lib/errors/errors.js';
+import { Abi } from '../lib/interfaces/abi.js';
+import { EthMethod } from '../lib/interfaces/ethMethods.js';
+import {
+  JsonRpcCall,
+  JsonRpcRequestPayload,
+  RequestOptions,
+} from '../lib/interfaces/jsonRpcRequest.js';
+import { JsonRpcResponse } from '../lib/interfaces/jsonRpcResponse.js';
+
+import {
+  constructBatchPayload,
+  constructRequestConfig,
+} from '../utils/ethCall.js';
+import { revert } from '../utils/revert.js';
+
+/**
+ * Raw JSON-RPC integration for sending arbitrary requests.
+ *
+ * @fileoverview This file provides helper functions for raw Ethereum JSON-RPC interactions.
+ * @namespace rpc
+ */
+export const rpc = {
+  /**
+   * Sends a JSON-RPC request and returns its result, throwing a typed error when it fails.
+   *
+   * @param {JsonRpcRequestPayload} payload - The JSON-RPC request.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {string} context - The module and function sending the request, used as error prefix, e.g. '[erc20/getName]'.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @param {Abi} [contractAbi] - Optional. The ABI declaring the custom errors of the called contract, in addition to the client `errorAbi`.
+   * @returns {Promise<T>} The result of the request.
+   * @throws {HttpTransportError} When the HTTP request fails.
+   * @throws {ContractRevertError} When an `eth_call` or a gas estimate reverts.
+   * @throws {RpcError} When the RPC server returns any other error.
+   * @throws {EmptyResultError} When the RPC server returns no result.
+   *
+   * @example
+   * const data = await rpc.send<string>(payload, state, '[erc20/getName]');
+   */
+  send: async <T>(
+    payload: JsonRpcRequestPayload,
+    state: State,
+    context: string,
+    options: RequestOptions = {},
+    contractAbi: Abi = []
+  ): Promise<T> => {
+    state.logger.debug(`${context} request:`, payload.method, payload.params);
+
+    let response: AxiosResponse<JsonRpcResponse<T>>;
+    try {
+      response = await state.instance.post<JsonRpcResponse<T>>(
+        '',
+        payload,
+        constructRequestConfig(options)
+      );
+    } catch (e) {
+      throw HttpTransportError.from(context, e);
+    }
+
+    const { error, result } = response.data;
+
+    if (error) {
+      const revertData: string | undefined =
+        payload.method === EthMethod.Call ||
+        payload.method === EthMethod.EstimateGas
+          ? revert.extractData(error)
+          : undefined;
+
+      if (revertData !== undefined) {
+        throw revert.toError(
+          context,
+          revertData,
+          [...contractAbi, ...state.errorAbi],
+          error
+        );
+      }
+
+      throw new RpcError(`${context} error: ${error.message}`, {
+        code: error.code,
+        data: error.data,
+        method: payload.method,
+      });
+    }
+
+    if (result === undefined || result === null || result === '') {
+      throw new EmptyResultError(
+        `${context} error: No result returned`,
+        payload.method
+      );
+    }
+
+    return result;
+  },
+
+  /**
+   * Sends several JSON-RPC calls in a single batch request.
+   *
+   * @param {JsonRpcCall[]} calls - The calls to send, each with a method and its params.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<JsonRpcResponse<unknown>[]>} One response per call, in the order of the calls. Failed calls carry their own `error`.
+   *
+   * @example
+   * const data = rpc.batch([{ method: 'eth_blockNumber' }, { method: 'eth_chainId' }], state);
+   */
+  batch: async (
+    calls: JsonRpcCall[],
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<JsonRpcResponse<unknown>[]> => {
+    if (calls.length === 0) {
+      return [];
+    }
+
+    const data: JsonRpcRequestPayload[] = constructBatchPayload(calls);
+
+    try {
+      let response: AxiosResponse<
+        JsonRpcResponse<unknown>[] | JsonRpcResponse<unknown>
+      >;
+      try {
+        response = await state.instance.post<
+          JsonRpcResponse<unknown>[] | JsonRpcResponse<unknown>
+        >('', data, constructRequestConfig(options));
+      } catch (e) {
+        throw HttpTransportError.from('[rpc/batch]', e);
+      }
+
+      if (!Array.isArray(response.data)) {
+        throw new RpcError(
+          `[rpc/batch] error: ${
+            response.data?.error?.message ?? 'Batch requests are not supported'
+          }`,
+          {
+            code: response.data?.error?.code ?? -32600,
+            data: response.data?.error?.data,
+          }
+        );
+      }
+
+      const responses: Map<number, JsonRpcResponse<unknown>> = new Map(
+        response.data.map(
+          (
+            item: JsonRpcResponse<unknown>
+          ): [number, JsonRpcResponse<unknown>] => [item.id, item]
+        )
+      );
+
+      return data.map(
+        (request: JsonRpcRequestPayload): JsonRpcResponse<unknown> =>
+          responses.get(request.id) ?? {
+            jsonrpc: '2.0',
+            id: request.id,
+            error: {
+              code: -32603,
+              message: `No response returned for ${request.method}`,
+            },
+          }
+      );
+    } catch (e) {
+      state.logger.error('[rpc/batch] error:', e);
+      throw e;
+    }
+  },
+};
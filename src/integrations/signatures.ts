@@ -0,0 +1,357 @@
+import { State } from '../lib/client/ethereumClient.js';
+import { ContractRevertError, SiweError } from '../lib/errors/errors.js';
+import { Erc1271, EthMethod } from '../lib/interfaces/ethMethods.js';
+import { CallParams, ReadOptions } from '../lib/interfaces/jsonRpcRequest.js';
+import {
+  SiweMessage,
+  SiweSession,
+  SiweVerifyOptions,
+} from '../lib/interfaces/siwe.js';
+import { TypedData } from '../lib/interfaces/typedData.js';
+
+import { abi } from '../utils/abi.js';
+import { constructEthMethodPayload } from '../utils/ethCall.js';
+import { format } from '../utils/formatting.js';
+import { hex } from '../utils/hex.js';
+import { signature } from '../utils/signature.js';
+import { siwe } from '../utils/siwe.js';
+import { typedData } from '../utils/typedData.js';
+import { chain } from './chain.js';
+import { ens } from './ens.js';
+import { rpc } from './rpc.js';
+import { wallet } from './wallet.js';
+
+/**
+ * The suffix of EIP-6492 signatures, signatures of smart contract wallets that are not deployed yet.
+ */
+const ERC6492_SUFFIX: string = '6492'.repeat(16);
+
+/**
+ * The result of a valid `isValidSignature` call, the selector ABI encoded as a 32 byte word.
+ */
+const ERC1271_MAGIC_VALUE: string = abi.encodeParameters(
+  ['bytes4'],
+  [Erc1271.IsValidSignature]
+);
+
+/**
+ * Creation code run by `eth_call` to check an EIP-6492 signature of a wallet that is not deployed yet. It copies the
+ * words appended to it, `factory ‖ deployOffset ‖ deployLength ‖ signer ‖ checkOffset ‖ checkLength ‖ calldata`,
+ * to memory, calls the factory with the deploy calldata, then returns the result of the `isValidSignature` call to
+ * the signer, or zero when it fails:
+ *
+ *   CODECOPY(0, 0x3b, CODESIZE - 0x3b)
+ *   POP(CALL(GAS, MLOAD(0x00), 0, MLOAD(0x20), MLOAD(0x40), 0, 0))
+ *   MSTORE(0, 0)
+ *   STATICCALL(GAS, MLOAD(0x60), MLOAD(0x80), MLOAD(0xa0), 0, 0x20)
+ *   MSTORE(0, MUL(MLOAD(0), success))
+ *   RETURN(0, 0x20)
+ */
+const ERC6492_VALIDATOR: string =
+  '0x603b3803603b6000396000600060405160205160006000515af15060006000526020600060a0516080516060515afa6000510260005260206000f3';
+
+/**
+ * Unwraps an EIP-6492 signature into the factory deploying the wallet, the deploy calldata and the signature.
+ *
+ * @param {string} value - The `0x` prefixed signature.
+ * @returns {[string, string, string] | null} The factory, the calldata and the signature, or null when the signature is not wrapped.
+ */
+const unwrapErc6492 = (value: string): [string, string, string] | null => {
+  if (!hex.strip(value).endsWith(ERC6492_SUFFIX)) {
+    return null;
+  }
+
+  return abi.decodeParameters(
+    ['address', 'bytes', 'bytes'],
+    value.slice(0, -ERC6492_SUFFIX.length)
+  ) as [string, string, string];
+};
+
+/**
+ * Builds the `eth_call` of an `isValidSignature` check, by the signer when it is deployed, or by the EIP-6492
+ * validator deploying it first otherwise.
+ *
+ * @param {string} signerAddress - The address of the signer.
+ * @param {string} hash - The `0x` prefixed 32 byte hash.
+ * @param {string} value - The `0x` prefixed signature.
+ * @param {[string, string] | null} deployment - The factory and its calldata, when the signer is not deployed.
+ * @returns {CallParams} The call.
+ */
+const toValidationCall = (
+  signerAddress: string,
+  hash: string,
+  value: string,
+  deployment: [string, string] | null
+): CallParams => {
+  const data: string = abi.encodeFunctionData(
+    Erc1271.IsValidSignature,
+    ['bytes32', 'bytes'],
+    [hash, value]
+  );
+  if (!deployment) {
+    return { to: signerAddress, data };
+  }
+
+  const [factory, factoryCalldata] = deployment;
+  const deployLength: number = hex.strip(factoryCalldata).length / 2;
+  return {
+    data: hex.concat([
+      ERC6492_VALIDATOR,
+      abi.encodeParameters(
+        ['address', 'uint256', 'uint256', 'address', 'uint256', 'uint256'],
+        [
+          factory,
+          BigInt(0xc0),
+          BigInt(deployLength),
+          signerAddress,
+          BigInt(0xc0 + deployLength),
+          BigInt(hex.strip(data).length / 2),
+        ]
+      ),
+      factoryCalldata,
+      data,
+    ]),
+  };
+};
+
+/**
+ * Recovers the signer of a hash, or null when the value is not a valid 65 byte signature, e.g. a contract signature.
+ *
+ * @param {string} hash - The `0x` prefixed 32 byte hash.
+ * @param {string} value - The `0x` prefixed signature.
+ * @returns {string | null} The checksummed address of the signer, or null.
+ */
+const tryRecoverAddress = (hash: string, value: string): string | null => {
+  try {
+    return signature.recoverAddress(hash, value);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Checks a signature of a hash: signatures of externally owned accounts are recovered locally, other signers are
+ * asked with the `isValidSignature` function of ERC1271 when they hold code. EIP-6492 signatures of wallets without
+ * code are checked by deploying the wallet in the same `eth_call`.
+ *
+ * @param {string} signerAddress - The address or ENS name of the expected signer.
+ * @param {string} hash - The `0x` prefixed 32 byte hash.
+ * @param {string} value - The `0x` prefixed signature.
+ * @param {string} context - The module and function verifying the signature, used in errors.
+ * @param {State} state - The client state holding the ethereum instance and the logger.
+ * @param {ReadOptions} options - The block to read the state at, the request timeout and abort signal.
+ * @returns {Promise<boolean>} True when the signature is valid.
+ */
+const verify = async (
+  signerAddress: string,
+  hash: string,
+  value: string,
+  context: string,
+  state: State,
+  options: ReadOptions
+): Promise<boolean> => {
+  signerAddress = await ens.toAddress(signerAddress, context, state, options);
+
+  try {
+    const wrapped: [string, string, string] | null = unwrapErc6492(value);
+    const unwrapped: string = wrapped ? wrapped[2] : value;
+    if (tryRecoverAddress(hash, unwrapped) === signerAddress) {
+      return true;
+    }
+
+    const code: string = await chain.getCode(signerAddress, state, options);
+    if (code === '0x' && !wrapped) {
+      return false;
+    }
+
+    const response: string = await rpc
+      .send<string>(
+        constructEthMethodPayload(
+          toValidationCall(
+            signerAddress,
+            hash,
+            unwrapped,
+            code === '0x' ? [wrapped[0], wrapped[1]] : null
+          ),
+          EthMethod.Call,
+          format.toBlockParameter(options.block)
+        ),
+        state,
+        context,
+        options
+      )
+      .catch((e: unknown): string => {
+        if (e instanceof ContractRevertError) {
+          return '0x';
+        }
+        throw e;
+      });
+
+    return response.toLowerCase() === ERC1271_MAGIC_VALUE;
+  } catch (e) {
+    state.logger.error(`${context} error:`, e);
+    throw e;
+  }
+};
+
+/**
+ * Signatures integration for verifying signed hashes, messages and typed data, of accounts and contracts alike.
+ *
+ * @fileoverview This file provides helper functions for verifying signatures and Sign-In With Ethereum messages,
+ * with ERC1271 and EIP-6492 contract signatures checked by `eth_call`.
+ * @namespace signatures
+ */
+export const signatures = {
+  /**
+   * Verifies a signature of a 32 byte hash.
+   *
+   * @param {string} signerAddress - The address or ENS name of the expected signer, an account or an ERC1271 contract.
+   * @param {string} hash - The `0x` prefixed 32 byte hash.
+   * @param {string} value - The `0x` prefixed signature.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to check contract signatures at, defaults to 'latest'.
+   * @returns {Promise<boolean>} True when the signature is valid.
+   *
+   * @example
+   * const data = signatures.verifyHash('0xSIGNER_ADDRESS', '0xHASH', '0xSIGNATURE', state);
+   */
+  verifyHash: async (
+    signerAddress: string,
+    hash: string,
+    value: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<boolean> =>
+    verify(
+      signerAddress,
+      hash,
+      value,
+      '[signatures/verifyHash]',
+      state,
+      options
+    ),
+
+  /**
+   * Verifies an EIP-191 signature of a message, as produced by `personal_sign`.
+   *
+   * @param {string} signerAddress - The address or ENS name of the expected signer, an account or an ERC1271 contract.
+   * @param {string | Uint8Array} message - The message, as a UTF-8 string or as raw bytes.
+   * @param {string} value - The `0x` prefixed signature.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to check contract signatures at, defaults to 'latest'.
+   * @returns {Promise<boolean>} True when the signature is valid.
+   *
+   * @example
+   * const data = signatures.verifyMessage('0xSIGNER_ADDRESS', 'hello world', '0xSIGNATURE', state);
+   */
+  verifyMessage: async (
+    signerAddress: string,
+    message: string | Uint8Array,
+    value: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<boolean> =>
+    verify(
+      signerAddress,
+      signature.hashMessage(message),
+      value,
+      '[signatures/verifyMessage]',
+      state,
+      options
+    ),
+
+  /**
+   * Verifies an EIP-712 signature of a typed data message.
+   *
+   * @param {string} signerAddress - The address or ENS name of the expected signer, an account or an ERC1271 contract.
+   * @param {TypedData} data - The domain, types, primary type and message.
+   * @param {string} value - The `0x` prefixed signature.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {ReadOptions} [options] - Optional. The block to check contract signatures at, defaults to 'latest'.
+   * @returns {Promise<boolean>} True when the signature is valid.
+   * @throws {Error} When the message does not match its types.
+   *
+   * @example
+   * const data = signatures.verifyTypedData('0xSIGNER_ADDRESS', { domain, types, primaryType: 'Mail', message }, '0xSIGNATURE', state);
+   */
+  verifyTypedData: async (
+    signerAddress: string,
+    data: TypedData,
+    value: string,
+    state: State,
+    options: ReadOptions = {}
+  ): Promise<boolean> =>
+    verify(
+      signerAddress,
+      typedData.hash(data),
+      value,
+      '[signatures/verifyTypedData]',
+      state,
+      options
+    ),
+
+  /**
+   * Verifies a Sign-In With Ethereum (EIP-4361) message and its signature, returning the session of the account. The
+   * message must match the expected domain and nonce, which are mandatory, and the expected chain, which defaults to
+   * the chain of the client, and be valid at the verification time.
+   *
+   * @param {string} message - The signed message.
+   * @param {string} value - The `0x` prefixed signature of the account, an account or an ERC1271 or EIP-6492 contract.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {SiweVerifyOptions} options - The expected domain and nonce, and optionally the chain id, the time to verify
+   * at and the block to check contract signatures at.
+   * @returns {Promise<SiweSession>} The session of the account.
+   * @throws {SiweError} When the expected domain or nonce is missing, or the message is malformed, does not match, is not
+   * valid at the time or is not signed by its account.
+   *
+   * @example
+   * const data = signatures.verifySiweMessage(message, '0xSIGNATURE', state, { domain: 'example.com', nonce });
+   */
+  verifySiweMessage: async (
+    message: string,
+    value: string,
+    state: State,
+    { domain, nonce, chainId, time, ...options }: SiweVerifyOptions = {
+      domain: undefined,
+      nonce: undefined,
+    }
+  ): Promise<SiweSession> => {
+    const context: string = '[signatures/verifySiweMessage]';
+    const fields: SiweMessage = siwe.parseMessage(message);
+
+    siwe.validate(fields, {
+      domain,
+      nonce,
+      chainId: chainId ?? (await wallet.getChainId(state, options)),
+      time,
+    });
+
+    if (
+      !(await verify(
+        fields.address,
+        signature.hashMessage(message),
+        value,
+        context,
+        state,
+        options
+      ))
+    ) {
+      throw new SiweError(
+        `${context} error: The message is not signed by ${fields.address}`,
+        'signature'
+      );
+    }
+
+    return {
+      address: fields.address,
+      chainId: fields.chainId,
+      domain: fields.domain,
+      nonce: fields.nonce,
+      issuedAt: new Date(fields.issuedAt),
+      expirationTime: fields.expirationTime
+        ? new Date(fields.expirationTime)
+        : undefined,
+      message: fields,
+    };
+  },
+};
@@ -0,0 +1,241 @@
+import { State } from '../lib/client/ethereumClient.js';
+import { AbiEvent, AbiValue } from '../lib/interfaces/abi.js';
+import { DecodedLog, LogFilterArgs } from '../lib/interfaces/logs.js';
+import {
+  TokenTransfer,
+  TransferOptions,
+  TransferPage,
+} from '../lib/interfaces/transfers.js';
+
+import { chain } from './chain.js';
+import { ens } from './ens.js';
+import { logs } from './logs.js';
+
+/**
+ * Interface representing the position of the next transfer of a history.
+ *
+ * @interface
+ * @property {number} blockNumber - The block of the next transfer.
+ * @property {number} logIndex - The log index of the next transfer in its block.
+ * @property {number} toBlock - The last block of the history, fixed by the first page.
+ */
+interface Cursor {
+  blockNumber: number;
+  logIndex: number;
+  toBlock: number;
+}
+
+/**
+ * Encodes the position of the next transfer as an opaque cursor.
+ *
+ * @param {Cursor} cursor - The position of the next transfer.
+ * @returns {string} The cursor.
+ */
+const encodeCursor = ({ blockNumber, logIndex, toBlock }: Cursor): string =>
+  `${blockNumber}:${logIndex}:${toBlock}`;
+
+/**
+ * Decodes a cursor returned with a previous page.
+ *
+ * @param {string} cursor - The cursor.
+ * @param {string} context - The module and function reading the history.
+ * @returns {Cursor} The position of the next transfer.
+ * @throws {Error} When the cursor was not returned by a transfer history.
+ */
+const decodeCursor = (cursor: string, context: string): Cursor => {
+  const match: RegExpMatchArray | null = cursor.match(/^(\d+):(\d+):(\d+)$/);
+  if (!match) {
+    throw new Error(`${context} error: Invalid cursor ${cursor}`);
+  }
+  return {
+    blockNumber: Number(match[1]),
+    logIndex: Number(match[2]),
+    toBlock: Number(match[3]),
+  };
+};
+
+/**
+ * Transfers integration for reading the token transfer history of an account.
+ *
+ * @fileoverview This file provides the pagination shared by the `getTransfers` methods of the token integrations.
+ * @namespace transfers
+ */
+export const transfers = {
+  /**
+   * Reads the fields shared by transfers of every standard from a decoded transfer log.
+   *
+   * @param {DecodedLog<E>} log - The decoded log, with `from` and `to` arguments.
+   * @param {number} timestamp - The timestamp of the block of the log.
+   * @returns {TokenTransfer} The token, sender, recipient and position of the transfer.
+   *
+   * @example
+   * const data = { ...transfers.fromLog(log, timestamp), value: log.args.value };
+   */
+  fromLog: <E extends AbiEvent>(
+    log: DecodedLog<E>,
+    timestamp: number
+  ): TokenTransfer => ({
+    contractAddress: log.address,
+    from: (log.args as { [key: string]: AbiValue }).from as string,
+    to: (log.args as { [key: string]: AbiValue }).to as string,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    timestamp,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+  }),
+
+  /**
+   * Reads a page of the transfers in and out of an account. Both the `from` and the `to` topics of every event are
+   * queried, one block range at a time, until the page is full or `maxRanges` ranges were queried. The transfers are
+   * merged, ordered by block and log index, and given the timestamp of their block. A page cut short by `maxRanges`
+   * may hold fewer than `limit` transfers, or none, and still return a cursor.
+   *
+   * @param {E[]} events - The transfer events, each with indexed `from` and `to` arguments.
+   * @param {(log: DecodedLog<E>, timestamp: number) => T} toTransfer - Converts a decoded log into a transfer.
+   * @param {string} accountAddress - The account address or ENS name.
+   * @param {string} context - The module and function reading the history, used in errors.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {TransferOptions} [options] - Optional. The token, block range, page size and cursor.
+   * @returns {Promise<TransferPage<T>>} The transfers and the cursor of the next page.
+   *
+   * @example
+   * const data = transfers.scan([ERC20_EVENTS.Transfer], toErc20Transfer, '0xACCOUNT_ADDRESS', '[erc20/getTransfers]', state);
+   */
+  scan: async <E extends AbiEvent, T extends TokenTransfer>(
+    events: readonly E[],
+    toTransfer: (log: DecodedLog<E>, timestamp: number) => T,
+    accountAddress: string,
+    context: string,
+    state: State,
+    {
+      contractAddress,
+      fromBlock = 'earliest',
+      toBlock = 'latest',
+      limit = 100,
+      blockRange = 10000,
+      maxRanges = 10,
+      cursor,
+      ...options
+    }: TransferOptions = {}
+  ): Promise<TransferPage<T>> => {
+    accountAddress = await ens.toAddress(
+      accountAddress,
+      context,
+      state,
+      options
+    );
+    if (contractAddress !== undefined) {
+      contractAddress = await ens.toAddress(
+        contractAddress,
+        context,
+        state,
+        options
+      );
+    }
+
+    try {
+      const start: Cursor = cursor
+        ? decodeCursor(cursor, context)
+        : {
+            blockNumber: await chain.resolveBlockNumber(
+              fromBlock,
+              state,
+              options
+            ),
+            logIndex: 0,
+            toBlock: await chain.resolveBlockNumber(toBlock, state, options),
+          };
+
+      const collected: DecodedLog<E>[] = [];
+      let windowStart: number = start.blockNumber;
+      let windows: number = 0;
+
+      while (
+        windowStart <= start.toBlock &&
+        collected.length < limit &&
+        windows < maxRanges
+      ) {
+        windows++;
+        const windowEnd: number = Math.min(
+          start.toBlock,
+          windowStart + blockRange - 1
+        );
+
+        const results: DecodedLog<E>[][] = await Promise.all(
+          events.flatMap((event: E): Promise<DecodedLog<E>[]>[] =>
+            ['from', 'to'].map(
+              (direction: string): Promise<DecodedLog<E>[]> =>
+                logs.get(
+                  {
+                    address: contractAddress,
+                    event,
+                    args: { [direction]: accountAddress } as LogFilterArgs<E>,
+                    fromBlock: windowStart,
+                    toBlock: windowEnd,
+                    ...options,
+                  },
+                  state
+                )
+            )
+          )
+        );
+
+        const unique: Map<string, DecodedLog<E>> = new Map();
+        results.flat().forEach((log: DecodedLog<E>): void => {
+          if (
+            log.blockNumber > start.blockNumber ||
+            log.logIndex >= start.logIndex
+          ) {
+            unique.set(`${log.blockNumber}:${log.logIndex}`, log);
+          }
+        });
+
+        collected.push(
+          ...[...unique.values()].sort(
+            (a: DecodedLog<E>, b: DecodedLog<E>): number =>
+              a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+          )
+        );
+        windowStart = windowEnd + 1;
+      }
+
+      const page: DecodedLog<E>[] = collected.slice(0, limit);
+      const next: Cursor | null =
+        collected.length > limit
+          ? {
+              blockNumber: collected[limit].blockNumber,
+              logIndex: collected[limit].logIndex,
+              toBlock: start.toBlock,
+            }
+          : windowStart <= start.toBlock
+          ? { blockNumber: windowStart, logIndex: 0, toBlock: start.toBlock }
+          : null;
+
+      const blockNumbers: number[] = [
+        ...new Set(page.map((log: DecodedLog<E>): number => log.blockNumber)),
+      ];
+      const timestamps: Map<number, number> = new Map(
+        await Promise.all(
+          blockNumbers.map(
+            async (blockNumber: number): Promise<[number, number]> => [
+              blockNumber,
+              await chain.getBlockTimestamp(blockNumber, state, options),
+            ]
+          )
+        )
+      );
+
+      return {
+        transfers: page.map(
+          (log: DecodedLog<E>): T =>
+            toTransfer(log, timestamps.get(log.blockNumber))
+        ),
+        cursor: next ? encodeCursor(next) : null,
+      };
+    } catch (e) {
+      state.logger.error(`${context} error:`, e);
+      throw e;
+    }
+  },
+};
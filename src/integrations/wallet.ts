@@ -0,0 +1,360 @@
+import { State } from '../lib/client/ethereumClient.js';
+import { TransactionRevertedError } from '../lib/errors/errors.js';
+import { TransactionReceipt } from '../lib/interfaces/chain.js';
+import { EthMethod } from '../lib/interfaces/ethMethods.js';
+import { RequestOptions } from '../lib/interfaces/jsonRpcRequest.js';
+import {
+  Signer,
+  TransactionRequest,
+  TransactionResponse,
+  WaitOptions,
+} from '../lib/interfaces/signer.js';
+import { TypedData } from '../lib/interfaces/typedData.js';
+import { sleep } from '../lib/transport/abort.js';
+
+import { constructRpcPayload } from '../utils/ethCall.js';
+import { signature } from '../utils/signature.js';
+import { transaction } from '../utils/transaction.js';
+import { typedData } from '../utils/typedData.js';
+import { chain } from './chain.js';
+import { ens } from './ens.js';
+import { gas } from './gas.js';
+import { rpc } from './rpc.js';
+
+/**
+ * Reads the signer of the client.
+ *
+ * @param {State} state - The client state holding the signer.
+ * @param {string} context - The module and function using the signer, used in errors.
+ * @returns {Signer} The signer.
+ * @throws {Error} When the client has no signer.
+ */
+const getSigner = (state: State, context: string): Signer => {
+  if (!state.signer) {
+    throw new Error(
+      `${context} error: No signer configured, set the signer option of the client`
+    );
+  }
+  return state.signer;
+};
+
+/**
+ * Wallet integration for building, signing and broadcasting transactions.
+ *
+ * @fileoverview This file provides helper functions for sending transactions signed by the client signer.
+ * @namespace wallet
+ */
+export const wallet = {
+  /**
+   * Reads the address of the client signer.
+   *
+   * @param {State} state - The client state holding the signer.
+   * @returns {string} The checksummed address of the signer.
+   * @throws {Error} When the client has no signer.
+   *
+   * @example
+   * const data = wallet.getAddress(state);
+   */
+  getAddress: (state: State): string =>
+    getSigner(state, '[wallet/getAddress]').address,
+
+  /**
+   * Reads the chain id, cached in the client state after the first request.
+   *
+   * @param {State} state - The client state holding the ethereum instance and the chain id cache.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<number>} The chain id.
+   *
+   * @example
+   * const data = wallet.getChainId(state);
+   */
+  getChainId: async (
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<number> => {
+    state.chainId ??= await chain.getChainId(state, options);
+    return state.chainId;
+  },
+
+  /**
+   * Signs an EIP-712 typed data message with the client signer.
+   *
+   * @param {TypedData} data - The domain, types, primary type and message.
+   * @param {State} state - The client state holding the signer and the logger.
+   * @returns {Promise<string>} The `0x` prefixed 65 byte signature.
+   * @throws {Error} When the client has no signer or the message does not match its types.
+   *
+   * @example
+   * const data = wallet.signTypedData({ domain, types, primaryType: 'Mail', message }, state);
+   */
+  signTypedData: async (data: TypedData, state: State): Promise<string> => {
+    const signer: Signer = getSigner(state, '[wallet/signTypedData]');
+
+    try {
+      return signature.serialize(await signer.sign(typedData.hash(data)));
+    } catch (e) {
+      state.logger.error('[wallet/signTypedData] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Signs a message with the client signer, as `personal_sign` does (EIP-191).
+   *
+   * @param {string | Uint8Array} message - The message, as a UTF-8 string or as raw bytes.
+   * @param {State} state - The client state holding the signer and the logger.
+   * @returns {Promise<string>} The `0x` prefixed 65 byte signature.
+   * @throws {Error} When the client has no signer.
+   *
+   * @example
+   * const data = wallet.signMessage('hello world', state);
+   */
+  signMessage: async (
+    message: string | Uint8Array,
+    state: State
+  ): Promise<string> => {
+    const signer: Signer = getSigner(state, '[wallet/signMessage]');
+
+    try {
+      return signature.serialize(
+        await signer.sign(signature.hashMessage(message))
+      );
+    } catch (e) {
+      state.logger.error('[wallet/signMessage] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fills the missing fields of a transaction: the chain id, the pending nonce of the signer, the fees and the gas
+   * limit. EIP-1559 fees default to the node priority fee and a maximum fee of twice the latest base fee plus the
+   * priority fee. Chains without base fee fall back to legacy transactions priced with `eth_gasPrice`, unless the
+   * type is set.
+   *
+   * @param {TransactionRequest} request - The transaction, with a recipient address or ENS name.
+   * @param {State} state - The client state holding the ethereum instance, the signer and the logger.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<TransactionRequest>} The transaction, with its type and every field set.
+   *
+   * @example
+   * const data = wallet.prepareTransaction({ to: '0xRECIPIENT_ADDRESS', value: BigInt('1000000000000000000') }, state);
+   */
+  prepareTransaction: async (
+    request: TransactionRequest,
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<TransactionRequest> => {
+    const { address: from } = getSigner(state, '[wallet/prepareTransaction]');
+    const to: string | null =
+      request.to === undefined || request.to === null
+        ? null
+        : await ens.toAddress(
+            request.to,
+            '[wallet/prepareTransaction]',
+            state,
+            options
+          );
+
+    try {
+      const needsBaseFee: boolean =
+        transaction.getType(request) === 2 &&
+        request.maxFeePerGas === undefined;
+
+      const [chainId, nonce, block] = await Promise.all([
+        request.chainId ?? wallet.getChainId(state, options),
+        request.nonce ??
+          chain.getTransactionCount(from, state, {
+            ...options,
+            block: 'pending',
+          }),
+        needsBaseFee ? chain.getBlock('latest', state, options) : null,
+      ]);
+
+      const baseFee: bigint | undefined = block?.baseFeePerGas;
+      const prepared: TransactionRequest = {
+        ...request,
+        type: transaction.getType(request),
+        to,
+        chainId,
+        nonce,
+      };
+      if (needsBaseFee && baseFee === undefined) {
+        if (
+          request.type !== undefined ||
+          request.maxPriorityFeePerGas !== undefined
+        ) {
+          throw new Error(
+            '[wallet/prepareTransaction] error: The chain has no base fee, set maxFeePerGas or use a legacy transaction'
+          );
+        }
+        prepared.type = 0;
+      }
+
+      if (prepared.type === 2) {
+        prepared.maxPriorityFeePerGas ??= await chain.getMaxPriorityFeePerGas(
+          state,
+          options
+        );
+        prepared.maxFeePerGas ??=
+          baseFee * BigInt(2) + prepared.maxPriorityFeePerGas;
+      } else {
+        prepared.gasPrice ??= await chain.getGasPrice(state, options);
+      }
+
+      prepared.gas ??= await gas.estimate(
+        { ...prepared, from },
+        state,
+        options
+      );
+
+      return prepared;
+    } catch (e) {
+      state.logger.error('[wallet/prepareTransaction] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fills the missing fields of a transaction and signs it with the client signer, without broadcasting it.
+   *
+   * @param {TransactionRequest} request - The transaction, with a recipient address or ENS name.
+   * @param {State} state - The client state holding the ethereum instance, the signer and the logger.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<string>} The `0x` prefixed signed transaction.
+   *
+   * @example
+   * const data = wallet.signTransaction({ to: '0xRECIPIENT_ADDRESS', value: BigInt('1000000000000000000') }, state);
+   */
+  signTransaction: async (
+    request: TransactionRequest,
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<string> => {
+    const signer: Signer = getSigner(state, '[wallet/signTransaction]');
+    const prepared: TransactionRequest = await wallet.prepareTransaction(
+      request,
+      state,
+      options
+    );
+
+    try {
+      return await signer.signTransaction(prepared);
+    } catch (e) {
+      state.logger.error('[wallet/signTransaction] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Broadcasts a signed transaction with `eth_sendRawTransaction`. The request is never retried, since the
+   * transaction may have been accepted by the node before the failure.
+   *
+   * @param {string} serializedTransaction - The `0x` prefixed signed transaction.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<string>} The transaction hash.
+   *
+   * @example
+   * const data = wallet.sendRawTransaction('0xSIGNED_TRANSACTION', state);
+   */
+  sendRawTransaction: async (
+    serializedTransaction: string,
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<string> => {
+    try {
+      return await rpc.send<string>(
+        constructRpcPayload(EthMethod.SendRawTransaction, [
+          serializedTransaction,
+        ]),
+        state,
+        '[wallet/sendRawTransaction]',
+        options
+      );
+    } catch (e) {
+      state.logger.error('[wallet/sendRawTransaction] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Waits for a transaction to be mined, then for a number of blocks including its own, polling its receipt.
+   *
+   * @param {string} transactionHash - The transaction hash.
+   * @param {State} state - The client state holding the ethereum instance and the logger.
+   * @param {number} [confirmations=1] - Optional. The number of blocks, 1 to return as soon as it is mined.
+   * @param {WaitOptions} [options] - Optional. The polling interval, the request timeout and an abort signal to stop waiting.
+   * @returns {Promise<TransactionReceipt>} The receipt of the transaction.
+   * @throws {TransactionRevertedError} When the transaction reverted.
+   *
+   * @example
+   * const data = wallet.waitForTransaction('0xTRANSACTION_HASH', state, 3);
+   */
+  waitForTransaction: async (
+    transactionHash: string,
+    state: State,
+    confirmations: number = 1,
+    { pollingInterval = 4000, ...options }: WaitOptions = {}
+  ): Promise<TransactionReceipt> => {
+    try {
+      for (;;) {
+        const receipt: TransactionReceipt | null =
+          await chain.getTransactionReceipt(transactionHash, state, options);
+
+        if (
+          receipt &&
+          (confirmations <= 1 ||
+            (await chain.getBlockNumber(state, options)) -
+              receipt.blockNumber +
+              1 >=
+              confirmations)
+        ) {
+          if (receipt.status === 'reverted') {
+            throw new TransactionRevertedError(
+              `[wallet/waitForTransaction] error: Transaction ${transactionHash} reverted`,
+              receipt
+            );
+          }
+          return receipt;
+        }
+
+        await sleep(pollingInterval, options.signal);
+      }
+    } catch (e) {
+      state.logger.error('[wallet/waitForTransaction] error:', e);
+      throw e;
+    }
+  },
+
+  /**
+   * Fills the missing fields of a transaction, signs it with the client signer and broadcasts it.
+   *
+   * @param {TransactionRequest} request - The transaction, with a recipient address or ENS name.
+   * @param {State} state - The client state holding the ethereum instance, the signer and the logger.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<TransactionResponse>} The transaction hash, and a function waiting for its receipt.
+   *
+   * @example
+   * const data = wallet.sendTransaction({ to: '0xRECIPIENT_ADDRESS', value: BigInt('1000000000000000000') }, state);
+   */
+  sendTransaction: async (
+    request: TransactionRequest,
+    state: State,
+    options: RequestOptions = {}
+  ): Promise<TransactionResponse> => {
+    const hash: string = await wallet.sendRawTransaction(
+      await wallet.signTransaction(request, state, options),
+      state,
+      options
+    );
+
+    return {
+      hash,
+      wait: (
+        confirmations?: number,
+        waitOptions?: WaitOptions
+      ): Promise<TransactionReceipt> =>
+        wallet.waitForTransaction(hash, state, confirmations, waitOptions),
+    };
+  },
+};
@@ -1,21 +1,134 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosAdapter, AxiosInstance } from 'axios';
 
+import { chain } from '../../integrations/chain.js';
+import { contract } from '../../integrations/contract.js';
+import { ens } from '../../integrations/ens.js';
 import { erc1155 } from '../../integrations/erc1155.js';
 import { erc20 } from '../../integrations/erc20.js';
 import { erc721 } from '../../integrations/erc721.js';
+import { gas } from '../../integrations/gas.js';
+import { logs } from '../../integrations/logs.js';
+import { multicall } from '../../integrations/multicall.js';
+import { rpc } from '../../integrations/rpc.js';
+import { signatures } from '../../integrations/signatures.js';
+import { wallet } from '../../integrations/wallet.js';
+import { Abi, AbiEvent, AbiValue } from '../interfaces/abi.js';
+import {
+  CallRequest,
+  ContractCallRequest,
+  RawCallRequest,
+} from '../interfaces/call.js';
+import {
+  Block,
+  BlockByTimestampOptions,
+  FeeHistory,
+  FeeHistoryOptions,
+  GetBlockOptions,
+  Transaction,
+  TransactionReceipt,
+} from '../interfaces/chain.js';
+import { Contract } from '../interfaces/contract.js';
+import {
+  FeeSuggestion,
+  GasEstimateRequest,
+  SuggestFeesOptions,
+} from '../interfaces/gas.js';
+import {
+  BlockIdentifier,
+  JsonRpcCall,
+  ReadOptions,
+  RequestOptions,
+} from '../interfaces/jsonRpcRequest.js';
+import { JsonRpcResponse } from '../interfaces/jsonRpcResponse.js';
+import { Logger } from '../interfaces/logger.js';
+import { DecodedLog, LogFilter } from '../interfaces/logs.js';
+import {
+  MulticallCall,
+  MulticallOptions,
+  MulticallResult,
+} from '../interfaces/multicall.js';
+import {
+  Permit2Options,
+  Permit2Signature,
+  PermitBatch,
+  PermitDetailsRequest,
+  PermitOptions,
+  PermitSignature,
+  PermitSingle,
+} from '../interfaces/permit.js';
+import {
+  Signer,
+  TransactionRequest,
+  TransactionResponse,
+  WaitOptions,
+  WriteOptions,
+} from '../interfaces/signer.js';
+import { SiweSession, SiweVerifyOptions } from '../interfaces/siwe.js';
+import {
+  AmountFormat,
+  AmountResult,
+  TokenAmount,
+} from '../interfaces/tokenAmount.js';
+import {
+  Erc1155Transfer,
+  Erc20Transfer,
+  Erc721Transfer,
+  TransferOptions,
+  TransferPage,
+} from '../interfaces/transfers.js';
+import { TypedData } from '../interfaces/typedData.js';
+import { BatchOptions, createBatchAdapter } from '../transport/batch.js';
+import {
+  EndpointConfig,
+  FailoverOptions,
+  createFailoverAdapter,
+} from '../transport/failover.js';
+import {
+  MULTICALL3_ADDRESS,
+  createMulticallAdapter,
+} from '../transport/multicall.js';
+import { RetryOptions, createRetryAdapter } from '../transport/retry.js';
+import { createPrivateKeySigner } from '../signer/privateKey.js';
+import { silentLogger } from '../../utils/logger.js';
+import { signature } from '../../utils/signature.js';
+import { typedData } from '../../utils/typedData.js';
 
 /**
  * Configuration parameters for creating a blockchain client instance.
  *
  * @interface
- * @property {string} endpoint - The base URL for the RPC server.
- * @property {string} [apiKey] - Optional. API key for accessing the RPC server if required.
+ * @property {string} [endpoint] - The base URL for the RPC server. Required unless `endpoints` is provided.
+ * @property {(string | EndpointConfig)[]} [endpoints] - Optional. Several RPC servers to fail over between, in order of priority, after `endpoint` when both are set.
+ * @property {FailoverOptions} [failover] - Optional. How requests are spread across `endpoints`, the cooldown of failed endpoints and the quorum.
+ * @property {string} [apiKey] - Optional. API key for accessing the RPC server at `endpoint` if required. It is never sent to `endpoints`, which take their own `apiKey`.
  * @property {Record<string, string>} [additionalHeaders] - Optional. Additional header options if required.
+ * @property {AmountFormat} [amountFormat='formatted'] - Optional. Return amounts as display strings ('formatted') or as `{ raw, decimals, formatted }` objects ('structured').
+ * @property {boolean | BatchOptions} [batch=false] - Optional. Coalesce concurrent requests into JSON-RPC batches, with an optional wait time and batch size.
+ * @property {boolean | BatchOptions} [multicall=false] - Optional. Aggregate concurrent `eth_call` reads through Multicall3, with an optional wait time and number of calls per aggregate.
+ * @property {string} [multicallAddress] - Optional. The Multicall3 address of the chain, defaults to the canonical 0xcA11bde05977b3631167028862bE2a173976CA11.
+ * @property {boolean | RetryOptions} [retry=true] - Optional. Retry read requests failing with transient errors, with an optional retry policy. Set to false to disable.
+ * @property {number} [timeout] - Optional. Milliseconds before each attempt of a request is aborted, none by default.
+ * @property {Logger} [logger] - Optional. Receives the requests sent and the errors raised by the client, e.g. `console`. Silent by default.
+ * @property {Abi} [errorAbi] - Optional. Custom errors to decode when any call reverts, e.g. the errors of the protocols you interact with.
+ * @property {boolean} [strictAddresses=false] - Optional. Reject address arguments without a valid EIP-55 checksum, including all lowercase addresses.
+ * @property {string | Signer} [signer] - Optional. The account sending transactions: a `0x` prefixed private key, or a signer. Required by the write methods.
  */
-interface ClientConfig {
-  endpoint: string;
+interface ClientConfig<F extends AmountFormat = 'formatted'> {
+  endpoint?: string;
+  endpoints?: (string | EndpointConfig)[];
+  failover?: FailoverOptions;
   apiKey?: string;
   additionalHeaders?: Record<string, string>;
+  amountFormat?: F;
+  batch?: boolean | BatchOptions;
+  multicall?: boolean | BatchOptions;
+  multicallAddress?: string;
+  retry?: boolean | RetryOptions;
+  timeout?: number;
+  logger?: Logger;
+  errorAbi?: Abi;
+  strictAddresses?: boolean;
+  signer?: string | Signer;
 }
 
 /**
@@ -27,51 +140,248 @@ interface ClientConfig {
  * @property {Function} getName - Fetches the name of the erc20 token.
  * @property {Function} getSymbol - Fetches the symbol of the erc20 token.
  * @property {Function} getTotalSupply - Fetches the total supply of the erc20 token.
+ * @property {Function} getDecimals - Fetches the number of decimals of the erc20 token.
+ * @property {Function} getTransfers - Fetches a page of the erc20 transfers in and out of an account.
+ * @property {Function} getAllowance - Fetches the amount of tokens an owner allowed a spender to transfer.
+ * @property {Function} transfer - Transfers tokens from the client signer.
+ * @property {Function} approve - Allows a spender to transfer tokens of the client signer.
+ * @property {Function} transferFrom - Transfers tokens from an account that approved the client signer.
+ * @property {Function} getNonces - Fetches the next EIP-2612 permit nonce of an owner.
+ * @property {Function} getDomainSeparator - Fetches the EIP-712 domain separator of a permit token.
+ * @property {Function} signPermit - Signs an EIP-2612 permit with the client signer.
+ * @property {Function} signPermitSingle - Signs a Permit2 allowance of one token with the client signer.
+ * @property {Function} signPermitBatch - Signs Permit2 allowances of several tokens with the client signer.
  */
-interface Erc20 {
+interface Erc20<F extends AmountFormat = 'formatted'> {
   /**
    * Fetches the balance of an account.
    *
-   * @param {string} accountAddress - The account address to fetch the balance from.
-   * @returns {Promise<string>} A promise that resolves to the main token balance of the account in Ether.
+   * @param {string} accountAddress - The account address or ENS name to fetch the balance from.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<AmountResult<F>>} A promise that resolves to the main token balance of the account in Ether.
    */
-  getBalance: (accountAddress: string) => Promise<string>;
+  getBalance: (
+    accountAddress: string,
+    options?: ReadOptions
+  ) => Promise<AmountResult<F>>;
   /**
    * Fetches the token balance of an account for a specified erc20 contract.
    *
-   * @param {string} accountAddress - The account address to fetch the balance from.
-   * @param {string} contractAddress - The contract address of the erc20 token.
-   * @returns {Promise<string>} A promise that resolves to the erc20 token balance of the account in Ether.
+   * @param {string} accountAddress - The account address or ENS name to fetch the balance from.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<AmountResult<F>>} A promise that resolves to the erc20 token balance of the account, formatted with the token decimals.
    */
 
   getBalanceOf: (
     accountAddress: string,
-    contractAddress: string
-  ) => Promise<string>;
+    contractAddress: string,
+    options?: ReadOptions
+  ) => Promise<AmountResult<F>>;
   /**
    * Fetches the name of a erc20 token.
    *
-   * @param {string} contractAddress - The contract address of the erc20 token.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
    * @returns {Promise<string>} A promise that resolves to the name of the erc20 token.
    */
 
-  getName: (contractAddress: string) => Promise<string>;
+  getName: (contractAddress: string, options?: ReadOptions) => Promise<string>;
   /**
    * Fetches the symbol of a erc20 token.
    *
-   * @param {string} contractAddress - The contract address of the erc20 token.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
    * @returns {Promise<string>} A promise that resolves to the symbol of the erc20 token.
    */
 
-  getSymbol: (contractAddress: string) => Promise<string>;
+  getSymbol: (
+    contractAddress: string,
+    options?: ReadOptions
+  ) => Promise<string>;
   /**
    * Fetches the total supply of a erc20 token.
    *
-   * @param {string} contractAddress - The contract address of the erc20 token.
-   * @returns {Promise<string>} A promise that resolves to the total supply of the erc20 token.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<AmountResult<F>>} A promise that resolves to the total supply of the erc20 token.
+   */
+
+  getTotalSupply: (
+    contractAddress: string,
+    options?: ReadOptions
+  ) => Promise<AmountResult<F>>;
+  /**
+   * Fetches the number of decimals of a erc20 token.
+   *
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<number>} A promise that resolves to the number of decimals the erc20 token uses.
+   */
+
+  getDecimals: (
+    contractAddress: string,
+    options?: ReadOptions
+  ) => Promise<number>;
+
+  /**
+   * Fetches a page of the erc20 transfers in and out of an account, ordered by block and log index, with the
+   * timestamp of their block. Pass the returned cursor to fetch the next page.
+   *
+   * @param {string} accountAddress - The account address or ENS name.
+   * @param {TransferOptions} [options] - Optional. The token contract, block range, page size and cursor.
+   * @returns {Promise<TransferPage<Erc20Transfer>>} The transfers and the cursor of the next page, null on the last page.
+   */
+  getTransfers: (
+    accountAddress: string,
+    options?: TransferOptions
+  ) => Promise<TransferPage<Erc20Transfer>>;
+
+  /**
+   * Fetches the amount of tokens that an owner allowed a spender to transfer.
+   *
+   * @param {string} ownerAddress - The owner address or ENS name.
+   * @param {string} spenderAddress - The spender address or ENS name.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<AmountResult<F>>} A promise that resolves to the allowance, formatted with the token decimals.
+   */
+  getAllowance: (
+    ownerAddress: string,
+    spenderAddress: string,
+    contractAddress: string,
+    options?: ReadOptions
+  ) => Promise<AmountResult<F>>;
+
+  /**
+   * Transfers tokens from the client signer to a recipient.
+   *
+   * @param {string} recipientAddress - The recipient address or ENS name.
+   * @param {string | bigint} amount - The amount, as a decimal string in token units, e.g. '1.5', or a bigint in the smallest unit.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+   * @param {WriteOptions} [options] - Optional. Overrides of the nonce, gas and fees, the request timeout and abort signal.
+   * @returns {Promise<TransactionResponse>} The transaction hash, and a function waiting for its receipt.
+   */
+  transfer: (
+    recipientAddress: string,
+    amount: string | bigint,
+    contractAddress: string,
+    options?: WriteOptions
+  ) => Promise<TransactionResponse>;
+
+  /**
+   * Allows a spender to transfer up to an amount of tokens of the client signer, replacing the current allowance.
+   *
+   * @param {string} spenderAddress - The spender address or ENS name.
+   * @param {string | bigint} amount - The allowance, as a decimal string in token units, e.g. '1.5', or a bigint in the smallest unit.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+   * @param {WriteOptions} [options] - Optional. Overrides of the nonce, gas and fees, the request timeout and abort signal.
+   * @returns {Promise<TransactionResponse>} The transaction hash, and a function waiting for its receipt.
+   */
+  approve: (
+    spenderAddress: string,
+    amount: string | bigint,
+    contractAddress: string,
+    options?: WriteOptions
+  ) => Promise<TransactionResponse>;
+
+  /**
+   * Transfers tokens from an account that approved the client signer to a recipient, spending the allowance.
+   *
+   * @param {string} ownerAddress - The address or ENS name of the account the tokens are taken from.
+   * @param {string} recipientAddress - The recipient address or ENS name.
+   * @param {string | bigint} amount - The amount, as a decimal string in token units, e.g. '1.5', or a bigint in the smallest unit.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+   * @param {WriteOptions} [options] - Optional. Overrides of the nonce, gas and fees, the request timeout and abort signal.
+   * @returns {Promise<TransactionResponse>} The transaction hash, and a function waiting for its receipt.
+   */
+  transferFrom: (
+    ownerAddress: string,
+    recipientAddress: string,
+    amount: string | bigint,
+    contractAddress: string,
+    options?: WriteOptions
+  ) => Promise<TransactionResponse>;
+
+  /**
+   * Fetches the next EIP-2612 permit nonce of an owner.
+   *
+   * @param {string} ownerAddress - The owner address or ENS name.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<bigint>} The nonce of the next permit of the owner.
+   */
+  getNonces: (
+    ownerAddress: string,
+    contractAddress: string,
+    options?: ReadOptions
+  ) => Promise<bigint>;
+
+  /**
+   * Fetches the EIP-712 domain separator of a permit token.
+   *
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<string>} The `0x` prefixed 32 byte domain separator.
+   */
+  getDomainSeparator: (
+    contractAddress: string,
+    options?: ReadOptions
+  ) => Promise<string>;
+
+  /**
+   * Signs an EIP-2612 permit with the client signer, allowing a spender to transfer tokens of the owner without an
+   * approve transaction.
+   *
+   * @param {string} ownerAddress - The owner address or ENS name, which must be the address of the client signer.
+   * @param {string} spenderAddress - The spender address or ENS name.
+   * @param {string | bigint} amount - The allowance, as a decimal string in token units, e.g. '1.5', or a bigint in the smallest unit.
+   * @param {number | bigint} deadline - The unix timestamp after which the permit expires.
+   * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+   * @param {PermitOptions} [options] - Optional. The nonce and domain overrides, the request timeout and abort signal.
+   * @returns {Promise<PermitSignature>} The permit arguments and the signature.
+   */
+  signPermit: (
+    ownerAddress: string,
+    spenderAddress: string,
+    amount: string | bigint,
+    deadline: number | bigint,
+    contractAddress: string,
+    options?: PermitOptions
+  ) => Promise<PermitSignature>;
+
+  /**
+   * Signs a Permit2 `PermitSingle` with the client signer, allowing a spender to transfer one token through Permit2.
+   *
+   * @param {PermitDetailsRequest} details - The token, amount, expiration and optional nonce of the allowance.
+   * @param {string} spenderAddress - The spender address or ENS name.
+   * @param {number | bigint} sigDeadline - The unix timestamp after which the signature expires.
+   * @param {Permit2Options} [options] - Optional. The Permit2 contract, the request timeout and abort signal.
+   * @returns {Promise<Permit2Signature<PermitSingle>>} The signed permit and the signature.
    */
+  signPermitSingle: (
+    details: PermitDetailsRequest,
+    spenderAddress: string,
+    sigDeadline: number | bigint,
+    options?: Permit2Options
+  ) => Promise<Permit2Signature<PermitSingle>>;
 
-  getTotalSupply: (contractAddress: string) => Promise<string>;
+  /**
+   * Signs a Permit2 `PermitBatch` with the client signer, allowing a spender to transfer several tokens through
+   * Permit2 with one signature.
+   *
+   * @param {PermitDetailsRequest[]} details - The token, amount, expiration and optional nonce of each allowance.
+   * @param {string} spenderAddress - The spender address or ENS name.
+   * @param {number | bigint} sigDeadline - The unix timestamp after which the signature expires.
+   * @param {Permit2Options} [options] - Optional. The Permit2 contract, the request timeout and abort signal.
+   * @returns {Promise<Permit2Signature<PermitBatch>>} The signed permit and the signature.
+   */
+  signPermitBatch: (
+    details: PermitDetailsRequest[],
+    spenderAddress: string,
+    sigDeadline: number | bigint,
+    options?: Permit2Options
+  ) => Promise<Permit2Signature<PermitBatch>>;
 }
 
 /**
@@ -81,66 +391,479 @@ interface Erc20 {
  * @property {Function} getBalanceOf - Fetches the balance of a specified erc721 token.
  * @property {Function} getOwnerOf - Fetches the owner address of a specific erc721 token.
  * @property {Function} getTokenUri - Fetches the URI pointing to the metadata of the erc721 token.
+ * @property {Function} getTransfers - Fetches a page of the erc721 transfers in and out of an account.
  */
-interface Erc721 {
+interface Erc721<F extends AmountFormat = 'formatted'> {
   /**
    * Fetches the token balance of an account for a specified erc721 contract.
    *
-   * @param {string} accountAddress - The account address to fetch the balance from.
-   * @param {string} contractAddress - The contract address of the erc721 token.
-   * @returns {Promise<string>} A promise that resolves to the erc721 token balance of the account.
+   * @param {string} accountAddress - The account address or ENS name to fetch the balance from.
+   * @param {string} contractAddress - The contract address or ENS name of the erc721 token.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<AmountResult<F>>} A promise that resolves to the erc721 token balance of the account.
    */
   getBalanceOf: (
     accountAddress: string,
-    contractAddress: string
-  ) => Promise<string>;
+    contractAddress: string,
+    options?: ReadOptions
+  ) => Promise<AmountResult<F>>;
 
   /**
    * Fetches the owner address of a specific erc721 token from a specified contract.
    *
-   * @param {string} contractAddress - The contract address of the erc721 token.
-   * @param {string} tokenId - The token id of the erc721 token.
+   * @param {string} contractAddress - The contract address or ENS name of the erc721 token.
+   * @param {string} tokenId - The token id of the erc721 token, as a decimal string or a `0x` prefixed hex string.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
    * @returns {Promise<string>} The owner address of the specified erc721 token.
    */
-  getOwnerOf: (contractAddress: string, tokenId: string) => Promise<string>;
+  getOwnerOf: (
+    contractAddress: string,
+    tokenId: string,
+    options?: ReadOptions
+  ) => Promise<string>;
 
   /**
    * Fetches the URI (often a URL) that points to the metadata of the specified erc721 token.
    *
-   * @param {string} contractAddress - The contract address of the erc721 token.
-   * @param {string} tokenId - The token id of the erc721 token.
+   * @param {string} contractAddress - The contract address or ENS name of the erc721 token.
+   * @param {string} tokenId - The token id of the erc721 token, as a decimal string or a `0x` prefixed hex string.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
    * @returns {Promise<string>} The URI of the specified erc721 token.
    */
-  getTokenUri: (contractAddress: string, tokenId: string) => Promise<string>;
+  getTokenUri: (
+    contractAddress: string,
+    tokenId: string,
+    options?: ReadOptions
+  ) => Promise<string>;
+
+  /**
+   * Fetches a page of the erc721 transfers in and out of an account, ordered by block and log index, with the
+   * timestamp of their block. Pass the returned cursor to fetch the next page.
+   *
+   * @param {string} accountAddress - The account address or ENS name.
+   * @param {TransferOptions} [options] - Optional. The token contract, block range, page size and cursor.
+   * @returns {Promise<TransferPage<Erc721Transfer>>} The transfers and the cursor of the next page, null on the last page.
+   */
+  getTransfers: (
+    accountAddress: string,
+    options?: TransferOptions
+  ) => Promise<TransferPage<Erc721Transfer>>;
 }
 
-interface Erc1155 {
+interface Erc1155<F extends AmountFormat = 'formatted'> {
   /**
    * Fetches the token balance of an account for a specified erc1155 contract.
    *
-   * @param {string} accountAddress - The account address to fetch the balance from.
-   * @param {string} contractAddress - The contract address of the erc1155 token.
-   * @returns {Promise<string>} A promise that resolves to the erc1155 token balance of the account.
+   * @param {string} accountAddress - The account address or ENS name to fetch the balance from.
+   * @param {string} contractAddress - The contract address or ENS name of the erc1155 token.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<AmountResult<F>>} A promise that resolves to the erc1155 token balance of the account.
    */
   getBalanceOf: (
     accountAddress: string,
     contractAddress: string,
-    tokenId: string
-  ) => Promise<string>;
+    tokenId: string,
+    options?: ReadOptions
+  ) => Promise<AmountResult<F>>;
 
   /**
    * Fetches the token balance of an account for a specified erc1155 contract.
    *
-   * @param {string[]} accountAddresses - The account address to fetch the balance from.
-   * @param {string} contractAddress - The contract address of the erc1155 token.
+   * @param {string[]} accountAddresses - The account address or ENS name to fetch the balance from.
+   * @param {string} contractAddress - The contract address or ENS name of the erc1155 token.
    * @param {string[]} tokenIds - The token ids of the erc1155 token.
-   * @returns {Promise<string>} The owner address of the specified erc1155 token.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<AmountResult<F>[]>} The balances of the erc1155 token, one per account address and token id pair.
    */
   getBalanceOfBatch: (
     accountAddresses: string[],
     contractAddress: string,
-    tokenIds: string[]
+    tokenIds: string[],
+    options?: ReadOptions
+  ) => Promise<AmountResult<F>[]>;
+
+  /**
+   * Fetches a page of the erc1155 transfers in and out of an account, ordered by block and log index, with the
+   * timestamp of their block. Pass the returned cursor to fetch the next page.
+   *
+   * @param {string} accountAddress - The account address or ENS name.
+   * @param {TransferOptions} [options] - Optional. The token contract, block range, page size and cursor.
+   * @returns {Promise<TransferPage<Erc1155Transfer>>} The transfers and the cursor of the next page, null on the last page.
+   */
+  getTransfers: (
+    accountAddress: string,
+    options?: TransferOptions
+  ) => Promise<TransferPage<Erc1155Transfer>>;
+}
+
+interface Ens {
+  /**
+   * Resolves an ENS name to the address of its `addr` record.
+   *
+   * @param {string} name - The name, e.g. 'vitalik.eth'.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<string | null>} The checksummed address, or null when the name does not resolve.
+   */
+  resolveName: (name: string, options?: ReadOptions) => Promise<string | null>;
+  /**
+   * Looks up the primary ENS name of an address, verified by resolving the name back to the address.
+   *
+   * @param {string} accountAddress - The address.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<string | null>} The name, or null when the address has no verified primary name.
+   */
+  lookupAddress: (
+    accountAddress: string,
+    options?: ReadOptions
+  ) => Promise<string | null>;
+  /**
+   * Fetches a text record of an ENS name.
+   *
+   * @param {string} name - The name.
+   * @param {string} key - The key of the text record, e.g. 'url' or 'com.twitter'.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<string | null>} The text record, or null when it is not set.
+   */
+  getText: (
+    name: string,
+    key: string,
+    options?: ReadOptions
+  ) => Promise<string | null>;
+  /**
+   * Fetches the avatar of an ENS name as a URL, resolving IPFS URIs and NFT avatars.
+   *
+   * @param {string} name - The name.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, the request timeout and abort signal.
+   * @returns {Promise<string | null>} The avatar URL, or null when it is not set.
+   */
+  getAvatar: (name: string, options?: ReadOptions) => Promise<string | null>;
+  /**
+   * Fetches the content hash of an ENS name, e.g. the IPFS hash of a website.
+   *
+   * @param {string} name - The name.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<string | null>} The content URL, e.g. 'ipfs://Qm...', or null when it is not set.
+   */
+  getContentHash: (
+    name: string,
+    options?: ReadOptions
+  ) => Promise<string | null>;
+}
+
+interface Chain {
+  /**
+   * Fetches the number of the latest block.
+   *
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<number>} The latest block number.
+   */
+  getBlockNumber: (options?: RequestOptions) => Promise<number>;
+  /**
+   * Fetches the chain id.
+   *
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<number>} The chain id, e.g. 1 for mainnet.
+   */
+  getChainId: (options?: RequestOptions) => Promise<number>;
+  /**
+   * Fetches a block by number, tag or hash.
+   *
+   * @param {BlockIdentifier} [block='latest'] - Optional. The block: a tag, a block number, a 32 byte block hash or an EIP-1898 object.
+   * @param {GetBlockOptions} [options] - Optional. Whether to include full transactions, the request timeout and abort signal.
+   * @returns {Promise<Block | null>} The block, or null when it does not exist.
+   */
+  getBlock: {
+    (
+      block: BlockIdentifier,
+      options: GetBlockOptions & { includeTransactions: true }
+    ): Promise<Block<Transaction> | null>;
+    (block?: BlockIdentifier, options?: GetBlockOptions): Promise<Block | null>;
+  };
+  /**
+   * Finds the last block at or before a timestamp, or the first block at or after it, with a minimal number of requests.
+   *
+   * @param {number | Date} timestamp - The unix timestamp in seconds, or a date.
+   * @param {BlockByTimestampOptions} [options] - Optional. The direction of the search, defaults to 'before', the request timeout and abort signal.
+   * @returns {Promise<CachedBlock>} The block number and its timestamp.
+   */
+  getBlockByTimestamp: (
+    timestamp: number | Date,
+    options?: BlockByTimestampOptions
+  ) => Promise<CachedBlock>;
+  /**
+   * Fetches a transaction by hash.
+   *
+   * @param {string} transactionHash - The transaction hash.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<Transaction | null>} The transaction, or null when it is unknown to the node.
+   */
+  getTransaction: (
+    transactionHash: string,
+    options?: RequestOptions
+  ) => Promise<Transaction | null>;
+  /**
+   * Fetches the receipt of a mined transaction.
+   *
+   * @param {string} transactionHash - The transaction hash.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<TransactionReceipt | null>} The receipt, or null when the transaction is pending or unknown.
+   */
+  getTransactionReceipt: (
+    transactionHash: string,
+    options?: RequestOptions
+  ) => Promise<TransactionReceipt | null>;
+  /**
+   * Fetches the bytecode deployed at an address.
+   *
+   * @param {string} accountAddress - The address or ENS name.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<string>} The bytecode, '0x' for accounts without code.
+   */
+  getCode: (accountAddress: string, options?: ReadOptions) => Promise<string>;
+  /**
+   * Fetches the value of a storage slot of a contract.
+   *
+   * @param {string} accountAddress - The contract address or ENS name.
+   * @param {bigint | number | string} slot - The storage slot, as a number or `0x` prefixed hex string.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<string>} The 32 byte value of the slot.
+   */
+  getStorageAt: (
+    accountAddress: string,
+    slot: bigint | number | string,
+    options?: ReadOptions
+  ) => Promise<string>;
+  /**
+   * Fetches the number of transactions sent from an address, which is also its next nonce.
+   *
+   * @param {string} accountAddress - The address or ENS name.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. 'pending' to include pending transactions.
+   * @returns {Promise<number>} The transaction count.
+   */
+  getTransactionCount: (
+    accountAddress: string,
+    options?: ReadOptions
+  ) => Promise<number>;
+  /**
+   * Fetches the current gas price.
+   *
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<bigint>} The gas price in wei.
+   */
+  getGasPrice: (options?: RequestOptions) => Promise<bigint>;
+  /**
+   * Fetches the base fees, gas usage ratios and priority fee percentiles of a range of blocks.
+   *
+   * @param {number} blockCount - The number of blocks, ending at `options.block`.
+   * @param {FeeHistoryOptions} [options] - Optional. The newest block of the range, defaults to 'latest', and the reward percentiles.
+   * @returns {Promise<FeeHistory>} The fee history.
+   */
+  getFeeHistory: (
+    blockCount: number,
+    options?: FeeHistoryOptions
+  ) => Promise<FeeHistory>;
+  /**
+   * Fetches a priority fee likely to get a transaction included in the next blocks.
+   *
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<bigint>} The priority fee per gas in wei.
+   */
+  getMaxPriorityFeePerGas: (options?: RequestOptions) => Promise<bigint>;
+}
+
+interface Logs {
+  /**
+   * Fetches the logs of an event, filtered by emitting contract, indexed arguments and block range, and decodes them.
+   * Ranges rejected by the provider as too large, or as matching too many logs, are split until they pass.
+   *
+   * @param {LogFilter<E>} filter - The contract addresses, event, indexed arguments and block range to query.
+   * @returns {Promise<DecodedLog<E>[]>} The decoded logs, in block order.
+   */
+  get: <E extends AbiEvent>(filter: LogFilter<E>) => Promise<DecodedLog<E>[]>;
+}
+
+interface Wallet {
+  /**
+   * Reads the address of the client signer.
+   *
+   * @returns {string} The checksummed address of the signer.
+   */
+  getAddress: () => string;
+  /**
+   * Fills the missing fields of a transaction: the chain id, the pending nonce of the signer, the fees and the gas limit.
+   *
+   * @param {TransactionRequest} request - The transaction, with a recipient address or ENS name.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<TransactionRequest>} The transaction, with its type and every field set.
+   */
+  prepareTransaction: (
+    request: TransactionRequest,
+    options?: RequestOptions
+  ) => Promise<TransactionRequest>;
+  /**
+   * Fills the missing fields of a transaction and signs it, without broadcasting it.
+   *
+   * @param {TransactionRequest} request - The transaction, with a recipient address or ENS name.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<string>} The `0x` prefixed signed transaction.
+   */
+  signTransaction: (
+    request: TransactionRequest,
+    options?: RequestOptions
+  ) => Promise<string>;
+  /**
+   * Fills the missing fields of a transaction, signs it and broadcasts it.
+   *
+   * @param {TransactionRequest} request - The transaction, with a recipient address or ENS name.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<TransactionResponse>} The transaction hash, and a function waiting for its receipt.
+   */
+  sendTransaction: (
+    request: TransactionRequest,
+    options?: RequestOptions
+  ) => Promise<TransactionResponse>;
+  /**
+   * Broadcasts a signed transaction. The request is never retried.
+   *
+   * @param {string} serializedTransaction - The `0x` prefixed signed transaction.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<string>} The transaction hash.
+   */
+  sendRawTransaction: (
+    serializedTransaction: string,
+    options?: RequestOptions
   ) => Promise<string>;
+  /**
+   * Waits for a transaction to be mined, then for a number of blocks including its own.
+   *
+   * @param {string} transactionHash - The transaction hash.
+   * @param {number} [confirmations=1] - Optional. The number of blocks, 1 to return as soon as it is mined.
+   * @param {WaitOptions} [options] - Optional. The polling interval, the request timeout and an abort signal to stop waiting.
+   * @returns {Promise<TransactionReceipt>} The receipt of the transaction.
+   */
+  waitForTransaction: (
+    transactionHash: string,
+    confirmations?: number,
+    options?: WaitOptions
+  ) => Promise<TransactionReceipt>;
+  /**
+   * Signs a message with the client signer, as `personal_sign` does (EIP-191).
+   *
+   * @param {string | Uint8Array} message - The message, as a UTF-8 string or as raw bytes.
+   * @returns {Promise<string>} The `0x` prefixed 65 byte signature.
+   */
+  signMessage: (message: string | Uint8Array) => Promise<string>;
+  /**
+   * Signs an EIP-712 typed data message with the client signer.
+   *
+   * @param {TypedData} data - The domain, types, primary type and message.
+   * @returns {Promise<string>} The `0x` prefixed 65 byte signature.
+   */
+  signTypedData: (data: TypedData) => Promise<string>;
+}
+
+interface Gas {
+  /**
+   * Estimates the gas used by a transaction with `eth_estimateGas`.
+   *
+   * @param {GasEstimateRequest} request - The transaction, with a recipient address or ENS name. The sender defaults to the client signer.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<bigint>} The gas estimate.
+   */
+  estimate: (
+    request: GasEstimateRequest,
+    options?: RequestOptions
+  ) => Promise<bigint>;
+  /**
+   * Suggests EIP-1559 fees from recent priority fees and base fees, or the gas price on chains without base fee.
+   *
+   * @param {SuggestFeesOptions} [options] - Optional. The speed, 'slow', 'standard' or 'fast', and the number of recent blocks.
+   * @returns {Promise<FeeSuggestion>} The suggested fees.
+   */
+  suggestFees: (options?: SuggestFeesOptions) => Promise<FeeSuggestion>;
+}
+
+interface Signatures {
+  /**
+   * Computes the EIP-191 hash signed by `personal_sign`.
+   *
+   * @param {string | Uint8Array} message - The message, as a UTF-8 string or as raw bytes.
+   * @returns {string} The `0x` prefixed 32 byte hash.
+   */
+  hashMessage: (message: string | Uint8Array) => string;
+  /**
+   * Computes the EIP-712 hash signed for a typed data message.
+   *
+   * @param {TypedData} data - The domain, types, primary type and message.
+   * @returns {string} The `0x` prefixed 32 byte hash.
+   */
+  hashTypedData: (data: TypedData) => string;
+  /**
+   * Recovers the address of the account that signed a hash.
+   *
+   * @param {string} hash - The `0x` prefixed 32 byte hash.
+   * @param {string} value - The `0x` prefixed 65 byte signature.
+   * @returns {string} The checksummed address of the signer.
+   */
+  recoverAddress: (hash: string, value: string) => string;
+  /**
+   * Verifies a signature of a 32 byte hash, by an account or an ERC1271 contract.
+   *
+   * @param {string} signerAddress - The address or ENS name of the expected signer.
+   * @param {string} hash - The `0x` prefixed 32 byte hash.
+   * @param {string} value - The `0x` prefixed signature.
+   * @param {ReadOptions} [options] - Optional. The block to check contract signatures at, defaults to 'latest'.
+   * @returns {Promise<boolean>} True when the signature is valid.
+   */
+  verifyHash: (
+    signerAddress: string,
+    hash: string,
+    value: string,
+    options?: ReadOptions
+  ) => Promise<boolean>;
+  /**
+   * Verifies an EIP-191 signature of a message, by an account or an ERC1271 contract.
+   *
+   * @param {string} signerAddress - The address or ENS name of the expected signer.
+   * @param {string | Uint8Array} message - The message, as a UTF-8 string or as raw bytes.
+   * @param {string} value - The `0x` prefixed signature.
+   * @param {ReadOptions} [options] - Optional. The block to check contract signatures at, defaults to 'latest'.
+   * @returns {Promise<boolean>} True when the signature is valid.
+   */
+  verifyMessage: (
+    signerAddress: string,
+    message: string | Uint8Array,
+    value: string,
+    options?: ReadOptions
+  ) => Promise<boolean>;
+  /**
+   * Verifies an EIP-712 signature of a typed data message, by an account or an ERC1271 contract.
+   *
+   * @param {string} signerAddress - The address or ENS name of the expected signer.
+   * @param {TypedData} data - The domain, types, primary type and message.
+   * @param {string} value - The `0x` prefixed signature.
+   * @param {ReadOptions} [options] - Optional. The block to check contract signatures at, defaults to 'latest'.
+   * @returns {Promise<boolean>} True when the signature is valid.
+   */
+  verifyTypedData: (
+    signerAddress: string,
+    data: TypedData,
+    value: string,
+    options?: ReadOptions
+  ) => Promise<boolean>;
+  /**
+   * Verifies a Sign-In With Ethereum (EIP-4361) message and its signature, returning the session of the account.
+   *
+   * @param {string} message - The signed message.
+   * @param {string} value - The `0x` prefixed signature, of an account or an ERC1271 or EIP-6492 contract.
+   * @param {SiweVerifyOptions} options - The expected domain and nonce, and optionally the chain id, which defaults to the chain of the client.
+   * @returns {Promise<SiweSession>} The session of the account.
+   */
+  verifySiweMessage: (
+    message: string,
+    value: string,
+    options: SiweVerifyOptions
+  ) => Promise<SiweSession>;
 }
 
 /**
@@ -148,38 +871,138 @@ interface Erc1155 {
  *
  * @interface
  */
-export interface Block {
+export interface CachedBlock {
   block: number;
   timestamp: number;
 }
 
 /**
- * Represents the state of the blockchain interaction, including cached blocks and requests made.
+ * Represents the state of the blockchain interaction, including cached blocks, token decimals and requests made.
  *
  * @interface
  */
 export interface State {
   instance: AxiosInstance;
-  checkedBlocks: { [key: number]: number[] };
-  cachedBlocks: { [key: string]: Block };
+  logger: Logger;
+  errorAbi: Abi;
+  strictAddresses: boolean;
+  cachedBlocks: Map<number, CachedBlock>;
+  decimals: { [key: string]: number };
   requests: number;
-  latestBlock?: Block;
-  firstBlock?: Block;
+  latestBlock?: CachedBlock;
+  firstBlock?: CachedBlock;
   averageBlockTime?: number;
+  chainId?: number;
+  signer?: Signer;
 }
 
+/**
+ * Creates an empty client state around an ethereum instance.
+ *
+ * @param {AxiosInstance} instance - The ethereum client instance.
+ * @param {{ logger?: Logger; errorAbi?: Abi; strictAddresses?: boolean; signer?: Signer }} [options] - Optional. The logger of the client, silent by default,
+ * the ABI of custom errors to decode, whether address arguments must carry a valid EIP-55 checksum and the signer of transactions.
+ * @returns {State} The client state.
+ *
+ * @example
+ * const state = createState(axios.create({ baseURL: 'RPC_ENDPOINT' }));
+ */
+export const createState = (
+  instance: AxiosInstance,
+  {
+    logger = silentLogger,
+    errorAbi = [],
+    strictAddresses = false,
+    signer,
+  }: {
+    logger?: Logger;
+    errorAbi?: Abi;
+    strictAddresses?: boolean;
+    signer?: Signer;
+  } = {}
+): State => ({
+  instance,
+  logger,
+  errorAbi,
+  strictAddresses,
+  signer,
+  cachedBlocks: new Map(),
+  decimals: {},
+  requests: 0,
+});
+
 /**
  * Interface for a blockchain client that holds methods for interacting with both erc20, erc721 and erc1155 tokens.
  *
  * @interface
  * @property {Erc20} erc20 - Methods for interacting with erc20 tokens.
  * @property {Erc721} erc721 - Methods for interacting with erc721 tokens.
- * @property {Erc721} erc1155 - Methods for interacting with erc1155 tokens.
+ * @property {Erc1155} erc1155 - Methods for interacting with erc1155 tokens.
+ * @property {Ens} ens - Methods for resolving ENS names and records.
+ * @property {Chain} chain - Methods for reading blocks, transactions, accounts and fees.
+ * @property {Logs} logs - Methods for querying and decoding event logs.
+ * @property {Wallet} wallet - Methods for signing and sending transactions with the client signer.
+ * @property {Gas} gas - Methods for estimating gas limits and suggesting fees.
+ * @property {Signatures} signatures - Methods for hashing messages and verifying signatures of accounts and contracts.
+ * @property {Function} contract - Creates a contract instance from a JSON ABI.
+ * @property {Function} batch - Sends several JSON-RPC calls in a single batch request.
+ * @property {Function} multicall - Aggregates contract reads into a single Multicall3 call.
+ * @property {Function} call - Performs an `eth_call` with raw calldata or a function of a JSON ABI.
  */
-interface BlockchainClient {
-  erc20: Erc20;
-  erc721: Erc721;
-  erc1155: Erc1155;
+interface BlockchainClient<F extends AmountFormat = 'formatted'> {
+  erc20: Erc20<F>;
+  erc721: Erc721<F>;
+  erc1155: Erc1155<F>;
+  ens: Ens;
+  chain: Chain;
+  logs: Logs;
+  wallet: Wallet;
+  gas: Gas;
+  signatures: Signatures;
+  /**
+   * Creates a contract instance whose read methods are generated from the view and pure functions of a JSON ABI.
+   *
+   * @param {string} contractAddress - The contract address or ENS name.
+   * @param {Abi} abi - The JSON ABI of the contract, declared `as const` for inferred argument and return types.
+   * @returns {Contract<A>} The contract instance.
+   */
+  contract: <A extends Abi>(contractAddress: string, abi: A) => Contract<A>;
+  /**
+   * Sends several JSON-RPC calls in a single batch request.
+   *
+   * @param {JsonRpcCall[]} calls - The calls to send, each with a method and its params.
+   * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+   * @returns {Promise<JsonRpcResponse<unknown>[]>} One response per call, in the order of the calls. Failed calls carry their own `error`.
+   */
+  batch: (
+    calls: JsonRpcCall[],
+    options?: RequestOptions
+  ) => Promise<JsonRpcResponse<unknown>[]>;
+  /**
+   * Aggregates contract reads into a single Multicall3 `aggregate3` call.
+   *
+   * @param {MulticallCall[]} calls - The contract reads, each with an address, ABI, function name and arguments.
+   * @param {MulticallOptions} [options] - Optional. Whether calls may fail (defaults to true), and the block to read the state at.
+   * @returns {Promise<MulticallResult[]>} The outcome of every read, in the order of the calls.
+   */
+  multicall: (
+    calls: MulticallCall[],
+    options?: MulticallOptions
+  ) => Promise<MulticallResult[]>;
+  /**
+   * Performs an `eth_call`, with raw calldata or with a function described by a JSON ABI. Reverts throw a
+   * {@link ContractRevertError} carrying the decoded `Error(string)`, `Panic(uint256)` or custom error.
+   *
+   * @param {CallRequest} request - The call: the contract address, the calldata or the ABI, function name and arguments, and optionally `from`, `value` and `gas`.
+   * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+   * @returns {Promise<string | AbiValue | AbiValue[] | void>} The raw hex result for raw calldata, the decoded result for an ABI call.
+   */
+  call: {
+    (request: RawCallRequest, options?: ReadOptions): Promise<string>;
+    (request: ContractCallRequest, options?: ReadOptions): Promise<
+      AbiValue | AbiValue[] | void
+    >;
+  };
 }
 
 /**
@@ -193,34 +1016,135 @@ interface BlockchainClient {
  *   endpoint: 'RPC_ENDPOINT',
  *   apiKey: 'RPC_API_KEY'
  * });
+ *
+ * @example
+ * const accountingClient = createClient({
+ *   endpoint: 'RPC_ENDPOINT',
+ *   amountFormat: 'structured'
+ * });
+ *
+ * @example
+ * const portfolioClient = createClient({
+ *   endpoint: 'RPC_ENDPOINT',
+ *   batch: { wait: 10 }
+ * });
+ *
+ * @example
+ * const multicallClient = createClient({
+ *   endpoint: 'RPC_ENDPOINT',
+ *   multicall: true,
+ *   multicallAddress: '0xMULTICALL3_ADDRESS'
+ * });
+ *
+ * @example
+ * const resilientClient = createClient({
+ *   endpoint: 'RPC_ENDPOINT',
+ *   timeout: 10000,
+ *   retry: { attempts: 5, baseDelay: 500 }
+ * });
+ *
+ * @example
+ * const highAvailabilityClient = createClient({
+ *   endpoints: ['RPC_ENDPOINT', { url: 'BACKUP_RPC_ENDPOINT', apiKey: 'BACKUP_API_KEY' }],
+ *   failover: { strategy: 'latency', cooldown: 60000 }
+ * });
+ *
+ * @example
+ * const walletClient = createClient({
+ *   endpoint: 'RPC_ENDPOINT',
+ *   signer: process.env.PRIVATE_KEY
+ * });
  */
-export const createClient = ({
+export const createClient = <F extends AmountFormat = 'formatted'>({
   endpoint,
+  endpoints,
+  failover,
   apiKey,
   additionalHeaders = {},
-}: ClientConfig): BlockchainClient => {
+  amountFormat,
+  batch = false,
+  multicall: multicallConfig = false,
+  multicallAddress = MULTICALL3_ADDRESS,
+  retry = true,
+  timeout,
+  logger = silentLogger,
+  errorAbi = [],
+  strictAddresses = false,
+  signer,
+}: ClientConfig<F>): BlockchainClient<F> => {
+  if (!endpoint && !endpoints?.length) {
+    throw new Error(
+      '[client/createClient] error: An endpoint or a list of endpoints is required'
+    );
+  }
+
+  if (apiKey && !endpoint) {
+    throw new Error(
+      '[client/createClient] error: apiKey is sent to endpoint only, set the apiKey of each entry of endpoints instead'
+    );
+  }
+
+  let adapter: AxiosAdapter = axios.getAdapter(axios.defaults.adapter);
+  if (endpoints?.length) {
+    adapter = createFailoverAdapter(
+      adapter,
+      endpoint ? [{ url: endpoint, apiKey }, ...endpoints] : endpoints,
+      failover
+    );
+  }
+  if (retry) {
+    adapter = createRetryAdapter(
+      adapter,
+      typeof retry === 'object' ? retry : {}
+    );
+  }
+  if (batch) {
+    adapter = createBatchAdapter(
+      adapter,
+      typeof batch === 'object' ? batch : {}
+    );
+  }
+  if (multicallConfig) {
+    adapter = createMulticallAdapter(
+      adapter,
+      multicallAddress,
+      typeof multicallConfig === 'object' ? multicallConfig : {}
+    );
+  }
+
   const instance: AxiosInstance = axios.create({
     baseURL: endpoint,
+    adapter,
+    timeout,
     headers: {
       ...additionalHeaders,
-      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      ...(apiKey && !endpoints?.length
+        ? { Authorization: `Bearer ${apiKey}` }
+        : {}),
     },
   });
 
-  const state: State = {
-    instance,
-    checkedBlocks: {},
-    cachedBlocks: {},
-    requests: 0,
-  };
+  const state: State = createState(instance, {
+    logger,
+    errorAbi,
+    strictAddresses,
+    signer:
+      typeof signer === 'string' ? createPrivateKeySigner(signer) : signer,
+  });
+
+  const toAmountResult = (amount: TokenAmount): AmountResult<F> =>
+    (amountFormat === 'structured'
+      ? amount
+      : amount.formatted) as AmountResult<F>;
 
   return {
     erc20: {
       /**
        * Fetches the balance of an account.
        *
-       * @param {string} accountAddress - The account address to fetch the balance from.
-       * @returns {Promise<string>} A promise that resolves to the main token balance of the account in Ether.
+       * @param {string} accountAddress - The account address or ENS name to fetch the balance from.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<AmountResult<F>>} A promise that resolves to the main token balance of the account in Ether.
        *
        * @example
        * const client = createClient({
@@ -239,15 +1163,19 @@ export const createClient = ({
        *
        * getBalance();
        */
-      getBalance: (accountAddress: string): Promise<string> =>
-        erc20.getBalance(accountAddress, instance),
+      getBalance: async (
+        accountAddress: string,
+        options?: ReadOptions
+      ): Promise<AmountResult<F>> =>
+        toAmountResult(await erc20.getBalance(accountAddress, state, options)),
 
       /**
        * Fetches the token balance of an account for a specified erc20 contract.
        *
-       * @param {string} accountAddress - The account address to fetch the balance from.
-       * @param {string} contractAddress - The contract address of the erc20 token.
-       * @returns {Promise<string>} A promise that resolves to the erc20 token balance of the account in Ether.
+       * @param {string} accountAddress - The account address or ENS name to fetch the balance from.
+       * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<AmountResult<F>>} A promise that resolves to the erc20 token balance of the account, formatted with the token decimals.
        *
        * @example
        * const client = createClient({
@@ -266,16 +1194,25 @@ export const createClient = ({
        *
        * getBalanceOf();
        */
-      getBalanceOf: (
+      getBalanceOf: async (
         accountAddress: string,
-        contractAddress: string
-      ): Promise<string> =>
-        erc20.getBalanceOf(accountAddress, contractAddress, instance),
+        contractAddress: string,
+        options?: ReadOptions
+      ): Promise<AmountResult<F>> =>
+        toAmountResult(
+          await erc20.getBalanceOf(
+            accountAddress,
+            contractAddress,
+            state,
+            options
+          )
+        ),
 
       /**
        * Fetches the name of a erc20 token.
        *
-       * @param {string} contractAddress - The contract address of the erc20 token.
+       * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
        * @returns {Promise<string>} A promise that resolves to the name of the erc20 token.
        *
        * @example
@@ -295,13 +1232,16 @@ export const createClient = ({
        *
        * getName();
        */
-      getName: (contractAddress: string): Promise<string> =>
-        erc20.getName(contractAddress, instance),
+      getName: (
+        contractAddress: string,
+        options?: ReadOptions
+      ): Promise<string> => erc20.getName(contractAddress, state, options),
 
       /**
        * Fetches the symbol of a erc20 token.
        *
-       * @param {string} contractAddress - The contract address of the erc20 token.
+       * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
        * @returns {Promise<string>} A promise that resolves to the symbol of the erc20 token.
        *
        * @example
@@ -321,14 +1261,17 @@ export const createClient = ({
        *
        * getSymbol();
        */
-      getSymbol: (contractAddress: string): Promise<string> =>
-        erc20.getSymbol(contractAddress, instance),
+      getSymbol: (
+        contractAddress: string,
+        options?: ReadOptions
+      ): Promise<string> => erc20.getSymbol(contractAddress, state, options),
 
       /**
        * Fetches the total supply of a erc20 token.
        *
-       * @param {string} contractAddress - The contract address of the erc20 token.
-       * @returns {Promise<string>} A promise that resolves to the total supply of the erc20 token.
+       * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<AmountResult<F>>} A promise that resolves to the total supply of the erc20 token.
        *
        * @example
        * const client = createClient({
@@ -347,16 +1290,438 @@ export const createClient = ({
        *
        * getTotalSupply();
        */
-      getTotalSupply: (contractAddress: string): Promise<string> =>
-        erc20.getTotalSupply(contractAddress, instance),
-    },
-    erc721: {
+      getTotalSupply: async (
+        contractAddress: string,
+        options?: ReadOptions
+      ): Promise<AmountResult<F>> =>
+        toAmountResult(
+          await erc20.getTotalSupply(contractAddress, state, options)
+        ),
+
+      /**
+       * Fetches the number of decimals of a erc20 token.
+       *
+       * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<number>} A promise that resolves to the number of decimals the erc20 token uses.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getDecimals() {
+       *   try {
+       *     const decimals = await client.erc20.getDecimals('0xCONTRACT_ADDRESS');
+       *     console.log('Decimals of erc20 token:', decimals);
+       *   } catch (e) {
+       *     console.error('Error fetching decimals of token:', e);
+       *   }
+       * }
+       *
+       * getDecimals();
+       */
+      getDecimals: (
+        contractAddress: string,
+        options?: ReadOptions
+      ): Promise<number> => erc20.getDecimals(contractAddress, state, options),
+
+      /**
+       * Fetches a page of the erc20 transfers in and out of an account, ordered by block and log index, with the
+       * timestamp of their block. Pass the returned cursor to fetch the next page.
+       *
+       * @param {string} accountAddress - The account address or ENS name.
+       * @param {TransferOptions} [options] - Optional. The token contract, block range, page size and cursor.
+       * @returns {Promise<TransferPage<Erc20Transfer>>} The transfers and the cursor of the next page, null on the last page.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getTransfers() {
+       *   try {
+       *     let cursor = undefined;
+       *     do {
+       *       const page = await client.erc20.getTransfers('0xACCOUNT_ADDRESS', { fromBlock: 19000000, cursor });
+       *       page.transfers.forEach((transfer) => console.log(transfer.timestamp, transfer.from, transfer.to, transfer.value));
+       *       cursor = page.cursor;
+       *     } while (cursor);
+       *   } catch (e) {
+       *     console.error('Error fetching transfers:', e);
+       *   }
+       * }
+       *
+       * getTransfers();
+       */
+      getTransfers: (
+        accountAddress: string,
+        options?: TransferOptions
+      ): Promise<TransferPage<Erc20Transfer>> =>
+        erc20.getTransfers(accountAddress, state, options),
+
+      /**
+       * Fetches the amount of tokens that an owner allowed a spender to transfer.
+       *
+       * @param {string} ownerAddress - The owner address or ENS name.
+       * @param {string} spenderAddress - The spender address or ENS name.
+       * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<AmountResult<F>>} A promise that resolves to the allowance, formatted with the token decimals.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getAllowance() {
+       *   try {
+       *     const allowance = await client.erc20.getAllowance('0xOWNER_ADDRESS', '0xSPENDER_ADDRESS', '0xCONTRACT_ADDRESS');
+       *     console.log('Allowance of erc20 token:', allowance);
+       *   } catch (e) {
+       *     console.error('Error fetching allowance of token:', e);
+       *   }
+       * }
+       *
+       * getAllowance();
+       */
+      getAllowance: async (
+        ownerAddress: string,
+        spenderAddress: string,
+        contractAddress: string,
+        options?: ReadOptions
+      ): Promise<AmountResult<F>> =>
+        toAmountResult(
+          await erc20.getAllowance(
+            ownerAddress,
+            spenderAddress,
+            contractAddress,
+            state,
+            options
+          )
+        ),
+
+      /**
+       * Transfers tokens from the client signer to a recipient.
+       *
+       * @param {string} recipientAddress - The recipient address or ENS name.
+       * @param {string | bigint} amount - The amount, as a decimal string in token units, e.g. '1.5', or a bigint in the smallest unit.
+       * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+       * @param {WriteOptions} [options] - Optional. Overrides of the nonce, gas and fees, the request timeout and abort signal.
+       * @returns {Promise<TransactionResponse>} The transaction hash, and a function waiting for its receipt.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   signer: process.env.PRIVATE_KEY
+       * });
+       *
+       * async function transfer() {
+       *   try {
+       *     const { hash, wait } = await client.erc20.transfer('0xRECIPIENT_ADDRESS', '1.5', '0xCONTRACT_ADDRESS');
+       *     await wait();
+       *     console.log('Transferred tokens:', hash);
+       *   } catch (e) {
+       *     console.error('Error transferring tokens:', e);
+       *   }
+       * }
+       *
+       * transfer();
+       */
+      transfer: (
+        recipientAddress: string,
+        amount: string | bigint,
+        contractAddress: string,
+        options?: WriteOptions
+      ): Promise<TransactionResponse> =>
+        erc20.transfer(
+          recipientAddress,
+          amount,
+          contractAddress,
+          state,
+          options
+        ),
+
+      /**
+       * Allows a spender to transfer up to an amount of tokens of the client signer, replacing the current allowance.
+       *
+       * @param {string} spenderAddress - The spender address or ENS name.
+       * @param {string | bigint} amount - The allowance, as a decimal string in token units, e.g. '1.5', or a bigint in the smallest unit.
+       * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+       * @param {WriteOptions} [options] - Optional. Overrides of the nonce, gas and fees, the request timeout and abort signal.
+       * @returns {Promise<TransactionResponse>} The transaction hash, and a function waiting for its receipt.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   signer: process.env.PRIVATE_KEY
+       * });
+       *
+       * async function approve() {
+       *   try {
+       *     const { hash, wait } = await client.erc20.approve('0xSPENDER_ADDRESS', '100', '0xCONTRACT_ADDRESS');
+       *     await wait();
+       *     console.log('Approved spender:', hash);
+       *   } catch (e) {
+       *     console.error('Error approving spender:', e);
+       *   }
+       * }
+       *
+       * approve();
+       */
+      approve: (
+        spenderAddress: string,
+        amount: string | bigint,
+        contractAddress: string,
+        options?: WriteOptions
+      ): Promise<TransactionResponse> =>
+        erc20.approve(spenderAddress, amount, contractAddress, state, options),
+
+      /**
+       * Transfers tokens from an account that approved the client signer to a recipient, spending the allowance.
+       *
+       * @param {string} ownerAddress - The address or ENS name of the account the tokens are taken from.
+       * @param {string} recipientAddress - The recipient address or ENS name.
+       * @param {string | bigint} amount - The amount, as a decimal string in token units, e.g. '1.5', or a bigint in the smallest unit.
+       * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+       * @param {WriteOptions} [options] - Optional. Overrides of the nonce, gas and fees, the request timeout and abort signal.
+       * @returns {Promise<TransactionResponse>} The transaction hash, and a function waiting for its receipt.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   signer: process.env.PRIVATE_KEY
+       * });
+       *
+       * async function transferFrom() {
+       *   try {
+       *     const { hash, wait } = await client.erc20.transferFrom('0xOWNER_ADDRESS', '0xRECIPIENT_ADDRESS', '1.5', '0xCONTRACT_ADDRESS');
+       *     await wait();
+       *     console.log('Transferred tokens:', hash);
+       *   } catch (e) {
+       *     console.error('Error transferring tokens:', e);
+       *   }
+       * }
+       *
+       * transferFrom();
+       */
+      transferFrom: (
+        ownerAddress: string,
+        recipientAddress: string,
+        amount: string | bigint,
+        contractAddress: string,
+        options?: WriteOptions
+      ): Promise<TransactionResponse> =>
+        erc20.transferFrom(
+          ownerAddress,
+          recipientAddress,
+          amount,
+          contractAddress,
+          state,
+          options
+        ),
+
+      /**
+       * Fetches the next EIP-2612 permit nonce of an owner.
+       *
+       * @param {string} ownerAddress - The owner address or ENS name.
+       * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<bigint>} The nonce of the next permit of the owner.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getNonces() {
+       *   try {
+       *     const nonces = await client.erc20.getNonces('0xOWNER_ADDRESS', '0xCONTRACT_ADDRESS');
+       *     console.log('Permit nonce:', nonces);
+       *   } catch (e) {
+       *     console.error('Error fetching permit nonce:', e);
+       *   }
+       * }
+       *
+       * getNonces();
+       */
+      getNonces: (
+        ownerAddress: string,
+        contractAddress: string,
+        options?: ReadOptions
+      ): Promise<bigint> =>
+        erc20.getNonces(ownerAddress, contractAddress, state, options),
+
+      /**
+       * Fetches the EIP-712 domain separator of a permit token.
+       *
+       * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<string>} The `0x` prefixed 32 byte domain separator.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getDomainSeparator() {
+       *   try {
+       *     const domainSeparator = await client.erc20.getDomainSeparator('0xCONTRACT_ADDRESS');
+       *     console.log('Domain separator:', domainSeparator);
+       *   } catch (e) {
+       *     console.error('Error fetching domain separator:', e);
+       *   }
+       * }
+       *
+       * getDomainSeparator();
+       */
+      getDomainSeparator: (
+        contractAddress: string,
+        options?: ReadOptions
+      ): Promise<string> =>
+        erc20.getDomainSeparator(contractAddress, state, options),
+
+      /**
+       * Signs an EIP-2612 permit with the client signer, allowing a spender to transfer tokens of the owner without an
+       * approve transaction.
+       *
+       * @param {string} ownerAddress - The owner address or ENS name, which must be the address of the client signer.
+       * @param {string} spenderAddress - The spender address or ENS name.
+       * @param {string | bigint} amount - The allowance, as a decimal string in token units, e.g. '1.5', or a bigint in the smallest unit.
+       * @param {number | bigint} deadline - The unix timestamp after which the permit expires.
+       * @param {string} contractAddress - The contract address or ENS name of the erc20 token.
+       * @param {PermitOptions} [options] - Optional. The nonce and domain overrides, the request timeout and abort signal.
+       * @returns {Promise<PermitSignature>} The permit arguments and the signature.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   signer: process.env.PRIVATE_KEY
+       * });
+       *
+       * async function signPermit() {
+       *   try {
+       *     const permit = await client.erc20.signPermit(client.wallet.getAddress(), '0xSPENDER_ADDRESS', '100', Math.floor(Date.now() / 1000) + 3600, '0xCONTRACT_ADDRESS');
+       *     console.log('Permit:', permit);
+       *   } catch (e) {
+       *     console.error('Error signing permit:', e);
+       *   }
+       * }
+       *
+       * signPermit();
+       */
+      signPermit: (
+        ownerAddress: string,
+        spenderAddress: string,
+        amount: string | bigint,
+        deadline: number | bigint,
+        contractAddress: string,
+        options?: PermitOptions
+      ): Promise<PermitSignature> =>
+        erc20.signPermit(
+          ownerAddress,
+          spenderAddress,
+          amount,
+          deadline,
+          contractAddress,
+          state,
+          options
+        ),
+
+      /**
+       * Signs a Permit2 `PermitSingle` with the client signer, allowing a spender to transfer one token through Permit2.
+       *
+       * @param {PermitDetailsRequest} details - The token, amount, expiration and optional nonce of the allowance.
+       * @param {string} spenderAddress - The spender address or ENS name.
+       * @param {number | bigint} sigDeadline - The unix timestamp after which the signature expires.
+       * @param {Permit2Options} [options] - Optional. The Permit2 contract, the request timeout and abort signal.
+       * @returns {Promise<Permit2Signature<PermitSingle>>} The signed permit and the signature.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   signer: process.env.PRIVATE_KEY
+       * });
+       *
+       * async function signPermitSingle() {
+       *   try {
+       *     const permit = await client.erc20.signPermitSingle({ token: '0xCONTRACT_ADDRESS', amount: '100', expiration: 1700000000 }, '0xSPENDER_ADDRESS', 1700000000);
+       *     console.log('Permit2 signature:', permit);
+       *   } catch (e) {
+       *     console.error('Error signing permit:', e);
+       *   }
+       * }
+       *
+       * signPermitSingle();
+       */
+      signPermitSingle: (
+        details: PermitDetailsRequest,
+        spenderAddress: string,
+        sigDeadline: number | bigint,
+        options?: Permit2Options
+      ): Promise<Permit2Signature<PermitSingle>> =>
+        erc20.signPermitSingle(
+          details,
+          spenderAddress,
+          sigDeadline,
+          state,
+          options
+        ),
+
+      /**
+       * Signs a Permit2 `PermitBatch` with the client signer, allowing a spender to transfer several tokens through
+       * Permit2 with one signature.
+       *
+       * @param {PermitDetailsRequest[]} details - The token, amount, expiration and optional nonce of each allowance.
+       * @param {string} spenderAddress - The spender address or ENS name.
+       * @param {number | bigint} sigDeadline - The unix timestamp after which the signature expires.
+       * @param {Permit2Options} [options] - Optional. The Permit2 contract, the request timeout and abort signal.
+       * @returns {Promise<Permit2Signature<PermitBatch>>} The signed permit and the signature.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   signer: process.env.PRIVATE_KEY
+       * });
+       *
+       * async function signPermitBatch() {
+       *   try {
+       *     const permit = await client.erc20.signPermitBatch([{ token: '0xCONTRACT_ADDRESS_1', amount: '100', expiration: 1700000000 }, { token: '0xCONTRACT_ADDRESS_2', amount: '5', expiration: 1700000000 }], '0xSPENDER_ADDRESS', 1700000000);
+       *     console.log('Permit2 signature:', permit);
+       *   } catch (e) {
+       *     console.error('Error signing permit:', e);
+       *   }
+       * }
+       *
+       * signPermitBatch();
+       */
+      signPermitBatch: (
+        details: PermitDetailsRequest[],
+        spenderAddress: string,
+        sigDeadline: number | bigint,
+        options?: Permit2Options
+      ): Promise<Permit2Signature<PermitBatch>> =>
+        erc20.signPermitBatch(
+          details,
+          spenderAddress,
+          sigDeadline,
+          state,
+          options
+        ),
+    },
+    erc721: {
       /**
        * Fetches the token balance of an account for a specified erc721 contract.
        *
-       * @param {string} accountAddress - The account address to fetch the balance from.
-       * @param {string} contractAddress - The contract address of the erc721 token.
-       * @returns {Promise<string>} A promise that resolves to the erc721 token balance of the account.
+       * @param {string} accountAddress - The account address or ENS name to fetch the balance from.
+       * @param {string} contractAddress - The contract address or ENS name of the erc721 token.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<AmountResult<F>>} A promise that resolves to the erc721 token balance of the account.
        *
        * @example
        * const client = createClient({
@@ -375,17 +1740,26 @@ export const createClient = ({
        *
        * getBalanceOf();
        */
-      getBalanceOf: (
+      getBalanceOf: async (
         accountAddress: string,
-        contractAddress: string
-      ): Promise<string> =>
-        erc721.getBalanceOf(accountAddress, contractAddress, instance),
+        contractAddress: string,
+        options?: ReadOptions
+      ): Promise<AmountResult<F>> =>
+        toAmountResult(
+          await erc721.getBalanceOf(
+            accountAddress,
+            contractAddress,
+            state,
+            options
+          )
+        ),
 
       /**
        * Fetches the owner address of a specific erc721 token from a specified contract.
        *
-       * @param {string} contractAddress - The contract address of the erc721 token.
-       * @param {string} tokenId - The token id of the erc721 token.
+       * @param {string} contractAddress - The contract address or ENS name of the erc721 token.
+       * @param {string} tokenId - The token id of the erc721 token, as a decimal string or a `0x` prefixed hex string.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
        * @returns {Promise<string>} The owner address of the specified erc721 token.
        *
        * @example
@@ -407,15 +1781,17 @@ export const createClient = ({
        */
       getOwnerOf: async (
         contractAddress: string,
-        tokenId: string
+        tokenId: string,
+        options?: ReadOptions
       ): Promise<string> =>
-        erc721.getOwnerOf(contractAddress, tokenId, instance),
+        erc721.getOwnerOf(contractAddress, tokenId, state, options),
 
       /**
        * Fetches the URI (often a URL) that points to the metadata of the specified erc721 token.
        *
-       * @param {string} contractAddress - The contract address of the erc721 token.
-       * @param {string} tokenId - The token id of the erc721 token.
+       * @param {string} contractAddress - The contract address or ENS name of the erc721 token.
+       * @param {string} tokenId - The token id of the erc721 token, as a decimal string or a `0x` prefixed hex string.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
        * @returns {Promise<string>} The URI of the specified erc721 token.
        *
        * @example
@@ -437,18 +1813,55 @@ export const createClient = ({
        */
       getTokenUri: async (
         contractAddress: string,
-        tokenId: string
+        tokenId: string,
+        options?: ReadOptions
       ): Promise<string> =>
-        erc721.getTokenUri(contractAddress, tokenId, instance),
+        erc721.getTokenUri(contractAddress, tokenId, state, options),
+
+      /**
+       * Fetches a page of the erc721 transfers in and out of an account, ordered by block and log index, with the
+       * timestamp of their block. Pass the returned cursor to fetch the next page.
+       *
+       * @param {string} accountAddress - The account address or ENS name.
+       * @param {TransferOptions} [options] - Optional. The token contract, block range, page size and cursor.
+       * @returns {Promise<TransferPage<Erc721Transfer>>} The transfers and the cursor of the next page, null on the last page.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getTransfers() {
+       *   try {
+       *     let cursor = undefined;
+       *     do {
+       *       const page = await client.erc721.getTransfers('0xACCOUNT_ADDRESS', { fromBlock: 19000000, cursor });
+       *       page.transfers.forEach((transfer) => console.log(transfer.timestamp, transfer.from, transfer.to, transfer.tokenId));
+       *       cursor = page.cursor;
+       *     } while (cursor);
+       *   } catch (e) {
+       *     console.error('Error fetching transfers:', e);
+       *   }
+       * }
+       *
+       * getTransfers();
+       */
+      getTransfers: (
+        accountAddress: string,
+        options?: TransferOptions
+      ): Promise<TransferPage<Erc721Transfer>> =>
+        erc721.getTransfers(accountAddress, state, options),
     },
     erc1155: {
       /**
        * Fetches the token balance of an account for a specified erc1155 contract.
        *
-       * @param {string} accountAddress - The account address to fetch the balance from.
-       * @param {string} contractAddress - The contract address of the erc1155 token.
+       * @param {string} accountAddress - The account address or ENS name to fetch the balance from.
+       * @param {string} contractAddress - The contract address or ENS name of the erc1155 token.
        * @param {string} tokenId - The token id of the erc1155 token.
-       * @returns {Promise<string>} A promise that resolves to the erc1155 token balance of the account.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<AmountResult<F>>} A promise that resolves to the erc1155 token balance of the account.
        *
        * @example
        * const client = createClient({
@@ -467,25 +1880,30 @@ export const createClient = ({
        *
        * getBalanceOf();
        */
-      getBalanceOf: (
+      getBalanceOf: async (
         accountAddress: string,
         contractAddress: string,
-        tokenId: string
-      ): Promise<string> =>
-        erc1155.getBalanceOf(
-          accountAddress,
-          contractAddress,
-          tokenId,
-          instance
+        tokenId: string,
+        options?: ReadOptions
+      ): Promise<AmountResult<F>> =>
+        toAmountResult(
+          await erc1155.getBalanceOf(
+            accountAddress,
+            contractAddress,
+            tokenId,
+            state,
+            options
+          )
         ),
 
       /**
        * Fetches the balance of an account for a specified erc1155 contract.
        *
-       * @param {string} accountAddresses - The account addresses to fetch the balance from.
-       * @param {string} contractAddress - The contract address of the erc1155 token.
+       * @param {string[]} accountAddresses - The account addresses or ENS names to fetch the balance from.
+       * @param {string} contractAddress - The contract address or ENS name of the erc1155 token.
        * @param {string[]} tokenIds - The token ids of the erc1155 token.
-       * @returns {Promise<string>} A promise that resolves to the erc1155 token balance of the account.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<AmountResult<F>[]>} A promise that resolves to the erc1155 token balances, one per account address and token id pair.
        *
        * @example
        * const client = createClient({
@@ -495,7 +1913,7 @@ export const createClient = ({
        *
        * async function getBalanceOfBatch() {
        *   try {
-       *     const balanceOfBatch = await client.erc1155.getBalanceOfBatch('0xACCOUNT_ADDRESS', '0xCONTRACT_ADDRESS', ['TOKEN_ID_1', 'TOKEN_ID_2']);
+       *     const balanceOfBatch = await client.erc1155.getBalanceOfBatch(['0xACCOUNT_ADDRESS_1', '0xACCOUNT_ADDRESS_2'], '0xCONTRACT_ADDRESS', ['TOKEN_ID_1', 'TOKEN_ID_2']);
        *     console.log('Balance of batch of erc1155 token:', balanceOfBatch);
        *   } catch (e) {
        *     console.error('Error fetching balanceOfBatch of tokens:', e);
@@ -504,17 +1922,1207 @@ export const createClient = ({
        *
        * getBalanceOfBatch();
        */
-      getBalanceOfBatch: (
+      getBalanceOfBatch: async (
         accountAddresses: string[],
         contractAddress: string,
-        tokenIds: string[]
-      ): Promise<string> =>
-        erc1155.getBalanceOfBatch(
-          accountAddresses,
-          contractAddress,
-          tokenIds,
-          instance
-        ),
+        tokenIds: string[],
+        options?: ReadOptions
+      ): Promise<AmountResult<F>[]> =>
+        (
+          await erc1155.getBalanceOfBatch(
+            accountAddresses,
+            contractAddress,
+            tokenIds,
+            state,
+            options
+          )
+        ).map(toAmountResult),
+
+      /**
+       * Fetches a page of the erc1155 transfers in and out of an account, ordered by block and log index, with the
+       * timestamp of their block. Pass the returned cursor to fetch the next page.
+       *
+       * @param {string} accountAddress - The account address or ENS name.
+       * @param {TransferOptions} [options] - Optional. The token contract, block range, page size and cursor.
+       * @returns {Promise<TransferPage<Erc1155Transfer>>} The transfers and the cursor of the next page, null on the last page.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getTransfers() {
+       *   try {
+       *     let cursor = undefined;
+       *     do {
+       *       const page = await client.erc1155.getTransfers('0xACCOUNT_ADDRESS', { fromBlock: 19000000, cursor });
+       *       page.transfers.forEach((transfer) => console.log(transfer.timestamp, transfer.ids, transfer.values));
+       *       cursor = page.cursor;
+       *     } while (cursor);
+       *   } catch (e) {
+       *     console.error('Error fetching transfers:', e);
+       *   }
+       * }
+       *
+       * getTransfers();
+       */
+      getTransfers: (
+        accountAddress: string,
+        options?: TransferOptions
+      ): Promise<TransferPage<Erc1155Transfer>> =>
+        erc1155.getTransfers(accountAddress, state, options),
     },
+
+    ens: {
+      /**
+       * Resolves an ENS name to the address of its `addr` record.
+       *
+       * @param {string} name - The name, e.g. 'vitalik.eth'.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<string | null>} The checksummed address, or null when the name does not resolve.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function resolveName() {
+       *   try {
+       *     const address = await client.ens.resolveName('vitalik.eth');
+       *     console.log('Address:', address);
+       *   } catch (e) {
+       *     console.error('Error resolving name:', e);
+       *   }
+       * }
+       *
+       * resolveName();
+       */
+      resolveName: (
+        name: string,
+        options?: ReadOptions
+      ): Promise<string | null> => ens.resolveName(name, state, options),
+
+      /**
+       * Looks up the primary ENS name of an address, verified by resolving the name back to the address.
+       *
+       * @param {string} accountAddress - The address.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<string | null>} The name, or null when the address has no verified primary name.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function lookupAddress() {
+       *   try {
+       *     const name = await client.ens.lookupAddress('0xACCOUNT_ADDRESS');
+       *     console.log('Name:', name);
+       *   } catch (e) {
+       *     console.error('Error looking up address:', e);
+       *   }
+       * }
+       *
+       * lookupAddress();
+       */
+      lookupAddress: (
+        accountAddress: string,
+        options?: ReadOptions
+      ): Promise<string | null> =>
+        ens.lookupAddress(accountAddress, state, options),
+
+      /**
+       * Fetches a text record of an ENS name.
+       *
+       * @param {string} name - The name.
+       * @param {string} key - The key of the text record, e.g. 'url' or 'com.twitter'.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<string | null>} The text record, or null when it is not set.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getText() {
+       *   try {
+       *     const url = await client.ens.getText('vitalik.eth', 'url');
+       *     console.log('Url:', url);
+       *   } catch (e) {
+       *     console.error('Error fetching text record:', e);
+       *   }
+       * }
+       *
+       * getText();
+       */
+      getText: (
+        name: string,
+        key: string,
+        options?: ReadOptions
+      ): Promise<string | null> => ens.getText(name, key, state, options),
+
+      /**
+       * Fetches the avatar of an ENS name as a URL, resolving IPFS URIs and NFT avatars.
+       *
+       * @param {string} name - The name.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, the request timeout and abort signal.
+       * @returns {Promise<string | null>} The avatar URL, or null when it is not set.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getAvatar() {
+       *   try {
+       *     const avatar = await client.ens.getAvatar('vitalik.eth');
+       *     console.log('Avatar:', avatar);
+       *   } catch (e) {
+       *     console.error('Error fetching avatar:', e);
+       *   }
+       * }
+       *
+       * getAvatar();
+       */
+      getAvatar: (
+        name: string,
+        options?: ReadOptions
+      ): Promise<string | null> => ens.getAvatar(name, state, options),
+
+      /**
+       * Fetches the content hash of an ENS name, e.g. the IPFS hash of a website.
+       *
+       * @param {string} name - The name.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<string | null>} The content URL, e.g. 'ipfs://Qm...', or null when it is not set.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getContentHash() {
+       *   try {
+       *     const contentHash = await client.ens.getContentHash('vitalik.eth');
+       *     console.log('Content hash:', contentHash);
+       *   } catch (e) {
+       *     console.error('Error fetching content hash:', e);
+       *   }
+       * }
+       *
+       * getContentHash();
+       */
+      getContentHash: (
+        name: string,
+        options?: ReadOptions
+      ): Promise<string | null> => ens.getContentHash(name, state, options),
+    },
+
+    chain: {
+      /**
+       * Fetches the number of the latest block.
+       *
+       * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+       * @returns {Promise<number>} The latest block number.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getBlockNumber() {
+       *   try {
+       *     const blockNumber = await client.chain.getBlockNumber();
+       *     console.log('Block number:', blockNumber);
+       *   } catch (e) {
+       *     console.error('Error fetching block number:', e);
+       *   }
+       * }
+       *
+       * getBlockNumber();
+       */
+      getBlockNumber: (options?: RequestOptions): Promise<number> =>
+        chain.getBlockNumber(state, options),
+
+      /**
+       * Fetches the chain id.
+       *
+       * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+       * @returns {Promise<number>} The chain id, e.g. 1 for mainnet.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getChainId() {
+       *   try {
+       *     const chainId = await client.chain.getChainId();
+       *     console.log('Chain id:', chainId);
+       *   } catch (e) {
+       *     console.error('Error fetching chain id:', e);
+       *   }
+       * }
+       *
+       * getChainId();
+       */
+      getChainId: (options?: RequestOptions): Promise<number> =>
+        chain.getChainId(state, options),
+
+      /**
+       * Fetches a block by number, tag or hash.
+       *
+       * @param {BlockIdentifier} [block='latest'] - Optional. The block: a tag, a block number, a 32 byte block hash or an EIP-1898 object.
+       * @param {GetBlockOptions} [options] - Optional. Whether to include full transactions, the request timeout and abort signal.
+       * @returns {Promise<Block | null>} The block, or null when it does not exist.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getBlock() {
+       *   try {
+       *     const block = await client.chain.getBlock('finalized', { includeTransactions: true });
+       *     console.log('Transactions:', block.transactions.length);
+       *   } catch (e) {
+       *     console.error('Error fetching block:', e);
+       *   }
+       * }
+       *
+       * getBlock();
+       */
+      getBlock: ((block?: BlockIdentifier, options?: GetBlockOptions) =>
+        chain.getBlock(block, state, options)) as Chain['getBlock'],
+
+      /**
+       * Finds the last block at or before a timestamp, or the first block at or after it, with a minimal number of requests.
+       *
+       * @param {number | Date} timestamp - The unix timestamp in seconds, or a date.
+       * @param {BlockByTimestampOptions} [options] - Optional. The direction of the search, defaults to 'before', the request timeout and abort signal.
+       * @returns {Promise<CachedBlock>} The block number and its timestamp.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getBalanceAtMidnight() {
+       *   try {
+       *     const { block } = await client.chain.getBlockByTimestamp(new Date('2024-01-01T00:00:00Z'));
+       *     const balance = await client.erc20.getBalance('0xACCOUNT_ADDRESS', { block });
+       *     console.log('Balance at midnight:', balance);
+       *   } catch (e) {
+       *     console.error('Error finding block:', e);
+       *   }
+       * }
+       *
+       * getBalanceAtMidnight();
+       */
+      getBlockByTimestamp: (
+        timestamp: number | Date,
+        options?: BlockByTimestampOptions
+      ): Promise<CachedBlock> =>
+        chain.getBlockByTimestamp(timestamp, state, options),
+
+      /**
+       * Fetches a transaction by hash.
+       *
+       * @param {string} transactionHash - The transaction hash.
+       * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+       * @returns {Promise<Transaction | null>} The transaction, or null when it is unknown to the node.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getTransaction() {
+       *   try {
+       *     const transaction = await client.chain.getTransaction('0xTRANSACTION_HASH');
+       *     console.log('Value:', transaction.value);
+       *   } catch (e) {
+       *     console.error('Error fetching transaction:', e);
+       *   }
+       * }
+       *
+       * getTransaction();
+       */
+      getTransaction: (
+        transactionHash: string,
+        options?: RequestOptions
+      ): Promise<Transaction | null> =>
+        chain.getTransaction(transactionHash, state, options),
+
+      /**
+       * Fetches the receipt of a mined transaction.
+       *
+       * @param {string} transactionHash - The transaction hash.
+       * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+       * @returns {Promise<TransactionReceipt | null>} The receipt, or null when the transaction is pending or unknown.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getTransactionReceipt() {
+       *   try {
+       *     const receipt = await client.chain.getTransactionReceipt('0xTRANSACTION_HASH');
+       *     console.log('Status:', receipt.status);
+       *   } catch (e) {
+       *     console.error('Error fetching receipt:', e);
+       *   }
+       * }
+       *
+       * getTransactionReceipt();
+       */
+      getTransactionReceipt: (
+        transactionHash: string,
+        options?: RequestOptions
+      ): Promise<TransactionReceipt | null> =>
+        chain.getTransactionReceipt(transactionHash, state, options),
+
+      /**
+       * Fetches the bytecode deployed at an address.
+       *
+       * @param {string} accountAddress - The address or ENS name.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<string>} The bytecode, '0x' for accounts without code.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getCode() {
+       *   try {
+       *     const code = await client.chain.getCode('0xCONTRACT_ADDRESS');
+       *     console.log('Is contract:', code !== '0x');
+       *   } catch (e) {
+       *     console.error('Error fetching code:', e);
+       *   }
+       * }
+       *
+       * getCode();
+       */
+      getCode: (
+        accountAddress: string,
+        options?: ReadOptions
+      ): Promise<string> => chain.getCode(accountAddress, state, options),
+
+      /**
+       * Fetches the value of a storage slot of a contract.
+       *
+       * @param {string} accountAddress - The contract address or ENS name.
+       * @param {bigint | number | string} slot - The storage slot, as a number or `0x` prefixed hex string.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+       * @returns {Promise<string>} The 32 byte value of the slot.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getStorageAt() {
+       *   try {
+       *     const value = await client.chain.getStorageAt('0xCONTRACT_ADDRESS', 0);
+       *     console.log('Slot 0:', value);
+       *   } catch (e) {
+       *     console.error('Error fetching storage:', e);
+       *   }
+       * }
+       *
+       * getStorageAt();
+       */
+      getStorageAt: (
+        accountAddress: string,
+        slot: bigint | number | string,
+        options?: ReadOptions
+      ): Promise<string> =>
+        chain.getStorageAt(accountAddress, slot, state, options),
+
+      /**
+       * Fetches the number of transactions sent from an address, which is also its next nonce.
+       *
+       * @param {string} accountAddress - The address or ENS name.
+       * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. 'pending' to include pending transactions.
+       * @returns {Promise<number>} The transaction count.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getTransactionCount() {
+       *   try {
+       *     const nonce = await client.chain.getTransactionCount('0xACCOUNT_ADDRESS', { block: 'pending' });
+       *     console.log('Nonce:', nonce);
+       *   } catch (e) {
+       *     console.error('Error fetching transaction count:', e);
+       *   }
+       * }
+       *
+       * getTransactionCount();
+       */
+      getTransactionCount: (
+        accountAddress: string,
+        options?: ReadOptions
+      ): Promise<number> =>
+        chain.getTransactionCount(accountAddress, state, options),
+
+      /**
+       * Fetches the current gas price.
+       *
+       * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+       * @returns {Promise<bigint>} The gas price in wei.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getGasPrice() {
+       *   try {
+       *     const gasPrice = await client.chain.getGasPrice();
+       *     console.log('Gas price:', gasPrice);
+       *   } catch (e) {
+       *     console.error('Error fetching gas price:', e);
+       *   }
+       * }
+       *
+       * getGasPrice();
+       */
+      getGasPrice: (options?: RequestOptions): Promise<bigint> =>
+        chain.getGasPrice(state, options),
+
+      /**
+       * Fetches the base fees, gas usage ratios and priority fee percentiles of a range of blocks.
+       *
+       * @param {number} blockCount - The number of blocks, ending at `options.block`.
+       * @param {FeeHistoryOptions} [options] - Optional. The newest block of the range, defaults to 'latest', and the reward percentiles.
+       * @returns {Promise<FeeHistory>} The fee history.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getFeeHistory() {
+       *   try {
+       *     const history = await client.chain.getFeeHistory(10, { rewardPercentiles: [25, 50, 75] });
+       *     console.log('Base fees:', history.baseFeePerGas);
+       *   } catch (e) {
+       *     console.error('Error fetching fee history:', e);
+       *   }
+       * }
+       *
+       * getFeeHistory();
+       */
+      getFeeHistory: (
+        blockCount: number,
+        options?: FeeHistoryOptions
+      ): Promise<FeeHistory> => chain.getFeeHistory(blockCount, state, options),
+
+      /**
+       * Fetches a priority fee likely to get a transaction included in the next blocks.
+       *
+       * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+       * @returns {Promise<bigint>} The priority fee per gas in wei.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getMaxPriorityFeePerGas() {
+       *   try {
+       *     const priorityFee = await client.chain.getMaxPriorityFeePerGas();
+       *     console.log('Priority fee:', priorityFee);
+       *   } catch (e) {
+       *     console.error('Error fetching priority fee:', e);
+       *   }
+       * }
+       *
+       * getMaxPriorityFeePerGas();
+       */
+      getMaxPriorityFeePerGas: (options?: RequestOptions): Promise<bigint> =>
+        chain.getMaxPriorityFeePerGas(state, options),
+    },
+
+    logs: {
+      /**
+       * Fetches the logs of an event, filtered by emitting contract, indexed arguments and block range, and decodes them.
+       * Ranges rejected by the provider as too large, or as matching too many logs, are split until they pass.
+       *
+       * @param {LogFilter<E>} filter - The contract addresses, event, indexed arguments and block range to query.
+       * @returns {Promise<DecodedLog<E>[]>} The decoded logs, in block order.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function getTransfers() {
+       *   try {
+       *     const transfers = await client.logs.get({
+       *       address: '0xCONTRACT_ADDRESS',
+       *       event: ERC20_EVENTS.Transfer,
+       *       args: { to: '0xACCOUNT_ADDRESS' },
+       *       fromBlock: 19000000,
+       *     });
+       *     transfers.forEach((log) => console.log(log.args.from, log.args.value));
+       *   } catch (e) {
+       *     console.error('Error fetching logs:', e);
+       *   }
+       * }
+       *
+       * getTransfers();
+       */
+      get: <E extends AbiEvent>(
+        filter: LogFilter<E>
+      ): Promise<DecodedLog<E>[]> => logs.get(filter, state),
+    },
+
+    wallet: {
+      /**
+       * Reads the address of the client signer.
+       *
+       * @returns {string} The checksummed address of the signer.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   signer: process.env.PRIVATE_KEY
+       * });
+       *
+       * console.log('Sending from:', client.wallet.getAddress());
+       */
+      getAddress: (): string => wallet.getAddress(state),
+
+      /**
+       * Fills the missing fields of a transaction: the chain id, the pending nonce of the signer, the fees and the gas limit.
+       *
+       * @param {TransactionRequest} request - The transaction, with a recipient address or ENS name.
+       * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+       * @returns {Promise<TransactionRequest>} The transaction, with its type and every field set.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   signer: process.env.PRIVATE_KEY
+       * });
+       *
+       * async function prepareTransaction() {
+       *   try {
+       *     const request = await client.wallet.prepareTransaction({
+       *       to: '0xRECIPIENT_ADDRESS',
+       *       value: units.parseUnits('0.1', 18),
+       *     });
+       *     console.log('Gas limit:', request.gas, 'max fee:', request.maxFeePerGas);
+       *   } catch (e) {
+       *     console.error('Error preparing transaction:', e);
+       *   }
+       * }
+       *
+       * prepareTransaction();
+       */
+      prepareTransaction: (
+        request: TransactionRequest,
+        options?: RequestOptions
+      ): Promise<TransactionRequest> =>
+        wallet.prepareTransaction(request, state, options),
+
+      /**
+       * Fills the missing fields of a transaction and signs it, without broadcasting it.
+       *
+       * @param {TransactionRequest} request - The transaction, with a recipient address or ENS name.
+       * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+       * @returns {Promise<string>} The `0x` prefixed signed transaction.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   signer: process.env.PRIVATE_KEY
+       * });
+       *
+       * async function signTransaction() {
+       *   try {
+       *     const signed = await client.wallet.signTransaction({ to: '0xRECIPIENT_ADDRESS', value: BigInt(1) });
+       *     console.log('Signed transaction:', signed);
+       *   } catch (e) {
+       *     console.error('Error signing transaction:', e);
+       *   }
+       * }
+       *
+       * signTransaction();
+       */
+      signTransaction: (
+        request: TransactionRequest,
+        options?: RequestOptions
+      ): Promise<string> => wallet.signTransaction(request, state, options),
+
+      /**
+       * Fills the missing fields of a transaction, signs it and broadcasts it.
+       *
+       * @param {TransactionRequest} request - The transaction, with a recipient address or ENS name.
+       * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+       * @returns {Promise<TransactionResponse>} The transaction hash, and a function waiting for its receipt.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   signer: process.env.PRIVATE_KEY
+       * });
+       *
+       * async function sendTransaction() {
+       *   try {
+       *     const { hash, wait } = await client.wallet.sendTransaction({
+       *       to: 'vitalik.eth',
+       *       value: units.parseUnits('0.1', 18),
+       *     });
+       *     console.log('Transaction hash:', hash);
+       *     const receipt = await wait();
+       *     console.log('Mined in block:', receipt.blockNumber);
+       *   } catch (e) {
+       *     console.error('Error sending transaction:', e);
+       *   }
+       * }
+       *
+       * sendTransaction();
+       */
+      sendTransaction: (
+        request: TransactionRequest,
+        options?: RequestOptions
+      ): Promise<TransactionResponse> =>
+        wallet.sendTransaction(request, state, options),
+
+      /**
+       * Broadcasts a signed transaction. The request is never retried.
+       *
+       * @param {string} serializedTransaction - The `0x` prefixed signed transaction.
+       * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+       * @returns {Promise<string>} The transaction hash.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function sendRawTransaction() {
+       *   try {
+       *     const hash = await client.wallet.sendRawTransaction('0xSIGNED_TRANSACTION');
+       *     console.log('Transaction hash:', hash);
+       *   } catch (e) {
+       *     console.error('Error broadcasting transaction:', e);
+       *   }
+       * }
+       *
+       * sendRawTransaction();
+       */
+      sendRawTransaction: (
+        serializedTransaction: string,
+        options?: RequestOptions
+      ): Promise<string> =>
+        wallet.sendRawTransaction(serializedTransaction, state, options),
+
+      /**
+       * Waits for a transaction to be mined, then for a number of blocks including its own.
+       *
+       * @param {string} transactionHash - The transaction hash.
+       * @param {number} [confirmations=1] - Optional. The number of blocks, 1 to return as soon as it is mined.
+       * @param {WaitOptions} [options] - Optional. The polling interval, the request timeout and an abort signal to stop waiting.
+       * @returns {Promise<TransactionReceipt>} The receipt of the transaction.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function waitForTransaction() {
+       *   try {
+       *     const receipt = await client.wallet.waitForTransaction('0xTRANSACTION_HASH', 3);
+       *     console.log('Confirmed in block:', receipt.blockNumber);
+       *   } catch (e) {
+       *     console.error('Error waiting for transaction:', e);
+       *   }
+       * }
+       *
+       * waitForTransaction();
+       */
+      waitForTransaction: (
+        transactionHash: string,
+        confirmations?: number,
+        options?: WaitOptions
+      ): Promise<TransactionReceipt> =>
+        wallet.waitForTransaction(
+          transactionHash,
+          state,
+          confirmations,
+          options
+        ),
+
+      /**
+       * Signs a message with the client signer, as `personal_sign` does (EIP-191).
+       *
+       * @param {string | Uint8Array} message - The message, as a UTF-8 string or as raw bytes.
+       * @returns {Promise<string>} The `0x` prefixed 65 byte signature.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   signer: process.env.PRIVATE_KEY
+       * });
+       *
+       * async function signMessage() {
+       *   try {
+       *     const signature = await client.wallet.signMessage('hello world');
+       *     console.log('Signature:', signature);
+       *   } catch (e) {
+       *     console.error('Error signing message:', e);
+       *   }
+       * }
+       *
+       * signMessage();
+       */
+      signMessage: (message: string | Uint8Array): Promise<string> =>
+        wallet.signMessage(message, state),
+
+      /**
+       * Signs an EIP-712 typed data message with the client signer.
+       *
+       * @param {TypedData} data - The domain, types, primary type and message.
+       * @returns {Promise<string>} The `0x` prefixed 65 byte signature.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   signer: process.env.PRIVATE_KEY
+       * });
+       *
+       * async function signTypedData() {
+       *   try {
+       *     const signature = await client.wallet.signTypedData({
+       *       domain: { name: 'Ether Mail', version: '1', chainId: 1, verifyingContract: '0xCONTRACT_ADDRESS' },
+       *       types: { Mail: [{ name: 'contents', type: 'string' }] },
+       *       primaryType: 'Mail',
+       *       message: { contents: 'Hello, Bob!' },
+       *     });
+       *     console.log('Signature:', signature);
+       *   } catch (e) {
+       *     console.error('Error signing typed data:', e);
+       *   }
+       * }
+       *
+       * signTypedData();
+       */
+      signTypedData: (data: TypedData): Promise<string> =>
+        wallet.signTypedData(data, state),
+    },
+    gas: {
+      /**
+       * Estimates the gas used by a transaction with `eth_estimateGas`.
+       *
+       * @param {GasEstimateRequest} request - The transaction, with a recipient address or ENS name. The sender defaults to the client signer.
+       * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+       * @returns {Promise<bigint>} The gas estimate.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function estimate() {
+       *   try {
+       *     const gasLimit = await client.gas.estimate({ from: '0xSENDER_ADDRESS', to: 'vitalik.eth', value: units.parseEther('0.1') });
+       *     console.log('Gas:', gasLimit);
+       *   } catch (e) {
+       *     console.error('Error estimating gas:', e);
+       *   }
+       * }
+       *
+       * estimate();
+       */
+      estimate: (
+        request: GasEstimateRequest,
+        options?: RequestOptions
+      ): Promise<bigint> => gas.estimate(request, state, options),
+
+      /**
+       * Suggests EIP-1559 fees from recent priority fees and base fees, or the gas price on chains without base fee.
+       *
+       * @param {SuggestFeesOptions} [options] - Optional. The speed, 'slow', 'standard' or 'fast', and the number of recent blocks.
+       * @returns {Promise<FeeSuggestion>} The suggested fees.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function suggestFees() {
+       *   try {
+       *     const { maxFeePerGas, maxPriorityFeePerGas } = await client.gas.suggestFees({ speed: 'fast' });
+       *     console.log('Fees:', maxFeePerGas, maxPriorityFeePerGas);
+       *   } catch (e) {
+       *     console.error('Error suggesting fees:', e);
+       *   }
+       * }
+       *
+       * suggestFees();
+       */
+      suggestFees: (options?: SuggestFeesOptions): Promise<FeeSuggestion> =>
+        gas.suggestFees(state, options),
+    },
+    signatures: {
+      /**
+       * Computes the EIP-191 hash signed by `personal_sign`.
+       *
+       * @param {string | Uint8Array} message - The message, as a UTF-8 string or as raw bytes.
+       * @returns {string} The `0x` prefixed 32 byte hash.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * const hash = client.signatures.hashMessage('hello world');
+       */
+      hashMessage: (message: string | Uint8Array): string =>
+        signature.hashMessage(message),
+
+      /**
+       * Computes the EIP-712 hash signed for a typed data message.
+       *
+       * @param {TypedData} data - The domain, types, primary type and message.
+       * @returns {string} The `0x` prefixed 32 byte hash.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * const hash = client.signatures.hashTypedData({ domain, types, primaryType: 'Mail', message });
+       */
+      hashTypedData: (data: TypedData): string => typedData.hash(data),
+
+      /**
+       * Recovers the address of the account that signed a hash.
+       *
+       * @param {string} hash - The `0x` prefixed 32 byte hash.
+       * @param {string} value - The `0x` prefixed 65 byte signature.
+       * @returns {string} The checksummed address of the signer.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * const signer = client.signatures.recoverAddress(client.signatures.hashMessage('hello world'), '0xSIGNATURE');
+       */
+      recoverAddress: (hash: string, value: string): string =>
+        signature.recoverAddress(hash, value),
+
+      /**
+       * Verifies a signature of a 32 byte hash, by an account or an ERC1271 contract.
+       *
+       * @param {string} signerAddress - The address or ENS name of the expected signer.
+       * @param {string} hash - The `0x` prefixed 32 byte hash.
+       * @param {string} value - The `0x` prefixed signature.
+       * @param {ReadOptions} [options] - Optional. The block to check contract signatures at, defaults to 'latest'.
+       * @returns {Promise<boolean>} True when the signature is valid.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function verifyHash() {
+       *   try {
+       *     const valid = await client.signatures.verifyHash('0xSIGNER_ADDRESS', '0xHASH', '0xSIGNATURE');
+       *     console.log('Valid signature:', valid);
+       *   } catch (e) {
+       *     console.error('Error verifying signature:', e);
+       *   }
+       * }
+       *
+       * verifyHash();
+       */
+      verifyHash: (
+        signerAddress: string,
+        hash: string,
+        value: string,
+        options?: ReadOptions
+      ): Promise<boolean> =>
+        signatures.verifyHash(signerAddress, hash, value, state, options),
+
+      /**
+       * Verifies an EIP-191 signature of a message, by an account or an ERC1271 contract.
+       *
+       * @param {string} signerAddress - The address or ENS name of the expected signer.
+       * @param {string | Uint8Array} message - The message, as a UTF-8 string or as raw bytes.
+       * @param {string} value - The `0x` prefixed signature.
+       * @param {ReadOptions} [options] - Optional. The block to check contract signatures at, defaults to 'latest'.
+       * @returns {Promise<boolean>} True when the signature is valid.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function verifyMessage() {
+       *   try {
+       *     const valid = await client.signatures.verifyMessage('0xSIGNER_ADDRESS', 'hello world', '0xSIGNATURE');
+       *     console.log('Valid signature:', valid);
+       *   } catch (e) {
+       *     console.error('Error verifying signature:', e);
+       *   }
+       * }
+       *
+       * verifyMessage();
+       */
+      verifyMessage: (
+        signerAddress: string,
+        message: string | Uint8Array,
+        value: string,
+        options?: ReadOptions
+      ): Promise<boolean> =>
+        signatures.verifyMessage(signerAddress, message, value, state, options),
+
+      /**
+       * Verifies an EIP-712 signature of a typed data message, by an account or an ERC1271 contract.
+       *
+       * @param {string} signerAddress - The address or ENS name of the expected signer.
+       * @param {TypedData} data - The domain, types, primary type and message.
+       * @param {string} value - The `0x` prefixed signature.
+       * @param {ReadOptions} [options] - Optional. The block to check contract signatures at, defaults to 'latest'.
+       * @returns {Promise<boolean>} True when the signature is valid.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function verifyTypedData() {
+       *   try {
+       *     const valid = await client.signatures.verifyTypedData('0xSIGNER_ADDRESS', { domain, types, primaryType: 'Order', message }, '0xSIGNATURE');
+       *     console.log('Valid signature:', valid);
+       *   } catch (e) {
+       *     console.error('Error verifying signature:', e);
+       *   }
+       * }
+       *
+       * verifyTypedData();
+       */
+      verifyTypedData: (
+        signerAddress: string,
+        data: TypedData,
+        value: string,
+        options?: ReadOptions
+      ): Promise<boolean> =>
+        signatures.verifyTypedData(signerAddress, data, value, state, options),
+
+      /**
+       * Verifies a Sign-In With Ethereum (EIP-4361) message and its signature, returning the session of the account.
+       *
+       * @param {string} message - The signed message.
+       * @param {string} value - The `0x` prefixed signature, of an account or an ERC1271 or EIP-6492 contract.
+       * @param {SiweVerifyOptions} options - The expected domain and nonce, and optionally the chain id, which defaults to the chain of the client.
+       * @returns {Promise<SiweSession>} The session of the account.
+       *
+       * @example
+       * const client = createClient({
+       *   endpoint: 'RPC_ENDPOINT',
+       *   apiKey: 'RPC_API_KEY'
+       * });
+       *
+       * async function signIn(message: string, signature: string) {
+       *   try {
+       *     const session = await client.signatures.verifySiweMessage(message, signature, {
+       *       domain: 'example.com',
+       *       nonce: 'ISSUED_NONCE',
+       *     });
+       *     console.log('Signed in:', session.address);
+       *   } catch (e) {
+       *     console.error('Error signing in:', e);
+       *   }
+       * }
+       */
+      verifySiweMessage: (
+        message: string,
+        value: string,
+        options: SiweVerifyOptions
+      ): Promise<SiweSession> =>
+        signatures.verifySiweMessage(message, value, state, options),
+    },
+
+    /**
+     * Creates a contract instance whose read methods are generated from the view and pure functions of a JSON ABI.
+     *
+     * @param {string} contractAddress - The contract address or ENS name.
+     * @param {Abi} abi - The JSON ABI of the contract, declared `as const` for inferred argument and return types.
+     * @returns {Contract<A>} The contract instance.
+     *
+     * @example
+     * const client = createClient({
+     *   endpoint: 'RPC_ENDPOINT',
+     *   apiKey: 'RPC_API_KEY'
+     * });
+     *
+     * const abi = [
+     *   {
+     *     type: 'function',
+     *     name: 'balanceOf',
+     *     stateMutability: 'view',
+     *     inputs: [{ name: 'owner', type: 'address' }],
+     *     outputs: [{ name: '', type: 'uint256' }],
+     *   },
+     * ] as const;
+     *
+     * async function getBalanceOf() {
+     *   try {
+     *     const token = client.contract('0xCONTRACT_ADDRESS', abi);
+     *     const balance = await token.balanceOf('0xACCOUNT_ADDRESS');
+     *     console.log('Balance:', balance);
+     *   } catch (e) {
+     *     console.error('Error calling contract:', e);
+     *   }
+     * }
+     *
+     * getBalanceOf();
+     */
+    contract: <A extends Abi>(contractAddress: string, abi: A): Contract<A> =>
+      contract.create(contractAddress, abi, state),
+
+    /**
+     * Sends several JSON-RPC calls in a single batch request.
+     *
+     * @param {JsonRpcCall[]} calls - The calls to send, each with a method and its params.
+     * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+     * @returns {Promise<JsonRpcResponse<unknown>[]>} One response per call, in the order of the calls. Failed calls carry their own `error`.
+     *
+     * @example
+     * const client = createClient({
+     *   endpoint: 'RPC_ENDPOINT',
+     *   apiKey: 'RPC_API_KEY'
+     * });
+     *
+     * async function getPortfolio() {
+     *   try {
+     *     const [blockNumber, balance] = await client.batch([
+     *       { method: 'eth_blockNumber' },
+     *       { method: 'eth_getBalance', params: ['0xACCOUNT_ADDRESS', 'latest'] },
+     *     ]);
+     *     console.log('Block:', blockNumber.result, 'Balance:', balance.result);
+     *   } catch (e) {
+     *     console.error('Error sending batch:', e);
+     *   }
+     * }
+     *
+     * getPortfolio();
+     */
+    batch: (
+      calls: JsonRpcCall[],
+      options?: RequestOptions
+    ): Promise<JsonRpcResponse<unknown>[]> => rpc.batch(calls, state, options),
+
+    /**
+     * Aggregates contract reads into a single Multicall3 `aggregate3` call.
+     *
+     * @param {MulticallCall[]} calls - The contract reads, each with an address, ABI, function name and arguments.
+     * @param {MulticallOptions} [options] - Optional. Whether calls may fail (defaults to true), and the block to read the state at.
+     * @returns {Promise<MulticallResult[]>} The outcome of every read, in the order of the calls.
+     *
+     * @example
+     * const client = createClient({
+     *   endpoint: 'RPC_ENDPOINT',
+     *   apiKey: 'RPC_API_KEY'
+     * });
+     *
+     * async function getSymbols() {
+     *   try {
+     *     const results = await client.multicall([
+     *       { address: '0xCONTRACT_ADDRESS', abi: erc20Abi, functionName: 'symbol' },
+     *       { address: '0xCONTRACT_ADDRESS', abi: erc20Abi, functionName: 'balanceOf', args: ['0xACCOUNT_ADDRESS'] },
+     *     ]);
+     *     console.log('Results:', results);
+     *   } catch (e) {
+     *     console.error('Error aggregating calls:', e);
+     *   }
+     * }
+     *
+     * getSymbols();
+     */
+    multicall: (
+      calls: MulticallCall[],
+      options?: MulticallOptions
+    ): Promise<MulticallResult[]> =>
+      multicall.aggregate(calls, multicallAddress, state, options),
+
+    /**
+     * Performs an `eth_call`, with raw calldata or with a function described by a JSON ABI.
+     *
+     * @param {CallRequest} request - The call: the contract address, the calldata or the ABI, function name and arguments, and optionally `from`, `value` and `gas`.
+     * @param {ReadOptions} [options] - Optional. The block to read the state at, e.g. a block number, block hash or 'finalized'.
+     * @returns {Promise<string | AbiValue | AbiValue[] | void>} The raw hex result for raw calldata, the decoded result for an ABI call.
+     *
+     * @example
+     * const client = createClient({
+     *   endpoint: 'RPC_ENDPOINT',
+     *   apiKey: 'RPC_API_KEY'
+     * });
+     *
+     * async function simulateWithdraw() {
+     *   try {
+     *     const shares = await client.call({
+     *       to: '0xCONTRACT_ADDRESS',
+     *       abi: vaultAbi,
+     *       functionName: 'withdraw',
+     *       args: [BigInt(1000)],
+     *       from: '0xACCOUNT_ADDRESS',
+     *     });
+     *     console.log('Shares:', shares);
+     *   } catch (e) {
+     *     if (e instanceof ContractRevertError) {
+     *       console.error('Reverted:', e.errorName ?? e.reason, e.args);
+     *     }
+     *   }
+     * }
+     *
+     * simulateWithdraw();
+     */
+    call: ((
+      request: CallRequest,
+      options?: ReadOptions
+    ): Promise<string | AbiValue | AbiValue[] | void> =>
+      contract.call(request, state, options)) as BlockchainClient<F>['call'],
   };
 };
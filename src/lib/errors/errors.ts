@@ -0,0 +1,211 @@
+import axios from 'axios';
+
+import { AbiValue } from '../interfaces/abi.js';
+import { TransactionReceipt } from '../interfaces/chain.js';
+import { SiweErrorReason } from '../interfaces/siwe.js';
+
+/**
+ * Base class of the errors thrown by the client. Every error keeps the underlying error as its `cause`.
+ *
+ * @class
+ */
+export class ClientError extends Error {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Error returned by the RPC server in a JSON-RPC response.
+ *
+ * @class
+ * @property {number} code - The JSON-RPC error code.
+ * @property {unknown} [data] - Optional. Additional data returned with the error.
+ * @property {string} [method] - Optional. The JSON-RPC method that failed.
+ */
+export class RpcError extends ClientError {
+  readonly code: number;
+  readonly data?: unknown;
+  readonly method?: string;
+
+  constructor(
+    message: string,
+    {
+      code,
+      data,
+      method,
+      cause,
+    }: { code: number; data?: unknown; method?: string; cause?: unknown }
+  ) {
+    super(message, { cause });
+    this.code = code;
+    this.data = data;
+    this.method = method;
+  }
+}
+
+/**
+ * Error raised when the HTTP request to the RPC server fails: a network error, a timeout, a cancellation
+ * or a non 2xx status.
+ *
+ * @class
+ * @property {number} [status] - Optional. The HTTP status of the response, when one was received.
+ * @property {string} [code] - Optional. The transport error code (e.g. 'ECONNREFUSED', 'ECONNABORTED', 'ERR_CANCELED').
+ * @property {string} [url] - Optional. The URL of the request.
+ */
+export class HttpTransportError extends ClientError {
+  readonly status?: number;
+  readonly code?: string;
+  readonly url?: string;
+
+  constructor(
+    message: string,
+    {
+      status,
+      code,
+      url,
+      cause,
+    }: { status?: number; code?: string; url?: string; cause?: unknown } = {}
+  ) {
+    super(message, { cause });
+    this.status = status;
+    this.code = code;
+    this.url = url;
+  }
+
+  /**
+   * Creates a transport error from an error thrown by axios.
+   *
+   * @param {string} context - The module and function of the request, e.g. '[erc20/getName]'.
+   * @param {unknown} e - The error thrown by axios.
+   * @returns {HttpTransportError} The transport error.
+   */
+  static from(context: string, e: unknown): HttpTransportError {
+    if (!axios.isAxiosError(e)) {
+      return new HttpTransportError(`${context} error: ${String(e)}`, {
+        cause: e,
+      });
+    }
+
+    return new HttpTransportError(`${context} error: ${e.message}`, {
+      status: e.response?.status,
+      code: e.code,
+      url: e.config
+        ? `${e.config.baseURL ?? ''}${e.config.url ?? ''}`
+        : undefined,
+      cause: e,
+    });
+  }
+}
+
+/**
+ * Error raised when a contract call reverts. The revert data is decoded as `Error(string)`, `Panic(uint256)`
+ * or a custom error of the contract ABI when possible.
+ *
+ * @class
+ * @property {string} data - The raw revert data, `0x` when the contract reverted without data.
+ * @property {string} [errorName] - Optional. The name of the decoded error, e.g. 'Error', 'Panic' or 'InsufficientBalance'.
+ * @property {AbiValue[]} [args] - Optional. The arguments of the decoded error.
+ * @property {string} [reason] - Optional. The reason string of an `Error(string)` revert.
+ * @property {bigint} [panicCode] - Optional. The code of a `Panic(uint256)` revert.
+ * @property {string} [panicReason] - Optional. The human-readable description of the panic code, e.g. 'arithmetic underflow or overflow'.
+ */
+export class ContractRevertError extends ClientError {
+  readonly data: string;
+  readonly errorName?: string;
+  readonly args?: AbiValue[];
+  readonly reason?: string;
+  readonly panicCode?: bigint;
+  readonly panicReason?: string;
+
+  constructor(
+    message: string,
+    {
+      data,
+      errorName,
+      args,
+      reason,
+      panicCode,
+      panicReason,
+      cause,
+    }: {
+      data: string;
+      errorName?: string;
+      args?: AbiValue[];
+      reason?: string;
+      panicCode?: bigint;
+      panicReason?: string;
+      cause?: unknown;
+    }
+  ) {
+    super(message, { cause });
+    this.data = data;
+    this.errorName = errorName;
+    this.args = args;
+    this.reason = reason;
+    this.panicCode = panicCode;
+    this.panicReason = panicReason;
+  }
+}
+
+/**
+ * Error raised when a mined transaction reverted.
+ *
+ * @class
+ * @property {TransactionReceipt} receipt - The receipt of the reverted transaction.
+ */
+export class TransactionRevertedError extends ClientError {
+  readonly receipt: TransactionReceipt;
+
+  constructor(message: string, receipt: TransactionReceipt) {
+    super(message);
+    this.receipt = receipt;
+  }
+}
+
+/**
+ * Error raised when a value that should be an address is not a valid address.
+ *
+ * @class
+ * @property {string} address - The invalid value.
+ */
+export class InvalidAddressError extends ClientError {
+  readonly address: string;
+
+  constructor(message: string, address: string) {
+    super(message);
+    this.address = address;
+  }
+}
+
+/**
+ * Error raised when the RPC server returns no result, e.g. when calling an address without code.
+ *
+ * @class
+ * @property {string} [method] - Optional. The JSON-RPC method that returned no result.
+ */
+export class EmptyResultError extends ClientError {
+  readonly method?: string;
+
+  constructor(message: string, method?: string) {
+    super(message);
+    this.method = method;
+  }
+}
+
+/**
+ * Error raised when a Sign-In With Ethereum message is malformed, does not match the expected domain, nonce or
+ * chain, is not valid at the verification time or is not signed by its account.
+ *
+ * @class
+ * @property {SiweErrorReason} reason - Why the message was rejected, e.g. 'expired' or 'signature'.
+ */
+export class SiweError extends ClientError {
+  readonly reason: SiweErrorReason;
+
+  constructor(message: string, reason: SiweErrorReason) {
+    super(message);
+    this.reason = reason;
+  }
+}
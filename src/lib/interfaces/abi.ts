@@ -0,0 +1,99 @@
+/**
+ * Interface representing a parameter in a JSON ABI (function input/output, event or error argument).
+ *
+ * @interface
+ * @property {string} type - The canonical solidity type (e.g. 'uint256', 'address[]', 'tuple').
+ * @property {string} [name] - Optional. The name of the parameter.
+ * @property {boolean} [indexed] - Optional. Whether an event parameter is indexed.
+ * @property {AbiParameter[]} [components] - Optional. The components of a tuple type.
+ * @property {string} [internalType] - Optional. The type as declared in the solidity source.
+ */
+export interface AbiParameter {
+  readonly type: string;
+  readonly name?: string;
+  readonly indexed?: boolean;
+  readonly components?: readonly AbiParameter[];
+  readonly internalType?: string;
+}
+
+/**
+ * Interface representing a function entry in a JSON ABI.
+ *
+ * @interface
+ * @property {'function'} type - The entry type.
+ * @property {string} name - The name of the function.
+ * @property {AbiParameter[]} inputs - The function arguments.
+ * @property {AbiParameter[]} [outputs] - Optional. The function return values.
+ * @property {string} [stateMutability] - Optional. One of 'pure', 'view', 'nonpayable' or 'payable'.
+ */
+export interface AbiFunction {
+  readonly type: 'function';
+  readonly name: string;
+  readonly inputs: readonly AbiParameter[];
+  readonly outputs?: readonly AbiParameter[];
+  readonly stateMutability?: 'pure' | 'view' | 'nonpayable' | 'payable';
+}
+
+/**
+ * Interface representing an event entry in a JSON ABI.
+ *
+ * @interface
+ * @property {'event'} type - The entry type.
+ * @property {string} name - The name of the event.
+ * @property {AbiParameter[]} inputs - The event arguments.
+ * @property {boolean} [anonymous] - Optional. Whether the event is anonymous.
+ */
+export interface AbiEvent {
+  readonly type: 'event';
+  readonly name: string;
+  readonly inputs: readonly AbiParameter[];
+  readonly anonymous?: boolean;
+}
+
+/**
+ * Interface representing a custom error entry in a JSON ABI.
+ *
+ * @interface
+ * @property {'error'} type - The entry type.
+ * @property {string} name - The name of the error.
+ * @property {AbiParameter[]} inputs - The error arguments.
+ */
+export interface AbiError {
+  readonly type: 'error';
+  readonly name: string;
+  readonly inputs: readonly AbiParameter[];
+}
+
+/**
+ * Interface representing any other entry in a JSON ABI (constructor, fallback, receive).
+ *
+ * @interface
+ */
+export interface AbiOtherEntry {
+  readonly type: 'constructor' | 'fallback' | 'receive';
+  readonly inputs?: readonly AbiParameter[];
+  readonly stateMutability?: string;
+}
+
+/**
+ * Type representing a JSON ABI.
+ */
+export type Abi = readonly (
+  | AbiFunction
+  | AbiEvent
+  | AbiError
+  | AbiOtherEntry
+)[];
+
+/**
+ * Type representing values accepted by the ABI encoder and returned by the ABI decoder.
+ *
+ * Integers decode to `bigint`, addresses, bytes and bytesN to hex strings, tuples and arrays to arrays.
+ */
+export type AbiValue =
+  | bigint
+  | number
+  | string
+  | boolean
+  | readonly AbiValue[]
+  | { readonly [key: string]: AbiValue };
@@ -0,0 +1,49 @@
+import { Abi, AbiValue } from './abi.js';
+
+/**
+ * Interface representing the fields shared by every `eth_call` request.
+ *
+ * @interface
+ * @property {string} to - The contract address.
+ * @property {string} [from] - Optional. The address the call is sent from, e.g. to simulate a transaction.
+ * @property {bigint | number} [value] - Optional. The wei sent with the call.
+ * @property {bigint | number} [gas] - Optional. The gas provided for the call.
+ */
+export interface CallRequestBase {
+  to: string;
+  from?: string;
+  value?: bigint | number;
+  gas?: bigint | number;
+}
+
+/**
+ * Interface representing an `eth_call` with raw calldata. The result is returned as hex.
+ *
+ * @interface
+ * @property {string} [data] - Optional. The `0x` prefixed calldata.
+ * @property {Abi} [errorAbi] - Optional. An ABI declaring the custom errors the contract may revert with.
+ */
+export interface RawCallRequest extends CallRequestBase {
+  data?: string;
+  errorAbi?: Abi;
+}
+
+/**
+ * Interface representing an `eth_call` of a function described by a JSON ABI. The arguments are encoded
+ * and the result is decoded with the ABI, which also declares the custom errors of the contract.
+ *
+ * @interface
+ * @property {Abi} abi - The JSON ABI of the contract.
+ * @property {string} functionName - The function to call, overloads are resolved by the number of arguments.
+ * @property {AbiValue[]} [args] - Optional. The function arguments.
+ */
+export interface ContractCallRequest extends CallRequestBase {
+  abi: Abi;
+  functionName: string;
+  args?: readonly AbiValue[];
+}
+
+/**
+ * Type representing any `eth_call` request.
+ */
+export type CallRequest = RawCallRequest | ContractCallRequest;
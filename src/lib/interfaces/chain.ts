@@ -0,0 +1,233 @@
+import { ReadOptions, RequestOptions } from './jsonRpcRequest.js';
+
+/**
+ * Interface representing an entry of an EIP-2930 access list.
+ *
+ * @interface
+ * @property {string} address - The accessed contract address.
+ * @property {string[]} storageKeys - The accessed storage slots.
+ */
+export interface AccessListEntry {
+  address: string;
+  storageKeys: string[];
+}
+
+/**
+ * Interface representing a transaction, with quantities decoded into numbers and bigints.
+ *
+ * @interface
+ * @property {string} hash - The transaction hash.
+ * @property {number} type - The transaction type: 0 legacy, 1 EIP-2930, 2 EIP-1559, 3 EIP-4844.
+ * @property {number} [chainId] - Optional. The chain id, absent for pre-EIP-155 legacy transactions.
+ * @property {number} nonce - The nonce of the sender.
+ * @property {string | null} blockHash - The block hash, null when pending.
+ * @property {number | null} blockNumber - The block number, null when pending.
+ * @property {number | null} transactionIndex - The position in the block, null when pending.
+ * @property {string} from - The sender address.
+ * @property {string | null} to - The recipient address, null for contract creations.
+ * @property {bigint} value - The wei transferred.
+ * @property {bigint} gas - The gas limit.
+ * @property {bigint} [gasPrice] - Optional. The gas price, or the effective gas price of mined EIP-1559 transactions.
+ * @property {bigint} [maxFeePerGas] - Optional. The maximum fee per gas of EIP-1559 transactions.
+ * @property {bigint} [maxPriorityFeePerGas] - Optional. The maximum priority fee per gas of EIP-1559 transactions.
+ * @property {bigint} [maxFeePerBlobGas] - Optional. The maximum fee per blob gas of EIP-4844 transactions.
+ * @property {string[]} [blobVersionedHashes] - Optional. The blob hashes of EIP-4844 transactions.
+ * @property {AccessListEntry[]} [accessList] - Optional. The access list of typed transactions.
+ * @property {string} input - The calldata.
+ * @property {bigint} [v] - Optional. The signature recovery value of legacy transactions.
+ * @property {number} [yParity] - Optional. The signature parity of typed transactions.
+ * @property {string} [r] - Optional. The signature r value.
+ * @property {string} [s] - Optional. The signature s value.
+ */
+export interface Transaction {
+  hash: string;
+  type: number;
+  chainId?: number;
+  nonce: number;
+  blockHash: string | null;
+  blockNumber: number | null;
+  transactionIndex: number | null;
+  from: string;
+  to: string | null;
+  value: bigint;
+  gas: bigint;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  maxFeePerBlobGas?: bigint;
+  blobVersionedHashes?: string[];
+  accessList?: AccessListEntry[];
+  input: string;
+  v?: bigint;
+  yParity?: number;
+  r?: string;
+  s?: string;
+}
+
+/**
+ * Interface representing an event log.
+ *
+ * @interface
+ * @property {string} address - The contract that emitted the log.
+ * @property {string[]} topics - The indexed topics, the first one being the event topic for non-anonymous events.
+ * @property {string} data - The ABI encoded non-indexed arguments.
+ * @property {string | null} blockHash - The block hash, null when pending.
+ * @property {number | null} blockNumber - The block number, null when pending.
+ * @property {string | null} transactionHash - The transaction hash, null when pending.
+ * @property {number | null} transactionIndex - The position of the transaction in the block, null when pending.
+ * @property {number | null} logIndex - The position of the log in the block, null when pending.
+ * @property {boolean} removed - Whether the log was removed by a chain reorganization.
+ */
+export interface Log {
+  address: string;
+  topics: string[];
+  data: string;
+  blockHash: string | null;
+  blockNumber: number | null;
+  transactionHash: string | null;
+  transactionIndex: number | null;
+  logIndex: number | null;
+  removed: boolean;
+}
+
+/**
+ * Interface representing a transaction receipt.
+ *
+ * @interface
+ * @property {string} transactionHash - The transaction hash.
+ * @property {number} transactionIndex - The position in the block.
+ * @property {string} blockHash - The block hash.
+ * @property {number} blockNumber - The block number.
+ * @property {string} from - The sender address.
+ * @property {string | null} to - The recipient address, null for contract creations.
+ * @property {string | null} contractAddress - The created contract address, null for other transactions.
+ * @property {'success' | 'reverted'} status - Whether the transaction succeeded.
+ * @property {number} type - The transaction type.
+ * @property {bigint} gasUsed - The gas used by the transaction.
+ * @property {bigint} cumulativeGasUsed - The gas used in the block up to and including the transaction.
+ * @property {bigint} effectiveGasPrice - The price paid per gas.
+ * @property {bigint} [blobGasUsed] - Optional. The blob gas used by EIP-4844 transactions.
+ * @property {bigint} [blobGasPrice] - Optional. The price paid per blob gas by EIP-4844 transactions.
+ * @property {Log[]} logs - The logs emitted by the transaction.
+ * @property {string} logsBloom - The bloom filter of the logs.
+ */
+export interface TransactionReceipt {
+  transactionHash: string;
+  transactionIndex: number;
+  blockHash: string;
+  blockNumber: number;
+  from: string;
+  to: string | null;
+  contractAddress: string | null;
+  status: 'success' | 'reverted';
+  type: number;
+  gasUsed: bigint;
+  cumulativeGasUsed: bigint;
+  effectiveGasPrice: bigint;
+  blobGasUsed?: bigint;
+  blobGasPrice?: bigint;
+  logs: Log[];
+  logsBloom: string;
+}
+
+/**
+ * Interface representing a block.
+ *
+ * @interface
+ * @template T The transactions of the block: hashes by default, full transactions on request.
+ * @property {number | null} number - The block number, null when pending.
+ * @property {string | null} hash - The block hash, null when pending.
+ * @property {string} parentHash - The hash of the parent block.
+ * @property {number} timestamp - The unix timestamp of the block, in seconds.
+ * @property {string | null} miner - The fee recipient.
+ * @property {bigint} gasLimit - The gas limit of the block.
+ * @property {bigint} gasUsed - The gas used by the transactions of the block.
+ * @property {bigint} [baseFeePerGas] - Optional. The base fee, since the London upgrade.
+ * @property {bigint} [blobGasUsed] - Optional. The blob gas used, since the Cancun upgrade.
+ * @property {bigint} [excessBlobGas] - Optional. The excess blob gas, since the Cancun upgrade.
+ * @property {bigint} difficulty - The difficulty, zero since the merge.
+ * @property {string} extraData - The extra data set by the block producer.
+ * @property {string | null} nonce - The proof-of-work nonce, null when pending.
+ * @property {number} size - The size of the block in bytes.
+ * @property {string} stateRoot - The root of the state trie.
+ * @property {string} transactionsRoot - The root of the transactions trie.
+ * @property {string} receiptsRoot - The root of the receipts trie.
+ * @property {string | null} logsBloom - The bloom filter of the logs, null when pending.
+ * @property {T[]} transactions - The transaction hashes or transactions of the block.
+ */
+export interface Block<T extends string | Transaction = string> {
+  number: number | null;
+  hash: string | null;
+  parentHash: string;
+  timestamp: number;
+  miner: string | null;
+  gasLimit: bigint;
+  gasUsed: bigint;
+  baseFeePerGas?: bigint;
+  blobGasUsed?: bigint;
+  excessBlobGas?: bigint;
+  difficulty: bigint;
+  extraData: string;
+  nonce: string | null;
+  size: number;
+  stateRoot: string;
+  transactionsRoot: string;
+  receiptsRoot: string;
+  logsBloom: string | null;
+  transactions: T[];
+}
+
+/**
+ * Interface representing the fee history of a range of blocks.
+ *
+ * @interface
+ * @property {number} oldestBlock - The first block of the range.
+ * @property {bigint[]} baseFeePerGas - The base fee of every block, plus the base fee of the next block.
+ * @property {number[]} gasUsedRatio - The ratio of gas used to the gas limit of every block.
+ * @property {bigint[][]} [reward] - Optional. The priority fees at the requested percentiles, per block.
+ * @property {bigint[]} [baseFeePerBlobGas] - Optional. The blob base fee of every block, plus the next block.
+ * @property {number[]} [blobGasUsedRatio] - Optional. The ratio of blob gas used to the blob gas limit of every block.
+ */
+export interface FeeHistory {
+  oldestBlock: number;
+  baseFeePerGas: bigint[];
+  gasUsedRatio: number[];
+  reward?: bigint[][];
+  baseFeePerBlobGas?: bigint[];
+  blobGasUsedRatio?: number[];
+}
+
+/**
+ * Interface representing the options accepted when fetching a block.
+ *
+ * @interface
+ * @property {boolean} [includeTransactions=false] - Optional. Return full transactions instead of their hashes.
+ */
+export interface GetBlockOptions extends RequestOptions {
+  includeTransactions?: boolean;
+}
+
+/**
+ * Interface representing the options accepted when fetching the fee history.
+ *
+ * @interface
+ * @property {number[]} [rewardPercentiles] - Optional. The percentiles of priority fees to return per block, e.g. [25, 50, 75].
+ */
+export interface FeeHistoryOptions extends ReadOptions {
+  rewardPercentiles?: number[];
+}
+
+/**
+ * Interface representing the options accepted when looking up a block by timestamp.
+ *
+ * @interface
+ * @property {'before' | 'after'} [direction='before'] - Optional. Find the last block at or before the timestamp, or the first block at or after it.
+ */
+export interface BlockByTimestampOptions extends RequestOptions {
+  direction?: 'before' | 'after';
+}
+
+/**
+ * Type representing a block, transaction, receipt or log as returned by the node, with hex encoded quantities.
+ */
+export type RpcObject = { [key: string]: unknown };
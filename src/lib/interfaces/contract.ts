@@ -0,0 +1,98 @@
+import { Abi, AbiParameter, AbiValue } from './abi.js';
+import { ReadOptions } from './jsonRpcRequest.js';
+
+/**
+ * Type resolving the TypeScript type of an elementary solidity type.
+ *
+ * @template T The solidity type (e.g. 'uint256', 'address', 'bytes32').
+ */
+export type AbiElementaryType<T extends string> = T extends
+  | `uint${string}`
+  | `int${string}`
+  ? bigint
+  : T extends 'bool'
+  ? boolean
+  : T extends 'address' | 'string' | `bytes${string}`
+  ? string
+  : AbiValue;
+
+/**
+ * Type resolving the TypeScript type of an ABI parameter, including arrays and tuples.
+ *
+ * @template P The ABI parameter.
+ */
+export type AbiParameterType<P extends AbiParameter> =
+  P['type'] extends `${infer Element}[]`
+    ? readonly AbiParameterType<Omit<P, 'type'> & { type: Element }>[]
+    : P['type'] extends `${infer Element}[${string}]`
+    ? readonly AbiParameterType<Omit<P, 'type'> & { type: Element }>[]
+    : P['type'] extends 'tuple'
+    ? P extends { components: infer C }
+      ? AbiParametersType<C>
+      : readonly AbiValue[]
+    : AbiElementaryType<P['type']>;
+
+/**
+ * Type resolving a list of ABI parameters into a tuple of TypeScript types.
+ *
+ * @template P The ABI parameters, as a readonly tuple.
+ */
+export type AbiParametersType<P> = P extends readonly [
+  infer Head,
+  ...infer Tail
+]
+  ? [
+      Head extends AbiParameter ? AbiParameterType<Head> : never,
+      ...AbiParametersType<Tail>
+    ]
+  : P extends readonly []
+  ? []
+  : AbiValue[];
+
+/**
+ * Type resolving the result of a contract read: nothing, a single value or a tuple of values.
+ *
+ * @template P The output parameters of the function.
+ */
+export type AbiOutputsType<P extends readonly AbiParameter[] | undefined> =
+  P extends readonly []
+    ? void
+    : P extends readonly [infer Only]
+    ? Only extends AbiParameter
+      ? AbiParameterType<Only>
+      : unknown
+    : P extends readonly AbiParameter[]
+    ? AbiParametersType<P>
+    : unknown;
+
+/**
+ * Type representing the read-only functions (view and pure) of an ABI.
+ *
+ * @template A The JSON ABI.
+ */
+export type AbiReadFunction<A extends Abi> = Extract<
+  A[number],
+  { type: 'function'; stateMutability: 'view' | 'pure' }
+>;
+
+/**
+ * Type representing a contract instance generated from a JSON ABI. Each view or pure function becomes a method
+ * that encodes its arguments, performs an `eth_call` and decodes the result. Methods accept {@link ReadOptions}
+ * as an optional extra argument.
+ *
+ * Declare the ABI `as const` to get argument and return types inferred from it.
+ *
+ * @template A The JSON ABI.
+ */
+export type Contract<A extends Abi> = {
+  readonly address: string;
+  readonly abi: A;
+} & (string extends AbiReadFunction<A>['name']
+  ? {
+      [name: string]: (...args: (AbiValue | ReadOptions)[]) => Promise<unknown>;
+    }
+  : {
+      [F in AbiReadFunction<A> as F['name']]: (
+        ...args: [...AbiParametersType<F['inputs']>, ReadOptions?]
+      ) => Promise<AbiOutputsType<F['outputs']>>;
+    });
@@ -13,6 +13,81 @@ export enum EthMethod {
    * Method for getting the balance of an account.
    */
   GetBalance = 'eth_getBalance',
+
+  /**
+   * Method for getting the number of the latest block.
+   */
+  BlockNumber = 'eth_blockNumber',
+
+  /**
+   * Method for getting the chain id (EIP-695).
+   */
+  ChainId = 'eth_chainId',
+
+  /**
+   * Method for getting a block by its number or tag.
+   */
+  GetBlockByNumber = 'eth_getBlockByNumber',
+
+  /**
+   * Method for getting a block by its hash.
+   */
+  GetBlockByHash = 'eth_getBlockByHash',
+
+  /**
+   * Method for getting a transaction by its hash.
+   */
+  GetTransactionByHash = 'eth_getTransactionByHash',
+
+  /**
+   * Method for getting the receipt of a mined transaction.
+   */
+  GetTransactionReceipt = 'eth_getTransactionReceipt',
+
+  /**
+   * Method for getting the bytecode deployed at an address.
+   */
+  GetCode = 'eth_getCode',
+
+  /**
+   * Method for getting the value of a storage slot of a contract.
+   */
+  GetStorageAt = 'eth_getStorageAt',
+
+  /**
+   * Method for getting the number of transactions sent from an address, i.e. its next nonce.
+   */
+  GetTransactionCount = 'eth_getTransactionCount',
+
+  /**
+   * Method for getting the current gas price.
+   */
+  GasPrice = 'eth_gasPrice',
+
+  /**
+   * Method for getting the base fees, gas usage and priority fees of a range of blocks.
+   */
+  FeeHistory = 'eth_feeHistory',
+
+  /**
+   * Method for getting a priority fee likely to get a transaction included.
+   */
+  MaxPriorityFeePerGas = 'eth_maxPriorityFeePerGas',
+
+  /**
+   * Method for getting the logs matching a filter.
+   */
+  GetLogs = 'eth_getLogs',
+
+  /**
+   * Method for estimating the gas used by a transaction.
+   */
+  EstimateGas = 'eth_estimateGas',
+
+  /**
+   * Method for broadcasting a signed transaction.
+   */
+  SendRawTransaction = 'eth_sendRawTransaction',
 }
 
 /**
@@ -41,6 +116,11 @@ export enum Erc20 {
    */
   Symbol = '0x95d89b41',
 
+  /**
+   * Selector for `decimals` function to get the number of decimals the token uses.
+   */
+  Decimals = '0x313ce567',
+
   /**
    * Selector for `transfer` function to transfer tokens to a specified account.
    */
@@ -54,6 +134,38 @@ export enum Erc20 {
    * Selector for `allowance` function to check the amount of tokens that an owner allowed to a spender.
    */
   Allowance = '0xdd62ed3e',
+
+  /**
+   * Selector for `transferFrom` function to transfer tokens from an account that approved the caller.
+   */
+  TransferFrom = '0x23b872dd',
+
+  /**
+   * Selector for the EIP-2612 `nonces` function to get the next permit nonce of an owner.
+   */
+  Nonces = '0x7ecebe00',
+
+  /**
+   * Selector for the EIP-2612 `DOMAIN_SEPARATOR` function to get the EIP-712 domain separator of the token.
+   */
+  DomainSeparator = '0x3644e515',
+
+  /**
+   * Selector for the `version` function exposed by permit tokens to get the version of their EIP-712 domain.
+   */
+  Version = '0x54fd4d50',
+}
+
+/**
+ * Enumeration for Permit2 function selectors.
+ *
+ * @enum {string}
+ */
+export enum Permit2 {
+  /**
+   * Selector for `allowance` function to get the amount, expiration and nonce of an owner, token and spender.
+   */
+  Allowance = '0x927da105',
 }
 
 /**
@@ -132,4 +244,97 @@ export enum Erc1155 {
    * Selector for `isApprovedForAll` function to check if an address is an authorized operator for another address.
    */
   IsApprovedForAll = '0xe985e9c5',
+
+  /**
+   * Selector for `uri` function to get the URI template for a token's metadata.
+   */
+  Uri = '0x0e89341c',
+}
+
+/**
+ * Enumeration for ERC1271 function selectors, implemented by contracts that validate signatures, e.g. smart wallets.
+ *
+ * @enum {string}
+ */
+export enum Erc1271 {
+  /**
+   * Selector for `isValidSignature` function to check a signature of a hash, returning the selector itself when valid.
+   */
+  IsValidSignature = '0x1626ba7e',
+}
+
+/**
+ * Enumeration for Multicall3 function selectors.
+ *
+ * @enum {string}
+ */
+export enum Multicall3 {
+  /**
+   * Selector for `aggregate3` function to execute several calls, each of which may be allowed to fail.
+   */
+  Aggregate3 = '0x82ad56cb',
+}
+
+/**
+ * Enumeration for the selectors of the built-in solidity revert errors.
+ *
+ * @enum {string}
+ */
+export enum Revert {
+  /**
+   * Selector for `Error(string)`, raised by `require` and `revert` with a reason string.
+   */
+  Error = '0x08c379a0',
+
+  /**
+   * Selector for `Panic(uint256)`, raised by failing assertions, arithmetic overflows and other runtime checks.
+   */
+  Panic = '0x4e487b71',
+}
+
+/**
+ * Enumeration for the ENS registry and resolver function selectors.
+ *
+ * @enum {string}
+ */
+export enum Ens {
+  /**
+   * Selector for the registry `resolver` function to get the resolver of a node.
+   */
+  Resolver = '0x0178b8bf',
+
+  /**
+   * Selector for the resolver `addr` function to get the address record of a node.
+   */
+  Addr = '0x3b3b57de',
+
+  /**
+   * Selector for the resolver `name` function to get the name record of a reverse node.
+   */
+  Name = '0x691f3431',
+
+  /**
+   * Selector for the resolver `text` function to get a text record of a node.
+   */
+  Text = '0x59d1d43c',
+
+  /**
+   * Selector for the resolver `contenthash` function to get the content hash record of a node.
+   */
+  ContentHash = '0xbc1c58d1',
+
+  /**
+   * Selector for `supportsInterface` function to check whether a resolver implements an interface (ERC-165).
+   */
+  SupportsInterface = '0x01ffc9a7',
+
+  /**
+   * Selector for the ENSIP-10 `resolve` function of wildcard resolvers, also used as their interface id.
+   */
+  Resolve = '0x9061b923',
+
+  /**
+   * Selector for the EIP-3668 `OffchainLookup` error, raised by contracts that resolve data offchain.
+   */
+  OffchainLookup = '0x556f1830',
 }
@@ -0,0 +1,48 @@
+import { RequestOptions } from './jsonRpcRequest.js';
+import { TransactionRequest } from './signer.js';
+
+/**
+ * Interface representing a transaction to estimate the gas of.
+ *
+ * @interface
+ * @property {string} [from] - Optional. The sender address, defaults to the client signer when one is configured.
+ */
+export interface GasEstimateRequest extends TransactionRequest {
+  from?: string;
+}
+
+/**
+ * Type representing how fast a transaction should be included: 'slow' pays the 10th percentile of recent priority
+ * fees, 'standard' the median and 'fast' the 90th percentile, with more headroom for base fee increases.
+ *
+ * @type
+ */
+export type FeeSpeed = 'slow' | 'standard' | 'fast';
+
+/**
+ * Interface representing the options of a fee suggestion.
+ *
+ * @interface
+ * @property {FeeSpeed} [speed='standard'] - Optional. How fast the transaction should be included.
+ * @property {number} [blockCount=10] - Optional. The number of recent blocks the suggestion is computed from.
+ */
+export interface SuggestFeesOptions extends RequestOptions {
+  speed?: FeeSpeed;
+  blockCount?: number;
+}
+
+/**
+ * Interface representing suggested fees. On chains without base fee, the fees are the `eth_gasPrice` of the node.
+ *
+ * @interface
+ * @property {bigint} maxFeePerGas - The maximum fee per gas, in wei.
+ * @property {bigint} maxPriorityFeePerGas - The maximum priority fee per gas, in wei.
+ * @property {bigint} [baseFeePerGas] - Optional. The base fee of the next block, unset on chains without base fee.
+ * @property {bigint} [gasPrice] - Optional. The gas price of legacy transactions, set on chains without base fee.
+ */
+export interface FeeSuggestion {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  baseFeePerGas?: bigint;
+  gasPrice?: bigint;
+}
@@ -6,16 +6,97 @@ import { HttpMessages } from './httpEnums.js';
  * @interface
  * @property {string} jsonrpc - Version of the JSON-RPC protocol used (e.g., "2.0").
  * @property {string} method - Method being invoked on the JSON-RPC server.
- * @property {[{}, string]} params - Parameters to be passed to the method, usually an array containing a mixture of objects and strings.
+ * @property {unknown[]} params - Parameters to be passed to the method, usually an array containing a mixture of objects and strings.
  * @property {number} id - Unique identifier for the request, which can be used to match the response with this request.
  */
 export interface JsonRpcRequestPayload {
   jsonrpc: string;
   method: string;
-  params: [{}, string];
+  params: unknown[];
   id: number;
 }
 
+/**
+ * Interface representing a single call in a JSON-RPC batch.
+ *
+ * @interface
+ * @property {string} method - Method being invoked on the JSON-RPC server.
+ * @property {unknown[]} [params] - Optional. Parameters to be passed to the method.
+ */
+export interface JsonRpcCall {
+  method: string;
+  params?: unknown[];
+}
+
+/**
+ * Type representing the named block tags understood by JSON-RPC nodes.
+ *
+ * @type 'latest', 'earliest', 'pending', 'safe' or 'finalized'.
+ */
+export type BlockTag = 'latest' | 'earliest' | 'pending' | 'safe' | 'finalized';
+
+/**
+ * Type representing a block parameter as sent to the node: a tag, a hex block number or an EIP-1898 object.
+ */
+export type BlockParameter =
+  | BlockTag
+  | string
+  | { blockHash: string; requireCanonical?: boolean }
+  | { blockNumber: string };
+
+/**
+ * Type representing the ways a caller can identify the block to read state at.
+ *
+ * @type A block tag, a block number (number, bigint or hex string), a 32 byte block hash or an EIP-1898 object.
+ */
+export type BlockIdentifier =
+  | BlockTag
+  | number
+  | bigint
+  | string
+  | { blockHash: string; requireCanonical?: boolean }
+  | { blockNumber: number | bigint | string };
+
+/**
+ * Interface representing the options accepted by every request.
+ *
+ * @interface
+ * @property {number} [timeout] - Optional. Milliseconds before the request is aborted, overriding the client timeout.
+ * @property {AbortSignal} [signal] - Optional. A signal to cancel the request, including pending retries.
+ */
+export interface RequestOptions {
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Interface representing the options accepted by read methods.
+ *
+ * @interface
+ * @property {BlockIdentifier} [block='latest'] - Optional. The block to read the state at, for historical queries.
+ */
+export interface ReadOptions extends RequestOptions {
+  block?: BlockIdentifier;
+}
+
+/**
+ * Interface representing the transaction object of an `eth_call`.
+ *
+ * @interface
+ * @property {string} [to] - Optional. The address the call is sent to, omitted to run the data as contract creation code.
+ * @property {string} [data] - Optional. The `0x` prefixed calldata.
+ * @property {string} [from] - Optional. The address the call is sent from.
+ * @property {string} [value] - Optional. The hex quantity of wei sent with the call.
+ * @property {string} [gas] - Optional. The hex quantity of gas provided for the call.
+ */
+export interface CallParams {
+  to?: string;
+  data?: string;
+  from?: string;
+  value?: string;
+  gas?: string;
+}
+
 /**
  * Type representing the parameters that can be passed to an RPC call.
  *
@@ -23,7 +104,7 @@ export interface JsonRpcRequestPayload {
  * @type Parameters when targeting a specific contract or account with data.
  *
  */
-export type RpcParams = { to: string; data: string } | string;
+export type RpcParams = CallParams | string;
 
 /**
  * Interface representing the params used in queries within blockchain-related API requests.
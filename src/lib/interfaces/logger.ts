@@ -0,0 +1,15 @@
+/**
+ * Interface representing a logger receiving the client diagnostics. The global `console` satisfies it.
+ *
+ * @interface
+ * @property {Function} debug - Logs requests sent by the client.
+ * @property {Function} info - Logs informational messages.
+ * @property {Function} warn - Logs recoverable problems.
+ * @property {Function} error - Logs failed requests before their error is thrown.
+ */
+export interface Logger {
+  debug: (...args: unknown[]) => void;
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
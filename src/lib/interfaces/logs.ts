@@ -0,0 +1,79 @@
+import { AbiEvent, AbiParameter, AbiValue } from './abi.js';
+import { Log } from './chain.js';
+import { AbiParameterType } from './contract.js';
+import { BlockTag, RequestOptions } from './jsonRpcRequest.js';
+
+/**
+ * Type resolving the TypeScript type of a decoded event argument. Indexed strings, bytes, arrays and tuples
+ * are only stored as a hash in their topic, and decode to that hash.
+ *
+ * @template P The event parameter.
+ */
+export type AbiEventParameterType<P extends AbiParameter> =
+  P['indexed'] extends true
+    ? P['type'] extends 'string' | 'bytes' | `${string}]` | `tuple${string}`
+      ? string
+      : AbiParameterType<P>
+    : AbiParameterType<P>;
+
+/**
+ * Type resolving the decoded arguments of an event, by name.
+ *
+ * @template E The event ABI entry, declared `as const` for inferred argument types. Unions of events resolve to
+ * a union of their arguments.
+ */
+export type AbiEventArgs<E extends AbiEvent> = E extends AbiEvent
+  ? string extends E['inputs'][number]['name']
+    ? { [key: string]: AbiValue }
+    : {
+        [P in E['inputs'][number] as P['name'] &
+          string]: AbiEventParameterType<P>;
+      }
+  : never;
+
+/**
+ * Type resolving the indexed arguments an event can be filtered on, by name. An array matches any of its
+ * values, null or a missing argument matches anything.
+ *
+ * @template E The event ABI entry, declared `as const` for inferred argument types.
+ */
+export type LogFilterArgs<E extends AbiEvent> =
+  string extends E['inputs'][number]['name']
+    ? { [key: string]: AbiValue | AbiValue[] | null }
+    : {
+        [P in Extract<E['inputs'][number], { indexed: true }> as P['name'] &
+          string]?: AbiParameterType<P> | AbiParameterType<P>[] | null;
+      };
+
+/**
+ * Interface representing a log query.
+ *
+ * @interface
+ * @template E The event ABI entry.
+ * @property {string | string[]} [address] - Optional. The contract address, ENS name or list of addresses emitting the logs. Any contract when omitted.
+ * @property {E} event - The event to match and decode, e.g. `ERC20_EVENTS.Transfer`.
+ * @property {LogFilterArgs<E>} [args] - Optional. The values of indexed arguments to match.
+ * @property {number | bigint | BlockTag} [fromBlock='latest'] - Optional. The first block of the range.
+ * @property {number | bigint | BlockTag} [toBlock='latest'] - Optional. The last block of the range.
+ */
+export interface LogFilter<E extends AbiEvent = AbiEvent>
+  extends RequestOptions {
+  address?: string | string[];
+  event: E;
+  args?: LogFilterArgs<E>;
+  fromBlock?: number | bigint | BlockTag;
+  toBlock?: number | bigint | BlockTag;
+}
+
+/**
+ * Interface representing a log decoded with the ABI of its event.
+ *
+ * @interface
+ * @template E The event ABI entry.
+ * @property {string} eventName - The name of the event.
+ * @property {AbiEventArgs<E>} args - The decoded arguments of the event.
+ */
+export interface DecodedLog<E extends AbiEvent = AbiEvent> extends Log {
+  eventName: E['name'];
+  args: AbiEventArgs<E>;
+}
@@ -0,0 +1,37 @@
+import { Abi, AbiValue } from './abi.js';
+import { ReadOptions } from './jsonRpcRequest.js';
+
+/**
+ * Interface representing a contract read to aggregate through Multicall3.
+ *
+ * @interface
+ * @property {string} address - The contract address.
+ * @property {Abi} abi - The JSON ABI of the contract, or just the entry of the function.
+ * @property {string} functionName - The name of the function to call.
+ * @property {AbiValue[]} [args] - Optional. The function arguments.
+ * @property {boolean} [allowFailure] - Optional. Whether the other calls may succeed when this one reverts, defaults to the `allowFailure` option.
+ */
+export interface MulticallCall {
+  address: string;
+  abi: Abi;
+  functionName: string;
+  args?: readonly AbiValue[];
+  allowFailure?: boolean;
+}
+
+/**
+ * Type representing the outcome of an aggregated contract read.
+ */
+export type MulticallResult =
+  | { status: 'success'; result: AbiValue | AbiValue[] | void }
+  | { status: 'failure'; error: Error };
+
+/**
+ * Options for a Multicall3 aggregate.
+ *
+ * @interface
+ * @property {boolean} [allowFailure=true] - Optional. Whether calls may revert without failing the whole aggregate.
+ */
+export interface MulticallOptions extends ReadOptions {
+  allowFailure?: boolean;
+}
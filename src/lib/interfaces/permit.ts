@@ -0,0 +1,122 @@
+import { RequestOptions } from './jsonRpcRequest.js';
+import { Signature } from './signer.js';
+import { TypedDataDomain } from './typedData.js';
+
+/**
+ * Interface representing the options of an EIP-2612 permit signature.
+ *
+ * @interface
+ * @property {bigint} [nonce] - Optional. The permit nonce of the owner, read from the token when omitted.
+ * @property {TypedDataDomain} [domain] - Optional. The EIP-712 domain of the token. By default it is derived from the
+ * token name, version and address, and checked against the `DOMAIN_SEPARATOR` of the token.
+ */
+export interface PermitOptions extends RequestOptions {
+  nonce?: bigint;
+  domain?: TypedDataDomain;
+}
+
+/**
+ * Interface representing a signed EIP-2612 permit, with the arguments of the `permit` function of the token.
+ *
+ * @interface
+ * @property {string} owner - The address of the token owner, the signer.
+ * @property {string} spender - The address allowed to spend the tokens.
+ * @property {bigint} value - The allowance, in the smallest unit of the token.
+ * @property {bigint} nonce - The permit nonce of the owner.
+ * @property {bigint} deadline - The unix timestamp after which the permit expires.
+ * @property {number} v - The recovery id of the signature, 27 or 28.
+ * @property {string} signature - The `0x` prefixed 65 byte signature.
+ */
+export interface PermitSignature extends Signature {
+  owner: string;
+  spender: string;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+  v: number;
+  signature: string;
+}
+
+/**
+ * Interface representing the allowance of a token granted by a Permit2 signature.
+ *
+ * @interface
+ * @property {string} token - The token address.
+ * @property {bigint} amount - The allowance, in the smallest unit of the token.
+ * @property {number} expiration - The unix timestamp at which the allowance expires.
+ * @property {number} nonce - The Permit2 nonce of the owner, token and spender.
+ */
+export interface PermitDetails {
+  token: string;
+  amount: bigint;
+  expiration: number;
+  nonce: number;
+}
+
+/**
+ * Interface representing an allowance to sign with Permit2. Amounts and nonces are resolved by the client.
+ *
+ * @interface
+ * @property {string} token - The token address or ENS name.
+ * @property {string | bigint} amount - The allowance, as a decimal string in token units, e.g. '1.5', or a bigint in the smallest unit.
+ * @property {number} expiration - The unix timestamp at which the allowance expires.
+ * @property {number} [nonce] - Optional. The Permit2 nonce, read from the Permit2 contract when omitted.
+ */
+export interface PermitDetailsRequest {
+  token: string;
+  amount: string | bigint;
+  expiration: number;
+  nonce?: number;
+}
+
+/**
+ * Interface representing the Permit2 `PermitSingle` struct, an allowance of one token.
+ *
+ * @interface
+ * @property {PermitDetails} details - The allowance.
+ * @property {string} spender - The address allowed to spend the tokens.
+ * @property {bigint} sigDeadline - The unix timestamp after which the signature expires.
+ */
+export interface PermitSingle {
+  details: PermitDetails;
+  spender: string;
+  sigDeadline: bigint;
+}
+
+/**
+ * Interface representing the Permit2 `PermitBatch` struct, allowances of several tokens.
+ *
+ * @interface
+ * @property {PermitDetails[]} details - The allowances.
+ * @property {string} spender - The address allowed to spend the tokens.
+ * @property {bigint} sigDeadline - The unix timestamp after which the signature expires.
+ */
+export interface PermitBatch {
+  details: PermitDetails[];
+  spender: string;
+  sigDeadline: bigint;
+}
+
+/**
+ * Interface representing a signed Permit2 message, with the arguments of the `permit` function of Permit2.
+ *
+ * @interface
+ * @property {string} owner - The address of the token owner, the signer.
+ * @property {P} permit - The signed `PermitSingle` or `PermitBatch`.
+ * @property {string} signature - The `0x` prefixed 65 byte signature.
+ */
+export interface Permit2Signature<P extends PermitSingle | PermitBatch> {
+  owner: string;
+  permit: P;
+  signature: string;
+}
+
+/**
+ * Interface representing the options of a Permit2 signature.
+ *
+ * @interface
+ * @property {string} [permit2Address] - Optional. The Permit2 contract, defaults to its canonical deployment.
+ */
+export interface Permit2Options extends RequestOptions {
+  permit2Address?: string;
+}
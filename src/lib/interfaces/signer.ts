@@ -0,0 +1,126 @@
+import { AccessListEntry, TransactionReceipt } from './chain.js';
+import { RequestOptions } from './jsonRpcRequest.js';
+
+/**
+ * Interface representing a secp256k1 signature.
+ *
+ * @interface
+ * @property {string} r - The 32 byte r value.
+ * @property {string} s - The 32 byte s value, in the lower half of the curve order.
+ * @property {number} yParity - The parity of the y coordinate of the signature point, 0 or 1, used to recover the signer.
+ */
+export interface Signature {
+  r: string;
+  s: string;
+  yParity: number;
+}
+
+/**
+ * Interface representing a transaction to sign. The transaction type is inferred from the fee fields when omitted:
+ * 2 when `maxFeePerGas` or `maxPriorityFeePerGas` is set, 1 when `gasPrice` is set with an `accessList`, 0 when only
+ * `gasPrice` is set, and 2 otherwise.
+ *
+ * @interface
+ * @property {number} [type] - Optional. The transaction type: 0 legacy, 1 EIP-2930, 2 EIP-1559.
+ * @property {number} [chainId] - Optional. The chain id, required by typed transactions. Legacy transactions without it are not replay protected.
+ * @property {number} [nonce] - Optional. The nonce of the sender.
+ * @property {string | null} [to] - Optional. The recipient address, null or omitted for contract creations.
+ * @property {bigint} [value] - Optional. The wei transferred.
+ * @property {string} [data] - Optional. The `0x` prefixed calldata, or the init code of contract creations.
+ * @property {bigint} [gas] - Optional. The gas limit.
+ * @property {bigint} [gasPrice] - Optional. The gas price of legacy and EIP-2930 transactions.
+ * @property {bigint} [maxFeePerGas] - Optional. The maximum fee per gas of EIP-1559 transactions.
+ * @property {bigint} [maxPriorityFeePerGas] - Optional. The maximum priority fee per gas of EIP-1559 transactions.
+ * @property {AccessListEntry[]} [accessList] - Optional. The addresses and storage slots the transaction plans to access.
+ */
+export interface TransactionRequest {
+  type?: number;
+  chainId?: number;
+  nonce?: number;
+  to?: string | null;
+  value?: bigint;
+  data?: string;
+  gas?: bigint;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  accessList?: AccessListEntry[];
+}
+
+/**
+ * Interface representing an account able to sign transactions, e.g. a local private key.
+ *
+ * @interface
+ * @property {string} address - The checksummed address of the account.
+ * @property {Function} sign - Signs a 32 byte hash.
+ * @property {Function} signTransaction - Signs a transaction and returns it serialized.
+ */
+export interface Signer {
+  address: string;
+  /**
+   * Signs a 32 byte hash.
+   *
+   * @param {string} hash - The `0x` prefixed hash.
+   * @returns {Promise<Signature>} The signature.
+   */
+  sign: (hash: string) => Promise<Signature>;
+  /**
+   * Signs a transaction, whose fields must all be set.
+   *
+   * @param {TransactionRequest} transaction - The transaction.
+   * @returns {Promise<string>} The `0x` prefixed signed transaction, ready for `eth_sendRawTransaction`.
+   */
+  signTransaction: (transaction: TransactionRequest) => Promise<string>;
+}
+
+/**
+ * Interface representing the options of a write method: the request timeout and abort signal, and overrides of the
+ * transaction fields filled by the client.
+ *
+ * @interface
+ */
+export interface WriteOptions
+  extends RequestOptions,
+    Pick<
+      TransactionRequest,
+      | 'type'
+      | 'nonce'
+      | 'gas'
+      | 'gasPrice'
+      | 'maxFeePerGas'
+      | 'maxPriorityFeePerGas'
+      | 'accessList'
+    > {}
+
+/**
+ * Interface representing the options of a wait for a transaction receipt.
+ *
+ * @interface
+ * @property {number} [pollingInterval=4000] - Optional. Milliseconds between two receipt requests.
+ */
+export interface WaitOptions extends RequestOptions {
+  pollingInterval?: number;
+}
+
+/**
+ * Interface representing a broadcast transaction.
+ *
+ * @interface
+ * @property {string} hash - The transaction hash.
+ * @property {Function} wait - Waits for the transaction to be mined and confirmed.
+ */
+export interface TransactionResponse {
+  hash: string;
+  /**
+   * Waits for the transaction to be mined, then for a number of blocks including its own.
+   *
+   * @param {number} [confirmations=1] - Optional. The number of blocks, 1 to return as soon as it is mined.
+   * @param {WaitOptions} [options] - Optional. The polling interval, the request timeout and an abort signal to stop waiting.
+   * @returns {Promise<TransactionReceipt>} The receipt of the transaction.
+   * @throws {TransactionRevertedError} When the transaction reverted.
+   */
+  wait: (
+    confirmations?: number,
+    options?: WaitOptions
+  ) => Promise<TransactionReceipt>;
+}
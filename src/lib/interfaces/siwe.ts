@@ -0,0 +1,113 @@
+import { ReadOptions } from './jsonRpcRequest.js';
+
+/**
+ * Interface representing the fields of a Sign-In With Ethereum (EIP-4361) message.
+ *
+ * @interface
+ * @property {string} [scheme] - Optional. The URI scheme of the origin requesting the sign-in, e.g. 'https'.
+ * @property {string} domain - The RFC 3986 authority requesting the sign-in, e.g. 'example.com'.
+ * @property {string} address - The checksummed address of the account signing in.
+ * @property {string} [statement] - Optional. A human-readable assertion the user signs, on a single line.
+ * @property {string} uri - The RFC 3986 URI of the resource that is the subject of the sign-in.
+ * @property {string} version - The version of the message, '1'.
+ * @property {number} chainId - The chain id the session is bound to.
+ * @property {string} nonce - A random alphanumeric string of at least 8 characters, chosen by the server.
+ * @property {string} issuedAt - The RFC 3339 date time at which the message was issued.
+ * @property {string} [expirationTime] - Optional. The RFC 3339 date time after which the message is no longer valid.
+ * @property {string} [notBefore] - Optional. The RFC 3339 date time before which the message is not yet valid.
+ * @property {string} [requestId] - Optional. A system-specific identifier of the sign-in request.
+ * @property {string[]} [resources] - Optional. The URIs of the resources the user wishes to have resolved.
+ */
+export interface SiweMessage {
+  scheme?: string;
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+/**
+ * Interface representing the fields of a Sign-In With Ethereum message to create. The version defaults to '1' and
+ * the issue time to the current time.
+ *
+ * @interface
+ */
+export interface SiweMessageRequest
+  extends Omit<
+    SiweMessage,
+    'version' | 'issuedAt' | 'expirationTime' | 'notBefore'
+  > {
+  version?: string;
+  issuedAt?: string | Date;
+  expirationTime?: string | Date;
+  notBefore?: string | Date;
+}
+
+/**
+ * Interface representing the expectations a Sign-In With Ethereum message is validated against. The domain and the
+ * nonce are mandatory, a message being replayable on other services and sessions otherwise.
+ *
+ * @interface
+ * @property {string} domain - The domain of the server, which the message domain must match.
+ * @property {string} nonce - The nonce issued by the server for the session, which the message nonce must match.
+ * @property {number} [chainId] - Optional. The chain id the message chain id must match.
+ * @property {Date} [time] - Optional. The time the message must be valid at, defaults to the current time.
+ */
+export interface SiweValidateOptions {
+  domain: string;
+  nonce: string;
+  chainId?: number;
+  time?: Date;
+}
+
+/**
+ * Interface representing the options of the verification of a Sign-In With Ethereum message. The chain id defaults
+ * to the chain of the client.
+ *
+ * @interface
+ */
+export interface SiweVerifyOptions extends SiweValidateOptions, ReadOptions {}
+
+/**
+ * Interface representing the session of an account signed in with a verified Sign-In With Ethereum message.
+ *
+ * @interface
+ * @property {string} address - The checksummed address of the account.
+ * @property {number} chainId - The chain id the session is bound to.
+ * @property {string} domain - The domain the account signed in to.
+ * @property {string} nonce - The nonce of the message.
+ * @property {Date} issuedAt - The time the message was issued.
+ * @property {Date} [expirationTime] - Optional. The time the session expires.
+ * @property {SiweMessage} message - The fields of the signed message.
+ */
+export interface SiweSession {
+  address: string;
+  chainId: number;
+  domain: string;
+  nonce: string;
+  issuedAt: Date;
+  expirationTime?: Date;
+  message: SiweMessage;
+}
+
+/**
+ * Type representing the reason a Sign-In With Ethereum message is rejected.
+ *
+ * @type
+ */
+export type SiweErrorReason =
+  | 'malformed'
+  | 'domain'
+  | 'nonce'
+  | 'chainId'
+  | 'expired'
+  | 'notYetValid'
+  | 'signature';
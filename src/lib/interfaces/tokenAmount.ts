@@ -0,0 +1,29 @@
+/**
+ * Interface representing a token amount in both its raw and human-readable forms.
+ *
+ * @interface
+ * @property {bigint} raw - The amount in the smallest unit of the token (e.g. Wei), suitable for exact arithmetic.
+ * @property {number} decimals - The number of decimals used to format the raw amount.
+ * @property {string} formatted - The amount formatted for display, using the token decimals.
+ */
+export interface TokenAmount {
+  raw: bigint;
+  decimals: number;
+  formatted: string;
+}
+
+/**
+ * Type representing how amounts are returned by the client.
+ *
+ * @type 'formatted' returns display strings, 'structured' returns {@link TokenAmount} objects.
+ */
+export type AmountFormat = 'formatted' | 'structured';
+
+/**
+ * Type resolving the amount result type for a given {@link AmountFormat}.
+ *
+ * @template F The amount format configured on the client.
+ */
+export type AmountResult<F extends AmountFormat> = F extends 'structured'
+  ? TokenAmount
+  : string;
@@ -0,0 +1,94 @@
+import { BlockTag, RequestOptions } from './jsonRpcRequest.js';
+
+/**
+ * Interface representing the fields shared by token transfers of every standard.
+ *
+ * @interface
+ * @property {string} contractAddress - The token contract that emitted the transfer.
+ * @property {string} from - The sender, the zero address for mints.
+ * @property {string} to - The recipient, the zero address for burns.
+ * @property {number} blockNumber - The block of the transfer.
+ * @property {string} blockHash - The hash of the block.
+ * @property {number} timestamp - The unix timestamp of the block, in seconds.
+ * @property {string} transactionHash - The transaction that made the transfer.
+ * @property {number} logIndex - The position of the transfer log in the block.
+ */
+export interface TokenTransfer {
+  contractAddress: string;
+  from: string;
+  to: string;
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/**
+ * Interface representing an ERC20 transfer.
+ *
+ * @interface
+ * @property {bigint} value - The amount transferred, in the smallest unit of the token.
+ */
+export interface Erc20Transfer extends TokenTransfer {
+  value: bigint;
+}
+
+/**
+ * Interface representing an ERC721 transfer.
+ *
+ * @interface
+ * @property {bigint} tokenId - The id of the transferred token.
+ */
+export interface Erc721Transfer extends TokenTransfer {
+  tokenId: bigint;
+}
+
+/**
+ * Interface representing an ERC1155 transfer, from a `TransferSingle` or a `TransferBatch` event.
+ *
+ * @interface
+ * @property {string} operator - The account that made the transfer, the sender or an approved operator.
+ * @property {bigint[]} ids - The ids of the transferred tokens, a single one for `TransferSingle` events.
+ * @property {bigint[]} values - The amounts transferred, one per token id.
+ */
+export interface Erc1155Transfer extends TokenTransfer {
+  operator: string;
+  ids: bigint[];
+  values: bigint[];
+}
+
+/**
+ * Interface representing the options of a transfer history query.
+ *
+ * @interface
+ * @property {string} [contractAddress] - Optional. The token contract address or ENS name. Transfers of every token when omitted.
+ * @property {number | bigint | BlockTag} [fromBlock='earliest'] - Optional. The first block of the history.
+ * @property {number | bigint | BlockTag} [toBlock='latest'] - Optional. The last block of the history.
+ * @property {number} [limit=100] - Optional. The maximum number of transfers per page.
+ * @property {number} [blockRange=10000] - Optional. The number of blocks queried at once while filling a page.
+ * @property {number} [maxRanges=10] - Optional. The maximum number of block ranges queried per page. A page reaching it returns a cursor, even when it holds fewer than `limit` transfers.
+ * @property {string} [cursor] - Optional. The cursor of the previous page, to fetch the next one.
+ */
+export interface TransferOptions extends RequestOptions {
+  contractAddress?: string;
+  fromBlock?: number | bigint | BlockTag;
+  toBlock?: number | bigint | BlockTag;
+  limit?: number;
+  blockRange?: number;
+  maxRanges?: number;
+  cursor?: string;
+}
+
+/**
+ * Interface representing a page of a transfer history.
+ *
+ * @interface
+ * @template T The transfer type.
+ * @property {T[]} transfers - The transfers, ordered by block and log index.
+ * @property {string | null} cursor - The cursor of the next page, null on the last page.
+ */
+export interface TransferPage<T extends TokenTransfer> {
+  transfers: T[];
+  cursor: string | null;
+}
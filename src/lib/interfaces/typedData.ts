@@ -0,0 +1,58 @@
+import { AbiValue } from './abi.js';
+
+/**
+ * Interface representing the EIP-712 domain of a signature, binding it to a protocol, a chain and a contract. Only
+ * the fields that are set are part of the domain.
+ *
+ * @interface
+ * @property {string} [name] - Optional. The name of the protocol or token.
+ * @property {string} [version] - Optional. The version of the signing domain.
+ * @property {number | bigint} [chainId] - Optional. The chain id the signature is valid on.
+ * @property {string} [verifyingContract] - Optional. The address of the contract verifying the signature.
+ * @property {string} [salt] - Optional. A 32 byte disambiguating salt.
+ */
+export interface TypedDataDomain {
+  name?: string;
+  version?: string;
+  chainId?: number | bigint;
+  verifyingContract?: string;
+  salt?: string;
+}
+
+/**
+ * Interface representing a member of an EIP-712 struct type.
+ *
+ * @interface
+ * @property {string} name - The name of the member.
+ * @property {string} type - The solidity type of the member, or the name of another struct type, e.g. 'Person[]'.
+ */
+export interface TypedDataField {
+  readonly name: string;
+  readonly type: string;
+}
+
+/**
+ * Type representing the struct types of an EIP-712 message, by name. The `EIP712Domain` type is optional and derived
+ * from the domain when omitted.
+ *
+ * @type
+ */
+export type TypedDataTypes = {
+  readonly [typeName: string]: readonly TypedDataField[];
+};
+
+/**
+ * Interface representing an EIP-712 typed data message.
+ *
+ * @interface
+ * @property {TypedDataDomain} domain - The signing domain.
+ * @property {TypedDataTypes} types - The struct types used by the message.
+ * @property {string} primaryType - The struct type of the message.
+ * @property {object} message - The message, with one value per member of the primary type.
+ */
+export interface TypedData {
+  domain: TypedDataDomain;
+  types: TypedDataTypes;
+  primaryType: string;
+  message: { readonly [key: string]: AbiValue };
+}
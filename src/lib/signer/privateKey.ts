@@ -0,0 +1,37 @@
+import { Signature, Signer, TransactionRequest } from '../interfaces/signer.js';
+
+import { address } from '../../utils/address.js';
+import { secp256k1 } from '../../utils/secp256k1.js';
+import { transaction } from '../../utils/transaction.js';
+
+/**
+ * Creates a signer holding a private key in memory. Signatures are deterministic (RFC 6979) and computed locally,
+ * the key never leaves the process.
+ *
+ * @param {string} privateKey - The `0x` prefixed 32 byte private key.
+ * @returns {Signer} The signer, with the checksummed address of the key.
+ * @throws {Error} When the private key is invalid.
+ *
+ * @example
+ * const signer = createPrivateKeySigner(process.env.PRIVATE_KEY);
+ */
+export const createPrivateKeySigner = (privateKey: string): Signer => {
+  if (!secp256k1.isValidPrivateKey(privateKey)) {
+    throw new Error(
+      '[signer/createPrivateKeySigner] error: Invalid private key'
+    );
+  }
+
+  const sign = async (hash: string): Promise<Signature> =>
+    secp256k1.sign(hash, privateKey);
+
+  return {
+    address: address.fromPublicKey(secp256k1.getPublicKey(privateKey)),
+    sign,
+    signTransaction: async (request: TransactionRequest): Promise<string> =>
+      transaction.serialize(
+        request,
+        await sign(transaction.getSigningHash(request))
+      ),
+  };
+};
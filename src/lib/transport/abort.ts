@@ -0,0 +1,60 @@
+import { CanceledError, GenericAbortSignal } from 'axios';
+
+/**
+ * Waits for a number of milliseconds, rejecting early when the signal is aborted.
+ *
+ * @param {number} ms - The time to wait.
+ * @param {GenericAbortSignal} [signal] - Optional. A signal cancelling the wait.
+ * @returns {Promise<void>} Resolves after the wait, or rejects with a `CanceledError`.
+ *
+ * @example
+ * await sleep(1000, controller.signal);
+ */
+export const sleep = (ms: number, signal?: GenericAbortSignal): Promise<void> =>
+  signal?.aborted
+    ? Promise.reject(new CanceledError())
+    : abortable(
+        new Promise((resolve: () => void): void => {
+          const onAbort = (): void => clearTimeout(timer);
+          const timer: ReturnType<typeof setTimeout> = setTimeout((): void => {
+            signal?.removeEventListener?.('abort', onAbort);
+            resolve();
+          }, ms);
+          signal?.addEventListener?.('abort', onAbort, { once: true });
+        }),
+        signal
+      );
+
+/**
+ * Rejects a promise with a `CanceledError` as soon as the signal is aborted, without waiting for it to settle. The
+ * abort listener is removed once the promise settles.
+ *
+ * @param {Promise<T>} promise - The promise to make abortable.
+ * @param {GenericAbortSignal} [signal] - Optional. A signal cancelling the promise.
+ * @returns {Promise<T>} The abortable promise.
+ *
+ * @example
+ * const response = await abortable(queued, config.signal);
+ */
+export const abortable = <T>(
+  promise: Promise<T>,
+  signal?: GenericAbortSignal
+): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    return Promise.reject(new CanceledError());
+  }
+
+  return new Promise(
+    (resolve: (value: T) => void, reject: (reason: unknown) => void): void => {
+      const onAbort = (): void => reject(new CanceledError());
+      signal.addEventListener?.('abort', onAbort, { once: true });
+      promise
+        .finally((): void => signal.removeEventListener?.('abort', onAbort))
+        .then(resolve, reject);
+    }
+  );
+};
@@ -0,0 +1,206 @@
+import { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+import { JsonRpcRequestPayload } from '../interfaces/jsonRpcRequest.js';
+import { JsonRpcResponse } from '../interfaces/jsonRpcResponse.js';
+import { abortable } from './abort.js';
+
+/**
+ * Configuration for coalescing concurrent JSON-RPC requests into batches.
+ *
+ * @interface
+ * @property {number} [wait=0] - Optional. Milliseconds to wait for more requests before sending a batch.
+ * @property {number} [maxSize=100] - Optional. Maximum number of requests per batch; larger queues are split.
+ */
+export interface BatchOptions {
+  wait?: number;
+  maxSize?: number;
+}
+
+/**
+ * Represents a request waiting in the batch queue.
+ *
+ * @interface
+ */
+interface PendingRequest {
+  config: InternalAxiosRequestConfig;
+  payload: JsonRpcRequestPayload;
+  resolve: (response: AxiosResponse) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Parses the body of a request or response, which axios hands to adapters as raw JSON text.
+ *
+ * @param {unknown} data - The raw body.
+ * @returns {unknown} The parsed body, or undefined when it is not JSON.
+ */
+export const parseBody = (data: unknown): unknown => {
+  if (typeof data !== 'string') {
+    return data;
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Checks whether a request body is a single JSON-RPC request.
+ *
+ * @param {unknown} body - The parsed request body.
+ * @returns {boolean} True for a single JSON-RPC request object.
+ */
+export const isJsonRpcRequest = (
+  body: unknown
+): body is JsonRpcRequestPayload =>
+  typeof body === 'object' &&
+  body !== null &&
+  !Array.isArray(body) &&
+  typeof (body as JsonRpcRequestPayload).method === 'string';
+
+/**
+ * Computes the key of the batches a request can join: requests are only batched with others sent to the same URL
+ * with the same headers and timeout.
+ *
+ * @param {InternalAxiosRequestConfig} config - The request config.
+ * @returns {string} The batch key.
+ */
+const toBatchKey = (config: InternalAxiosRequestConfig): string =>
+  JSON.stringify([config.baseURL, config.url, config.timeout, config.headers]);
+
+/**
+ * Creates an axios adapter that coalesces concurrent single JSON-RPC requests into one array batch per tick.
+ * Every request gets a unique id in the batch and receives its own response, so errors stay per item. Requests
+ * with different URLs, headers or timeouts go in separate batches, and the abort signal of each request only
+ * rejects that request.
+ *
+ * @param {AxiosAdapter} adapter - The adapter that sends the batched HTTP request.
+ * @param {BatchOptions} [options] - Optional. The batch wait time and size limit.
+ * @returns {AxiosAdapter} The batching adapter.
+ *
+ * @example
+ * const adapter = createBatchAdapter(axios.getAdapter(axios.defaults.adapter), { wait: 10 });
+ */
+export const createBatchAdapter = (
+  adapter: AxiosAdapter,
+  { wait = 0, maxSize = 100 }: BatchOptions = {}
+): AxiosAdapter => {
+  let queue: PendingRequest[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let nextId: number = 1;
+
+  const send = async (requests: PendingRequest[]): Promise<void> => {
+    const ids: number[] = requests.map((): number => nextId++);
+    const batch: JsonRpcRequestPayload[] = requests.map(
+      (request: PendingRequest, i: number): JsonRpcRequestPayload => ({
+        ...request.payload,
+        id: ids[i],
+      })
+    );
+
+    let response: AxiosResponse;
+    try {
+      response = await adapter({
+        ...requests[0].config,
+        signal: undefined,
+        data: JSON.stringify(batch),
+      });
+    } catch (e) {
+      requests.forEach((request: PendingRequest): void => request.reject(e));
+      return;
+    }
+
+    const body: unknown = parseBody(response.data);
+    const results: Map<number, JsonRpcResponse<unknown>> = new Map();
+
+    if (Array.isArray(body)) {
+      body.forEach((item: unknown): void => {
+        if (typeof item === 'object' && item !== null) {
+          results.set(
+            (item as JsonRpcResponse<unknown>).id,
+            item as JsonRpcResponse<unknown>
+          );
+        }
+      });
+    }
+
+    requests.forEach((request: PendingRequest, i: number): void => {
+      const item: JsonRpcResponse<unknown> | undefined = results.get(ids[i]);
+      const single: JsonRpcResponse<unknown> | undefined =
+        !Array.isArray(body) && typeof body === 'object' && body !== null
+          ? (body as JsonRpcResponse<unknown>)
+          : undefined;
+
+      if (!item && !single) {
+        request.reject(
+          new Error(
+            `[batch/send] error: No response returned for request ${request.payload.method}`
+          )
+        );
+        return;
+      }
+
+      request.resolve({
+        ...response,
+        config: request.config,
+        data: JSON.stringify({
+          ...(item ?? single),
+          id: request.payload.id,
+        }),
+      });
+    });
+  };
+
+  const flush = (): void => {
+    const requests: PendingRequest[] = queue;
+    queue = [];
+    timer = undefined;
+
+    const groups: Map<string, PendingRequest[]> = new Map();
+    requests.forEach((request: PendingRequest): void => {
+      const key: string = toBatchKey(request.config);
+      groups.set(key, [...(groups.get(key) ?? []), request]);
+    });
+
+    groups.forEach((group: PendingRequest[]): void => {
+      for (let i = 0; i < group.length; i += maxSize) {
+        const chunk: PendingRequest[] = group.slice(i, i + maxSize);
+        if (chunk.length === 1) {
+          adapter(chunk[0].config).then(chunk[0].resolve, chunk[0].reject);
+        } else {
+          send(chunk).catch((e: unknown): void =>
+            chunk.forEach((request: PendingRequest): void => request.reject(e))
+          );
+        }
+      }
+    });
+  };
+
+  return (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const body: unknown = parseBody(config.data);
+
+    if (!isJsonRpcRequest(body)) {
+      return adapter(config);
+    }
+
+    const queued: Promise<AxiosResponse> = new Promise(
+      (
+        resolve: (response: AxiosResponse) => void,
+        reject: (reason: unknown) => void
+      ): void => {
+        queue.push({ config, payload: body, resolve, reject });
+
+        if (queue.length >= maxSize) {
+          clearTimeout(timer);
+          flush();
+        } else if (!timer) {
+          timer = setTimeout(flush, wait);
+        }
+      }
+    );
+
+    return abortable(queued, config.signal);
+  };
+};
@@ -0,0 +1,345 @@
+import axios, {
+  AxiosAdapter,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+
+import { JsonRpcResponse } from '../interfaces/jsonRpcResponse.js';
+import { isJsonRpcRequest, parseBody } from './batch.js';
+
+/**
+ * JSON-RPC methods checked against a quorum by the 'quorum' strategy: reads of a deterministic result. Other methods,
+ * like `eth_blockNumber`, `eth_getLogs` or `eth_sendRawTransaction`, are sent to a single endpoint.
+ */
+export const QUORUM_METHODS: string[] = [
+  'eth_call',
+  'eth_chainId',
+  'eth_getBalance',
+  'eth_getCode',
+  'eth_getStorageAt',
+  'eth_getTransactionByHash',
+  'eth_getTransactionCount',
+  'eth_getTransactionReceipt',
+];
+
+/**
+ * Interface representing an RPC endpoint of a multi-endpoint client.
+ *
+ * @interface
+ * @property {string} url - The base URL of the RPC server.
+ * @property {string} [apiKey] - Optional. API key sent as a bearer token to this endpoint. Without it, no
+ * `Authorization` header is sent to the endpoint.
+ * @property {Record<string, string>} [headers] - Optional. Additional headers sent to this endpoint.
+ */
+export interface EndpointConfig {
+  url: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Type representing how requests are spread across endpoints.
+ *
+ * - 'priority': Use the first healthy endpoint, in the configured order.
+ * - 'round-robin': Rotate between the healthy endpoints.
+ * - 'latency': Use the healthy endpoint with the lowest average latency.
+ * - 'quorum': Send the requests of `quorumMethods` to all healthy endpoints, or to all endpoints when fewer than
+ *   `quorum` are healthy, and resolve once `quorum` of them return the same result, sending other requests like 'priority'.
+ */
+export type FailoverStrategy =
+  | 'priority'
+  | 'round-robin'
+  | 'latency'
+  | 'quorum';
+
+/**
+ * Configuration for spreading requests across several endpoints.
+ *
+ * @interface
+ * @property {FailoverStrategy} [strategy='priority'] - Optional. How requests are spread across endpoints.
+ * @property {number} [cooldown=30000] - Optional. Milliseconds an endpoint is skipped after it failed.
+ * @property {number} [quorum] - Optional. Number of agreeing endpoints required by the 'quorum' strategy, a majority by default.
+ * @property {string[]} [quorumMethods] - Optional. JSON-RPC methods checked against the quorum, defaults to {@link QUORUM_METHODS}.
+ * @property {number[]} [codes=[-32005, -32603, 429]] - Optional. JSON-RPC error codes that count as an endpoint failure.
+ */
+export interface FailoverOptions {
+  strategy?: FailoverStrategy;
+  cooldown?: number;
+  quorum?: number;
+  quorumMethods?: string[];
+  codes?: number[];
+}
+
+/**
+ * Represents the health of an endpoint.
+ *
+ * @interface
+ */
+interface EndpointHealth {
+  endpoint: EndpointConfig;
+  index: number;
+  failures: number;
+  cooldownUntil: number;
+  latency?: number;
+}
+
+/**
+ * Normalizes an endpoint given as a URL or as a config.
+ *
+ * @param {string | EndpointConfig} endpoint - The endpoint.
+ * @returns {EndpointConfig} The endpoint config.
+ */
+export const toEndpointConfig = (
+  endpoint: string | EndpointConfig
+): EndpointConfig =>
+  typeof endpoint === 'string' ? { url: endpoint } : endpoint;
+
+/**
+ * Creates an axios adapter that sends requests to one of several endpoints, skipping endpoints that recently
+ * failed and falling back to the next one when a request fails with a network error, an HTTP error or
+ * a rate limit JSON-RPC error. With the 'quorum' strategy, quorum reads skip the endpoints in cooldown unless fewer
+ * than `quorum` endpoints are healthy, and responses carrying a JSON-RPC error never count as agreement; when every
+ * endpoint fails or returns an error, the last error response is returned.
+ *
+ * @param {AxiosAdapter} adapter - The adapter that sends the request to a single endpoint.
+ * @param {(string | EndpointConfig)[]} endpoints - The endpoints, in order of priority.
+ * @param {FailoverOptions} [options] - Optional. The strategy, cooldown and quorum.
+ * @returns {AxiosAdapter} The failover adapter.
+ *
+ * @example
+ * const adapter = createFailoverAdapter(axios.getAdapter(axios.defaults.adapter), ['RPC_ENDPOINT', 'BACKUP_ENDPOINT']);
+ */
+export const createFailoverAdapter = (
+  adapter: AxiosAdapter,
+  endpoints: (string | EndpointConfig)[],
+  {
+    strategy = 'priority',
+    cooldown = 30000,
+    quorum = Math.floor(endpoints.length / 2) + 1,
+    quorumMethods = QUORUM_METHODS,
+    codes = [-32005, -32603, 429],
+  }: FailoverOptions = {}
+): AxiosAdapter => {
+  if (endpoints.length === 0) {
+    throw new Error('[failover/create] error: No endpoints provided');
+  }
+
+  if (strategy === 'quorum' && (quorum < 1 || quorum > endpoints.length)) {
+    throw new Error(
+      `[failover/create] error: Quorum must be between 1 and ${endpoints.length}`
+    );
+  }
+
+  const health: EndpointHealth[] = endpoints.map(
+    (endpoint: string | EndpointConfig, index: number): EndpointHealth => ({
+      endpoint: toEndpointConfig(endpoint),
+      index,
+      failures: 0,
+      cooldownUntil: 0,
+    })
+  );
+  let next: number = 0;
+
+  /**
+   * Orders the endpoints to try: healthy endpoints by strategy, then endpoints in cooldown by expiry.
+   */
+  const order = (): EndpointHealth[] => {
+    const now: number = Date.now();
+    const healthy: EndpointHealth[] = health.filter(
+      (item: EndpointHealth): boolean => item.cooldownUntil <= now
+    );
+    const cooling: EndpointHealth[] = health
+      .filter((item: EndpointHealth): boolean => item.cooldownUntil > now)
+      .sort(
+        (a: EndpointHealth, b: EndpointHealth): number =>
+          a.cooldownUntil - b.cooldownUntil
+      );
+
+    if (strategy === 'round-robin' && healthy.length > 0) {
+      const start: number = next++ % healthy.length;
+      return [...healthy.slice(start), ...healthy.slice(0, start), ...cooling];
+    }
+
+    if (strategy === 'latency') {
+      healthy.sort(
+        (a: EndpointHealth, b: EndpointHealth): number =>
+          (a.latency ?? 0) - (b.latency ?? 0) || a.index - b.index
+      );
+    }
+
+    return [...healthy, ...cooling];
+  };
+
+  const markFailure = (item: EndpointHealth): void => {
+    item.failures++;
+    item.cooldownUntil = Date.now() + cooldown;
+  };
+
+  const markSuccess = (item: EndpointHealth, latency: number): void => {
+    item.failures = 0;
+    item.cooldownUntil = 0;
+    item.latency =
+      item.latency === undefined ? latency : item.latency * 0.8 + latency * 0.2;
+  };
+
+  const hasFailureCode = (data: unknown): boolean => {
+    const body: unknown = parseBody(data);
+    return (Array.isArray(body) ? body : [body]).some(
+      (item: JsonRpcResponse<unknown> | undefined): boolean =>
+        !!item?.error && codes.includes(item.error.code)
+    );
+  };
+
+  /**
+   * Sends the request to a single endpoint and records its health.
+   */
+  const sendTo = async (
+    item: EndpointHealth,
+    config: InternalAxiosRequestConfig
+  ): Promise<AxiosResponse> => {
+    const headers: AxiosHeaders = new AxiosHeaders(config.headers);
+    Object.entries(item.endpoint.headers ?? {}).forEach(
+      ([key, value]: [string, string]): void => {
+        headers.set(key, value);
+      }
+    );
+    if (item.endpoint.apiKey) {
+      headers.set('Authorization', `Bearer ${item.endpoint.apiKey}`);
+    } else {
+      headers.delete('Authorization');
+    }
+
+    const start: number = Date.now();
+    try {
+      const response: AxiosResponse = await adapter({
+        ...config,
+        baseURL: item.endpoint.url,
+        headers,
+      });
+
+      if (hasFailureCode(response.data)) {
+        markFailure(item);
+      } else {
+        markSuccess(item, Date.now() - start);
+      }
+      return response;
+    } catch (e) {
+      if (!axios.isCancel(e)) {
+        markFailure(item);
+      }
+      throw e;
+    }
+  };
+
+  const failover = async (
+    config: InternalAxiosRequestConfig
+  ): Promise<AxiosResponse> => {
+    const candidates: EndpointHealth[] = order();
+    let lastResponse: AxiosResponse | undefined;
+    let lastError: unknown;
+
+    for (const item of candidates) {
+      try {
+        const response: AxiosResponse = await sendTo(item, config);
+        if (!hasFailureCode(response.data)) {
+          return response;
+        }
+        lastResponse = response;
+      } catch (e) {
+        if (axios.isCancel(e)) {
+          throw e;
+        }
+        lastError = e;
+      }
+    }
+
+    if (lastResponse) {
+      return lastResponse;
+    }
+    throw lastError;
+  };
+
+  const agree = (config: InternalAxiosRequestConfig): Promise<AxiosResponse> =>
+    new Promise(
+      (
+        resolve: (response: AxiosResponse) => void,
+        reject: (reason: unknown) => void
+      ): void => {
+        const now: number = Date.now();
+        const healthy: EndpointHealth[] = health.filter(
+          (item: EndpointHealth): boolean => item.cooldownUntil <= now
+        );
+        const candidates: EndpointHealth[] =
+          healthy.length >= quorum ? healthy : order();
+        const votes: Map<string, number> = new Map();
+        let pending: number = candidates.length;
+        let lastError: unknown;
+        let errorResponse: AxiosResponse | undefined;
+
+        const settle = (): void => {
+          pending--;
+          const best: number = Math.max(0, ...votes.values());
+          if (best + pending >= quorum) {
+            return;
+          }
+          if (best === 0 && errorResponse) {
+            if (pending === 0) {
+              resolve(errorResponse);
+            }
+          } else {
+            reject(
+              lastError && best === 0
+                ? lastError
+                : new Error(
+                    `[failover/quorum] error: Fewer than ${quorum} endpoints returned the same result`
+                  )
+            );
+          }
+        };
+
+        candidates.forEach((item: EndpointHealth): void => {
+          sendTo(item, config).then(
+            (response: AxiosResponse): void => {
+              const body: unknown = parseBody(response.data);
+              if (
+                (Array.isArray(body) ? body : [body]).some(
+                  (entry: JsonRpcResponse<unknown> | undefined): boolean =>
+                    !entry || !!entry.error
+                )
+              ) {
+                errorResponse = response;
+                settle();
+                return;
+              }
+
+              const key: string = JSON.stringify(body);
+              const count: number = (votes.get(key) ?? 0) + 1;
+              votes.set(key, count);
+              if (count >= quorum) {
+                resolve(response);
+              }
+              settle();
+            },
+            (e: unknown): void => {
+              lastError = e;
+              settle();
+            }
+          );
+        });
+      }
+    );
+
+  const needsQuorum = (config: InternalAxiosRequestConfig): boolean => {
+    const body: unknown = parseBody(config.data);
+    return (Array.isArray(body) ? body : [body]).every(
+      (request: unknown): boolean =>
+        isJsonRpcRequest(request) && quorumMethods.includes(request.method)
+    );
+  };
+
+  return (config: InternalAxiosRequestConfig): Promise<AxiosResponse> =>
+    strategy === 'quorum' && needsQuorum(config)
+      ? agree(config)
+      : failover(config);
+};
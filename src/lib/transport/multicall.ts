@@ -0,0 +1,304 @@
+import { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+import { EthMethod, Multicall3 } from '../interfaces/ethMethods.js';
+import { JsonRpcRequestPayload } from '../interfaces/jsonRpcRequest.js';
+import { JsonRpcResponse } from '../interfaces/jsonRpcResponse.js';
+import { abi } from '../../utils/abi.js';
+import { abortable } from './abort.js';
+import { BatchOptions, parseBody } from './batch.js';
+
+/**
+ * Address of the Multicall3 contract, deployed at the same address on most EVM chains.
+ */
+export const MULTICALL3_ADDRESS: string =
+  '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/**
+ * Interface representing a single call of a Multicall3 `aggregate3`.
+ *
+ * @interface
+ * @property {string} target - The contract to call.
+ * @property {boolean} allowFailure - Whether the aggregate may succeed when this call reverts.
+ * @property {string} callData - The `0x` prefixed calldata.
+ */
+export interface Call3 {
+  target: string;
+  allowFailure: boolean;
+  callData: string;
+}
+
+/**
+ * Interface representing the outcome of a single call of a Multicall3 `aggregate3`.
+ *
+ * @interface
+ * @property {boolean} success - Whether the call succeeded.
+ * @property {string} returnData - The `0x` prefixed return data, or the revert data of a failed call.
+ */
+export interface Call3Result {
+  success: boolean;
+  returnData: string;
+}
+
+/**
+ * Represents an `eth_call` waiting in the multicall queue.
+ *
+ * @interface
+ */
+interface PendingCall {
+  config: InternalAxiosRequestConfig;
+  payload: JsonRpcRequestPayload;
+  call: { to: string; data: string };
+  resolve: (response: AxiosResponse) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Encodes the calldata of a Multicall3 `aggregate3` call.
+ *
+ * @param {Call3[]} calls - The calls to aggregate.
+ * @returns {string} The `0x` prefixed calldata.
+ *
+ * @example
+ * const data = encodeAggregate3([{ target: '0xCONTRACT_ADDRESS', allowFailure: true, callData: '0x06fdde03' }]);
+ */
+export const encodeAggregate3 = (calls: Call3[]): string =>
+  abi.encodeFunctionData(
+    Multicall3.Aggregate3,
+    ['(address,bool,bytes)[]'],
+    [
+      calls.map((call: Call3): [string, boolean, string] => [
+        call.target,
+        call.allowFailure,
+        call.callData,
+      ]),
+    ]
+  );
+
+/**
+ * Decodes the result of a Multicall3 `aggregate3` call.
+ *
+ * @param {string} data - The `0x` prefixed result of the call.
+ * @returns {Call3Result[]} The outcome of every call, in the order of the calls.
+ *
+ * @example
+ * const data = decodeAggregate3('0xRETURNED_VALUE');
+ */
+export const decodeAggregate3 = (data: string): Call3Result[] =>
+  (
+    abi.decodeParameters(['(bool,bytes)[]'], data)[0] as [boolean, string][]
+  ).map(
+    ([success, returnData]: [boolean, string]): Call3Result => ({
+      success,
+      returnData,
+    })
+  );
+
+/**
+ * Checks whether a request is a plain `eth_call` (only `to` and `data`) that can be aggregated.
+ *
+ * @param {unknown} body - The parsed request body.
+ * @param {string} address - The Multicall3 address, whose own calls are never aggregated.
+ * @returns {boolean} True when the request can be aggregated.
+ */
+const isAggregatable = (
+  body: unknown,
+  address: string
+): body is JsonRpcRequestPayload => {
+  if (
+    typeof body !== 'object' ||
+    body === null ||
+    Array.isArray(body) ||
+    (body as JsonRpcRequestPayload).method !== EthMethod.Call
+  ) {
+    return false;
+  }
+
+  const [call] = (body as JsonRpcRequestPayload).params as [
+    { [key: string]: unknown }
+  ];
+
+  return (
+    typeof call === 'object' &&
+    call !== null &&
+    typeof call.to === 'string' &&
+    typeof call.data === 'string' &&
+    call.to.toLowerCase() !== address.toLowerCase() &&
+    Object.keys(call).every((key: string): boolean =>
+      ['to', 'data'].includes(key)
+    )
+  );
+};
+
+/**
+ * Creates an axios adapter that aggregates concurrent `eth_call` requests at the same block into a single
+ * Multicall3 `aggregate3` call. Every call is allowed to fail, and a reverted call receives its own
+ * 'execution reverted' error carrying the revert data, like a regular `eth_call` would. When Multicall3 has no code
+ * at the block, e.g. a block before its deployment, the calls are sent individually.
+ *
+ * @param {AxiosAdapter} adapter - The adapter that sends the aggregated request.
+ * @param {string} [address] - Optional. The Multicall3 address, defaults to {@link MULTICALL3_ADDRESS}.
+ * @param {BatchOptions} [options] - Optional. The wait time and the maximum number of calls per aggregate.
+ * @returns {AxiosAdapter} The multicall adapter.
+ *
+ * @example
+ * const adapter = createMulticallAdapter(axios.getAdapter(axios.defaults.adapter));
+ */
+export const createMulticallAdapter = (
+  adapter: AxiosAdapter,
+  address: string = MULTICALL3_ADDRESS,
+  { wait = 0, maxSize = 100 }: BatchOptions = {}
+): AxiosAdapter => {
+  let queue: PendingCall[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const respond = (
+    pending: PendingCall,
+    response: AxiosResponse,
+    item: Omit<JsonRpcResponse<string>, 'id'>
+  ): void =>
+    pending.resolve({
+      ...response,
+      config: pending.config,
+      data: JSON.stringify({ ...item, id: pending.payload.id }),
+    });
+
+  const send = async (calls: PendingCall[]): Promise<void> => {
+    const payload: JsonRpcRequestPayload = {
+      ...calls[0].payload,
+      params: [
+        {
+          to: address,
+          data: encodeAggregate3(
+            calls.map(
+              (pending: PendingCall): Call3 => ({
+                target: pending.call.to,
+                allowFailure: true,
+                callData: pending.call.data,
+              })
+            )
+          ),
+        },
+        ...calls[0].payload.params.slice(1),
+      ],
+    };
+
+    let response: AxiosResponse;
+    try {
+      response = await adapter({
+        ...calls[0].config,
+        signal: undefined,
+        data: JSON.stringify(payload),
+      });
+    } catch (e) {
+      calls.forEach((pending: PendingCall): void => pending.reject(e));
+      return;
+    }
+
+    const body: JsonRpcResponse<string> | undefined = parseBody(
+      response.data
+    ) as JsonRpcResponse<string> | undefined;
+
+    if (body && !body.error && body.result === '0x') {
+      calls.forEach((pending: PendingCall): void => {
+        adapter(pending.config).then(pending.resolve, pending.reject);
+      });
+      return;
+    }
+
+    let results: Call3Result[];
+    try {
+      if (!body || body.error || !body.result) {
+        throw new Error(
+          body?.error?.message ?? 'No result returned from aggregate3'
+        );
+      }
+      results = decodeAggregate3(body.result);
+      if (results.length !== calls.length) {
+        throw new Error('Unexpected number of results from aggregate3');
+      }
+    } catch (e) {
+      calls.forEach((pending: PendingCall): void =>
+        respond(pending, response, {
+          jsonrpc: '2.0',
+          error: body?.error ?? {
+            code: -32603,
+            message: `[multicall/send] error: ${(e as Error).message}`,
+          },
+        })
+      );
+      return;
+    }
+
+    calls.forEach((pending: PendingCall, i: number): void =>
+      respond(
+        pending,
+        response,
+        results[i].success
+          ? { jsonrpc: '2.0', result: results[i].returnData }
+          : {
+              jsonrpc: '2.0',
+              error: {
+                code: 3,
+                message: 'execution reverted',
+                data: results[i].returnData,
+              },
+            }
+      )
+    );
+  };
+
+  const flush = (): void => {
+    const groups: Map<string, PendingCall[]> = new Map();
+    queue.forEach((pending: PendingCall): void => {
+      const block: string = JSON.stringify(pending.payload.params[1]);
+      groups.set(block, [...(groups.get(block) ?? []), pending]);
+    });
+    queue = [];
+    timer = undefined;
+
+    groups.forEach((calls: PendingCall[]): void => {
+      for (let i = 0; i < calls.length; i += maxSize) {
+        const chunk: PendingCall[] = calls.slice(i, i + maxSize);
+        if (chunk.length === 1) {
+          adapter(chunk[0].config).then(chunk[0].resolve, chunk[0].reject);
+        } else {
+          send(chunk).catch((e: unknown): void =>
+            chunk.forEach((pending: PendingCall): void => pending.reject(e))
+          );
+        }
+      }
+    });
+  };
+
+  return (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const body: unknown = parseBody(config.data);
+
+    if (!isAggregatable(body, address)) {
+      return adapter(config);
+    }
+
+    const queued: Promise<AxiosResponse> = new Promise(
+      (
+        resolve: (response: AxiosResponse) => void,
+        reject: (reason: unknown) => void
+      ): void => {
+        queue.push({
+          config,
+          payload: body,
+          call: body.params[0] as { to: string; data: string },
+          resolve,
+          reject,
+        });
+
+        if (queue.length >= maxSize) {
+          clearTimeout(timer);
+          flush();
+        } else if (!timer) {
+          timer = setTimeout(flush, wait);
+        }
+      }
+    );
+
+    return abortable(queued, config.signal);
+  };
+};
@@ -0,0 +1,176 @@
+import axios, {
+  AxiosAdapter,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+
+import { JsonRpcResponse } from '../interfaces/jsonRpcResponse.js';
+import { sleep } from './abort.js';
+import { isJsonRpcRequest, parseBody } from './batch.js';
+
+/**
+ * JSON-RPC methods that only read state and are safe to send again.
+ */
+export const READ_METHODS: string[] = [
+  'eth_blockNumber',
+  'eth_call',
+  'eth_chainId',
+  'eth_estimateGas',
+  'eth_feeHistory',
+  'eth_gasPrice',
+  'eth_getBalance',
+  'eth_getBlockByHash',
+  'eth_getBlockByNumber',
+  'eth_getCode',
+  'eth_getLogs',
+  'eth_getStorageAt',
+  'eth_getTransactionByHash',
+  'eth_getTransactionCount',
+  'eth_getTransactionReceipt',
+  'eth_maxPriorityFeePerGas',
+  'net_version',
+];
+
+/**
+ * Configuration of the retry policy for failed requests.
+ *
+ * @interface
+ * @property {number} [attempts=3] - Optional. Maximum number of attempts, including the first one.
+ * @property {number} [baseDelay=250] - Optional. Milliseconds to wait before the first retry, doubled on every retry.
+ * @property {number} [maxDelay=10000] - Optional. Upper bound of the wait between attempts, including `Retry-After`.
+ * @property {string[]} [methods] - Optional. JSON-RPC methods that may be retried, defaults to {@link READ_METHODS}.
+ * @property {number[]} [codes=[-32005, 429]] - Optional. JSON-RPC error codes that trigger a retry.
+ * @property {number[]} [statuses=[408, 429, 500, 502, 503, 504]] - Optional. HTTP statuses that trigger a retry.
+ */
+export interface RetryOptions {
+  attempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  methods?: string[];
+  codes?: number[];
+  statuses?: number[];
+}
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date.
+ *
+ * @param {unknown} value - The header value.
+ * @returns {number | undefined} The milliseconds to wait, or undefined when the header is missing or invalid.
+ *
+ * @example
+ * const data = parseRetryAfter('2'); // 2000
+ */
+export const parseRetryAfter = (value: unknown): number | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return;
+  }
+
+  const seconds: number = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date: number = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Computes the exponential backoff before a retry, with jitter between half and the full delay.
+ *
+ * @param {number} attempt - The number of attempts made so far, starting at 1.
+ * @param {number} baseDelay - Milliseconds to wait before the first retry.
+ * @param {number} maxDelay - Upper bound of the delay.
+ * @returns {number} The milliseconds to wait.
+ *
+ * @example
+ * const data = backoff(2, 250, 10000); // between 250 and 500
+ */
+export const backoff = (
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number
+): number => {
+  const delay: number = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return delay / 2 + (Math.random() * delay) / 2;
+};
+
+/**
+ * Creates an axios adapter that retries read requests failing with a network error, a retryable
+ * HTTP status or a retryable JSON-RPC error code. Batches are retried only when every call is a read.
+ *
+ * @param {AxiosAdapter} adapter - The adapter that sends each attempt.
+ * @param {RetryOptions} [options] - Optional. The retry policy.
+ * @returns {AxiosAdapter} The retrying adapter.
+ *
+ * @example
+ * const adapter = createRetryAdapter(axios.getAdapter(axios.defaults.adapter), { attempts: 5 });
+ */
+export const createRetryAdapter = (
+  adapter: AxiosAdapter,
+  {
+    attempts = 3,
+    baseDelay = 250,
+    maxDelay = 10000,
+    methods = READ_METHODS,
+    codes = [-32005, 429],
+    statuses = [408, 429, 500, 502, 503, 504],
+  }: RetryOptions = {}
+): AxiosAdapter => {
+  const isRetryableError = (e: unknown): boolean => {
+    if (axios.isCancel(e) || !axios.isAxiosError(e)) {
+      return false;
+    }
+    return !e.response || statuses.includes(e.response.status);
+  };
+
+  const hasRetryableCode = (data: unknown): boolean => {
+    const body: unknown = parseBody(data);
+    return (Array.isArray(body) ? body : [body]).some(
+      (item: JsonRpcResponse<unknown> | undefined): boolean =>
+        !!item?.error && codes.includes(item.error.code)
+    );
+  };
+
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const body: unknown = parseBody(config.data);
+    const requests: unknown[] = Array.isArray(body) ? body : [body];
+    const retryable: boolean = requests.every(
+      (request: unknown): boolean =>
+        isJsonRpcRequest(request) && methods.includes(request.method)
+    );
+
+    if (!retryable) {
+      return adapter(config);
+    }
+
+    const send = async (attempt: number): Promise<AxiosResponse> => {
+      let retryAfter: number | undefined;
+
+      try {
+        const response: AxiosResponse = await adapter(config);
+        if (attempt >= attempts || !hasRetryableCode(response.data)) {
+          return response;
+        }
+        retryAfter = parseRetryAfter(response.headers?.['retry-after']);
+      } catch (e) {
+        if (attempt >= attempts || !isRetryableError(e)) {
+          throw e;
+        }
+        retryAfter = axios.isAxiosError(e)
+          ? parseRetryAfter(e.response?.headers?.['retry-after'])
+          : undefined;
+      }
+
+      await sleep(
+        retryAfter !== undefined
+          ? Math.min(retryAfter, maxDelay)
+          : backoff(attempt, baseDelay, maxDelay),
+        config.signal
+      );
+
+      return send(attempt + 1);
+    };
+
+    return send(1);
+  };
+};
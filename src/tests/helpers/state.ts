@@ -0,0 +1,43 @@
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+import { State, createState } from '../../lib/client/ethereumClient.js';
+import { JsonRpcRequestPayload } from '../../lib/interfaces/jsonRpcRequest.js';
+import { createPrivateKeySigner } from '../../lib/signer/privateKey.js';
+
+/**
+ * Creates a client state whose transport answers every request with the given handler, recording the payloads.
+ * The state signs with the private key 0x4646…46, of the address 0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F.
+ *
+ * @param {Function} handler - Returns the `result` or `error` of the JSON-RPC response to a request.
+ * @param {JsonRpcRequestPayload[]} [requests] - Optional. Receives the payload of every request.
+ * @returns {State} The client state.
+ */
+export const stateAnswering = (
+  handler: (payload: JsonRpcRequestPayload) => {
+    result?: unknown;
+    error?: object;
+  },
+  requests: JsonRpcRequestPayload[] = []
+): State =>
+  createState(
+    axios.create({
+      adapter: async (
+        config: InternalAxiosRequestConfig
+      ): Promise<AxiosResponse> => {
+        const payload: JsonRpcRequestPayload = JSON.parse(config.data);
+        requests.push(payload);
+        return {
+          data: JSON.stringify({
+            jsonrpc: '2.0',
+            id: payload.id,
+            ...handler(payload),
+          }),
+          status: 200,
+          statusText: 'OK',
+          headers: {},
+          config,
+        };
+      },
+    }),
+    { signer: createPrivateKeySigner(`0x${'46'.repeat(32)}`) }
+  );
@@ -0,0 +1,244 @@
+import { describe, expect, test } from '@jest/globals';
+
+import { chain } from '../../integrations/chain.js';
+import { State } from '../../lib/client/ethereumClient.js';
+import { JsonRpcRequestPayload } from '../../lib/interfaces/jsonRpcRequest.js';
+import { stateAnswering } from '../helpers/state.js';
+
+const BLOCK_HASH: string = `0x${'ab'.repeat(32)}`;
+const ACCOUNT: string = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+
+const block = {
+  number: '0x121eac0',
+  hash: BLOCK_HASH,
+  parentHash: `0x${'cd'.repeat(32)}`,
+  timestamp: '0x65a8f0ef',
+  miner: ACCOUNT,
+  gasLimit: '0x1c9c380',
+  gasUsed: '0x5208',
+  baseFeePerGas: '0x3b9aca00',
+  difficulty: '0x0',
+  extraData: '0x',
+  nonce: '0x0000000000000000',
+  size: '0x220',
+  stateRoot: '0x01',
+  transactionsRoot: '0x02',
+  receiptsRoot: '0x03',
+  logsBloom: '0x00',
+  transactions: ['0x04'],
+};
+
+describe('chain blocks', () => {
+  test('fetches blocks by number, tag or hash', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(() => ({ result: block }), requests);
+
+    await expect(chain.getBlock(19000000, state)).resolves.toMatchObject({
+      number: 19000000,
+      timestamp: 1705570543,
+      baseFeePerGas: BigInt(1000000000),
+      transactions: ['0x04'],
+    });
+    await chain.getBlock(undefined, state, { includeTransactions: true });
+    await chain.getBlock(BLOCK_HASH, state);
+
+    expect(
+      requests.map(({ method, params }: JsonRpcRequestPayload) => ({
+        method,
+        params,
+      }))
+    ).toEqual([
+      { method: 'eth_getBlockByNumber', params: ['0x121eac0', false] },
+      { method: 'eth_getBlockByNumber', params: ['latest', true] },
+      { method: 'eth_getBlockByHash', params: [BLOCK_HASH, false] },
+    ]);
+  });
+
+  test('returns null for missing blocks, transactions and receipts', async () => {
+    const state: State = stateAnswering(() => ({ result: null }));
+
+    await expect(chain.getBlock(BLOCK_HASH, state)).resolves.toBeNull();
+    await expect(chain.getTransaction(BLOCK_HASH, state)).resolves.toBeNull();
+    await expect(
+      chain.getTransactionReceipt(BLOCK_HASH, state)
+    ).resolves.toBeNull();
+  });
+});
+
+describe('chain accounts and fees', () => {
+  test('decodes quantities', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(
+      ({ method }: JsonRpcRequestPayload) => ({
+        result: {
+          eth_blockNumber: '0x121eac0',
+          eth_chainId: '0x1',
+          eth_getTransactionCount: '0x2a',
+          eth_gasPrice: '0x3b9aca00',
+          eth_maxPriorityFeePerGas: '0x5f5e100',
+          eth_getStorageAt: `0x${'00'.repeat(31)}01`,
+        }[method],
+      }),
+      requests
+    );
+
+    await expect(chain.getBlockNumber(state)).resolves.toBe(19000000);
+    await expect(chain.getChainId(state)).resolves.toBe(1);
+    await expect(
+      chain.getTransactionCount(ACCOUNT, state, { block: 'pending' })
+    ).resolves.toBe(42);
+    await expect(chain.getGasPrice(state)).resolves.toBe(BigInt(1000000000));
+    await expect(chain.getMaxPriorityFeePerGas(state)).resolves.toBe(
+      BigInt(100000000)
+    );
+    await expect(chain.getStorageAt(ACCOUNT, 8, state)).resolves.toBe(
+      `0x${'00'.repeat(31)}01`
+    );
+
+    expect(requests[2].params).toEqual([ACCOUNT, 'pending']);
+    expect(requests[5].params).toEqual([ACCOUNT, '0x8', 'latest']);
+  });
+
+  test('fetches the fee history', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(
+      () => ({
+        result: {
+          oldestBlock: '0x121eabf',
+          baseFeePerGas: ['0x1', '0x2', '0x3'],
+          gasUsedRatio: [0.5, 0.25],
+          reward: [['0xa'], ['0xb']],
+        },
+      }),
+      requests
+    );
+
+    await expect(
+      chain.getFeeHistory(2, state, { rewardPercentiles: [50] })
+    ).resolves.toEqual({
+      oldestBlock: 18999999,
+      baseFeePerGas: [BigInt(1), BigInt(2), BigInt(3)],
+      gasUsedRatio: [0.5, 0.25],
+      reward: [[BigInt(10)], [BigInt(11)]],
+      baseFeePerBlobGas: undefined,
+      blobGasUsedRatio: undefined,
+    });
+    expect(requests[0].params).toEqual(['0x2', 'latest', [50]]);
+  });
+
+  test('rejects invalid addresses', async () => {
+    await expect(
+      chain.getCode(
+        '0x1234',
+        stateAnswering(() => ({ result: '0x' }))
+      )
+    ).rejects.toThrow('[chain/getCode] error: Invalid address 0x1234');
+  });
+});
+
+describe('chain.getBlockByTimestamp', () => {
+  const LATEST: number = 1000000;
+
+  /**
+   * Simulates a chain with 12 second blocks up to block 600000, then two blocks per second.
+   */
+  const timestampOf = (blockNumber: number): number =>
+    blockNumber <= 600000
+      ? 1600000000 + blockNumber * 12
+      : 1600000000 + 600000 * 12 + Math.floor((blockNumber - 600000) / 2);
+
+  const chainState = (requests: JsonRpcRequestPayload[] = []): State =>
+    stateAnswering(({ params }: JsonRpcRequestPayload) => {
+      const blockNumber: number =
+        params[0] === 'latest' ? LATEST : Number(params[0]);
+      return {
+        result: {
+          ...block,
+          number: `0x${blockNumber.toString(16)}`,
+          timestamp: `0x${timestampOf(blockNumber).toString(16)}`,
+        },
+      };
+    }, requests);
+
+  test('finds the closest block in either direction', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = chainState(requests);
+
+    await expect(
+      chain.getBlockByTimestamp(timestampOf(123456) + 5, state)
+    ).resolves.toEqual({ block: 123456, timestamp: timestampOf(123456) });
+    expect(requests.length).toBeLessThan(30);
+
+    await expect(
+      chain.getBlockByTimestamp(timestampOf(123456) + 5, state, {
+        direction: 'after',
+      })
+    ).resolves.toEqual({ block: 123457, timestamp: timestampOf(123457) });
+    await expect(
+      chain.getBlockByTimestamp(new Date(timestampOf(300000) * 1000), state, {
+        direction: 'after',
+      })
+    ).resolves.toEqual({ block: 300000, timestamp: timestampOf(300000) });
+  });
+
+  test('resolves blocks sharing a timestamp by direction', async () => {
+    const state: State = chainState();
+    const target: number = timestampOf(700000);
+
+    await expect(
+      chain.getBlockByTimestamp(target, state, { direction: 'before' })
+    ).resolves.toEqual({ block: 700001, timestamp: target });
+    await expect(
+      chain.getBlockByTimestamp(target, state, { direction: 'after' })
+    ).resolves.toEqual({ block: 700000, timestamp: target });
+  });
+
+  test('reuses cached blocks', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = chainState(requests);
+
+    await chain.getBlockByTimestamp(timestampOf(500000), state);
+    const first: number = requests.length;
+    await chain.getBlockByTimestamp(timestampOf(500000), state);
+
+    expect(requests.length).toBe(first);
+  });
+
+  test('bounds the cached blocks', async () => {
+    const state: State = chainState();
+
+    for (let i = 0; i < 1100; i++) {
+      await chain.getBlockTimestamp(i, state);
+    }
+
+    expect(state.cachedBlocks.size).toBe(1024);
+    expect(state.cachedBlocks.has(0)).toBe(false);
+    expect(state.cachedBlocks.get(1099)).toEqual({
+      block: 1099,
+      timestamp: timestampOf(1099),
+    });
+  });
+
+  test('handles timestamps outside the chain', async () => {
+    const state: State = chainState();
+
+    await expect(
+      chain.getBlockByTimestamp(timestampOf(LATEST) + 60, state)
+    ).resolves.toEqual({ block: LATEST, timestamp: timestampOf(LATEST) });
+    await expect(
+      chain.getBlockByTimestamp(timestampOf(LATEST) + 60, state, {
+        direction: 'after',
+      })
+    ).rejects.toThrow(
+      `[chain/getBlockByTimestamp] error: No block after ${
+        timestampOf(LATEST) + 60
+      } yet`
+    );
+    await expect(
+      chain.getBlockByTimestamp(1500000000, state, { direction: 'after' })
+    ).resolves.toEqual({ block: 1, timestamp: timestampOf(1) });
+    await expect(chain.getBlockByTimestamp(1500000000, state)).rejects.toThrow(
+      '[chain/getBlockByTimestamp] error: No block before 1500000000'
+    );
+  });
+});
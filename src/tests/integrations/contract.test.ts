@@ -0,0 +1,261 @@
+import { AxiosInstance } from 'axios';
+import { describe, expect, jest, test } from '@jest/globals';
+
+import { contract } from '../../integrations/contract.js';
+import { createState } from '../../lib/client/ethereumClient.js';
+import { ContractRevertError } from '../../lib/errors/errors.js';
+import { abi } from '../../utils/abi.js';
+import { selector } from '../../utils/keccak.js';
+
+const CONTRACT: string = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+
+const pairAbi = [
+  {
+    type: 'function',
+    name: 'getReserves',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'reserve0', type: 'uint112' },
+      { name: 'reserve1', type: 'uint112' },
+      { name: 'blockTimestampLast', type: 'uint32' },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'balanceOf',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'transfer',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'value', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+] as const;
+
+const mockInstance = (result: string) => {
+  const post = jest.fn(async (_url: string, _data: unknown) => ({
+    data: { jsonrpc: '2.0', id: 1, result },
+  }));
+  return { post, instance: { post } as unknown as AxiosInstance };
+};
+
+describe('contract.create', () => {
+  test('encodes arguments and decodes a single output', async () => {
+    const { post, instance } = mockInstance(
+      abi.encodeParameters(['uint256'], [BigInt(42)])
+    );
+    const pair = contract.create(CONTRACT, pairAbi, createState(instance));
+
+    await expect(
+      pair.balanceOf('0x18cf36d6925026f00a57754757ecd480b92cbefc')
+    ).resolves.toBe(BigInt(42));
+    expect(post.mock.calls[0][1]).toMatchObject({
+      method: 'eth_call',
+      params: [
+        {
+          to: CONTRACT,
+          data: '0x70a0823100000000000000000000000018cf36d6925026f00a57754757ecd480b92cbefc',
+        },
+        'latest',
+      ],
+    });
+  });
+
+  test('reads at the block given as an extra argument', async () => {
+    const { post, instance } = mockInstance(
+      abi.encodeParameters(['uint256'], [BigInt(1)])
+    );
+    const pair = contract.create(CONTRACT, pairAbi, createState(instance));
+
+    await pair.balanceOf('0x18cf36d6925026f00a57754757ecd480b92cbefc', {
+      block: 19000000,
+    });
+    expect(post.mock.calls[0][1]).toMatchObject({
+      params: [{ to: CONTRACT }, '0x121eac0'],
+    });
+  });
+
+  test('decodes multiple outputs as a list', async () => {
+    const { instance } = mockInstance(
+      abi.encodeParameters(
+        ['uint112', 'uint112', 'uint32'],
+        [BigInt(1), BigInt(2), 3]
+      )
+    );
+    const pair = contract.create(CONTRACT, pairAbi, createState(instance));
+
+    await expect(pair.getReserves()).resolves.toEqual([
+      BigInt(1),
+      BigInt(2),
+      BigInt(3),
+    ]);
+  });
+
+  test('only exposes view and pure functions', () => {
+    const { instance } = mockInstance('0x');
+    const pair = contract.create(CONTRACT, pairAbi, createState(instance));
+
+    expect(Object.keys(pair).sort()).toEqual([
+      'abi',
+      'address',
+      'balanceOf',
+      'getReserves',
+    ]);
+  });
+
+  test('rejects ABI functions named like the instance properties', () => {
+    const { instance } = mockInstance('0x');
+    const collidingAbi = [
+      {
+        type: 'function',
+        name: 'address',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [{ name: '', type: 'address' }],
+      },
+    ] as const;
+
+    expect(() =>
+      contract.create(CONTRACT, collidingAbi, createState(instance))
+    ).toThrow(
+      '[contract/create] error: The ABI function address collides with the address property of the contract instance'
+    );
+  });
+
+  test('validates the contract address', () => {
+    const { instance } = mockInstance('0x');
+
+    expect(() =>
+      contract.create('0xCONTRACT_ADDRESS', pairAbi, createState(instance))
+    ).toThrow('[contract/create] error: Invalid address 0xCONTRACT_ADDRESS');
+    expect(
+      contract.create(CONTRACT.toLowerCase(), pairAbi, createState(instance))
+        .address
+    ).toBe(CONTRACT);
+  });
+
+  test('only takes a trailing object of read options keys as options', async () => {
+    const { post, instance } = mockInstance(
+      abi.encodeParameters(['uint256'], [BigInt(1)])
+    );
+    const pair = contract.create(CONTRACT, pairAbi, createState(instance));
+    const account: string = '0x18cf36d6925026f00a57754757ecd480b92cbefc';
+
+    await expect(
+      pair.balanceOf(account, { amount: BigInt(1) } as never)
+    ).rejects.toThrow(
+      '[contract/balanceOf] error: No overload accepts 2 arguments'
+    );
+    await pair.balanceOf(account, { block: 'finalized', timeout: 1000 });
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[0][1]).toMatchObject({
+      params: [{ to: CONTRACT }, 'finalized'],
+    });
+  });
+});
+
+describe('contract.call', () => {
+  test('encodes the call and decodes the result with the ABI', async () => {
+    const { post, instance } = mockInstance(
+      abi.encodeParameters(['bool'], [true])
+    );
+
+    await expect(
+      contract.call(
+        {
+          to: '0xCONTRACT_ADDRESS',
+          abi: pairAbi,
+          functionName: 'transfer',
+          args: ['0x18cf36d6925026f00a57754757ecd480b92cbefc', BigInt(5)],
+          from: '0xACCOUNT_ADDRESS',
+          value: BigInt(0),
+        },
+        createState(instance),
+        { block: 19000000 }
+      )
+    ).resolves.toBe(true);
+    expect(post.mock.calls[0][1]).toMatchObject({
+      method: 'eth_call',
+      params: [
+        {
+          to: '0xCONTRACT_ADDRESS',
+          data: `${selector('transfer(address,uint256)')}${abi
+            .encodeParameters(
+              ['address', 'uint256'],
+              ['0x18cf36d6925026f00a57754757ecd480b92cbefc', BigInt(5)]
+            )
+            .slice(2)}`,
+          from: '0xACCOUNT_ADDRESS',
+          value: '0x0',
+        },
+        '0x121eac0',
+      ],
+    });
+  });
+
+  test('returns the raw result of raw calldata', async () => {
+    const { post, instance } = mockInstance('0x1234');
+
+    await expect(
+      contract.call(
+        { to: '0xCONTRACT_ADDRESS', data: '0xabcdef01' },
+        createState(instance)
+      )
+    ).resolves.toBe('0x1234');
+    expect(post.mock.calls[0][1]).toMatchObject({
+      params: [{ to: '0xCONTRACT_ADDRESS', data: '0xabcdef01' }, 'latest'],
+    });
+  });
+
+  test('rejects functions missing from the ABI', async () => {
+    const { instance } = mockInstance('0x');
+
+    await expect(
+      contract.call(
+        { to: '0xCONTRACT_ADDRESS', abi: pairAbi, functionName: 'approve' },
+        createState(instance)
+      )
+    ).rejects.toThrow(
+      '[contract/call] error: Function approve with 0 arguments not found in ABI'
+    );
+  });
+
+  test('decodes custom errors declared in the client error ABI', async () => {
+    const errorAbi = [
+      { type: 'error', name: 'Unauthorized', inputs: [] },
+    ] as const;
+    const post = jest.fn(async () => ({
+      data: {
+        jsonrpc: '2.0',
+        id: 1,
+        error: {
+          code: 3,
+          message: 'execution reverted',
+          data: selector('Unauthorized()'),
+        },
+      },
+    }));
+
+    const error = await contract
+      .call(
+        { to: '0xCONTRACT_ADDRESS', data: '0xabcdef01' },
+        createState({ post } as unknown as AxiosInstance, { errorAbi })
+      )
+      .catch((e: ContractRevertError) => e);
+
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect(error).toMatchObject({
+      message: '[contract/call] error: execution reverted: Unauthorized()',
+      errorName: 'Unauthorized',
+      args: [],
+    });
+  });
+});
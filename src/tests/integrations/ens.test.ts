@@ -0,0 +1,206 @@
+import axios from 'axios';
+import { afterEach, describe, expect, jest, test } from '@jest/globals';
+
+import { ENS_REGISTRY_ADDRESS, ens } from '../../integrations/ens.js';
+import { erc20 } from '../../integrations/erc20.js';
+import { State } from '../../lib/client/ethereumClient.js';
+import { Ens } from '../../lib/interfaces/ethMethods.js';
+import { JsonRpcRequestPayload } from '../../lib/interfaces/jsonRpcRequest.js';
+import { abi } from '../../utils/abi.js';
+import { hex } from '../../utils/hex.js';
+import { namehash } from '../../utils/namehash.js';
+import { stateAnswering } from '../helpers/state.js';
+
+const RESOLVER: string = '0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41';
+const OWNER: string = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const TOKEN: string = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+
+/**
+ * Creates a client state answering `eth_call` requests from their lowercase target address and calldata.
+ */
+const stateAnsweringCalls = (
+  handler: (to: string, data: string) => { result?: string; error?: object }
+): State =>
+  stateAnswering(({ params }: JsonRpcRequestPayload) => {
+    const { to, data } = params[0] as { to: string; data: string };
+    return handler(to.toLowerCase(), data);
+  });
+
+/**
+ * Answers the registry and a plain resolver holding the records of vitalik.eth.
+ */
+const records = (to: string, data: string) => {
+  if (to === ENS_REGISTRY_ADDRESS.toLowerCase()) {
+    const known: boolean =
+      data.endsWith(hex.strip(namehash('vitalik.eth'))) ||
+      data.endsWith(hex.strip(namehash(`${OWNER.slice(2)}.addr.reverse`)));
+    return {
+      result: abi.encodeParameters(
+        ['address'],
+        [known ? RESOLVER : `0x${'00'.repeat(20)}`]
+      ),
+    };
+  }
+
+  if (data.startsWith(Ens.SupportsInterface)) {
+    return { result: abi.encodeParameters(['bool'], [false]) };
+  }
+  if (data.startsWith(Ens.Addr)) {
+    return { result: abi.encodeParameters(['address'], [OWNER]) };
+  }
+  if (data.startsWith(Ens.Name)) {
+    return { result: abi.encodeParameters(['string'], ['vitalik.eth']) };
+  }
+  if (data.startsWith(Ens.Text)) {
+    return { result: abi.encodeParameters(['string'], ['ipfs://QmAvatar']) };
+  }
+  if (data.startsWith(Ens.ContentHash)) {
+    return {
+      result: abi.encodeParameters(
+        ['bytes'],
+        [
+          '0xe3010170122029f2d17be6139079dc48696d1f582a8530eb9805b561eda517e22a892c7e3f1f',
+        ]
+      ),
+    };
+  }
+  return { result: abi.encodeParameters(['uint256'], [BigInt(7)]) };
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('ens records', () => {
+  test('resolves names to checksummed addresses', async () => {
+    const state: State = stateAnsweringCalls(records);
+
+    await expect(ens.resolveName('Vitalik.eth', state)).resolves.toBe(OWNER);
+    await expect(ens.resolveName('unknown.eth', state)).resolves.toBeNull();
+  });
+
+  test('looks up verified primary names', async () => {
+    const state: State = stateAnsweringCalls(records);
+
+    await expect(ens.lookupAddress(OWNER, state)).resolves.toBe('vitalik.eth');
+    await expect(
+      ens.lookupAddress(
+        OWNER,
+        stateAnsweringCalls((to: string, data: string) =>
+          data.startsWith(Ens.Addr)
+            ? { result: abi.encodeParameters(['address'], [TOKEN]) }
+            : records(to, data)
+        )
+      )
+    ).resolves.toBeNull();
+  });
+
+  test('reads text records, avatars and content hashes', async () => {
+    const state: State = stateAnsweringCalls(records);
+
+    await expect(ens.getText('vitalik.eth', 'avatar', state)).resolves.toBe(
+      'ipfs://QmAvatar'
+    );
+    await expect(ens.getAvatar('vitalik.eth', state)).resolves.toBe(
+      'https://ipfs.io/ipfs/QmAvatar'
+    );
+    await expect(ens.getContentHash('vitalik.eth', state)).resolves.toBe(
+      'ipfs://QmRAQB6YaCyidP37UdDnjFY5vQuiBrcqdyoW1CuDgwxkD4'
+    );
+  });
+
+  test('treats records of resolvers returning no data as unset', async () => {
+    const state: State = stateAnsweringCalls((to: string, data: string) =>
+      to === RESOLVER.toLowerCase() && !data.startsWith(Ens.SupportsInterface)
+        ? { result: '0x' }
+        : records(to, data)
+    );
+
+    await expect(ens.resolveName('vitalik.eth', state)).resolves.toBeNull();
+    await expect(
+      ens.getText('vitalik.eth', 'avatar', state)
+    ).resolves.toBeNull();
+    await expect(ens.getContentHash('vitalik.eth', state)).resolves.toBeNull();
+  });
+});
+
+describe('ens offchain resolution', () => {
+  test('follows OffchainLookup reverts of wildcard resolvers', async () => {
+    const callbackFunction: string = '0x12345678';
+    const gateway = jest.spyOn(axios, 'post').mockResolvedValue({
+      data: { data: abi.encodeParameters(['address'], [OWNER]) },
+    });
+    const state: State = stateAnsweringCalls((to: string, data: string) => {
+      if (to === ENS_REGISTRY_ADDRESS.toLowerCase()) {
+        return {
+          result: abi.encodeParameters(
+            ['address'],
+            [
+              data.endsWith(hex.strip(namehash('eth')))
+                ? RESOLVER
+                : `0x${'00'.repeat(20)}`,
+            ]
+          ),
+        };
+      }
+      if (data.startsWith(Ens.SupportsInterface)) {
+        return { result: abi.encodeParameters(['bool'], [true]) };
+      }
+      if (data.startsWith(callbackFunction)) {
+        const [response] = abi.decodeParameters(
+          ['bytes', 'bytes'],
+          `0x${data.slice(10)}`
+        );
+        return { result: abi.encodeParameters(['bytes'], [response]) };
+      }
+      return {
+        error: {
+          code: 3,
+          message: 'execution reverted',
+          data: `${Ens.OffchainLookup}${abi
+            .encodeParameters(
+              ['address', 'string[]', 'bytes', 'bytes4', 'bytes'],
+              [
+                RESOLVER,
+                ['https://gateway.example/lookup'],
+                '0xabcd',
+                callbackFunction,
+                '0x',
+              ]
+            )
+            .slice(2)}`,
+        },
+      };
+    });
+
+    await expect(ens.resolveName('alice.offchain.eth', state)).resolves.toBe(
+      OWNER
+    );
+    expect(gateway).toHaveBeenCalledWith(
+      'https://gateway.example/lookup',
+      { sender: RESOLVER.toLowerCase(), data: '0xabcd' },
+      {}
+    );
+  });
+});
+
+describe('ens names in integrations', () => {
+  test('are resolved transparently', async () => {
+    const calls: string[] = [];
+    const state: State = stateAnsweringCalls((to: string, data: string) => {
+      calls.push(to);
+      return records(to, data);
+    });
+
+    await expect(erc20.getName('vitalik.eth', state)).resolves.toBeDefined();
+    expect(calls[calls.length - 1]).toBe(OWNER.toLowerCase());
+  });
+
+  test('reject names without an address', async () => {
+    await expect(
+      erc20.getName('unknown.eth', stateAnsweringCalls(records))
+    ).rejects.toThrow(
+      '[erc20/getName] error: ENS name unknown.eth does not resolve to an address'
+    );
+  });
+});
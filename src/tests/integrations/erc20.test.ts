@@ -0,0 +1,483 @@
+import { describe, expect, test } from '@jest/globals';
+
+import { erc20 } from '../../integrations/erc20.js';
+import { State } from '../../lib/client/ethereumClient.js';
+import { ContractRevertError } from '../../lib/errors/errors.js';
+import { JsonRpcRequestPayload } from '../../lib/interfaces/jsonRpcRequest.js';
+import {
+  Permit2Signature,
+  PermitBatch,
+  PermitSignature,
+  PermitSingle,
+} from '../../lib/interfaces/permit.js';
+import { TypedData } from '../../lib/interfaces/typedData.js';
+import { TokenAmount } from '../../lib/interfaces/tokenAmount.js';
+import { abi } from '../../utils/abi.js';
+import { address } from '../../utils/address.js';
+import { rlp } from '../../utils/rlp.js';
+import { secp256k1 } from '../../utils/secp256k1.js';
+import { signature } from '../../utils/signature.js';
+import { typedData } from '../../utils/typedData.js';
+import { stateAnswering } from '../helpers/state.js';
+
+const TOKEN: string = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const OWNER: string = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const RECIPIENT: string = '0x3535353535353535353535353535353535353535';
+const SIGNER: string = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+
+/**
+ * Answers the requests of a token with 6 decimals on a chain without base fee.
+ */
+const node = ({
+  method,
+  params,
+}: JsonRpcRequestPayload): { result?: unknown; error?: object } => {
+  switch (method) {
+    case 'eth_chainId':
+      return { result: '0x1' };
+    case 'eth_getTransactionCount':
+      return { result: '0x0' };
+    case 'eth_getBlockByNumber':
+      return {
+        result: {
+          number: '0x1',
+          timestamp: '0x0',
+          gasLimit: '0x0',
+          gasUsed: '0x0',
+          size: '0x0',
+        },
+      };
+    case 'eth_gasPrice':
+      return { result: '0x4a817c800' };
+    case 'eth_estimateGas':
+      return { result: '0xfde8' };
+    case 'eth_call':
+      switch ((params[0] as { data: string }).data.slice(0, 10)) {
+        case '0x313ce567':
+          return { result: `0x${'6'.padStart(64, '0')}` };
+        case '0x06fdde03':
+          return { result: abi.encodeParameters(['string'], ['Token']) };
+        case '0x54fd4d50':
+          return { error: { code: 3, message: 'execution reverted' } };
+        case '0x3644e515':
+          return {
+            result: typedData.hashDomain({
+              name: 'Token',
+              version: '1',
+              chainId: 1,
+              verifyingContract: TOKEN,
+            }),
+          };
+        case '0x7ecebe00':
+          return { result: `0x${'5'.padStart(64, '0')}` };
+        case '0x927da105':
+          return {
+            result: abi.encodeParameters(
+              ['uint160', 'uint48', 'uint48'],
+              [BigInt(0), 0, 3]
+            ),
+          };
+        default:
+          return { result: `0x${'1e8480'.padStart(64, '0')}` };
+      }
+    default:
+      return { result: `0x${'ab'.repeat(32)}` };
+  }
+};
+
+/**
+ * Decodes the calldata of the transaction broadcast last.
+ */
+const sentData = (requests: JsonRpcRequestPayload[]): string => {
+  const { params } = requests[requests.length - 1];
+  const fields = rlp.decode(params[0] as string) as string[];
+  return fields[5];
+};
+
+describe('erc20 writes', () => {
+  test('transfers decimal amounts converted with the token decimals', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(node, requests);
+
+    const { hash } = await erc20.transfer(RECIPIENT, '1.5', TOKEN, state);
+
+    expect(hash).toBe(`0x${'ab'.repeat(32)}`);
+    expect(sentData(requests)).toBe(
+      `0xa9059cbb${RECIPIENT.slice(2).padStart(64, '0')}${'16e360'.padStart(
+        64,
+        '0'
+      )}`
+    );
+  });
+
+  test('approves bigint amounts without reading the decimals', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(node, requests);
+
+    await erc20.approve(RECIPIENT, BigInt(1000), TOKEN, state, {
+      gas: BigInt(60000),
+    });
+
+    expect(requests.map(({ method }) => method)).not.toContain('eth_call');
+    expect(requests.map(({ method }) => method)).not.toContain(
+      'eth_estimateGas'
+    );
+    expect(sentData(requests)).toBe(
+      `0x095ea7b3${RECIPIENT.slice(2).padStart(64, '0')}${'3e8'.padStart(
+        64,
+        '0'
+      )}`
+    );
+  });
+
+  test('transfers from an owner', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(node, requests);
+
+    await erc20.transferFrom(OWNER, RECIPIENT, '2', TOKEN, state);
+
+    expect(sentData(requests)).toBe(
+      `0x23b872dd${OWNER.slice(2)
+        .toLowerCase()
+        .padStart(64, '0')}${RECIPIENT.slice(2).padStart(
+        64,
+        '0'
+      )}${'1e8480'.padStart(64, '0')}`
+    );
+  });
+
+  test('surfaces reverts of the gas estimate', async () => {
+    const state: State = stateAnswering((payload: JsonRpcRequestPayload) =>
+      payload.method === 'eth_estimateGas'
+        ? {
+            error: {
+              code: 3,
+              message: 'execution reverted',
+              data: `0x08c379a0${'20'.padStart(64, '0')}${'1b'.padStart(
+                64,
+                '0'
+              )}${Buffer.from('ERC20: insufficient balance')
+                .toString('hex')
+                .padEnd(64, '0')}`,
+            },
+          }
+        : node(payload)
+    );
+
+    await expect(
+      erc20.transfer(RECIPIENT, BigInt(1), TOKEN, state)
+    ).rejects.toBeInstanceOf(ContractRevertError);
+  });
+});
+
+describe('erc20.getBalance', () => {
+  test('formats the ether balance with 18 decimals', async () => {
+    await expect(
+      erc20.getBalance(
+        OWNER,
+        stateAnswering(() => ({ result: '0x3635c9adc5dea00000' }))
+      )
+    ).resolves.toEqual({
+      raw: BigInt('1000000000000000000000'),
+      decimals: 18,
+      formatted: '1000.000000000000000000',
+    });
+    await expect(
+      erc20.getBalance(
+        OWNER,
+        stateAnswering(() => ({ result: '0x' }))
+      )
+    ).resolves.toEqual({ raw: BigInt(0), decimals: 18, formatted: '0' });
+  });
+});
+
+describe('erc20.getDecimals', () => {
+  test('caches the decimals per contract', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(node, requests);
+
+    await expect(
+      erc20.getDecimals(TOKEN, state, { block: 19000000 })
+    ).resolves.toBe(6);
+    await erc20.getDecimals(TOKEN, state, { block: 'safe' });
+    await erc20.getDecimals(TOKEN, state);
+
+    expect(requests.map(({ params }) => params[1])).toEqual(['0x121eac0']);
+    expect(Object.keys(state.decimals)).toEqual([TOKEN.toLowerCase()]);
+  });
+
+  test('reads the decimals of amounts at the requested block', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(node, requests);
+
+    await erc20.getBalanceOf(OWNER, TOKEN, state, { block: 19000000 });
+    await erc20.getTotalSupply(TOKEN, stateAnswering(node, requests), {
+      block: 'finalized',
+    });
+    await erc20.getAllowance(
+      OWNER,
+      RECIPIENT,
+      TOKEN,
+      stateAnswering(node, requests),
+      { block: 19000001 }
+    );
+
+    expect(
+      requests.map(({ params }) => [
+        (params[0] as { data: string }).data.slice(0, 10),
+        params[1],
+      ])
+    ).toEqual([
+      ['0x70a08231', '0x121eac0'],
+      ['0x313ce567', '0x121eac0'],
+      ['0x18160ddd', 'finalized'],
+      ['0x313ce567', 'finalized'],
+      ['0xdd62ed3e', '0x121eac1'],
+      ['0x313ce567', '0x121eac1'],
+    ]);
+  });
+});
+
+describe('erc20.getAllowance', () => {
+  test('formats the allowance with the token decimals', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(node, requests);
+
+    const allowance: TokenAmount = await erc20.getAllowance(
+      OWNER,
+      RECIPIENT,
+      TOKEN,
+      state
+    );
+
+    expect(allowance).toEqual({
+      raw: BigInt(2000000),
+      decimals: 6,
+      formatted: '2',
+    });
+    expect(requests[0].params[0]).toMatchObject({
+      to: TOKEN,
+      data: `0xdd62ed3e${OWNER.slice(2)
+        .toLowerCase()
+        .padStart(64, '0')}${RECIPIENT.slice(2).padStart(64, '0')}`,
+    });
+  });
+});
+
+/**
+ * Recovers the address that signed a typed data message.
+ */
+const recoverSigner = (data: TypedData, serialized: string): string =>
+  address.fromPublicKey(
+    secp256k1.recoverPublicKey(
+      typedData.hash(data),
+      signature.parse(serialized)
+    )
+  );
+
+describe('erc20 permits', () => {
+  test('reads the permit nonce and domain separator', async () => {
+    const state: State = stateAnswering(node);
+
+    await expect(erc20.getNonces(SIGNER, TOKEN, state)).resolves.toBe(
+      BigInt(5)
+    );
+    await expect(erc20.getDomainSeparator(TOKEN, state)).resolves.toBe(
+      typedData.hashDomain({
+        name: 'Token',
+        version: '1',
+        chainId: 1,
+        verifyingContract: TOKEN,
+      })
+    );
+  });
+
+  test('signs EIP-2612 permits with the domain of the token', async () => {
+    const state: State = stateAnswering(node);
+
+    const permit: PermitSignature = await erc20.signPermit(
+      SIGNER,
+      RECIPIENT,
+      '1.5',
+      1700000000,
+      TOKEN,
+      state
+    );
+
+    expect(permit).toMatchObject({
+      owner: SIGNER,
+      spender: RECIPIENT,
+      value: BigInt(1500000),
+      nonce: BigInt(5),
+      deadline: BigInt(1700000000),
+      v: 27 + permit.yParity,
+    });
+    expect(
+      recoverSigner(
+        {
+          domain: {
+            name: 'Token',
+            version: '1',
+            chainId: 1,
+            verifyingContract: TOKEN,
+          },
+          types: {
+            Permit: [
+              { name: 'owner', type: 'address' },
+              { name: 'spender', type: 'address' },
+              { name: 'value', type: 'uint256' },
+              { name: 'nonce', type: 'uint256' },
+              { name: 'deadline', type: 'uint256' },
+            ],
+          },
+          primaryType: 'Permit',
+          message: {
+            owner: SIGNER,
+            spender: RECIPIENT,
+            value: BigInt(1500000),
+            nonce: BigInt(5),
+            deadline: BigInt(1700000000),
+          },
+        },
+        permit.signature
+      )
+    ).toBe(SIGNER);
+  });
+
+  test('rejects domains that do not match the token', async () => {
+    const state: State = stateAnswering((payload: JsonRpcRequestPayload) =>
+      (payload.params[0] as { data?: string })?.data === '0x3644e515'
+        ? { result: `0x${'00'.repeat(32)}` }
+        : node(payload)
+    );
+
+    await expect(
+      erc20.signPermit(SIGNER, RECIPIENT, BigInt(1), 1700000000, TOKEN, state)
+    ).rejects.toThrow(
+      `[erc20/signPermit] error: Could not derive the EIP-712 domain of ${TOKEN}, set the domain option`
+    );
+  });
+
+  test('only signs permits of the signer', async () => {
+    const state: State = stateAnswering(node);
+
+    await expect(
+      erc20.signPermit(OWNER, RECIPIENT, BigInt(1), 1700000000, TOKEN, state)
+    ).rejects.toThrow(
+      `[erc20/signPermit] error: The owner ${OWNER} is not the signer ${SIGNER}`
+    );
+  });
+
+  test('signs Permit2 single and batch permits', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(node, requests);
+    const domain = {
+      name: 'Permit2',
+      chainId: 1,
+      verifyingContract: '0x000000000022D473030F116dDEE9F6B43aC78BA3',
+    };
+    const details = [
+      { name: 'token', type: 'address' },
+      { name: 'amount', type: 'uint160' },
+      { name: 'expiration', type: 'uint48' },
+      { name: 'nonce', type: 'uint48' },
+    ];
+
+    const single: Permit2Signature<PermitSingle> = await erc20.signPermitSingle(
+      { token: TOKEN, amount: '2', expiration: 1700000000 },
+      RECIPIENT,
+      1700000000,
+      state
+    );
+
+    expect(single.permit).toEqual({
+      details: {
+        token: TOKEN,
+        amount: BigInt(2000000),
+        expiration: 1700000000,
+        nonce: 3,
+      },
+      spender: RECIPIENT,
+      sigDeadline: BigInt(1700000000),
+    });
+    expect(requests).toContainEqual(
+      expect.objectContaining({
+        params: [
+          {
+            to: domain.verifyingContract,
+            data: abi.encodeFunctionData(
+              '0x927da105',
+              ['address', 'address', 'address'],
+              [SIGNER, TOKEN, RECIPIENT]
+            ),
+          },
+          'latest',
+        ],
+      })
+    );
+    expect(
+      recoverSigner(
+        {
+          domain,
+          types: {
+            PermitSingle: [
+              { name: 'details', type: 'PermitDetails' },
+              { name: 'spender', type: 'address' },
+              { name: 'sigDeadline', type: 'uint256' },
+            ],
+            PermitDetails: details,
+          },
+          primaryType: 'PermitSingle',
+          message: {
+            details: {
+              token: TOKEN,
+              amount: BigInt(2000000),
+              expiration: 1700000000,
+              nonce: 3,
+            },
+            spender: RECIPIENT,
+            sigDeadline: BigInt(1700000000),
+          },
+        },
+        single.signature
+      )
+    ).toBe(SIGNER);
+
+    const batch: Permit2Signature<PermitBatch> = await erc20.signPermitBatch(
+      [{ token: TOKEN, amount: BigInt(7), expiration: 1700000000, nonce: 9 }],
+      RECIPIENT,
+      1700000000,
+      state
+    );
+
+    expect(
+      recoverSigner(
+        {
+          domain,
+          types: {
+            PermitBatch: [
+              { name: 'details', type: 'PermitDetails[]' },
+              { name: 'spender', type: 'address' },
+              { name: 'sigDeadline', type: 'uint256' },
+            ],
+            PermitDetails: details,
+          },
+          primaryType: 'PermitBatch',
+          message: {
+            details: [
+              {
+                token: TOKEN,
+                amount: BigInt(7),
+                expiration: 1700000000,
+                nonce: 9,
+              },
+            ],
+            spender: RECIPIENT,
+            sigDeadline: BigInt(1700000000),
+          },
+        },
+        batch.signature
+      )
+    ).toBe(SIGNER);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, test } from '@jest/globals';
+
+import { gas } from '../../integrations/gas.js';
+import { State } from '../../lib/client/ethereumClient.js';
+import { EmptyResultError } from '../../lib/errors/errors.js';
+import { JsonRpcRequestPayload } from '../../lib/interfaces/jsonRpcRequest.js';
+import { stateAnswering } from '../helpers/state.js';
+
+const SENDER: string = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+const RECIPIENT: string = '0x3535353535353535353535353535353535353535';
+
+/**
+ * Answers the fee history of four blocks, the second one empty, and the gas price and priority fee of the node.
+ */
+const node =
+  (feeHistory: { result?: unknown; error?: object }) =>
+  ({ method }: JsonRpcRequestPayload): { result?: unknown; error?: object } => {
+    switch (method) {
+      case 'eth_feeHistory':
+        return feeHistory;
+      case 'eth_gasPrice':
+        return { result: '0x4a817c800' };
+      case 'eth_maxPriorityFeePerGas':
+        return { result: '0x3b9aca00' };
+      default:
+        return { error: { code: -32601, message: 'method not found' } };
+    }
+  };
+
+const HISTORY = {
+  result: {
+    oldestBlock: '0x10',
+    baseFeePerGas: ['0x64', '0x6e', '0x78', '0x82', '0x8c'],
+    gasUsedRatio: [0.9, 0, 0.8, 0.7],
+    reward: [['0xa'], ['0x0'], ['0x14'], ['0x1e']],
+  },
+};
+
+describe('gas.estimate', () => {
+  test('estimates the transaction from the client signer', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(() => ({ result: '0x5208' }), requests);
+
+    await expect(
+      gas.estimate({ to: RECIPIENT, value: BigInt(1000) }, state)
+    ).resolves.toBe(BigInt(21000));
+    expect(requests[0]).toMatchObject({
+      method: 'eth_estimateGas',
+      params: [{ from: SENDER, to: RECIPIENT, value: '0x3e8' }],
+    });
+  });
+});
+
+describe('gas.suggestFees', () => {
+  test('suggests fees from the reward percentile and the base fee trend', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(node(HISTORY), requests);
+
+    // The median reward of the non empty blocks is 20, and the blocks are more than half full, so the maximum fee
+    // covers four full blocks after the next base fee of 140: 158, 178, 201 then 227.
+    await expect(gas.suggestFees(state)).resolves.toEqual({
+      maxFeePerGas: BigInt(247),
+      maxPriorityFeePerGas: BigInt(20),
+      baseFeePerGas: BigInt(140),
+    });
+    expect(requests[0].params).toEqual(['0xa', 'latest', [50]]);
+  });
+
+  test('pays a higher percentile and more headroom when fast', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(node(HISTORY), requests);
+
+    const { maxFeePerGas } = await gas.suggestFees(state, {
+      speed: 'fast',
+      blockCount: 4,
+    });
+
+    expect(requests[0].params).toEqual(['0x4', 'latest', [90]]);
+    expect(maxFeePerGas).toBe(BigInt(344));
+  });
+
+  test('falls back to the node priority fee when recent blocks are empty', async () => {
+    const state: State = stateAnswering(
+      node({
+        result: {
+          ...HISTORY.result,
+          gasUsedRatio: [0, 0, 0, 0],
+          reward: [['0x0'], ['0x0'], ['0x0'], ['0x0']],
+        },
+      })
+    );
+
+    await expect(gas.suggestFees(state)).resolves.toEqual({
+      maxFeePerGas: BigInt(201) + BigInt(1000000000),
+      maxPriorityFeePerGas: BigInt(1000000000),
+      baseFeePerGas: BigInt(140),
+    });
+  });
+
+  test('falls back to the gas price on chains without base fee', async () => {
+    const legacy = {
+      maxFeePerGas: BigInt(20000000000),
+      maxPriorityFeePerGas: BigInt(20000000000),
+      gasPrice: BigInt(20000000000),
+    };
+
+    await expect(
+      gas.suggestFees(
+        stateAnswering(
+          node({
+            result: {
+              ...HISTORY.result,
+              baseFeePerGas: undefined,
+            },
+          })
+        )
+      )
+    ).resolves.toEqual(legacy);
+    await expect(
+      gas.suggestFees(
+        stateAnswering(
+          node({ error: { code: -32601, message: 'method not found' } })
+        )
+      )
+    ).resolves.toEqual(legacy);
+  });
+
+  test('prices chains with a zero base fee with EIP-1559 fees', async () => {
+    await expect(
+      gas.suggestFees(
+        stateAnswering(
+          node({
+            result: {
+              ...HISTORY.result,
+              baseFeePerGas: ['0x0', '0x0', '0x0', '0x0', '0x0'],
+            },
+          })
+        )
+      )
+    ).resolves.toEqual({
+      maxFeePerGas: BigInt(20),
+      maxPriorityFeePerGas: BigInt(20),
+      baseFeePerGas: BigInt(0),
+    });
+  });
+
+  test('rethrows the other errors of the fee history', async () => {
+    await expect(
+      gas.suggestFees(
+        stateAnswering(
+          node({ error: { code: -32005, message: 'rate limit exceeded' } })
+        )
+      )
+    ).rejects.toMatchObject({ code: -32005 });
+    await expect(
+      gas.suggestFees(stateAnswering(node({ result: null })))
+    ).rejects.toBeInstanceOf(EmptyResultError);
+  });
+});
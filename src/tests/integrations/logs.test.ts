@@ -0,0 +1,181 @@
+import { describe, expect, test } from '@jest/globals';
+
+import {
+  ERC1155_EVENTS,
+  ERC20_EVENTS,
+  ERC721_EVENTS,
+  logs,
+} from '../../integrations/logs.js';
+import { State } from '../../lib/client/ethereumClient.js';
+import { RpcObject } from '../../lib/interfaces/chain.js';
+import { JsonRpcRequestPayload } from '../../lib/interfaces/jsonRpcRequest.js';
+import { abi } from '../../utils/abi.js';
+import { address } from '../../utils/address.js';
+import { hex } from '../../utils/hex.js';
+import { stateAnswering } from '../helpers/state.js';
+
+const TOKEN: string = '0x6b175474e89094c44da98b954eedeac495271d0f';
+const ALICE: string = '0xd8da6bf26964af9d7eed9e03e53415d37aa96045';
+const BOB: string = '0x225f137127d9067788314bc7fcc1f36746a3c3b5';
+
+const topic = (value: string): string =>
+  abi.encodeParameters(['address'], [value]);
+
+/**
+ * Builds an ERC20 transfer log as returned by the node.
+ */
+const transferLog = (blockNumber: number, value: number): RpcObject => ({
+  address: TOKEN,
+  topics: [abi.getEventTopic(ERC20_EVENTS.Transfer), topic(ALICE), topic(BOB)],
+  data: abi.encodeParameters(['uint256'], [BigInt(value)]),
+  blockNumber: hex.fromNumber(blockNumber),
+  blockHash: `0x${'ab'.repeat(32)}`,
+  transactionHash: `0x${'cd'.repeat(32)}`,
+  transactionIndex: '0x0',
+  logIndex: '0x1',
+  removed: false,
+});
+
+describe('logs.get', () => {
+  test('builds the filter and decodes logs', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(
+      () => ({ result: [transferLog(19000000, 1000)] }),
+      requests
+    );
+
+    const result = await logs.get(
+      {
+        address: TOKEN,
+        event: ERC20_EVENTS.Transfer,
+        args: { to: BOB },
+        fromBlock: 19000000,
+      },
+      state
+    );
+
+    expect(result).toEqual([
+      expect.objectContaining({
+        eventName: 'Transfer',
+        blockNumber: 19000000,
+        logIndex: 1,
+        args: { from: ALICE, to: BOB, value: BigInt(1000) },
+      }),
+    ]);
+    expect(requests[0].params).toEqual([
+      {
+        address: address.getAddress(TOKEN),
+        topics: [abi.getEventTopic(ERC20_EVENTS.Transfer), null, topic(BOB)],
+        fromBlock: '0x121eac0',
+        toBlock: 'latest',
+      },
+    ]);
+  });
+
+  test('skips logs of events sharing the topic', async () => {
+    const state: State = stateAnswering(() => ({
+      result: [transferLog(1, 1)],
+    }));
+
+    await expect(
+      logs.get({ event: ERC721_EVENTS.Transfer }, state)
+    ).resolves.toEqual([]);
+  });
+
+  test('decodes ERC1155 batch transfers', async () => {
+    const state: State = stateAnswering(() => ({
+      result: [
+        {
+          ...transferLog(1, 1),
+          topics: [
+            abi.getEventTopic(ERC1155_EVENTS.TransferBatch),
+            topic(ALICE),
+            topic(ALICE),
+            topic(BOB),
+          ],
+          data: abi.encodeParameters(
+            ['uint256[]', 'uint256[]'],
+            [
+              [BigInt(1), BigInt(2)],
+              [BigInt(10), BigInt(20)],
+            ]
+          ),
+        },
+      ],
+    }));
+
+    const [log] = await logs.get(
+      { event: ERC1155_EVENTS.TransferBatch },
+      state
+    );
+
+    expect(log.args.ids).toEqual([BigInt(1), BigInt(2)]);
+    expect(log.args.values).toEqual([BigInt(10), BigInt(20)]);
+  });
+
+  test('splits block ranges rejected as too large', async () => {
+    const ranges: string[] = [];
+    const state: State = stateAnswering(({ method, params }) => {
+      if (method === 'eth_blockNumber') {
+        return { result: '0x7' };
+      }
+      const { fromBlock, toBlock } = params[0] as RpcObject;
+      ranges.push(`${fromBlock}-${toBlock}`);
+      return Number(toBlock) - Number(fromBlock) > 3 || toBlock === 'latest'
+        ? {
+            error: {
+              code: -32602,
+              message: 'query returned more than 10000 results',
+            },
+          }
+        : { result: [transferLog(Number(fromBlock), 1)] };
+    });
+
+    const result = await logs.get(
+      { event: ERC20_EVENTS.Transfer, fromBlock: 0 },
+      state
+    );
+
+    expect(ranges).toEqual(['0x0-latest', '0x0-0x3', '0x4-0x7']);
+    expect(result.map(({ blockNumber }) => blockNumber)).toEqual([0, 4]);
+  });
+
+  test('rethrows rate limit errors without splitting', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(
+      () => ({ error: { code: -32005, message: 'limit exceeded' } }),
+      requests
+    );
+
+    await expect(
+      logs.get({ event: ERC20_EVENTS.Transfer, fromBlock: 0 }, state)
+    ).rejects.toThrow('[logs/get] error: limit exceeded');
+    expect(requests.map(({ method }) => method)).toEqual(['eth_getLogs']);
+  });
+
+  test('stops splitting after the maximum depth', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(
+      () => ({ error: { code: -32602, message: 'block range too large' } }),
+      requests
+    );
+
+    await expect(
+      logs.get(
+        { event: ERC20_EVENTS.Transfer, fromBlock: 0, toBlock: 2 ** 20 },
+        state
+      )
+    ).rejects.toThrow('[logs/get] error: block range too large');
+    expect(requests).toHaveLength(17);
+  });
+
+  test('rethrows other errors', async () => {
+    const state: State = stateAnswering(() => ({
+      error: { code: -32602, message: 'invalid argument 0' },
+    }));
+
+    await expect(
+      logs.get({ event: ERC20_EVENTS.Transfer }, state)
+    ).rejects.toThrow('[logs/get] error: invalid argument 0');
+  });
+});
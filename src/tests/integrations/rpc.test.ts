@@ -0,0 +1,235 @@
+import axios, {
+  AxiosError,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { describe, expect, jest, test } from '@jest/globals';
+
+import { contract } from '../../integrations/contract.js';
+import { erc20 } from '../../integrations/erc20.js';
+import { erc721 } from '../../integrations/erc721.js';
+import { rpc } from '../../integrations/rpc.js';
+import { createState } from '../../lib/client/ethereumClient.js';
+import {
+  ContractRevertError,
+  EmptyResultError,
+  HttpTransportError,
+  RpcError,
+} from '../../lib/errors/errors.js';
+import { Logger } from '../../lib/interfaces/logger.js';
+import { abi } from '../../utils/abi.js';
+import { constructEthMethodPayload } from '../../utils/ethCall.js';
+import { selector } from '../../utils/keccak.js';
+
+const payload = constructEthMethodPayload(
+  { to: '0xCONTRACT_ADDRESS', data: '0x06fdde03' },
+  'eth_call'
+);
+
+/**
+ * Creates a client state whose transport answers every request with the given JSON-RPC body.
+ */
+const stateReturning = (body: object, logger?: Logger) =>
+  createState(
+    axios.create({
+      adapter: async (
+        config: InternalAxiosRequestConfig
+      ): Promise<AxiosResponse> => ({
+        data: JSON.stringify({ jsonrpc: '2.0', id: 1, ...body }),
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+      }),
+    }),
+    { logger }
+  );
+
+describe('rpc.send', () => {
+  test('returns the result', async () => {
+    await expect(
+      rpc.send(payload, stateReturning({ result: '0x1' }), '[test/send]')
+    ).resolves.toBe('0x1');
+  });
+
+  test('throws an RpcError keeping the code and data', async () => {
+    const state = stateReturning({
+      error: { code: -32602, message: 'invalid params', data: 'details' },
+    });
+
+    const error = await rpc
+      .send({ ...payload, method: 'eth_getBalance' }, state, '[test/send]')
+      .catch((e: ContractRevertError) => e);
+
+    expect(error).toBeInstanceOf(RpcError);
+    expect(error).toMatchObject({
+      message: '[test/send] error: invalid params',
+      code: -32602,
+      data: 'details',
+      method: 'eth_getBalance',
+    });
+  });
+
+  test('throws a ContractRevertError with the decoded reason', async () => {
+    const data = `0x08c379a0${abi
+      .encodeParameters(['string'], ['Ownable: caller is not the owner'])
+      .slice(2)}`;
+    const state = stateReturning({
+      error: { code: 3, message: 'execution reverted', data },
+    });
+
+    const error = await rpc
+      .send(payload, state, '[test/send]')
+      .catch((e: ContractRevertError) => e);
+
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect(error).toMatchObject({
+      message:
+        '[test/send] error: execution reverted: Ownable: caller is not the owner',
+      errorName: 'Error',
+      reason: 'Ownable: caller is not the owner',
+      data,
+    });
+  });
+
+  test('throws a ContractRevertError for reverts without data', async () => {
+    const state = stateReturning({
+      error: { code: -32000, message: 'execution reverted' },
+    });
+
+    const error = await rpc
+      .send(payload, state, '[test/send]')
+      .catch((e: ContractRevertError) => e);
+
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect((error as ContractRevertError).data).toBe('0x');
+  });
+
+  test('throws an EmptyResultError without result', async () => {
+    await expect(
+      rpc.send(payload, stateReturning({}), '[test/send]')
+    ).rejects.toBeInstanceOf(EmptyResultError);
+  });
+
+  test('throws an HttpTransportError when the request fails', async () => {
+    const state = createState(
+      axios.create({
+        baseURL: 'http://rpc.test',
+        adapter: async (config: InternalAxiosRequestConfig) => {
+          throw new AxiosError(
+            'Request failed',
+            'ERR_BAD_RESPONSE',
+            config,
+            null,
+            {
+              data: '',
+              status: 503,
+              statusText: '',
+              headers: {},
+              config,
+            }
+          );
+        },
+      })
+    );
+
+    const error = await rpc
+      .send(payload, state, '[test/send]')
+      .catch((e: ContractRevertError) => e);
+
+    expect(error).toBeInstanceOf(HttpTransportError);
+    expect(error).toMatchObject({
+      status: 503,
+      code: 'ERR_BAD_RESPONSE',
+      url: 'http://rpc.test',
+    });
+    expect((error as HttpTransportError).cause).toBeInstanceOf(AxiosError);
+  });
+});
+
+describe('logger', () => {
+  test('receives the errors of failed calls', async () => {
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const state = stateReturning(
+      { error: { code: -32000, message: 'execution reverted' } },
+      logger
+    );
+    const fn = {
+      type: 'function',
+      name: 'name',
+      stateMutability: 'view',
+      inputs: [],
+      outputs: [{ type: 'string' }],
+    } as const;
+
+    await expect(
+      contract.read('0xCONTRACT_ADDRESS', fn, [], state)
+    ).rejects.toThrow('[contract/name] error: execution reverted');
+    expect(logger.debug).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalledWith(
+      '[contract/name] error:',
+      expect.any(ContractRevertError)
+    );
+  });
+});
+
+describe('contract custom errors', () => {
+  test('are decoded against the contract ABI', async () => {
+    const tokenAbi = [
+      {
+        type: 'function',
+        name: 'balanceOf',
+        stateMutability: 'view',
+        inputs: [{ name: 'owner', type: 'address' }],
+        outputs: [{ name: '', type: 'uint256' }],
+      },
+      {
+        type: 'error',
+        name: 'InsufficientBalance',
+        inputs: [
+          { name: 'available', type: 'uint256' },
+          { name: 'required', type: 'uint256' },
+        ],
+      },
+    ] as const;
+    const data = `${selector('InsufficientBalance(uint256,uint256)')}${abi
+      .encodeParameters(['uint256', 'uint256'], [BigInt(1), BigInt(2)])
+      .slice(2)}`;
+    const token = contract.create(
+      '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+      tokenAbi,
+      stateReturning({
+        error: { code: 3, message: 'execution reverted', data },
+      })
+    );
+
+    const error = await token
+      .balanceOf('0x18cf36d6925026f00a57754757ecd480b92cbefc')
+      .catch((e: ContractRevertError) => e);
+
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect(error).toMatchObject({
+      message:
+        '[contract/balanceOf] error: execution reverted: InsufficientBalance(1, 2)',
+      errorName: 'InsufficientBalance',
+      args: [BigInt(1), BigInt(2)],
+    });
+  });
+});
+
+describe('calls to addresses without code', () => {
+  test('throw an EmptyResultError instead of failing to decode', async () => {
+    const state = stateReturning({ result: '0x' });
+    const token = '0x6b175474e89094c44da98b954eedeac495271d0f';
+
+    await expect(erc20.getName(token, state)).rejects.toThrow(EmptyResultError);
+    await expect(erc721.getOwnerOf(token, '1', state)).rejects.toThrow(
+      EmptyResultError
+    );
+  });
+});
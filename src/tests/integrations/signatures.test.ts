@@ -0,0 +1,314 @@
+import { describe, expect, test } from '@jest/globals';
+
+import { signatures } from '../../integrations/signatures.js';
+import { State } from '../../lib/client/ethereumClient.js';
+import { SiweError } from '../../lib/errors/errors.js';
+import { JsonRpcRequestPayload } from '../../lib/interfaces/jsonRpcRequest.js';
+import { SiweSession } from '../../lib/interfaces/siwe.js';
+import { TypedData } from '../../lib/interfaces/typedData.js';
+import { abi } from '../../utils/abi.js';
+import { hex } from '../../utils/hex.js';
+import { secp256k1 } from '../../utils/secp256k1.js';
+import { signature } from '../../utils/signature.js';
+import { siwe } from '../../utils/siwe.js';
+import { typedData } from '../../utils/typedData.js';
+import { stateAnswering } from '../helpers/state.js';
+
+const PRIVATE_KEY: string = `0x${'46'.repeat(32)}`;
+const SIGNER: string = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+const WALLET: string = '0x3535353535353535353535353535353535353535';
+const FACTORY: string = '0x4e59b44847b379578588920cA78FbF26c0B4956C';
+
+const ORDER: TypedData = {
+  domain: { name: 'Exchange', version: '1', chainId: 1 },
+  types: { Order: [{ name: 'amount', type: 'uint256' }] },
+  primaryType: 'Order',
+  message: { amount: BigInt(1) },
+};
+
+/**
+ * Answers the requests of a smart contract wallet returning the given `isValidSignature` result.
+ */
+const contractWallet =
+  (code: string, result: { result?: unknown; error?: object }) =>
+  ({ method }: JsonRpcRequestPayload): { result?: unknown; error?: object } =>
+    method === 'eth_getCode' ? { result: code } : result;
+
+describe('signatures', () => {
+  test('verifies signatures of accounts without requests', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(() => ({ result: '0x' }), requests);
+    const signed: string = signature.serialize(
+      secp256k1.sign(signature.hashMessage('hello world'), PRIVATE_KEY)
+    );
+
+    await expect(
+      signatures.verifyMessage(SIGNER, 'hello world', signed, state)
+    ).resolves.toBe(true);
+    await expect(
+      signatures.verifyTypedData(
+        SIGNER,
+        ORDER,
+        signature.serialize(secp256k1.sign(typedData.hash(ORDER), PRIVATE_KEY)),
+        state
+      )
+    ).resolves.toBe(true);
+    expect(requests).toHaveLength(0);
+  });
+
+  test('rejects signatures of other accounts', async () => {
+    const state: State = stateAnswering(() => ({ result: '0x' }));
+    const signed: string = signature.serialize(
+      secp256k1.sign(signature.hashMessage('hello world'), PRIVATE_KEY)
+    );
+
+    await expect(
+      signatures.verifyMessage(WALLET, 'hello world', signed, state)
+    ).resolves.toBe(false);
+  });
+
+  test('asks contracts with ERC1271', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const hash: string = signature.hashMessage('hello world');
+    const state: State = stateAnswering(
+      contractWallet('0x6080', {
+        result: abi.encodeParameters(['bytes4'], ['0x1626ba7e']),
+      }),
+      requests
+    );
+
+    await expect(
+      signatures.verifyHash(WALLET, hash, '0x1234', state)
+    ).resolves.toBe(true);
+    expect(requests[1].method).toBe('eth_call');
+    expect(requests[1].params[0]).toEqual({
+      to: WALLET,
+      data: abi.encodeFunctionData(
+        '0x1626ba7e',
+        ['bytes32', 'bytes'],
+        [hash, '0x1234']
+      ),
+    });
+  });
+
+  test('rejects contract signatures that are not valid or revert', async () => {
+    const hash: string = signature.hashMessage('hello world');
+
+    await expect(
+      signatures.verifyHash(
+        WALLET,
+        hash,
+        '0x1234',
+        stateAnswering(
+          contractWallet('0x6080', {
+            result: abi.encodeParameters(['bytes4'], ['0xffffffff']),
+          })
+        )
+      )
+    ).resolves.toBe(false);
+    await expect(
+      signatures.verifyHash(
+        WALLET,
+        hash,
+        '0x1234',
+        stateAnswering(
+          contractWallet('0x6080', {
+            error: { code: 3, message: 'execution reverted', data: '0x' },
+          })
+        )
+      )
+    ).resolves.toBe(false);
+  });
+
+  test('rejects contract results that are not the exact magic value', async () => {
+    const hash: string = signature.hashMessage('hello world');
+
+    for (const result of [
+      '0x1626ba7e',
+      `0x1626ba7e${'ff'.repeat(28)}`,
+      `0x1626ba7e${'00'.repeat(60)}`,
+    ]) {
+      await expect(
+        signatures.verifyHash(
+          WALLET,
+          hash,
+          '0x1234',
+          stateAnswering(contractWallet('0x6080', { result }))
+        )
+      ).resolves.toBe(false);
+    }
+  });
+});
+
+describe('signatures EIP-6492', () => {
+  const hash: string = signature.hashMessage('hello world');
+  const wrapped: string = hex.concat([
+    abi.encodeParameters(
+      ['address', 'bytes', 'bytes'],
+      [FACTORY, '0xdeadbeef', '0x1234']
+    ),
+    '6492'.repeat(16),
+  ]);
+
+  test('deploys counterfactual wallets in the validation call', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(
+      contractWallet('0x', {
+        result: abi.encodeParameters(['bytes4'], ['0x1626ba7e']),
+      }),
+      requests
+    );
+
+    await expect(
+      signatures.verifyHash(WALLET, hash, wrapped, state)
+    ).resolves.toBe(true);
+
+    const { to, data } = requests[1].params[0] as {
+      to?: string;
+      data: string;
+    };
+    const check: string = abi.encodeFunctionData(
+      '0x1626ba7e',
+      ['bytes32', 'bytes'],
+      [hash, '0x1234']
+    );
+    expect(to).toBeUndefined();
+    expect(data.slice(0, 120)).toBe(
+      '0x603b3803603b6000396000600060405160205160006000515af15060006000526020600060a0516080516060515afa6000510260005260206000f3'
+    );
+    expect(data.endsWith(`deadbeef${hex.strip(check)}`)).toBe(true);
+    expect(
+      abi.decodeParameters(
+        ['address', 'uint256', 'uint256', 'address', 'uint256', 'uint256'],
+        `0x${data.slice(120, 120 + 6 * 64)}`
+      )
+    ).toEqual([
+      FACTORY.toLowerCase(),
+      BigInt(0xc0),
+      BigInt(4),
+      WALLET,
+      BigInt(0xc4),
+      BigInt(hex.strip(check).length / 2),
+    ]);
+  });
+
+  test('checks the wrapped signature with ERC1271 once the wallet is deployed', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(
+      contractWallet('0x6080', {
+        result: abi.encodeParameters(['bytes4'], ['0x1626ba7e']),
+      }),
+      requests
+    );
+
+    await expect(
+      signatures.verifyHash(WALLET, hash, wrapped, state)
+    ).resolves.toBe(true);
+    expect(requests[1].params[0]).toEqual({
+      to: WALLET,
+      data: abi.encodeFunctionData(
+        '0x1626ba7e',
+        ['bytes32', 'bytes'],
+        [hash, '0x1234']
+      ),
+    });
+  });
+});
+
+describe('signatures.verifySiweMessage', () => {
+  const message: string = siwe.createMessage({
+    domain: 'example.com',
+    address: SIGNER,
+    statement: 'Sign in to Example',
+    uri: 'https://example.com/login',
+    chainId: 1,
+    nonce: 'abcdef0123',
+    issuedAt: '2024-01-01T00:00:00Z',
+    expirationTime: '2024-01-02T00:00:00Z',
+  });
+  const signed: string = signature.serialize(
+    secp256k1.sign(signature.hashMessage(message), PRIVATE_KEY)
+  );
+  const time: Date = new Date('2024-01-01T12:00:00Z');
+
+  /**
+   * Answers the chain id of mainnet, and no code for any account.
+   */
+  const mainnet = ({
+    method,
+  }: JsonRpcRequestPayload): { result?: unknown; error?: object } =>
+    method === 'eth_chainId' ? { result: '0x1' } : { result: '0x' };
+
+  test('returns the session of the account', async () => {
+    const session: SiweSession = await signatures.verifySiweMessage(
+      message,
+      signed,
+      stateAnswering(mainnet),
+      { domain: 'example.com', nonce: 'abcdef0123', time }
+    );
+
+    expect(session).toEqual({
+      address: SIGNER,
+      chainId: 1,
+      domain: 'example.com',
+      nonce: 'abcdef0123',
+      issuedAt: new Date('2024-01-01T00:00:00Z'),
+      expirationTime: new Date('2024-01-02T00:00:00Z'),
+      message: siwe.parseMessage(message),
+    });
+  });
+
+  test('rejects messages of other chains, nonces and signers', async () => {
+    const verify = (
+      value: string,
+      options: object,
+      handler = mainnet
+    ): Promise<string> =>
+      signatures
+        .verifySiweMessage(message, value, stateAnswering(handler), {
+          domain: 'example.com',
+          nonce: 'abcdef0123',
+          time,
+          ...options,
+        })
+        .then(
+          () => null,
+          (e: SiweError) => e.reason
+        );
+
+    await expect(verify(signed, {}, () => ({ result: '0x89' }))).resolves.toBe(
+      'chainId'
+    );
+    await expect(verify(signed, { nonce: '0123456789' })).resolves.toBe(
+      'nonce'
+    );
+    await expect(
+      verify(
+        signature.serialize(
+          secp256k1.sign(signature.hashMessage(message), `0x${'47'.repeat(32)}`)
+        ),
+        {}
+      )
+    ).resolves.toBe('signature');
+  });
+
+  test('rejects messages of other domains without options', async () => {
+    const phishing: string = message.replace(
+      'example.com wants you',
+      'evil.example wants you'
+    );
+
+    await expect(
+      signatures.verifySiweMessage(
+        phishing,
+        signature.serialize(
+          secp256k1.sign(signature.hashMessage(phishing), PRIVATE_KEY)
+        ),
+        stateAnswering(mainnet)
+      )
+    ).rejects.toMatchObject({
+      message: '[siwe/validate] error: The expected domain is required',
+      reason: 'domain',
+    });
+  });
+});
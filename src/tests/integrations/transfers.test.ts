@@ -0,0 +1,227 @@
+import { describe, expect, test } from '@jest/globals';
+
+import { erc1155 } from '../../integrations/erc1155.js';
+import { erc20 } from '../../integrations/erc20.js';
+import { ERC1155_EVENTS, ERC20_EVENTS } from '../../integrations/logs.js';
+import { State } from '../../lib/client/ethereumClient.js';
+import { RpcObject } from '../../lib/interfaces/chain.js';
+import { JsonRpcRequestPayload } from '../../lib/interfaces/jsonRpcRequest.js';
+import { Erc20Transfer } from '../../lib/interfaces/transfers.js';
+import { abi } from '../../utils/abi.js';
+import { hex } from '../../utils/hex.js';
+import { stateAnswering } from '../helpers/state.js';
+
+const TOKEN: string = '0x6b175474e89094c44da98b954eedeac495271d0f';
+const ALICE: string = '0xd8da6bf26964af9d7eed9e03e53415d37aa96045';
+const BOB: string = '0x225f137127d9067788314bc7fcc1f36746a3c3b5';
+
+const topic = (value: string): string =>
+  abi.encodeParameters(['address'], [value]);
+
+/**
+ * Builds an ERC20 transfer log as returned by the node.
+ */
+const transferLog = (
+  blockNumber: number,
+  logIndex: number,
+  from: string,
+  to: string
+): RpcObject => ({
+  address: TOKEN,
+  topics: [abi.getEventTopic(ERC20_EVENTS.Transfer), topic(from), topic(to)],
+  data: abi.encodeParameters(
+    ['uint256'],
+    [BigInt(blockNumber * 10 + logIndex)]
+  ),
+  blockNumber: hex.fromNumber(blockNumber),
+  blockHash: `0x${'ab'.repeat(32)}`,
+  transactionHash: `0x${'cd'.repeat(32)}`,
+  transactionIndex: '0x0',
+  logIndex: hex.fromNumber(logIndex),
+  removed: false,
+});
+
+/**
+ * Creates a client state answering `eth_getLogs` from a list of logs, and blocks with a timestamp of 100 times their number.
+ */
+const stateWithLogs = (
+  history: RpcObject[],
+  requests: JsonRpcRequestPayload[] = []
+): State =>
+  stateAnswering(({ method, params }: JsonRpcRequestPayload) => {
+    if (method === 'eth_getBlockByNumber') {
+      return {
+        result: {
+          number: params[0],
+          timestamp: hex.fromNumber(Number(params[0]) * 100),
+          gasLimit: '0x0',
+          gasUsed: '0x0',
+          size: '0x0',
+        },
+      };
+    }
+    if (method === 'eth_getLogs') {
+      const { fromBlock, toBlock, topics } = params[0] as {
+        fromBlock: string;
+        toBlock: string;
+        topics: (string | null)[];
+      };
+      return {
+        result: history.filter((log: RpcObject): boolean => {
+          const logTopics: string[] = log.topics as string[];
+          return (
+            Number(log.blockNumber) >= Number(fromBlock) &&
+            Number(log.blockNumber) <= Number(toBlock) &&
+            logTopics[0] === topics[0] &&
+            (!topics[1] || logTopics[1] === topics[1]) &&
+            (!topics[2] || logTopics[2] === topics[2]) &&
+            (!topics[3] || logTopics[3] === topics[3])
+          );
+        }),
+      };
+    }
+    return { result: '0x64' };
+  }, requests);
+
+describe('getTransfers', () => {
+  const history: RpcObject[] = [
+    transferLog(10, 0, ALICE, BOB),
+    transferLog(10, 2, BOB, ALICE),
+    transferLog(25, 1, ALICE, ALICE),
+    transferLog(40, 0, BOB, BOB),
+    transferLog(70, 3, BOB, ALICE),
+  ];
+
+  test('merges transfers in and out, with block timestamps', async () => {
+    const page = await erc20.getTransfers(ALICE, stateWithLogs(history), {
+      toBlock: 100,
+    });
+
+    expect(page.cursor).toBeNull();
+    expect(
+      page.transfers.map(
+        ({ blockNumber, logIndex, timestamp, value }: Erc20Transfer) => [
+          blockNumber,
+          logIndex,
+          timestamp,
+          value,
+        ]
+      )
+    ).toEqual([
+      [10, 0, 1000, BigInt(100)],
+      [10, 2, 1000, BigInt(102)],
+      [25, 1, 2500, BigInt(251)],
+      [70, 3, 7000, BigInt(703)],
+    ]);
+    expect(page.transfers[0]).toMatchObject({
+      contractAddress: TOKEN,
+      from: ALICE,
+      to: BOB,
+    });
+  });
+
+  test('paginates with a cursor', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateWithLogs(history, requests);
+    const pages: [number, number][][] = [];
+
+    let cursor: string | undefined;
+    do {
+      const page = await erc20.getTransfers(ALICE, state, {
+        fromBlock: 0,
+        limit: 1,
+        blockRange: 20,
+        cursor,
+      });
+      pages.push(
+        page.transfers.map(({ blockNumber, logIndex }: Erc20Transfer) => [
+          blockNumber,
+          logIndex,
+        ])
+      );
+      cursor = page.cursor;
+    } while (cursor);
+
+    expect(pages).toEqual([[[10, 0]], [[10, 2]], [[25, 1]], [[70, 3]], []]);
+    expect(
+      requests.filter(
+        ({ method }: JsonRpcRequestPayload) => method === 'eth_blockNumber'
+      )
+    ).toHaveLength(1);
+  });
+
+  test('caps the block ranges queried per page', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const page = await erc20.getTransfers(
+      ALICE,
+      stateWithLogs(history, requests),
+      { fromBlock: 30, toBlock: 100, blockRange: 10, maxRanges: 2 }
+    );
+
+    expect(page.transfers).toEqual([]);
+    expect(page.cursor).toBe('50:0:100');
+    expect(
+      requests.filter(
+        ({ method }: JsonRpcRequestPayload) => method === 'eth_getLogs'
+      )
+    ).toHaveLength(4);
+  });
+
+  test('rejects invalid cursors', async () => {
+    await expect(
+      erc20.getTransfers(ALICE, stateWithLogs(history), { cursor: 'nope' })
+    ).rejects.toThrow('[erc20/getTransfers] error: Invalid cursor nope');
+  });
+
+  test('reads ERC1155 single and batch transfers', async () => {
+    const single: RpcObject = {
+      ...transferLog(5, 0, ALICE, BOB),
+      topics: [
+        abi.getEventTopic(ERC1155_EVENTS.TransferSingle),
+        topic(ALICE),
+        topic(ALICE),
+        topic(BOB),
+      ],
+      data: abi.encodeParameters(
+        ['uint256', 'uint256'],
+        [BigInt(7), BigInt(1)]
+      ),
+    };
+    const batch: RpcObject = {
+      ...single,
+      logIndex: '0x1',
+      topics: [
+        abi.getEventTopic(ERC1155_EVENTS.TransferBatch),
+        topic(BOB),
+        topic(BOB),
+        topic(ALICE),
+      ],
+      data: abi.encodeParameters(
+        ['uint256[]', 'uint256[]'],
+        [
+          [BigInt(1), BigInt(2)],
+          [BigInt(3), BigInt(4)],
+        ]
+      ),
+    };
+
+    const page = await erc1155.getTransfers(
+      ALICE,
+      stateWithLogs([single, batch]),
+      { toBlock: 10 }
+    );
+
+    expect(page.transfers).toEqual([
+      expect.objectContaining({
+        operator: ALICE,
+        ids: [BigInt(7)],
+        values: [BigInt(1)],
+      }),
+      expect.objectContaining({
+        operator: BOB,
+        ids: [BigInt(1), BigInt(2)],
+        values: [BigInt(3), BigInt(4)],
+      }),
+    ]);
+  });
+});
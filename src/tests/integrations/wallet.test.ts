@@ -0,0 +1,270 @@
+import { describe, expect, test } from '@jest/globals';
+
+import { wallet } from '../../integrations/wallet.js';
+import { State } from '../../lib/client/ethereumClient.js';
+import { TransactionRevertedError } from '../../lib/errors/errors.js';
+import { TransactionReceipt } from '../../lib/interfaces/chain.js';
+import { JsonRpcRequestPayload } from '../../lib/interfaces/jsonRpcRequest.js';
+import { TypedData } from '../../lib/interfaces/typedData.js';
+import { createPrivateKeySigner } from '../../lib/signer/privateKey.js';
+import { signature } from '../../utils/signature.js';
+import { typedData } from '../../utils/typedData.js';
+import { stateAnswering } from '../helpers/state.js';
+
+const PRIVATE_KEY: string = `0x${'46'.repeat(32)}`;
+const SENDER: string = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+const RECIPIENT: string = '0x3535353535353535353535353535353535353535';
+
+/**
+ * Answers the requests made while preparing a transaction, for a chain with or without base fee.
+ */
+const node =
+  (baseFeePerGas?: string) =>
+  ({ method }: JsonRpcRequestPayload): { result: unknown } => {
+    switch (method) {
+      case 'eth_chainId':
+        return { result: '0x1' };
+      case 'eth_getTransactionCount':
+        return { result: '0x9' };
+      case 'eth_getBlockByNumber':
+        return {
+          result: {
+            number: '0x1',
+            timestamp: '0x0',
+            gasLimit: '0x0',
+            gasUsed: '0x0',
+            size: '0x0',
+            baseFeePerGas,
+          },
+        };
+      case 'eth_maxPriorityFeePerGas':
+        return { result: '0x3b9aca00' };
+      case 'eth_gasPrice':
+        return { result: '0x4a817c800' };
+      case 'eth_estimateGas':
+        return { result: '0x5208' };
+      default:
+        return { result: `0x${'ab'.repeat(32)}` };
+    }
+  };
+
+describe('wallet.prepareTransaction', () => {
+  test('fills the chain id, nonce, EIP-1559 fees and gas', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(node('0x77359400'), requests);
+
+    await expect(
+      wallet.prepareTransaction(
+        { to: RECIPIENT.toLowerCase(), value: BigInt(1) },
+        state
+      )
+    ).resolves.toEqual({
+      type: 2,
+      chainId: 1,
+      nonce: 9,
+      to: RECIPIENT,
+      value: BigInt(1),
+      maxPriorityFeePerGas: BigInt(1000000000),
+      maxFeePerGas: BigInt(5000000000),
+      gas: BigInt(21000),
+    });
+    expect(
+      requests.find(({ method }) => method === 'eth_getTransactionCount').params
+    ).toEqual([SENDER, 'pending']);
+    expect(
+      requests.find(({ method }) => method === 'eth_estimateGas').params
+    ).toEqual([{ from: SENDER, to: RECIPIENT, value: '0x1' }]);
+  });
+
+  test('falls back to legacy transactions without base fee', async () => {
+    const prepared = await wallet.prepareTransaction(
+      { to: RECIPIENT },
+      stateAnswering(node())
+    );
+
+    expect(prepared).toMatchObject({
+      type: 0,
+      gasPrice: BigInt(20000000000),
+    });
+    expect(prepared.maxFeePerGas).toBeUndefined();
+  });
+
+  test('keeps the fields that are set and caches the chain id', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(node(), requests);
+    const request = {
+      to: RECIPIENT,
+      nonce: 3,
+      gasPrice: BigInt(1),
+      gas: BigInt(50000),
+    };
+
+    await wallet.prepareTransaction(request, state);
+    await wallet.prepareTransaction(request, state);
+
+    expect(requests.map(({ method }) => method)).toEqual(['eth_chainId']);
+  });
+
+  test('requires a signer', async () => {
+    const state: State = {
+      ...stateAnswering(node()),
+      signer: undefined,
+    };
+
+    await expect(
+      wallet.prepareTransaction({ to: RECIPIENT }, state)
+    ).rejects.toThrow(
+      '[wallet/prepareTransaction] error: No signer configured, set the signer option of the client'
+    );
+  });
+});
+
+describe('wallet.sendTransaction', () => {
+  test('signs and broadcasts the transaction', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(node(), requests);
+
+    const { hash } = await wallet.sendTransaction(
+      {
+        to: RECIPIENT,
+        value: BigInt('1000000000000000000'),
+        gasPrice: BigInt(20000000000),
+      },
+      state
+    );
+
+    expect(hash).toBe(`0x${'ab'.repeat(32)}`);
+    expect(requests[requests.length - 1]).toMatchObject({
+      method: 'eth_sendRawTransaction',
+      params: [
+        await createPrivateKeySigner(PRIVATE_KEY).signTransaction({
+          type: 0,
+          chainId: 1,
+          nonce: 9,
+          to: RECIPIENT,
+          value: BigInt('1000000000000000000'),
+          gasPrice: BigInt(20000000000),
+          gas: BigInt(21000),
+        }),
+      ],
+    });
+  });
+});
+
+describe('wallet.waitForTransaction', () => {
+  const HASH: string = `0x${'cd'.repeat(32)}`;
+
+  /**
+   * Answers with no receipt for the first polls, then a receipt mined in block 100, while the chain head advances.
+   */
+  const mining = (status: string, pendingPolls: number = 1) => {
+    let polls: number = 0;
+    let head: number = 100;
+    return ({ method }: JsonRpcRequestPayload): { result: unknown } => {
+      if (method === 'eth_blockNumber') {
+        return { result: `0x${(head++).toString(16)}` };
+      }
+      return {
+        result:
+          polls++ < pendingPolls
+            ? null
+            : {
+                transactionHash: HASH,
+                transactionIndex: '0x0',
+                blockHash: `0x${'ef'.repeat(32)}`,
+                blockNumber: '0x64',
+                from: SENDER,
+                to: RECIPIENT,
+                status,
+                gasUsed: '0x5208',
+                cumulativeGasUsed: '0x5208',
+                logs: [],
+              },
+      };
+    };
+  };
+
+  test('polls the receipt until the transaction has enough confirmations', async () => {
+    const requests: JsonRpcRequestPayload[] = [];
+    const state: State = stateAnswering(mining('0x1'), requests);
+
+    const receipt: TransactionReceipt = await wallet.waitForTransaction(
+      HASH,
+      state,
+      2,
+      { pollingInterval: 1 }
+    );
+
+    expect(receipt).toMatchObject({ blockNumber: 100, status: 'success' });
+    expect(requests.map(({ method }) => method)).toEqual([
+      'eth_getTransactionReceipt',
+      'eth_getTransactionReceipt',
+      'eth_blockNumber',
+      'eth_getTransactionReceipt',
+      'eth_blockNumber',
+    ]);
+  });
+
+  test('throws the receipt of reverted transactions', async () => {
+    const state: State = stateAnswering(mining('0x0', 0));
+
+    const error: TransactionRevertedError = await wallet
+      .waitForTransaction(HASH, state)
+      .then(
+        () => null,
+        (e: TransactionRevertedError) => e
+      );
+
+    expect(error).toBeInstanceOf(TransactionRevertedError);
+    expect(error.message).toBe(
+      `[wallet/waitForTransaction] error: Transaction ${HASH} reverted`
+    );
+    expect(error.receipt.status).toBe('reverted');
+  });
+
+  test('is returned by sendTransaction', async () => {
+    const state: State = stateAnswering((payload: JsonRpcRequestPayload) =>
+      payload.method === 'eth_getTransactionReceipt'
+        ? mining('0x1', 0)(payload)
+        : node()(payload)
+    );
+
+    const { wait } = await wallet.sendTransaction(
+      { to: RECIPIENT, gasPrice: BigInt(20000000000) },
+      state
+    );
+
+    await expect(wait()).resolves.toMatchObject({ transactionHash: HASH });
+  });
+});
+
+describe('wallet.signMessage', () => {
+  test('signs the EIP-191 hash of the message', async () => {
+    const signed: string = await wallet.signMessage(
+      'hello world',
+      stateAnswering(node())
+    );
+
+    expect(
+      signature.recoverAddress(signature.hashMessage('hello world'), signed)
+    ).toBe(SENDER);
+  });
+});
+
+describe('wallet.signTypedData', () => {
+  test('signs the EIP-712 hash of the message', async () => {
+    const data: TypedData = {
+      domain: { name: 'Exchange', version: '1', chainId: 1 },
+      types: { Order: [{ name: 'amount', type: 'uint256' }] },
+      primaryType: 'Order',
+      message: { amount: BigInt(1) },
+    };
+
+    const signed: string = await wallet.signTypedData(
+      data,
+      stateAnswering(node())
+    );
+
+    expect(signature.recoverAddress(typedData.hash(data), signed)).toBe(SENDER);
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  Ens,
+  Erc1155,
+  Erc1271,
+  Erc20,
+  Erc721,
+  Multicall3,
+  Permit2,
+  Revert,
+} from '../../lib/interfaces/ethMethods.js';
+import { selector } from '../../utils/keccak.js';
+import { describe, expect, test } from '@jest/globals';
+
+const signatures: {
+  [standard: string]: {
+    selectors: { [key: string]: string };
+    signatures: { [key: string]: string };
+  };
+} = {
+  Erc20: {
+    selectors: Erc20,
+    signatures: {
+      BalanceOf: 'balanceOf(address)',
+      TotalSupply: 'totalSupply()',
+      Name: 'name()',
+      Symbol: 'symbol()',
+      Decimals: 'decimals()',
+      Transfer: 'transfer(address,uint256)',
+      Approve: 'approve(address,uint256)',
+      Allowance: 'allowance(address,address)',
+      TransferFrom: 'transferFrom(address,address,uint256)',
+      Nonces: 'nonces(address)',
+      DomainSeparator: 'DOMAIN_SEPARATOR()',
+      Version: 'version()',
+    },
+  },
+  Permit2: {
+    selectors: Permit2,
+    signatures: {
+      Allowance: 'allowance(address,address,address)',
+    },
+  },
+  Erc721: {
+    selectors: Erc721,
+    signatures: {
+      BalanceOf: 'balanceOf(address)',
+      OwnerOf: 'ownerOf(uint256)',
+      TransferFrom: 'transferFrom(address,address,uint256)',
+      TokenURI: 'tokenURI(uint256)',
+      Approve: 'approve(address,uint256)',
+      GetApproved: 'getApproved(uint256)',
+      SetApprovalForAll: 'setApprovalForAll(address,bool)',
+    },
+  },
+  Erc1155: {
+    selectors: Erc1155,
+    signatures: {
+      BalanceOf: 'balanceOf(address,uint256)',
+      BalanceOfBatch: 'balanceOfBatch(address[],uint256[])',
+      SafeTransferFrom:
+        'safeTransferFrom(address,address,uint256,uint256,bytes)',
+      SafeBatchTransferFrom:
+        'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)',
+      SetApprovalForAll: 'setApprovalForAll(address,bool)',
+      IsApprovedForAll: 'isApprovedForAll(address,address)',
+      Uri: 'uri(uint256)',
+    },
+  },
+  Erc1271: {
+    selectors: Erc1271,
+    signatures: {
+      IsValidSignature: 'isValidSignature(bytes32,bytes)',
+    },
+  },
+  Multicall3: {
+    selectors: Multicall3,
+    signatures: {
+      Aggregate3: 'aggregate3((address,bool,bytes)[])',
+    },
+  },
+  Revert: {
+    selectors: Revert,
+    signatures: {
+      Error: 'Error(string)',
+      Panic: 'Panic(uint256)',
+    },
+  },
+  Ens: {
+    selectors: Ens,
+    signatures: {
+      Resolver: 'resolver(bytes32)',
+      Addr: 'addr(bytes32)',
+      Name: 'name(bytes32)',
+      Text: 'text(bytes32,string)',
+      ContentHash: 'contenthash(bytes32)',
+      SupportsInterface: 'supportsInterface(bytes4)',
+      Resolve: 'resolve(bytes,bytes)',
+      OffchainLookup: 'OffchainLookup(address,string[],bytes,bytes4,bytes)',
+    },
+  },
+};
+
+describe.each(Object.keys(signatures))('%s selectors', (standard: string) => {
+  const { selectors, signatures: canonical } = signatures[standard];
+
+  test('every entry has a canonical signature', () => {
+    expect(Object.keys(selectors).sort()).toEqual(
+      Object.keys(canonical).sort()
+    );
+  });
+
+  test.each(Object.keys(canonical))('%s matches its signature', (key) => {
+    expect(selectors[key]).toBe(selector(canonical[key]));
+  });
+});
@@ -40,6 +40,13 @@ describe('erc20 Integration Tests', () => {
     );
     expect(totalSupply).toBe(totalSupply);
   });
+
+  it('successfully fetches erc20 decimals', async () => {
+    const decimals = await ethereumInstance.erc20.getDecimals(
+      '0xdAC17F958D2ee523a2206206994597C13D831ec7'
+    );
+    expect(decimals).toBe(6);
+  });
 });
 
 describe('erc721 Integration Tests', () => {
@@ -0,0 +1,25 @@
+import { describe, expect, test } from '@jest/globals';
+
+import { createPrivateKeySigner } from '../../../lib/signer/privateKey.js';
+import { hex } from '../../../utils/hex.js';
+import { keccak256 } from '../../../utils/keccak.js';
+import { secp256k1 } from '../../../utils/secp256k1.js';
+
+describe('createPrivateKeySigner', () => {
+  test('derives the address and signs hashes', async () => {
+    const privateKey: string = `0x${'46'.repeat(32)}`;
+    const signer = createPrivateKeySigner(privateKey);
+    const hash: string = keccak256(hex.fromUtf8('hello'));
+
+    expect(signer.address).toBe('0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F');
+    await expect(signer.sign(hash)).resolves.toEqual(
+      secp256k1.sign(hash, privateKey)
+    );
+  });
+
+  test('rejects invalid private keys', () => {
+    expect(() => createPrivateKeySigner('0xnope')).toThrow(
+      '[signer/createPrivateKeySigner] error: Invalid private key'
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { GenericAbortSignal } from 'axios';
+import { describe, expect, test } from '@jest/globals';
+
+import { abortable, sleep } from '../../../lib/transport/abort.js';
+
+/**
+ * Wraps an abort signal, tracking the abort listeners still attached to it.
+ */
+const trackedSignal = (signal: AbortSignal) => {
+  const listeners: Set<unknown> = new Set();
+  const tracked: GenericAbortSignal = {
+    get aborted(): boolean {
+      return signal.aborted;
+    },
+    addEventListener: (
+      type: string,
+      listener: () => void,
+      options?: AddEventListenerOptions
+    ): void => {
+      listeners.add(listener);
+      signal.addEventListener(type, listener, options);
+    },
+    removeEventListener: (type: string, listener: () => void): void => {
+      listeners.delete(listener);
+      signal.removeEventListener(type, listener);
+    },
+  };
+  return { signal: tracked, listeners };
+};
+
+describe('sleep', () => {
+  test('removes its abort listener once the wait is over', async () => {
+    const { signal, listeners } = trackedSignal(new AbortController().signal);
+
+    await sleep(1, signal);
+
+    expect(listeners.size).toBe(0);
+  });
+
+  test('rejects when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const wait = sleep(60000, controller.signal);
+
+    controller.abort();
+
+    await expect(wait).rejects.toThrow('canceled');
+  });
+});
+
+describe('abortable', () => {
+  test('removes its abort listener once the promise settles', async () => {
+    const { signal, listeners } = trackedSignal(new AbortController().signal);
+
+    await expect(abortable(Promise.resolve(1), signal)).resolves.toBe(1);
+    await expect(
+      abortable(Promise.reject(new Error('failed')), signal)
+    ).rejects.toThrow('failed');
+
+    expect(listeners.size).toBe(0);
+  });
+
+  test('rejects as soon as the signal is aborted', async () => {
+    const controller = new AbortController();
+    const pending = abortable(new Promise(() => undefined), controller.signal);
+
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('canceled');
+  });
+});
@@ -0,0 +1,203 @@
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { describe, expect, jest, test } from '@jest/globals';
+
+import { createBatchAdapter } from '../../../lib/transport/batch.js';
+import { rpc } from '../../../integrations/rpc.js';
+import { createState } from '../../../lib/client/ethereumClient.js';
+
+type RpcItem = { jsonrpc: string; id: number; method: string };
+
+/**
+ * Creates a fake adapter that answers every request with `result` set to the method name,
+ * except for 'eth_fail' which returns a JSON-RPC error.
+ */
+const fakeAdapter = () =>
+  jest.fn(
+    async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const body: RpcItem | RpcItem[] = JSON.parse(config.data);
+      const answer = (item: RpcItem) =>
+        item.method === 'eth_fail'
+          ? {
+              jsonrpc: '2.0',
+              id: item.id,
+              error: { code: -32000, message: 'execution reverted' },
+            }
+          : { jsonrpc: '2.0', id: item.id, result: item.method };
+
+      return {
+        data: JSON.stringify(
+          Array.isArray(body) ? body.map(answer).reverse() : answer(body)
+        ),
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+      };
+    }
+  );
+
+const payload = (method: string) => ({
+  jsonrpc: '2.0',
+  method,
+  params: [] as unknown[],
+  id: 1,
+});
+
+describe('createBatchAdapter', () => {
+  test('coalesces concurrent requests into a single batch', async () => {
+    const adapter = fakeAdapter();
+    const instance = axios.create({ adapter: createBatchAdapter(adapter) });
+
+    const responses = await Promise.all(
+      ['eth_blockNumber', 'eth_chainId', 'eth_gasPrice'].map((method) =>
+        instance.post('', payload(method))
+      )
+    );
+
+    expect(adapter).toHaveBeenCalledTimes(1);
+    const batch: RpcItem[] = JSON.parse(adapter.mock.calls[0][0].data);
+    expect(new Set(batch.map((item) => item.id)).size).toBe(3);
+    expect(responses.map((response) => response.data)).toEqual([
+      { jsonrpc: '2.0', id: 1, result: 'eth_blockNumber' },
+      { jsonrpc: '2.0', id: 1, result: 'eth_chainId' },
+      { jsonrpc: '2.0', id: 1, result: 'eth_gasPrice' },
+    ]);
+  });
+
+  test('keeps errors per item', async () => {
+    const instance = axios.create({
+      adapter: createBatchAdapter(fakeAdapter()),
+    });
+
+    const [ok, failed] = await Promise.all([
+      instance.post('', payload('eth_blockNumber')),
+      instance.post('', payload('eth_fail')),
+    ]);
+
+    expect(ok.data.result).toBe('eth_blockNumber');
+    expect(failed.data.error.message).toBe('execution reverted');
+  });
+
+  test('splits batches larger than maxSize', async () => {
+    const adapter = fakeAdapter();
+    const instance = axios.create({
+      adapter: createBatchAdapter(adapter, { maxSize: 2 }),
+    });
+
+    await Promise.all(
+      ['a', 'b', 'c', 'd', 'e'].map((method) =>
+        instance.post('', payload(method))
+      )
+    );
+
+    expect(adapter).toHaveBeenCalledTimes(3);
+  });
+
+  test('rejects every caller when the batch request fails', async () => {
+    const adapter = jest.fn(async (): Promise<AxiosResponse> => {
+      throw new Error('Network Error');
+    });
+    const instance = axios.create({ adapter: createBatchAdapter(adapter) });
+
+    const results = await Promise.allSettled([
+      instance.post('', payload('eth_blockNumber')),
+      instance.post('', payload('eth_chainId')),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      'rejected',
+      'rejected',
+    ]);
+  });
+
+  test('rejects every caller when the batch response cannot be read', async () => {
+    const adapter = jest.fn(
+      async (): Promise<AxiosResponse> => undefined as unknown as AxiosResponse
+    );
+    const instance = axios.create({ adapter: createBatchAdapter(adapter) });
+
+    const results = await Promise.allSettled([
+      instance.post('', payload('eth_blockNumber')),
+      instance.post('', payload('eth_chainId')),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      'rejected',
+      'rejected',
+    ]);
+  });
+
+  test('ignores items of the batch response that are not objects', async () => {
+    const adapter = jest.fn(
+      async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        const body: RpcItem[] = JSON.parse(config.data);
+        return {
+          data: JSON.stringify([
+            null,
+            { jsonrpc: '2.0', id: body[0].id, result: body[0].method },
+          ]),
+          status: 200,
+          statusText: 'OK',
+          headers: {},
+          config,
+        };
+      }
+    );
+    const instance = axios.create({ adapter: createBatchAdapter(adapter) });
+
+    const [ok, missing] = await Promise.allSettled([
+      instance.post('', payload('eth_blockNumber')),
+      instance.post('', payload('eth_chainId')),
+    ]);
+
+    expect(ok.status === 'fulfilled' && ok.value.data.result).toBe(
+      'eth_blockNumber'
+    );
+    expect(missing.status === 'rejected' && missing.reason).toEqual(
+      new Error(
+        '[batch/send] error: No response returned for request eth_chainId'
+      )
+    );
+  });
+
+  test('only batches requests with the same headers and timeout', async () => {
+    const adapter = fakeAdapter();
+    const instance = axios.create({ adapter: createBatchAdapter(adapter) });
+
+    await Promise.all([
+      instance.post('', payload('a')),
+      instance.post('', payload('b')),
+      instance.post('', payload('c'), { headers: { 'x-key': '1' } }),
+      instance.post('', payload('d'), { timeout: 1000 }),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(3);
+    expect(
+      adapter.mock.calls.map(([config]) => ({
+        methods: [JSON.parse(config.data)]
+          .flat()
+          .map((item: RpcItem) => item.method),
+        key: config.headers['x-key'],
+        timeout: config.timeout,
+      }))
+    ).toEqual([
+      { methods: ['a', 'b'], key: undefined, timeout: 0 },
+      { methods: ['c'], key: '1', timeout: 0 },
+      { methods: ['d'], key: undefined, timeout: 1000 },
+    ]);
+  });
+});
+
+describe('rpc.batch', () => {
+  test('returns responses in the order of the calls', async () => {
+    const instance = axios.create({ adapter: fakeAdapter() });
+
+    const responses = await rpc.batch(
+      [{ method: 'eth_blockNumber' }, { method: 'eth_fail' }],
+      createState(instance)
+    );
+
+    expect(responses[0].result).toBe('eth_blockNumber');
+    expect(responses[1].error?.message).toBe('execution reverted');
+  });
+});
@@ -0,0 +1,250 @@
+import axios, {
+  AxiosError,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { describe, expect, jest, test } from '@jest/globals';
+
+import { createClient } from '../../../lib/client/ethereumClient.js';
+import { createFailoverAdapter } from '../../../lib/transport/failover.js';
+
+const payload = {
+  jsonrpc: '2.0',
+  method: 'eth_getBalance',
+  params: ['0xACCOUNT_ADDRESS', 'latest'] as unknown[],
+  id: 1,
+};
+
+/**
+ * Creates a fake adapter answering per endpoint: a result string, 'down' for a network error or 'reverted' for a
+ * JSON-RPC error.
+ */
+const fakeAdapter = (answers: { [url: string]: string }) =>
+  jest.fn(
+    async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const answer = answers[config.baseURL as string];
+      if (answer === 'down') {
+        throw new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED', config);
+      }
+      return {
+        data: JSON.stringify(
+          answer === 'reverted'
+            ? {
+                jsonrpc: '2.0',
+                id: 1,
+                error: { code: 3, message: 'execution reverted' },
+              }
+            : { jsonrpc: '2.0', id: 1, result: answer }
+        ),
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+      };
+    }
+  );
+
+const urls = (adapter: ReturnType<typeof fakeAdapter>) =>
+  adapter.mock.calls.map(([config]) => config.baseURL);
+
+describe('createFailoverAdapter', () => {
+  test('fails over to the next endpoint and skips it during the cooldown', async () => {
+    const adapter = fakeAdapter({ a: 'down', b: '0x1' });
+    const instance = axios.create({
+      adapter: createFailoverAdapter(adapter, ['a', 'b']),
+    });
+
+    const first = await instance.post('', payload);
+    const second = await instance.post('', payload);
+
+    expect(first.data.result).toBe('0x1');
+    expect(second.data.result).toBe('0x1');
+    expect(urls(adapter)).toEqual(['a', 'b', 'b']);
+  });
+
+  test('tries endpoints in cooldown when every endpoint failed', async () => {
+    const adapter = fakeAdapter({ a: 'down', b: 'down' });
+    const instance = axios.create({
+      adapter: createFailoverAdapter(adapter, ['a', 'b']),
+    });
+
+    await expect(instance.post('', payload)).rejects.toThrow('ECONNREFUSED');
+    await expect(instance.post('', payload)).rejects.toThrow('ECONNREFUSED');
+    expect(urls(adapter)).toEqual(['a', 'b', 'a', 'b']);
+  });
+
+  test('rotates between endpoints with round-robin', async () => {
+    const adapter = fakeAdapter({ a: '0x1', b: '0x1', c: '0x1' });
+    const instance = axios.create({
+      adapter: createFailoverAdapter(adapter, ['a', 'b', 'c'], {
+        strategy: 'round-robin',
+      }),
+    });
+
+    for (let i = 0; i < 4; i++) {
+      await instance.post('', payload);
+    }
+
+    expect(urls(adapter)).toEqual(['a', 'b', 'c', 'a']);
+  });
+
+  test('sends endpoint specific credentials', async () => {
+    const adapter = fakeAdapter({ a: '0x1' });
+    const instance = axios.create({
+      adapter: createFailoverAdapter(adapter, [
+        { url: 'a', apiKey: 'KEY', headers: { 'x-client': 'test' } },
+      ]),
+    });
+
+    await instance.post('', payload);
+
+    const headers = adapter.mock.calls[0][0].headers;
+    expect(headers.get('Authorization')).toBe('Bearer KEY');
+    expect(headers.get('x-client')).toBe('test');
+  });
+
+  test('only sends the client api key to the primary endpoint', async () => {
+    const adapter = fakeAdapter({ a: 'down', b: 'down', c: '0x1' });
+    const getAdapter = jest.spyOn(axios, 'getAdapter').mockReturnValue(adapter);
+
+    const client = createClient({
+      endpoint: 'a',
+      endpoints: ['b', { url: 'c', apiKey: 'BACKUP_KEY' }],
+      apiKey: 'PRIMARY_KEY',
+      retry: false,
+    });
+    await client.chain.getBlockNumber();
+    getAdapter.mockRestore();
+
+    expect(
+      adapter.mock.calls.map(([config]) => [
+        config.baseURL,
+        config.headers.get('Authorization'),
+      ])
+    ).toEqual([
+      ['a', 'Bearer PRIMARY_KEY'],
+      ['b', undefined],
+      ['c', 'Bearer BACKUP_KEY'],
+    ]);
+  });
+
+  test('resolves once a quorum of endpoints agree', async () => {
+    const adapter = fakeAdapter({ a: '0x1', b: '0x2', c: '0x1' });
+    const instance = axios.create({
+      adapter: createFailoverAdapter(adapter, ['a', 'b', 'c'], {
+        strategy: 'quorum',
+      }),
+    });
+
+    const response = await instance.post('', payload);
+
+    expect(response.data.result).toBe('0x1');
+  });
+
+  test('skips endpoints in cooldown while enough endpoints are healthy', async () => {
+    const answers: { [url: string]: string } = {
+      a: 'down',
+      b: '0x1',
+      c: '0x1',
+      d: '0x2',
+    };
+    const adapter = fakeAdapter(answers);
+    const instance = axios.create({
+      adapter: createFailoverAdapter(adapter, ['a', 'b', 'c', 'd'], {
+        strategy: 'quorum',
+        quorum: 2,
+      }),
+    });
+
+    await instance.post('', { ...payload, method: 'eth_blockNumber' });
+    answers.a = '0x2';
+    const response = await instance.post('', payload);
+
+    expect(response.data.result).toBe('0x1');
+    expect(urls(adapter)).toEqual(['a', 'b', 'b', 'c', 'd']);
+  });
+
+  test('asks endpoints in cooldown when too few are healthy for the quorum', async () => {
+    const answers: { [url: string]: string } = { a: 'down', b: '0x1' };
+    const adapter = fakeAdapter(answers);
+    const instance = axios.create({
+      adapter: createFailoverAdapter(adapter, ['a', 'b'], {
+        strategy: 'quorum',
+      }),
+    });
+
+    await instance.post('', { ...payload, method: 'eth_blockNumber' });
+    answers.a = '0x1';
+    const response = await instance.post('', payload);
+
+    expect(response.data.result).toBe('0x1');
+    expect(urls(adapter)).toEqual(['a', 'b', 'b', 'a']);
+  });
+
+  test('rejects when endpoints disagree', async () => {
+    const adapter = fakeAdapter({ a: '0x1', b: '0x2', c: 'down' });
+    const instance = axios.create({
+      adapter: createFailoverAdapter(adapter, ['a', 'b', 'c'], {
+        strategy: 'quorum',
+      }),
+    });
+
+    await expect(instance.post('', payload)).rejects.toThrow(
+      '[failover/quorum] error'
+    );
+  });
+
+  test('only checks the quorum methods against the quorum', async () => {
+    const adapter = fakeAdapter({ a: '0x1', b: '0x2', c: '0x3' });
+    const instance = axios.create({
+      adapter: createFailoverAdapter(adapter, ['a', 'b', 'c'], {
+        strategy: 'quorum',
+      }),
+    });
+
+    const response = await instance.post('', {
+      ...payload,
+      method: 'eth_blockNumber',
+      params: [],
+    });
+
+    expect(response.data.result).toBe('0x1');
+    expect(urls(adapter)).toEqual(['a']);
+  });
+
+  test('does not count error responses as agreement', async () => {
+    const adapter = fakeAdapter({ a: 'reverted', b: 'reverted', c: '0x1' });
+    const instance = axios.create({
+      adapter: createFailoverAdapter(adapter, ['a', 'b', 'c'], {
+        strategy: 'quorum',
+      }),
+    });
+
+    await expect(instance.post('', payload)).rejects.toThrow(
+      '[failover/quorum] error'
+    );
+  });
+
+  test('returns the error response when every endpoint returns an error', async () => {
+    const adapter = fakeAdapter({ a: 'reverted', b: 'reverted' });
+    const instance = axios.create({
+      adapter: createFailoverAdapter(adapter, ['a', 'b'], {
+        strategy: 'quorum',
+      }),
+    });
+
+    const response = await instance.post('', payload);
+
+    expect(response.data.error.message).toBe('execution reverted');
+  });
+
+  test('validates the configuration', () => {
+    const adapter = fakeAdapter({});
+    expect(() => createFailoverAdapter(adapter, [])).toThrow(
+      'No endpoints provided'
+    );
+    expect(() =>
+      createFailoverAdapter(adapter, ['a'], { strategy: 'quorum', quorum: 2 })
+    ).toThrow('Quorum must be between 1 and 1');
+  });
+});
@@ -0,0 +1,207 @@
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { describe, expect, jest, test } from '@jest/globals';
+
+import { multicall } from '../../../integrations/multicall.js';
+import { createState } from '../../../lib/client/ethereumClient.js';
+import { Erc20, Multicall3 } from '../../../lib/interfaces/ethMethods.js';
+import {
+  MULTICALL3_ADDRESS,
+  createMulticallAdapter,
+  decodeAggregate3,
+  encodeAggregate3,
+} from '../../../lib/transport/multicall.js';
+import { abi } from '../../../utils/abi.js';
+
+const TOKEN = '0x6b175474e89094c44da98b954eedeac495271d0f';
+const REVERT = '0x08c379a0';
+
+/**
+ * Runs a call against a fake token: `decimals()` returns 18, anything else reverts.
+ */
+const execute = (callData: string): [boolean, string] =>
+  callData === Erc20.Decimals
+    ? [true, abi.encodeParameters(['uint8'], [18])]
+    : [false, REVERT];
+
+/**
+ * Creates a fake adapter that implements Multicall3 `aggregate3` and plain `eth_call` with {@link execute}.
+ * Multicall3 has no code at block '0x1'.
+ */
+const fakeAdapter = () =>
+  jest.fn(
+    async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const body = JSON.parse(config.data);
+      const [call] = body.params;
+      let item: object;
+
+      if (call.to === MULTICALL3_ADDRESS && body.params[1] === '0x1') {
+        item = { result: '0x' };
+      } else if (call.to === MULTICALL3_ADDRESS) {
+        expect(call.data.slice(0, 10)).toBe(Multicall3.Aggregate3);
+        const [calls] = abi.decodeParameters(
+          ['(address,bool,bytes)[]'],
+          `0x${call.data.slice(10)}`
+        ) as [[string, boolean, string][]];
+        item = {
+          result: abi.encodeParameters(
+            ['(bool,bytes)[]'],
+            [calls.map(([, , callData]) => execute(callData))]
+          ),
+        };
+      } else {
+        const [success, returnData] = execute(call.data);
+        item = success
+          ? { result: returnData }
+          : { error: { code: 3, message: 'execution reverted' } };
+      }
+
+      return {
+        data: JSON.stringify({ jsonrpc: '2.0', id: body.id, ...item }),
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+      };
+    }
+  );
+
+const ethCall = (data: string, block: unknown = 'latest') => ({
+  jsonrpc: '2.0',
+  method: 'eth_call',
+  params: [{ to: TOKEN, data }, block],
+  id: 1,
+});
+
+describe('aggregate3 coder', () => {
+  test('round trips calls and results', () => {
+    const data = encodeAggregate3([
+      { target: TOKEN, allowFailure: true, callData: Erc20.Decimals },
+    ]);
+    expect(data.slice(0, 10)).toBe(Multicall3.Aggregate3);
+
+    const result = abi.encodeParameters(
+      ['(bool,bytes)[]'],
+      [[[false, REVERT]]]
+    );
+    expect(decodeAggregate3(result)).toEqual([
+      { success: false, returnData: REVERT },
+    ]);
+  });
+});
+
+describe('createMulticallAdapter', () => {
+  test('aggregates concurrent calls at the same block', async () => {
+    const adapter = fakeAdapter();
+    const instance = axios.create({
+      adapter: createMulticallAdapter(adapter),
+    });
+
+    const [decimals, reverted] = await Promise.all([
+      instance.post('', ethCall(Erc20.Decimals)),
+      instance.post('', ethCall(Erc20.Name)),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(BigInt(decimals.data.result)).toBe(BigInt(18));
+    expect(reverted.data.error).toEqual({
+      code: 3,
+      message: 'execution reverted',
+      data: REVERT,
+    });
+  });
+
+  test('keeps calls at different blocks apart', async () => {
+    const adapter = fakeAdapter();
+    const instance = axios.create({
+      adapter: createMulticallAdapter(adapter),
+    });
+
+    await Promise.all([
+      instance.post('', ethCall(Erc20.Decimals, 'latest')),
+      instance.post('', ethCall(Erc20.Decimals, '0x1')),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+    adapter.mock.calls.forEach(([config]) =>
+      expect(JSON.parse(config.data).params[0].to).toBe(TOKEN)
+    );
+  });
+
+  test('sends the calls individually when Multicall3 has no code at the block', async () => {
+    const adapter = fakeAdapter();
+    const instance = axios.create({
+      adapter: createMulticallAdapter(adapter),
+    });
+
+    const [decimals, reverted] = await Promise.all([
+      instance.post('', ethCall(Erc20.Decimals, '0x1')),
+      instance.post('', ethCall(Erc20.Name, '0x1')),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(3);
+    expect(BigInt(decimals.data.result)).toBe(BigInt(18));
+    expect(reverted.data.error.message).toBe('execution reverted');
+  });
+
+  test('passes through other requests', async () => {
+    const adapter = fakeAdapter();
+    const instance = axios.create({
+      adapter: createMulticallAdapter(adapter),
+    });
+
+    const response = await instance.post('', {
+      ...ethCall(Erc20.Decimals),
+      params: [{ to: TOKEN, data: Erc20.Decimals, from: TOKEN }, 'latest'],
+    });
+
+    expect(BigInt(response.data.result)).toBe(BigInt(18));
+    expect(JSON.parse(adapter.mock.calls[0][0].data).params[0].to).toBe(TOKEN);
+  });
+});
+
+describe('multicall.aggregate', () => {
+  const erc20Abi = [
+    {
+      type: 'function',
+      name: 'decimals',
+      stateMutability: 'view',
+      inputs: [],
+      outputs: [{ name: '', type: 'uint8' }],
+    },
+    {
+      type: 'function',
+      name: 'name',
+      stateMutability: 'view',
+      inputs: [],
+      outputs: [{ name: '', type: 'string' }],
+    },
+  ] as const;
+
+  test('decodes results and reports failures per call', async () => {
+    const instance = axios.create({ adapter: fakeAdapter() });
+
+    const [decimals, name] = await multicall.aggregate(
+      [
+        { address: TOKEN, abi: erc20Abi, functionName: 'decimals' },
+        { address: TOKEN, abi: erc20Abi, functionName: 'name' },
+      ],
+      MULTICALL3_ADDRESS,
+      createState(instance)
+    );
+
+    expect(decimals).toEqual({ status: 'success', result: BigInt(18) });
+    expect(name.status).toBe('failure');
+  });
+
+  test('rejects unknown functions', async () => {
+    const instance = axios.create({ adapter: fakeAdapter() });
+
+    await expect(
+      multicall.aggregate(
+        [{ address: TOKEN, abi: erc20Abi, functionName: 'symbol' }],
+        MULTICALL3_ADDRESS,
+        createState(instance)
+      )
+    ).rejects.toThrow('[multicall/aggregate] error');
+  });
+});
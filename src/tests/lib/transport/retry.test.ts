@@ -0,0 +1,198 @@
+import axios, {
+  AxiosError,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { describe, expect, jest, test } from '@jest/globals';
+
+import {
+  backoff,
+  createRetryAdapter,
+  parseRetryAfter,
+} from '../../../lib/transport/retry.js';
+
+const payload = (method: string) => ({
+  jsonrpc: '2.0',
+  method,
+  params: [] as unknown[],
+  id: 1,
+});
+
+const ok = (
+  config: InternalAxiosRequestConfig,
+  body: object
+): AxiosResponse => ({
+  data: JSON.stringify({ jsonrpc: '2.0', id: 1, ...body }),
+  status: 200,
+  statusText: 'OK',
+  headers: {},
+  config,
+});
+
+const httpError = (
+  config: InternalAxiosRequestConfig,
+  status: number,
+  headers: { [key: string]: string } = {}
+): AxiosError =>
+  new AxiosError('Request failed', 'ERR_BAD_RESPONSE', config, null, {
+    data: '',
+    status,
+    statusText: '',
+    headers,
+    config,
+  });
+
+/**
+ * Creates a fake adapter that fails with the given outcomes before answering with a result.
+ */
+const flakyAdapter = (
+  failures: ((config: InternalAxiosRequestConfig) => AxiosResponse)[]
+) => {
+  let calls = 0;
+  return jest.fn(
+    async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const failure = failures[calls++];
+      return failure ? failure(config) : ok(config, { result: '0x1' });
+    }
+  );
+};
+
+describe('parseRetryAfter', () => {
+  test('parses seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(
+      parseRetryAfter(new Date(Date.now() + 5000).toUTCString())
+    ).toBeGreaterThan(3000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+});
+
+describe('backoff', () => {
+  test('doubles the delay with jitter up to the maximum', () => {
+    for (let attempt = 1; attempt <= 10; attempt++) {
+      const delay = backoff(attempt, 100, 1000);
+      const full = Math.min(1000, 100 * 2 ** (attempt - 1));
+      expect(delay).toBeGreaterThanOrEqual(full / 2);
+      expect(delay).toBeLessThanOrEqual(full);
+    }
+  });
+});
+
+describe('createRetryAdapter', () => {
+  test('retries retryable HTTP statuses', async () => {
+    const adapter = flakyAdapter([
+      (config) => {
+        throw httpError(config, 503);
+      },
+      (config) => {
+        throw httpError(config, 429, { 'retry-after': '0' });
+      },
+    ]);
+    const instance = axios.create({
+      adapter: createRetryAdapter(adapter, { baseDelay: 1 }),
+    });
+
+    const response = await instance.post('', payload('eth_call'));
+
+    expect(adapter).toHaveBeenCalledTimes(3);
+    expect(response.data.result).toBe('0x1');
+  });
+
+  test('retries retryable JSON-RPC error codes', async () => {
+    const adapter = flakyAdapter([
+      (config) =>
+        ok(config, { error: { code: -32005, message: 'limit exceeded' } }),
+    ]);
+    const instance = axios.create({
+      adapter: createRetryAdapter(adapter, { baseDelay: 1 }),
+    });
+
+    const response = await instance.post('', payload('eth_getBalance'));
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(response.data.result).toBe('0x1');
+  });
+
+  test('gives up after the maximum number of attempts', async () => {
+    const adapter = flakyAdapter(
+      new Array(5).fill((config: InternalAxiosRequestConfig) => {
+        throw httpError(config, 502);
+      })
+    );
+    const instance = axios.create({
+      adapter: createRetryAdapter(adapter, { attempts: 2, baseDelay: 1 }),
+    });
+
+    await expect(instance.post('', payload('eth_call'))).rejects.toThrow(
+      'Request failed'
+    );
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+
+  test('does not retry methods that are not reads', async () => {
+    const adapter = flakyAdapter([
+      (config) => {
+        throw httpError(config, 503);
+      },
+    ]);
+    const instance = axios.create({
+      adapter: createRetryAdapter(adapter, { baseDelay: 1 }),
+    });
+
+    await expect(
+      instance.post('', payload('eth_sendRawTransaction'))
+    ).rejects.toThrow('Request failed');
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not retry non retryable errors', async () => {
+    const adapter = flakyAdapter([
+      (config) =>
+        ok(config, { error: { code: 3, message: 'execution reverted' } }),
+    ]);
+    const instance = axios.create({
+      adapter: createRetryAdapter(adapter, { baseDelay: 1 }),
+    });
+
+    const response = await instance.post('', payload('eth_call'));
+
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(response.data.error.code).toBe(3);
+  });
+
+  test('does not retry internal errors by default', async () => {
+    const adapter = flakyAdapter([
+      (config) =>
+        ok(config, { error: { code: -32603, message: 'internal error' } }),
+    ]);
+    const instance = axios.create({
+      adapter: createRetryAdapter(adapter, { baseDelay: 1 }),
+    });
+
+    const response = await instance.post('', payload('eth_call'));
+
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(response.data.error.code).toBe(-32603);
+  });
+
+  test('cancels pending retries when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const adapter = flakyAdapter([
+      (config) => {
+        controller.abort();
+        throw httpError(config, 503);
+      },
+    ]);
+    const instance = axios.create({
+      adapter: createRetryAdapter(adapter, { baseDelay: 60000 }),
+    });
+
+    const request = instance.post('', payload('eth_call'), {
+      signal: controller.signal,
+    });
+
+    await expect(request).rejects.toThrow('canceled');
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+});
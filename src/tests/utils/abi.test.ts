@@ -0,0 +1,223 @@
+import { ERC1155_EVENTS, ERC20_EVENTS } from '../../integrations/logs.js';
+import { EmptyResultError } from '../../lib/errors/errors.js';
+import { abi } from '../../utils/abi.js';
+import { describe, expect, test } from '@jest/globals';
+
+const words = (...values: string[]): string => `0x${values.join('')}`;
+
+describe('encodeParameters', () => {
+  test('encodes static types', () => {
+    expect(abi.encodeParameters(['uint32', 'bool'], [69, true])).toBe(
+      words(
+        '0000000000000000000000000000000000000000000000000000000000000045',
+        '0000000000000000000000000000000000000000000000000000000000000001'
+      )
+    );
+  });
+
+  test('encodes dynamic types with offsets', () => {
+    expect(
+      abi.encodeParameters(
+        ['uint256', 'uint32[]', 'bytes10', 'bytes'],
+        [
+          BigInt(0x123),
+          [0x456, 0x789],
+          '0x31323334353637383930',
+          '0x48656c6c6f2c20776f726c6421',
+        ]
+      )
+    ).toBe(
+      words(
+        '0000000000000000000000000000000000000000000000000000000000000123',
+        '0000000000000000000000000000000000000000000000000000000000000080',
+        '3132333435363738393000000000000000000000000000000000000000000000',
+        '00000000000000000000000000000000000000000000000000000000000000e0',
+        '0000000000000000000000000000000000000000000000000000000000000002',
+        '0000000000000000000000000000000000000000000000000000000000000456',
+        '0000000000000000000000000000000000000000000000000000000000000789',
+        '000000000000000000000000000000000000000000000000000000000000000d',
+        '48656c6c6f2c20776f726c642100000000000000000000000000000000000000'
+      )
+    );
+  });
+
+  test('encodes negative integers as two complement', () => {
+    expect(abi.encodeParameters(['int8'], [-1])).toBe(
+      words('ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff')
+    );
+  });
+
+  test('throws for out of range values, invalid addresses and booleans', () => {
+    expect(() => abi.encodeParameters(['uint8'], [256])).toThrow(
+      '[abi/encode] error: Value 256 out of range for type uint8'
+    );
+    expect(() => abi.encodeParameters(['address'], ['0x1234'])).toThrow(
+      '[abi/encode] error: Invalid address 0x1234'
+    );
+    expect(() => abi.encodeParameters(['bool'], ['false'])).toThrow(
+      '[abi/encode] error: Invalid bool value false'
+    );
+  });
+
+  test('encodes calldata with a selector', () => {
+    expect(
+      abi.encodeFunctionData(
+        '0x70a08231',
+        ['address'],
+        ['0xe45E12B44fCa87e42dbC63A67bF5AA8aB800f459']
+      )
+    ).toBe(
+      '0x70a08231000000000000000000000000e45e12b44fca87e42dbc63a67bf5aa8ab800f459'
+    );
+  });
+});
+
+describe('decodeParameters', () => {
+  test('round-trips nested dynamic arrays, tuples and strings', () => {
+    const types = [
+      'uint256[][]',
+      'string[]',
+      '(address owner,uint96 amount,bytes data)[]',
+      'int256',
+      'bytes32',
+    ];
+    const values = [
+      [[BigInt(1), BigInt(2)], [BigInt(3)]],
+      ['one', 'two', 'three', 'ünïcødé ✓'],
+      [
+        ['0x18cf36d6925026f00a57754757ecd480b92cbefc', BigInt(7), '0x'],
+        ['0xdac17f958d2ee523a2206206994597c13d831ec7', BigInt(8), '0xdeadbeef'],
+      ],
+      BigInt(-42),
+      `0x${'ab'.repeat(32)}`,
+    ];
+
+    expect(
+      abi.decodeParameters(types, abi.encodeParameters(types, values))
+    ).toEqual(values);
+  });
+
+  test('encodes tuples given as named objects', () => {
+    const type = '(address owner,uint256 amount)';
+    const encoded = abi.encodeParameters(
+      [type],
+      [{ owner: '0x18cf36d6925026f00a57754757ecd480b92cbefc', amount: 5 }]
+    );
+
+    expect(abi.decodeParameters([type], encoded)).toEqual([
+      ['0x18cf36d6925026f00a57754757ecd480b92cbefc', BigInt(5)],
+    ]);
+  });
+
+  test('throws on truncated data', () => {
+    expect(() => abi.decodeParameters(['uint256'], '0x1234')).toThrow(
+      '[abi/decode] error: Data is too short'
+    );
+  });
+
+  test('throws an EmptyResultError on empty data', () => {
+    expect(() => abi.decodeParameters(['uint256'], '0x')).toThrow(
+      EmptyResultError
+    );
+    expect(abi.decodeParameters([], '0x')).toEqual([]);
+  });
+});
+
+describe('decodeString', () => {
+  test('decodes ABI encoded strings', () => {
+    expect(
+      abi.decodeString(
+        '0x000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000045553445400000000000000000000000000000000000000000000000000000000'
+      )
+    ).toBe('USDT');
+  });
+
+  test('decodes bytes32 names of legacy tokens', () => {
+    expect(
+      abi.decodeString(
+        '0x4d616b6572000000000000000000000000000000000000000000000000000000'
+      )
+    ).toBe('Maker');
+  });
+
+  test('decodes UTF-8 strings', () => {
+    expect(
+      abi.decodeString(abi.encodeParameters(['string'], ['Ωmega Tøken']))
+    ).toBe('Ωmega Tøken');
+  });
+});
+
+describe('parseType', () => {
+  test('normalizes integer aliases and tuples', () => {
+    expect(abi.parseType('uint[]')).toEqual({ type: 'uint256[]' });
+    expect(abi.formatType(abi.parseType('(address,(uint,bool))[2]'))).toBe(
+      '(address,(uint256,bool))[2]'
+    );
+  });
+});
+
+describe('event logs', () => {
+  const TRANSFER_TOPIC: string =
+    '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+  const ACCOUNT: string = '0xd8da6bf26964af9d7eed9e03e53415d37aa96045';
+  const ACCOUNT_TOPIC: string = `0x${'00'.repeat(12)}${ACCOUNT.slice(2)}`;
+
+  test('builds topic filters from indexed arguments', () => {
+    expect(abi.getEventTopic(ERC20_EVENTS.Transfer)).toBe(TRANSFER_TOPIC);
+    expect(abi.encodeEventTopics(ERC20_EVENTS.Transfer)).toEqual([
+      TRANSFER_TOPIC,
+    ]);
+    expect(
+      abi.encodeEventTopics(ERC20_EVENTS.Transfer, { to: [ACCOUNT, ACCOUNT] })
+    ).toEqual([TRANSFER_TOPIC, null, [ACCOUNT_TOPIC, ACCOUNT_TOPIC]]);
+    expect(
+      abi.encodeEventTopics(ERC1155_EVENTS.URI, { id: BigInt(1) })[1]
+    ).toBe(`0x${'00'.repeat(31)}01`);
+  });
+
+  test('decodes indexed and non-indexed arguments', () => {
+    expect(
+      abi.decodeEventLog(
+        ERC20_EVENTS.Transfer,
+        [TRANSFER_TOPIC, ACCOUNT_TOPIC, `0x${'00'.repeat(32)}`],
+        abi.encodeParameters(['uint256'], [BigInt(1000)])
+      )
+    ).toEqual({
+      from: ACCOUNT,
+      to: `0x${'00'.repeat(20)}`,
+      value: BigInt(1000),
+    });
+  });
+
+  test('hashes indexed strings', () => {
+    const event = {
+      type: 'event',
+      name: 'Registered',
+      inputs: [{ type: 'string', name: 'label', indexed: true }],
+    } as const;
+    const [, label] = abi.encodeEventTopics(event, { label: 'vitalik' });
+
+    expect(
+      abi.decodeEventLog(
+        event,
+        [abi.getEventTopic(event), label as string],
+        '0x'
+      )
+    ).toEqual({
+      label:
+        '0xaf2caa1c2ca1d027f1ac823b529d0a67cd144264b2789fa2ea4d63a67c7103cc',
+    });
+  });
+
+  test('rejects logs of other events', () => {
+    expect(() =>
+      abi.decodeEventLog(
+        ERC20_EVENTS.Transfer,
+        [TRANSFER_TOPIC, ACCOUNT_TOPIC, ACCOUNT_TOPIC, ACCOUNT_TOPIC],
+        '0x'
+      )
+    ).toThrow(
+      '[abi/decodeEventLog] error: Log does not match event Transfer(address,address,uint256)'
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { AxiosInstance } from 'axios';
+import { describe, expect, jest, test } from '@jest/globals';
+
+import { erc20 } from '../../integrations/erc20.js';
+import { erc721 } from '../../integrations/erc721.js';
+import { createState } from '../../lib/client/ethereumClient.js';
+import { InvalidAddressError } from '../../lib/errors/errors.js';
+import { abi } from '../../utils/abi.js';
+import { address } from '../../utils/address.js';
+
+const checksummed: string[] = [
+  '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+  '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+  '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+  '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb',
+];
+
+describe('address.getAddress', () => {
+  test('computes EIP-55 checksums', () => {
+    checksummed.forEach((value: string) => {
+      expect(address.getAddress(value.toLowerCase())).toBe(value);
+      expect(address.getAddress(`0x${value.slice(2).toUpperCase()}`)).toBe(
+        value
+      );
+    });
+  });
+
+  test('rejects malformed addresses and invalid checksums', () => {
+    expect(() =>
+      address.getAddress('5aaeb6053f3e94c9b9a09f33669435e7ef1beaed')
+    ).toThrow(InvalidAddressError);
+    expect(() =>
+      address.getAddress('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beae')
+    ).toThrow('[address/getAddress] error: Invalid address');
+    expect(() =>
+      address.getAddress('0x5AAeb6053F3E94C9b9A09f33669435E7Ef1BeAed')
+    ).toThrow(InvalidAddressError);
+  });
+});
+
+describe('address.isAddress', () => {
+  test('accepts any case unless mixed case with a wrong checksum', () => {
+    expect(address.isAddress(checksummed[0])).toBe(true);
+    expect(address.isAddress(checksummed[0].toLowerCase())).toBe(true);
+    expect(
+      address.isAddress('0x5AAeb6053F3E94C9b9A09f33669435E7Ef1BeAed')
+    ).toBe(false);
+    expect(address.isAddress(BigInt(1))).toBe(false);
+  });
+
+  test('requires a valid checksum in strict mode', () => {
+    expect(address.isAddress(checksummed[0], { strict: true })).toBe(true);
+    expect(
+      address.isAddress(checksummed[0].toLowerCase(), { strict: true })
+    ).toBe(false);
+  });
+});
+
+describe('address.validate', () => {
+  test('rejects invalid addresses with the context of the caller', () => {
+    expect(() =>
+      address.validate(checksummed[0].toLowerCase(), '[erc20/getName]', {
+        strict: true,
+      })
+    ).toThrow(
+      `[erc20/getName] error: Invalid address ${checksummed[0].toLowerCase()} (invalid checksum)`
+    );
+  });
+});
+
+describe('integrations', () => {
+  const mockState = (result: string, strictAddresses: boolean = false) => {
+    const post = jest.fn(async (_url: string, _data: unknown) => ({
+      data: { jsonrpc: '2.0', id: 1, result },
+    }));
+    return {
+      post,
+      state: createState({ post } as unknown as AxiosInstance, {
+        strictAddresses,
+      }),
+    };
+  };
+
+  test('validate addresses before sending requests', async () => {
+    const { post, state } = mockState('0x');
+
+    await expect(
+      erc20.getBalanceOf('0x1234', checksummed[0], state)
+    ).rejects.toThrow('[erc20/getBalanceOf] error: Invalid address 0x1234');
+    await expect(
+      erc20.getName(checksummed[0].toLowerCase(), mockState('0x', true).state)
+    ).rejects.toThrow(InvalidAddressError);
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  test('return checksummed owners', async () => {
+    const owner: string = '0x00000000219ab540356cBB839Cbe05303d7705Fa';
+    const { state } = mockState(abi.encodeParameters(['address'], [owner]));
+
+    await expect(erc721.getOwnerOf(checksummed[0], '1', state)).resolves.toBe(
+      owner
+    );
+  });
+});
@@ -1,4 +1,8 @@
-import { constructEthMethodPayload } from '../../utils/ethCall.js';
+import {
+  constructBatchPayload,
+  constructEthMethodPayload,
+  constructRpcPayload,
+} from '../../utils/ethCall.js';
 
 describe('constructEthMethodPayload', () => {
   test('constructs payload correctly with full parameters', () => {
@@ -57,3 +61,41 @@ describe('constructEthMethodPayload', () => {
     });
   });
 });
+
+describe('constructBatchPayload', () => {
+  test('gives every call a unique id', () => {
+    const payload = constructBatchPayload([
+      { method: 'eth_blockNumber' },
+      { method: 'eth_getBalance', params: ['0xACCOUNT_ADDRESS', 'latest'] },
+    ]);
+
+    expect(payload).toEqual([
+      { jsonrpc: '2.0', method: 'eth_blockNumber', params: [], id: 1 },
+      {
+        jsonrpc: '2.0',
+        method: 'eth_getBalance',
+        params: ['0xACCOUNT_ADDRESS', 'latest'],
+        id: 2,
+      },
+    ]);
+  });
+});
+
+describe('constructRpcPayload', () => {
+  test('passes the params of any method in order', () => {
+    expect(
+      constructRpcPayload('eth_getBlockByNumber', ['latest', false])
+    ).toEqual({
+      jsonrpc: '2.0',
+      method: 'eth_getBlockByNumber',
+      params: ['latest', false],
+      id: 1,
+    });
+    expect(constructRpcPayload('eth_chainId')).toEqual({
+      jsonrpc: '2.0',
+      method: 'eth_chainId',
+      params: [],
+      id: 1,
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import { RpcObject } from '../../lib/interfaces/chain.js';
 import { format } from '../../utils/formatting.js';
 import { describe, expect, test } from '@jest/globals';
 
@@ -41,6 +42,24 @@ describe('formatTokenAmount', () => {
   });
 });
 
+describe('toTokenAmount', () => {
+  test('keeps the raw value alongside the formatted string', () => {
+    expect(format.toTokenAmount('0x0f4240', 6)).toEqual({
+      raw: BigInt(1000000),
+      decimals: 6,
+      formatted: '1',
+    });
+  });
+
+  test('handles "0x" input as zero', () => {
+    expect(format.toTokenAmount('0x', 18)).toEqual({
+      raw: BigInt(0),
+      decimals: 18,
+      formatted: '0',
+    });
+  });
+});
+
 describe('concatAddressesAndIds', () => {
   test('concatenates addresses and IDs correctly', () => {
     const result = format.concatAddressesAndIds(['0xABCDEF'], ['123']);
@@ -71,3 +90,244 @@ describe('cleanHexString', () => {
     );
   });
 });
+
+/**
+ * Deterministic pseudo-random bigint generator so the property tests are reproducible.
+ */
+const createRandom = (seed: number) => {
+  let state = BigInt(seed);
+  return (maxDigits: number): bigint => {
+    state =
+      (state * BigInt('6364136223846793005') + BigInt('1442695040888963407')) %
+      BigInt(2) ** BigInt(64);
+    return state % BigInt(10) ** BigInt(1 + Number(state % BigInt(maxDigits)));
+  };
+};
+
+describe('parseUnits', () => {
+  test('parses decimal strings exactly', () => {
+    expect(format.parseUnits('1.5', 6)).toBe(BigInt(1500000));
+    expect(format.parseUnits('.5', 1)).toBe(BigInt(5));
+    expect(format.parseUnits('-0.000001', 6)).toBe(BigInt(-1));
+    expect(format.parseUnits('123456789012345678901234567890', 18)).toBe(
+      BigInt('123456789012345678901234567890000000000000000000')
+    );
+  });
+
+  test('throws on too many decimal places unless a rounding mode is given', () => {
+    expect(() => format.parseUnits('1.0000001', 6)).toThrow(
+      '[units/parseUnits] error: Value has more than 6 decimal places'
+    );
+    expect(format.parseUnits('1.0000000', 6)).toBe(BigInt(1000000));
+    expect(format.parseUnits('1.0000005', 6, 'trunc')).toBe(BigInt(1000000));
+    expect(format.parseUnits('1.0000005', 6, 'round')).toBe(BigInt(1000001));
+    expect(format.parseUnits('-1.0000005', 6, 'floor')).toBe(BigInt(-1000001));
+    expect(format.parseUnits('-1.0000005', 6, 'ceil')).toBe(BigInt(-1000000));
+    expect(format.parseUnits('0.25', 1, 'halfEven')).toBe(BigInt(2));
+    expect(format.parseUnits('0.35', 1, 'halfEven')).toBe(BigInt(4));
+  });
+
+  test('throws for invalid input', () => {
+    expect(() => format.parseUnits('1e18', 18)).toThrow(
+      '[units/parseUnits] error: Invalid decimal value'
+    );
+    expect(() => format.parseUnits('.', 18)).toThrow(
+      '[units/parseUnits] error: Invalid decimal value'
+    );
+  });
+});
+
+describe('formatUnits', () => {
+  test('formats amounts above 2^53 without losing precision', () => {
+    expect(format.formatUnits(BigInt('9007199254740993000000000001'), 18)).toBe(
+      '9007199254.740993000000000001'
+    );
+    expect(format.formatEther('0xde0b6b3a7640000')).toBe('1');
+    expect(format.formatGwei(BigInt(1500000000))).toBe('1.5');
+    expect(format.parseEther('0.1')).toBe(BigInt('100000000000000000'));
+    expect(format.parseGwei('30')).toBe(BigInt('30000000000'));
+  });
+
+  test('applies precision with rounding modes', () => {
+    expect(format.formatUnits(BigInt(1999999), 6, { precision: 2 })).toBe(
+      '1.99'
+    );
+    expect(
+      format.formatUnits(BigInt(1999999), 6, {
+        precision: 2,
+        rounding: 'round',
+      })
+    ).toBe('2');
+    expect(
+      format.formatUnits(BigInt(-1234567), 6, {
+        precision: 3,
+        rounding: 'floor',
+      })
+    ).toBe('-1.235');
+  });
+
+  test('round-trips with parseUnits for random amounts', () => {
+    const random = createRandom(42);
+    for (let i = 0; i < 500; i++) {
+      const decimals = Number(random(2)) % 40;
+      const amount = random(60) * (i % 2 === 0 ? BigInt(1) : BigInt(-1));
+      expect(
+        format.parseUnits(format.formatUnits(amount, decimals), decimals)
+      ).toBe(amount);
+    }
+  });
+
+  test('rounds to the nearest value for random amounts', () => {
+    const random = createRandom(7);
+    for (let i = 0; i < 500; i++) {
+      const amount = random(40);
+      const rounded = format.parseUnits(
+        format.formatUnits(amount, 18, { precision: 4, rounding: 'round' }),
+        18
+      );
+      const difference = rounded > amount ? rounded - amount : amount - rounded;
+      expect(difference * BigInt(2) <= BigInt(10) ** BigInt(14)).toBe(true);
+    }
+  });
+});
+
+describe('formatTokenAmount precision', () => {
+  test('formats large amounts exactly with thousands separators', () => {
+    expect(
+      format.formatTokenAmount(BigInt('123456789012345678901234567'), 6)
+    ).toBe('123,456,789,012,345,678,901.234567');
+  });
+
+  test('pads weiToEther output to 18 decimals', () => {
+    expect(format.weiToEther('0xde0b6b3a7640000')).toBe('1.000000000000000000');
+  });
+});
+
+describe('toBlockParameter', () => {
+  test('defaults to latest and keeps named tags', () => {
+    expect(format.toBlockParameter()).toBe('latest');
+    expect(format.toBlockParameter('finalized')).toBe('finalized');
+  });
+
+  test('converts block numbers to hex quantities', () => {
+    expect(format.toBlockParameter(19000000)).toBe('0x121eac0');
+    expect(format.toBlockParameter(BigInt(0))).toBe('0x0');
+    expect(format.toBlockParameter('0x000121eac0')).toBe('0x121eac0');
+    expect(format.toBlockParameter('19000000')).toBe('0x121eac0');
+  });
+
+  test('converts block hashes to EIP-1898 objects', () => {
+    const blockHash = `0x${'ab'.repeat(32)}`;
+
+    expect(format.toBlockParameter(blockHash)).toEqual({ blockHash });
+    expect(
+      format.toBlockParameter({ blockHash, requireCanonical: true })
+    ).toEqual({ blockHash, requireCanonical: true });
+    expect(format.toBlockParameter({ blockNumber: 1 })).toEqual({
+      blockNumber: '0x1',
+    });
+  });
+
+  test('throws for invalid identifiers', () => {
+    expect(() => format.toBlockParameter('yesterday')).toThrow(
+      '[format/toBlockParameter] error: Invalid block identifier yesterday'
+    );
+    expect(() => format.toBlockParameter(1.5)).toThrow(
+      '[format/toBlockParameter] error: Block number 1.5 must be a safe integer'
+    );
+    expect(() => format.toBlockParameter(2 ** 53)).toThrow(
+      'must be a safe integer'
+    );
+  });
+});
+
+describe('toReceipt', () => {
+  test('decodes quantities, status and logs', () => {
+    const receipt = format.toReceipt({
+      transactionHash: '0xTRANSACTION_HASH',
+      transactionIndex: '0x1',
+      blockHash: '0xBLOCK_HASH',
+      blockNumber: '0x121eac0',
+      from: '0xACCOUNT_ADDRESS',
+      to: null,
+      contractAddress: '0xCONTRACT_ADDRESS',
+      status: '0x0',
+      type: '0x2',
+      gasUsed: '0x5208',
+      cumulativeGasUsed: '0xa410',
+      effectiveGasPrice: '0x3b9aca00',
+      logs: [
+        {
+          address: '0xCONTRACT_ADDRESS',
+          topics: [],
+          data: '0x',
+          blockNumber: '0x121eac0',
+          logIndex: '0x3',
+          removed: false,
+        },
+      ],
+      logsBloom: '0x00',
+    });
+
+    expect(receipt.status).toBe('reverted');
+    expect(receipt.blockNumber).toBe(19000000);
+    expect(receipt.gasUsed).toBe(BigInt(21000));
+    expect(receipt.effectiveGasPrice).toBe(BigInt(1000000000));
+    expect(receipt.to).toBeNull();
+    expect(receipt.logs[0]).toMatchObject({
+      blockNumber: 19000000,
+      logIndex: 3,
+      transactionHash: null,
+    });
+  });
+});
+
+describe('toBlock', () => {
+  test('decodes blocks with hashes or full transactions', () => {
+    const block: RpcObject = {
+      number: null,
+      hash: null,
+      parentHash: '0xPARENT_HASH',
+      timestamp: '0x65a8f0ef',
+      gasLimit: '0x1c9c380',
+      gasUsed: '0x0',
+      baseFeePerGas: '0x7',
+      extraData: '0x',
+      size: '0x220',
+      stateRoot: '0xSTATE_ROOT',
+      transactionsRoot: '0xTRANSACTIONS_ROOT',
+      receiptsRoot: '0xRECEIPTS_ROOT',
+    };
+
+    expect(
+      format.toBlock({ ...block, transactions: ['0xTRANSACTION_HASH'] })
+    ).toMatchObject({
+      number: null,
+      timestamp: 1705570543,
+      baseFeePerGas: BigInt(7),
+      difficulty: BigInt(0),
+      size: 544,
+      transactions: ['0xTRANSACTION_HASH'],
+    });
+    expect(
+      format.toBlock({
+        ...block,
+        transactions: [
+          {
+            hash: '0xTRANSACTION_HASH',
+            nonce: '0x5',
+            from: '0xACCOUNT_ADDRESS',
+            value: '0xde0b6b3a7640000',
+            gas: '0x5208',
+            input: '0x',
+          },
+        ],
+      }).transactions[0]
+    ).toMatchObject({
+      type: 0,
+      nonce: 5,
+      value: BigInt('1000000000000000000'),
+      blockNumber: null,
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { eventTopic, keccak256, selector } from '../../utils/keccak.js';
+import { hex } from '../../utils/hex.js';
+import { describe, expect, test } from '@jest/globals';
+
+describe('keccak256', () => {
+  test('hashes the empty input', () => {
+    expect(keccak256('0x')).toBe(
+      '0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470'
+    );
+  });
+
+  test('hashes text input', () => {
+    expect(keccak256(hex.fromUtf8('hello'))).toBe(
+      '0x1c8aff950685c2ed4bc3174f3472287b56d9517b9c948127319a09a7a36deac8'
+    );
+  });
+
+  test('hashes input spanning several blocks', () => {
+    expect(keccak256(new Uint8Array(200).fill(97))).toBe(
+      '0x96ea54061def936c4be90b518992fdc6f12f535068a256229aca54267b4d084d'
+    );
+  });
+});
+
+describe('selector', () => {
+  test('computes function selectors', () => {
+    expect(selector('balanceOf(address)')).toBe('0x70a08231');
+    expect(selector('transfer(address, uint256)')).toBe('0xa9059cbb');
+  });
+
+  test('throws for invalid signatures', () => {
+    expect(() => selector('balanceOf')).toThrow(
+      '[keccak/signature] error: Invalid signature balanceOf'
+    );
+  });
+});
+
+describe('eventTopic', () => {
+  test('computes event topics', () => {
+    expect(eventTopic('Transfer(address,address,uint256)')).toBe(
+      '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { contentHash } from '../../utils/contentHash.js';
+import { dnsEncode, namehash, normalize } from '../../utils/namehash.js';
+import { describe, expect, test } from '@jest/globals';
+
+describe('namehash', () => {
+  test('computes the node of names', () => {
+    expect(namehash('')).toBe(`0x${'00'.repeat(32)}`);
+    expect(namehash('eth')).toBe(
+      '0x93cdeb708b7545dc668eb9280176169d1c33cfd8ed6f04690a0bcc88a93fc4ae'
+    );
+    expect(namehash('foo.eth')).toBe(
+      '0xde9b09fd7c5f901e23a3f19fecc54828e9c848539801e86591bd9801b019f84f'
+    );
+  });
+
+  test('normalizes names before hashing', () => {
+    expect(namehash('Foo.ETH')).toBe(namehash('foo.eth'));
+  });
+
+  test('accepts labels given as their hash', () => {
+    expect(
+      namehash(
+        '[41b1a0649752af1b28b3dc29a1556eee781e4a4c3a1f7f53f90fa834de098c4d].[4f5b812789fc606be1b3b16908db13fc7a9adf7ca72641f84d75b47069d3d7f0]'
+      )
+    ).toBe(namehash('foo.eth'));
+  });
+});
+
+describe('normalize', () => {
+  test('rejects empty labels and disallowed characters', () => {
+    expect(() => normalize('foo..eth')).toThrow(
+      '[namehash/normalize] error: Invalid name foo..eth'
+    );
+    expect(() => normalize('foo bar.eth')).toThrow();
+    expect(normalize('Vitalik.ETH')).toBe('vitalik.eth');
+  });
+});
+
+describe('dnsEncode', () => {
+  test('prefixes every label with its length', () => {
+    expect(dnsEncode('vitalik.eth')).toBe('0x07766974616c696b0365746800');
+  });
+});
+
+describe('contentHash.decode', () => {
+  test('decodes IPFS and Swarm content hashes', () => {
+    expect(
+      contentHash.decode(
+        '0xe3010170122029f2d17be6139079dc48696d1f582a8530eb9805b561eda517e22a892c7e3f1f'
+      )
+    ).toBe('ipfs://QmRAQB6YaCyidP37UdDnjFY5vQuiBrcqdyoW1CuDgwxkD4');
+    expect(contentHash.decode(`0xe40101fa011b20${'ab'.repeat(32)}`)).toBe(
+      `bzz://${'ab'.repeat(32)}`
+    );
+  });
+
+  test('rejects unsupported codecs', () => {
+    expect(() => contentHash.decode('0x1234')).toThrow(
+      '[contentHash/decode] error: Unsupported content hash 0x1234'
+    );
+  });
+});
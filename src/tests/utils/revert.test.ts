@@ -0,0 +1,79 @@
+import { abi } from '../../utils/abi.js';
+import { selector } from '../../utils/keccak.js';
+import { revert } from '../../utils/revert.js';
+import { describe, expect, test } from '@jest/globals';
+
+const panic = (code: number): string =>
+  `0x4e487b71${abi.encodeParameters(['uint256'], [BigInt(code)]).slice(2)}`;
+
+describe('revert.decode', () => {
+  test('decodes Error(string) reasons', () => {
+    const data = `0x08c379a0${abi
+      .encodeParameters(['string'], ['Insufficient balance'])
+      .slice(2)}`;
+
+    expect(revert.decode(data)).toMatchObject({
+      errorName: 'Error',
+      reason: 'Insufficient balance',
+    });
+  });
+
+  test('decodes Panic(uint256) codes with their description', () => {
+    expect(revert.decode(panic(0x11))).toMatchObject({
+      errorName: 'Panic',
+      panicCode: BigInt(0x11),
+      panicReason: 'arithmetic underflow or overflow',
+    });
+    expect(revert.decode(panic(0x99)).panicReason).toBe(
+      'unknown panic code 0x99'
+    );
+  });
+
+  test('decodes custom errors declared in the ABI', () => {
+    const errorAbi = [
+      {
+        type: 'error',
+        name: 'InsufficientBalance',
+        inputs: [
+          { name: 'available', type: 'uint256' },
+          { name: 'required', type: 'uint256' },
+        ],
+      },
+    ] as const;
+    const data = `${selector('InsufficientBalance(uint256,uint256)')}${abi
+      .encodeParameters(['uint256', 'uint256'], [BigInt(1), BigInt(2)])
+      .slice(2)}`;
+
+    expect(revert.decode(data, errorAbi)).toMatchObject({
+      errorName: 'InsufficientBalance',
+      args: [BigInt(1), BigInt(2)],
+    });
+    expect(revert.decode(data).errorName).toBeUndefined();
+  });
+});
+
+describe('revert.describe', () => {
+  test('describes panics, custom errors and unknown data', () => {
+    expect(revert.describe(revert.decode(panic(0x12)))).toBe(
+      'Panic(0x12): division or modulo by zero'
+    );
+    expect(revert.describe(revert.decode('0xdeadbeef'))).toBe(
+      'unknown error 0xdeadbeef'
+    );
+    expect(revert.describe(revert.decode('0x'))).toBe('');
+  });
+});
+
+describe('revert.toError', () => {
+  test('exposes the decoded revert on the error', () => {
+    const error = revert.toError('[contract/withdraw]', panic(0x32));
+
+    expect(error).toMatchObject({
+      message:
+        '[contract/withdraw] error: execution reverted: Panic(0x32): array index out of bounds',
+      data: panic(0x32),
+      panicCode: BigInt(0x32),
+      panicReason: 'array index out of bounds',
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, test } from '@jest/globals';
+
+import { hex } from '../../utils/hex.js';
+import { rlp } from '../../utils/rlp.js';
+
+const LOREM: string = hex.fromUtf8(
+  'Lorem ipsum dolor sit amet, consectetur adipisicing elit'
+);
+
+describe('rlp.encode', () => {
+  test('encodes byte strings', () => {
+    expect(rlp.encode(hex.fromUtf8('dog'))).toBe('0x83646f67');
+    expect(rlp.encode('0x')).toBe('0x80');
+    expect(rlp.encode('0x00')).toBe('0x00');
+    expect(rlp.encode('0x7f')).toBe('0x7f');
+    expect(rlp.encode('0x80')).toBe('0x8180');
+    expect(rlp.encode(new Uint8Array([4, 0]))).toBe('0x820400');
+  });
+
+  test('encodes long byte strings', () => {
+    expect(rlp.encode(LOREM)).toBe(`0xb838${hex.strip(LOREM)}`);
+  });
+
+  test('encodes nested lists', () => {
+    expect(rlp.encode([hex.fromUtf8('cat'), hex.fromUtf8('dog')])).toBe(
+      '0xc88363617483646f67'
+    );
+    expect(rlp.encode([])).toBe('0xc0');
+    expect(rlp.encode([[], [[]], [[], [[]]]])).toBe('0xc7c0c1c0c3c0c1c0');
+  });
+});
+
+describe('rlp.decode', () => {
+  test('decodes what it encodes', () => {
+    const value = [LOREM, ['0x', '0x01', [hex.fromUtf8('dog')]], '0x8180'];
+    expect(rlp.decode(rlp.encode(value))).toEqual(value);
+  });
+
+  test('rejects malformed data', () => {
+    expect(() => rlp.decode('0x83646f')).toThrow(
+      '[rlp/decode] error: Unexpected end of data'
+    );
+    expect(() => rlp.decode('0x8100')).toThrow(
+      '[rlp/decode] error: Invalid single byte encoding'
+    );
+    expect(() => rlp.decode('0x83646f6700')).toThrow(
+      '[rlp/decode] error: Trailing bytes after value'
+    );
+  });
+});
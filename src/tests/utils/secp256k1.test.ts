@@ -0,0 +1,84 @@
+import { describe, expect, test } from '@jest/globals';
+
+import { address } from '../../utils/address.js';
+import { hex } from '../../utils/hex.js';
+import { keccak256 } from '../../utils/keccak.js';
+import { secp256k1 } from '../../utils/secp256k1.js';
+import { hmacSha256, sha256 } from '../../utils/sha256.js';
+
+const PRIVATE_KEY: string = `0x${'46'.repeat(32)}`;
+
+describe('sha256', () => {
+  test('hashes inputs', () => {
+    expect(sha256('0x')).toBe(
+      '0xe3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+    expect(sha256(hex.fromUtf8('abc'))).toBe(
+      '0xba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+
+  test('computes HMACs', () => {
+    expect(
+      hmacSha256(
+        hex.fromUtf8('Jefe'),
+        hex.fromUtf8('what do ya want for nothing?')
+      )
+    ).toBe(
+      '0x5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+    );
+  });
+});
+
+describe('secp256k1', () => {
+  test('derives public keys and addresses', () => {
+    const key: string = `0x${'0'.repeat(63)}1`;
+
+    expect(secp256k1.getPublicKey(key, true)).toBe(
+      '0x0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'
+    );
+    expect(address.fromPublicKey(secp256k1.getPublicKey(key))).toBe(
+      '0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf'
+    );
+  });
+
+  test('validates private keys', () => {
+    expect(secp256k1.isValidPrivateKey(PRIVATE_KEY)).toBe(true);
+    expect(secp256k1.isValidPrivateKey(`0x${'00'.repeat(32)}`)).toBe(false);
+    expect(secp256k1.isValidPrivateKey(`0x${'ff'.repeat(32)}`)).toBe(false);
+    expect(() => secp256k1.getPublicKey('0x1234')).toThrow(
+      '[secp256k1/getPublicKey] error: Invalid private key'
+    );
+  });
+
+  test('signs deterministically with a low s value', () => {
+    expect(
+      secp256k1.sign(
+        '0xdaf5a779ae972f972197303d7b574746c7ef83eadac0f2791ad23db92e4c8e53',
+        PRIVATE_KEY
+      )
+    ).toEqual({
+      r: '0x28ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276',
+      s: '0x67cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83',
+      yParity: 0,
+    });
+  });
+
+  test('recovers the public key of a signature', () => {
+    const hash: string = keccak256(hex.fromUtf8('hello'));
+    const signature = secp256k1.sign(hash, PRIVATE_KEY);
+
+    expect(secp256k1.recoverPublicKey(hash, signature)).toBe(
+      secp256k1.getPublicKey(PRIVATE_KEY)
+    );
+    expect(
+      secp256k1.recoverPublicKey(hash, {
+        ...signature,
+        yParity: 1 - signature.yParity,
+      })
+    ).not.toBe(secp256k1.getPublicKey(PRIVATE_KEY));
+    expect(() =>
+      secp256k1.recoverPublicKey(hash, { ...signature, r: '0x00' })
+    ).toThrow('[secp256k1/recoverPublicKey] error: Invalid signature');
+  });
+});
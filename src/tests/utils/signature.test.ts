@@ -0,0 +1,44 @@
+import { describe, expect, test } from '@jest/globals';
+
+import { secp256k1 } from '../../utils/secp256k1.js';
+import { signature } from '../../utils/signature.js';
+
+const PRIVATE_KEY: string = `0x${'46'.repeat(32)}`;
+const SIGNER: string = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+
+describe('signature', () => {
+  test('parses serialized signatures', () => {
+    const serialized: string = `0x${'11'.repeat(32)}${'22'.repeat(32)}1b`;
+
+    expect(signature.parse(serialized)).toEqual({
+      r: `0x${'11'.repeat(32)}`,
+      s: `0x${'22'.repeat(32)}`,
+      yParity: 0,
+    });
+    expect(signature.serialize(signature.parse(serialized))).toBe(serialized);
+    expect(() => signature.parse(`${serialized}00`)).toThrow(
+      '[signature/parse] error: Invalid signature'
+    );
+  });
+
+  test('hashes messages as personal_sign does', () => {
+    expect(signature.hashMessage('hello world')).toBe(
+      '0xd9eba16ed0ecae432b71fe008c98cc872bb4cc214d3220a36f365326cf807d68'
+    );
+    expect(signature.hashMessage(new Uint8Array([0x68, 0x69]))).toBe(
+      signature.hashMessage('hi')
+    );
+  });
+
+  test('recovers the signer of a hash', () => {
+    const hash: string = signature.hashMessage('hello world');
+    const signed: string = signature.serialize(
+      secp256k1.sign(hash, PRIVATE_KEY)
+    );
+
+    expect(signature.recoverAddress(hash, signed)).toBe(SIGNER);
+    expect(
+      signature.recoverAddress(signature.hashMessage('hello'), signed)
+    ).not.toBe(SIGNER);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, expect, test } from '@jest/globals';
+
+import { SiweError } from '../../lib/errors/errors.js';
+import { SiweMessage } from '../../lib/interfaces/siwe.js';
+import { siwe } from '../../utils/siwe.js';
+
+/**
+ * The example message of the EIP-4361 specification.
+ */
+const MESSAGE: string = [
+  'service.org wants you to sign in with your Ethereum account:',
+  '0xe5A12547fe4E872D192E3eCecb76F2Ce1aeA4946',
+  '',
+  'I accept the ServiceOrg Terms of Service: https://service.org/tos',
+  '',
+  'URI: https://service.org/login',
+  'Version: 1',
+  'Chain ID: 1',
+  'Nonce: 32891757',
+  'Issued At: 2021-09-30T16:25:24.000Z',
+  'Resources:',
+  '- ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq/',
+  '- https://example.com/my-web2-claim.json',
+].join('\n');
+
+const FIELDS: SiweMessage = {
+  domain: 'service.org',
+  address: '0xe5A12547fe4E872D192E3eCecb76F2Ce1aeA4946',
+  statement:
+    'I accept the ServiceOrg Terms of Service: https://service.org/tos',
+  uri: 'https://service.org/login',
+  version: '1',
+  chainId: 1,
+  nonce: '32891757',
+  issuedAt: '2021-09-30T16:25:24.000Z',
+  resources: [
+    'ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq/',
+    'https://example.com/my-web2-claim.json',
+  ],
+};
+
+describe('siwe', () => {
+  test('creates and parses the example of the specification', () => {
+    expect(
+      siwe.createMessage({
+        ...FIELDS,
+        address: FIELDS.address.toLowerCase(),
+        issuedAt: new Date(FIELDS.issuedAt),
+      })
+    ).toBe(MESSAGE);
+    expect(siwe.parseMessage(MESSAGE)).toEqual(FIELDS);
+  });
+
+  test('round trips messages without statement and with optional fields', () => {
+    const message: string = siwe.createMessage({
+      scheme: 'https',
+      domain: 'example.com:3000',
+      address: FIELDS.address,
+      uri: 'https://example.com:3000/login',
+      chainId: 137,
+      nonce: 'abcdef0123',
+      issuedAt: '2024-01-01T00:00:00Z',
+      expirationTime: '2024-01-02T00:00:00Z',
+      notBefore: '2024-01-01T00:00:00+01:00',
+      requestId: 'request-1',
+    });
+
+    expect(message.split('\n').slice(0, 5)).toEqual([
+      'https://example.com:3000 wants you to sign in with your Ethereum account:',
+      FIELDS.address,
+      '',
+      '',
+      'URI: https://example.com:3000/login',
+    ]);
+    expect(siwe.parseMessage(message)).toEqual({
+      scheme: 'https',
+      domain: 'example.com:3000',
+      address: FIELDS.address,
+      uri: 'https://example.com:3000/login',
+      version: '1',
+      chainId: 137,
+      nonce: 'abcdef0123',
+      issuedAt: '2024-01-01T00:00:00Z',
+      expirationTime: '2024-01-02T00:00:00Z',
+      notBefore: '2024-01-01T00:00:00+01:00',
+      requestId: 'request-1',
+    });
+  });
+
+  test('round trips messages with an empty statement', () => {
+    const fields: SiweMessage = { ...FIELDS, statement: undefined };
+    const message: string = siwe.createMessage({ ...fields, statement: '' });
+
+    expect(message).toBe(siwe.createMessage(fields));
+    expect(siwe.parseMessage(message)).toEqual(fields);
+  });
+
+  test('generates alphanumeric nonces', () => {
+    const nonce: string = siwe.generateNonce();
+
+    expect(nonce).toMatch(/^[a-f0-9]{32}$/);
+    expect(siwe.generateNonce()).not.toBe(nonce);
+  });
+
+  test('rejects invalid fields', () => {
+    expect(() => siwe.createMessage({ ...FIELDS, nonce: 'short' })).toThrow(
+      '[siwe/createMessage] error: Invalid Nonce short'
+    );
+    expect(() =>
+      siwe.createMessage({ ...FIELDS, statement: 'two\nlines' })
+    ).toThrow(
+      '[siwe/createMessage] error: The statement must be on a single line'
+    );
+  });
+
+  test('rejects malformed messages', () => {
+    const parse = (message: string): SiweError => {
+      try {
+        siwe.parseMessage(message);
+        return null;
+      } catch (e) {
+        return e as SiweError;
+      }
+    };
+
+    expect(parse(MESSAGE.replace('Chain ID: 1', 'Chain ID: one'))).toEqual(
+      new SiweError(
+        '[siwe/parseMessage] error: Invalid Chain ID on line 8',
+        'malformed'
+      )
+    );
+    expect(
+      parse(MESSAGE.replace(FIELDS.address, FIELDS.address.toLowerCase()))
+    ).toMatchObject({ reason: 'malformed' });
+    expect(parse(MESSAGE.replace('Nonce: 32891757\n', '')).message).toBe(
+      '[siwe/parseMessage] error: Expected "Nonce: " on line 9'
+    );
+    expect(parse(`${MESSAGE}\n`).message).toBe(
+      '[siwe/parseMessage] error: Unexpected content on line 14'
+    );
+  });
+
+  test('validates the domain, nonce, chain and validity period', () => {
+    const fields: SiweMessage = {
+      ...FIELDS,
+      expirationTime: '2021-10-01T00:00:00Z',
+      notBefore: '2021-09-30T00:00:00Z',
+    };
+    const time: Date = new Date('2021-09-30T18:00:00Z');
+    const reason = (options: object): string => {
+      try {
+        siwe.validate(fields, {
+          domain: 'service.org',
+          nonce: '32891757',
+          time,
+          ...options,
+        });
+        return null;
+      } catch (e) {
+        return (e as SiweError).reason;
+      }
+    };
+
+    expect(
+      reason({ domain: 'service.org', nonce: '32891757', chainId: 1 })
+    ).toBe(null);
+    expect(reason({ domain: 'evil.org' })).toBe('domain');
+    expect(reason({ domain: undefined })).toBe('domain');
+    expect(reason({ nonce: '' })).toBe('nonce');
+    expect(reason({ nonce: '00000000' })).toBe('nonce');
+    expect(reason({ chainId: 10 })).toBe('chainId');
+    expect(reason({ time: new Date('2021-10-01T00:00:00Z') })).toBe('expired');
+    expect(reason({ time: new Date('2021-09-29T23:59:59Z') })).toBe(
+      'notYetValid'
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, test } from '@jest/globals';
+
+import { createPrivateKeySigner } from '../../lib/signer/privateKey.js';
+import { Signer, TransactionRequest } from '../../lib/interfaces/signer.js';
+import { address } from '../../utils/address.js';
+import { keccak256 } from '../../utils/keccak.js';
+import { RlpValue, rlp } from '../../utils/rlp.js';
+import { secp256k1 } from '../../utils/secp256k1.js';
+import { transaction } from '../../utils/transaction.js';
+
+const signer: Signer = createPrivateKeySigner(`0x${'46'.repeat(32)}`);
+
+/**
+ * The example transaction of EIP-155.
+ */
+const LEGACY: TransactionRequest = {
+  chainId: 1,
+  nonce: 9,
+  gasPrice: BigInt(20000000000),
+  gas: BigInt(21000),
+  to: '0x3535353535353535353535353535353535353535',
+  value: BigInt('1000000000000000000'),
+};
+
+/**
+ * Recovers the sender of a signed typed transaction.
+ */
+const recoverTyped = (serialized: string): string => {
+  const fields = rlp.decode(`0x${serialized.slice(4)}`) as RlpValue[];
+  const [yParity, r, s] = fields.slice(-3) as string[];
+  const unsigned: string = `${serialized.slice(0, 4)}${rlp
+    .encode(fields.slice(0, -3))
+    .slice(2)}`;
+
+  return address.fromPublicKey(
+    secp256k1.recoverPublicKey(keccak256(unsigned), {
+      r: `0x${r.slice(2).padStart(64, '0')}`,
+      s: `0x${s.slice(2).padStart(64, '0')}`,
+      yParity: Number(yParity === '0x' ? 0 : yParity),
+    })
+  );
+};
+
+describe('transaction.getType', () => {
+  test('infers the type from the fee fields', () => {
+    expect(transaction.getType({ gasPrice: BigInt(1) })).toBe(0);
+    expect(transaction.getType({ gasPrice: BigInt(1), accessList: [] })).toBe(
+      1
+    );
+    expect(transaction.getType({ maxFeePerGas: BigInt(1) })).toBe(2);
+    expect(transaction.getType({})).toBe(2);
+    expect(transaction.getType({ type: 0 })).toBe(0);
+  });
+});
+
+describe('transaction.serialize', () => {
+  test('serializes the EIP-155 signing payload', () => {
+    expect(transaction.serialize(LEGACY)).toBe(
+      '0xec098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a764000080018080'
+    );
+    expect(transaction.getSigningHash(LEGACY)).toBe(
+      '0xdaf5a779ae972f972197303d7b574746c7ef83eadac0f2791ad23db92e4c8e53'
+    );
+  });
+
+  test('signs legacy transactions with replay protection', async () => {
+    await expect(signer.signTransaction(LEGACY)).resolves.toBe(
+      '0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83'
+    );
+  });
+
+  test('serializes EIP-2930 and EIP-1559 transactions', async () => {
+    const accessList = [
+      {
+        address: LEGACY.to,
+        storageKeys: [`0x${'00'.repeat(31)}01`],
+      },
+    ];
+    const eip2930: string = await signer.signTransaction({
+      ...LEGACY,
+      accessList,
+    });
+    const eip1559: string = await signer.signTransaction({
+      chainId: 1,
+      nonce: 0,
+      maxPriorityFeePerGas: BigInt(1000000000),
+      maxFeePerGas: BigInt(30000000000),
+      gas: BigInt(21000),
+      to: LEGACY.to,
+      value: BigInt(1),
+      data: '0x1234',
+    });
+
+    expect(eip2930.startsWith('0x01')).toBe(true);
+    expect(rlp.decode(`0x${eip2930.slice(4)}`)).toEqual(
+      expect.arrayContaining([[[LEGACY.to, [`0x${'00'.repeat(31)}01`]]]])
+    );
+    expect(recoverTyped(eip2930)).toBe(signer.address);
+
+    expect(eip1559.startsWith('0x02')).toBe(true);
+    expect(
+      (rlp.decode(`0x${eip1559.slice(4)}`) as RlpValue[]).slice(0, 9)
+    ).toEqual([
+      '0x01',
+      '0x',
+      '0x3b9aca00',
+      '0x06fc23ac00',
+      '0x5208',
+      LEGACY.to,
+      '0x01',
+      '0x1234',
+      [],
+    ]);
+    expect(recoverTyped(eip1559)).toBe(signer.address);
+  });
+
+  test('requires a chain id for typed transactions', () => {
+    expect(() => transaction.serialize({ maxFeePerGas: BigInt(1) })).toThrow(
+      '[transaction/serialize] error: Typed transactions require a chainId'
+    );
+    expect(() => transaction.serialize({ type: 3, chainId: 1 })).toThrow(
+      '[transaction/serialize] error: Unsupported transaction type 3'
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from '@jest/globals';
+
+import { TypedData } from '../../lib/interfaces/typedData.js';
+import { hex } from '../../utils/hex.js';
+import { keccak256 } from '../../utils/keccak.js';
+import { secp256k1 } from '../../utils/secp256k1.js';
+import { signature } from '../../utils/signature.js';
+import { typedData } from '../../utils/typedData.js';
+
+const COW = {
+  name: 'Cow',
+  wallet: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826',
+};
+const BOB = {
+  name: 'Bob',
+  wallet: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB',
+};
+
+/**
+ * The example message of the EIP-712 specification.
+ */
+const MAIL: TypedData = {
+  domain: {
+    name: 'Ether Mail',
+    version: '1',
+    chainId: 1,
+    verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC',
+  },
+  types: {
+    Person: [
+      { name: 'name', type: 'string' },
+      { name: 'wallet', type: 'address' },
+    ],
+    Mail: [
+      { name: 'from', type: 'Person' },
+      { name: 'to', type: 'Person' },
+      { name: 'contents', type: 'string' },
+    ],
+  },
+  primaryType: 'Mail',
+  message: {
+    from: COW,
+    to: BOB,
+    contents: 'Hello, Bob!',
+  },
+};
+
+describe('typedData', () => {
+  test('hashes the example of the specification', () => {
+    expect(typedData.encodeType('Mail', MAIL.types)).toBe(
+      'Mail(Person from,Person to,string contents)Person(string name,address wallet)'
+    );
+    expect(typedData.hashDomain(MAIL.domain)).toBe(
+      '0xf2cee375fa42b42143804025fc449deafd50cc031ca257e0b194a650a912090f'
+    );
+    expect(typedData.hashStruct('Mail', MAIL.message, MAIL.types)).toBe(
+      '0xc52c0ee5d84264471806290a3f2c4cecfc5490626bf912d01f240d7a274b371e'
+    );
+    expect(typedData.hash(MAIL)).toBe(
+      '0xbe609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2'
+    );
+  });
+
+  test('signs the example of the specification', () => {
+    const privateKey: string = keccak256(hex.fromUtf8('cow'));
+
+    expect(
+      signature.serialize(secp256k1.sign(typedData.hash(MAIL), privateKey))
+    ).toBe(
+      '0x4355c47d63924e8a72e509b65029052eb6c299d53a04e167c5775fd466751c9d07299936d304c153f6443dfa05f40ff007d72911b6f72307f996231605b915621c'
+    );
+  });
+
+  test('hashes arrays of structs', () => {
+    const types = {
+      Group: [{ name: 'members', type: 'Person[]' }],
+      Person: MAIL.types.Person,
+    };
+    const members = [COW, BOB];
+
+    expect(typedData.hashStruct('Group', { members }, types)).toBe(
+      keccak256(
+        hex.concat([
+          keccak256(
+            hex.fromUtf8(
+              'Group(Person[] members)Person(string name,address wallet)'
+            )
+          ),
+          keccak256(
+            hex.concat([
+              typedData.hashStruct('Person', COW, types),
+              typedData.hashStruct('Person', BOB, types),
+            ])
+          ),
+        ])
+      )
+    );
+  });
+
+  test('rejects unknown types and missing members', () => {
+    expect(() => typedData.encodeType('Letter', MAIL.types)).toThrow(
+      '[typedData/encodeType] error: Unknown type Letter'
+    );
+    expect(() =>
+      typedData.hashStruct(
+        'Mail',
+        { ...MAIL.message, to: undefined },
+        MAIL.types
+      )
+    ).toThrow('[typedData/hashStruct] error: Missing value for Mail.to');
+  });
+});
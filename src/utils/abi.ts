@@ -0,0 +1,755 @@
+import { EmptyResultError, InvalidAddressError } from '../lib/errors/errors.js';
+import {
+  Abi,
+  AbiEvent,
+  AbiFunction,
+  AbiParameter,
+  AbiValue,
+} from '../lib/interfaces/abi.js';
+
+import { hex } from './hex.js';
+import { eventTopic, keccak256, selector } from './keccak.js';
+
+const ZERO: bigint = BigInt(0);
+const ONE: bigint = BigInt(1);
+const WORD_SIZE: number = 32;
+
+/**
+ * Splits a comma separated list of types at the top level, ignoring commas nested in parentheses.
+ *
+ * @param {string} list - The list of types without the surrounding parentheses.
+ * @returns {string[]} The individual types.
+ */
+const splitTopLevel = (list: string): string[] => {
+  const parts: string[] = [];
+  let depth: number = 0;
+  let current: string = '';
+
+  for (const char of list) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+
+  return parts;
+};
+
+/**
+ * Returns the element type of an array type (e.g. 'uint256[2][]' -> 'uint256[2]').
+ *
+ * @param {AbiParameter} param - The array parameter.
+ * @returns {{ element: AbiParameter; length?: number }} The element parameter and the fixed length, if any.
+ */
+const arrayElement = (
+  param: AbiParameter
+): { element: AbiParameter; length?: number } => {
+  const match: RegExpMatchArray = param.type.match(/^(.*)\[(\d*)\]$/);
+  return {
+    element: { ...param, type: match[1], name: undefined },
+    length: match[2] === '' ? undefined : Number(match[2]),
+  };
+};
+
+const isArray = (param: AbiParameter): boolean => /\]$/.test(param.type);
+
+const isTuple = (param: AbiParameter): boolean => param.type === 'tuple';
+
+/**
+ * Checks whether an indexed event parameter is stored in its topic as a hash rather than as its value.
+ *
+ * @param {AbiParameter} param - The indexed parameter.
+ * @returns {boolean} True for bytes, string, arrays and tuples.
+ */
+const isHashedTopic = (param: AbiParameter): boolean =>
+  param.type === 'string' ||
+  param.type === 'bytes' ||
+  isArray(param) ||
+  isTuple(param);
+
+/**
+ * Checks whether a parameter is dynamically sized in the ABI encoding.
+ *
+ * @param {AbiParameter} param - The parameter.
+ * @returns {boolean} True for bytes, string, dynamic arrays and anything containing them.
+ */
+const isDynamic = (param: AbiParameter): boolean => {
+  if (param.type === 'string' || param.type === 'bytes') {
+    return true;
+  }
+
+  if (isArray(param)) {
+    const { element, length } = arrayElement(param);
+    return length === undefined || isDynamic(element);
+  }
+
+  if (isTuple(param)) {
+    return (param.components ?? []).some(isDynamic);
+  }
+
+  return false;
+};
+
+/**
+ * Computes the head size in bytes of a statically sized parameter.
+ *
+ * @param {AbiParameter} param - The static parameter.
+ * @returns {number} The encoded size in bytes.
+ */
+const staticSize = (param: AbiParameter): number => {
+  if (isArray(param)) {
+    const { element, length } = arrayElement(param);
+    return length * staticSize(element);
+  }
+
+  if (isTuple(param)) {
+    return (param.components ?? []).reduce(
+      (size: number, component: AbiParameter): number =>
+        size + staticSize(component),
+      0
+    );
+  }
+
+  return WORD_SIZE;
+};
+
+const headSize = (param: AbiParameter): number =>
+  isDynamic(param) ? WORD_SIZE : staticSize(param);
+
+/**
+ * Encodes an integer as a 32 byte two's complement word.
+ *
+ * @param {bigint} value - The integer.
+ * @returns {string} The 64 hex character word.
+ */
+const encodeWord = (value: bigint): string =>
+  BigInt.asUintN(256, value).toString(16).padStart(64, '0');
+
+const toBigInt = (value: AbiValue, type: string): bigint => {
+  if (
+    typeof value === 'bigint' ||
+    typeof value === 'number' ||
+    typeof value === 'string'
+  ) {
+    return BigInt(value);
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? ONE : ZERO;
+  }
+
+  throw new Error(`[abi/encode] error: Invalid value for type ${type}`);
+};
+
+/**
+ * Encodes a sequence of parameters, writing dynamic values to the tail and their offsets to the head.
+ *
+ * @param {AbiParameter[]} params - The parameters.
+ * @param {AbiValue[]} values - The values, in the same order.
+ * @returns {string} The encoded hex string without prefix.
+ */
+const encodeSequence = (
+  params: readonly AbiParameter[],
+  values: readonly AbiValue[]
+): string => {
+  if (params.length !== values.length) {
+    throw new Error(
+      `[abi/encode] error: Expected ${params.length} values but received ${values.length}`
+    );
+  }
+
+  const totalHeadSize: number = params.reduce(
+    (size: number, param: AbiParameter): number => size + headSize(param),
+    0
+  );
+
+  let head: string = '';
+  let tail: string = '';
+
+  params.forEach((param: AbiParameter, i: number): void => {
+    const encoded: string = encodeParameter(param, values[i]);
+    if (isDynamic(param)) {
+      head += encodeWord(BigInt(totalHeadSize + tail.length / 2));
+      tail += encoded;
+    } else {
+      head += encoded;
+    }
+  });
+
+  return head + tail;
+};
+
+/**
+ * Encodes a byte string, right padded to a multiple of 32 bytes.
+ *
+ * @param {string} digits - The hex digits without prefix.
+ * @returns {string} The padded hex digits.
+ */
+const padRight = (digits: string): string =>
+  digits.padEnd(Math.ceil(digits.length / 64) * 64, '0');
+
+/**
+ * Encodes a single parameter.
+ *
+ * @param {AbiParameter} param - The parameter.
+ * @param {AbiValue} value - The value.
+ * @returns {string} The encoded hex string without prefix.
+ */
+const encodeParameter = (param: AbiParameter, value: AbiValue): string => {
+  const { type } = param;
+
+  if (isArray(param)) {
+    const { element, length } = arrayElement(param);
+    if (!Array.isArray(value)) {
+      throw new Error(`[abi/encode] error: Expected an array for type ${type}`);
+    }
+    if (length !== undefined && value.length !== length) {
+      throw new Error(
+        `[abi/encode] error: Expected ${length} values for type ${type}`
+      );
+    }
+
+    const encoded: string = encodeSequence(
+      value.map((): AbiParameter => element),
+      value
+    );
+    return length === undefined
+      ? encodeWord(BigInt(value.length)) + encoded
+      : encoded;
+  }
+
+  if (isTuple(param)) {
+    const components: readonly AbiParameter[] = param.components ?? [];
+    const values: readonly AbiValue[] = Array.isArray(value)
+      ? value
+      : components.map(
+          (component: AbiParameter): AbiValue =>
+            (value as { readonly [key: string]: AbiValue })[component.name]
+        );
+    return encodeSequence(components, values);
+  }
+
+  if (type === 'address') {
+    if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+      throw new InvalidAddressError(
+        `[abi/encode] error: Invalid address ${String(value)}`,
+        String(value)
+      );
+    }
+    return hex.strip(value).toLowerCase().padStart(64, '0');
+  }
+
+  if (type === 'bool') {
+    if (typeof value !== 'boolean') {
+      throw new Error(
+        `[abi/encode] error: Invalid bool value ${String(value)}`
+      );
+    }
+    return encodeWord(value ? ONE : ZERO);
+  }
+
+  if (type === 'string') {
+    const digits: string = hex.strip(hex.fromUtf8(String(value)));
+    return encodeWord(BigInt(digits.length / 2)) + padRight(digits);
+  }
+
+  if (type === 'bytes') {
+    if (!hex.isHex(value) || value.length % 2 !== 0) {
+      throw new Error(`[abi/encode] error: Invalid bytes ${String(value)}`);
+    }
+    const digits: string = hex.strip(value);
+    return encodeWord(BigInt(digits.length / 2)) + padRight(digits);
+  }
+
+  const bytesMatch: RegExpMatchArray | null = type.match(/^bytes(\d+)$/);
+  if (bytesMatch) {
+    const size: number = Number(bytesMatch[1]);
+    if (!hex.isHex(value) || hex.strip(value).length !== size * 2) {
+      throw new Error(
+        `[abi/encode] error: Invalid ${type} value ${String(value)}`
+      );
+    }
+    return hex.strip(value).toLowerCase().padEnd(64, '0');
+  }
+
+  const intMatch: RegExpMatchArray | null = type.match(/^(u?)int(\d*)$/);
+  if (intMatch) {
+    const bits: number = Number(intMatch[2] || 256);
+    const signed: boolean = intMatch[1] === '';
+    const integer: bigint = toBigInt(value, type);
+    const min: bigint = signed ? -(ONE << BigInt(bits - 1)) : ZERO;
+    const max: bigint = signed
+      ? (ONE << BigInt(bits - 1)) - ONE
+      : (ONE << BigInt(bits)) - ONE;
+
+    if (integer < min || integer > max) {
+      throw new Error(
+        `[abi/encode] error: Value ${integer.toString()} out of range for type ${type}`
+      );
+    }
+    return encodeWord(integer);
+  }
+
+  throw new Error(`[abi/encode] error: Unsupported type ${type}`);
+};
+
+/**
+ * Reads a 32 byte word at the given byte offset.
+ *
+ * @param {string} data - The hex digits without prefix.
+ * @param {number} offset - The byte offset.
+ * @returns {string} The 64 hex character word.
+ */
+const readWord = (data: string, offset: number): string => {
+  const word: string = data.slice(offset * 2, offset * 2 + 64);
+  if (word.length !== 64) {
+    throw new Error('[abi/decode] error: Data is too short');
+  }
+  return word;
+};
+
+const readOffset = (data: string, offset: number): number => {
+  const value: bigint = BigInt(`0x${readWord(data, offset)}`);
+  if (value > BigInt(data.length / 2)) {
+    throw new Error('[abi/decode] error: Offset out of bounds');
+  }
+  return Number(value);
+};
+
+/**
+ * Decodes a sequence of parameters starting at the given byte offset.
+ *
+ * @param {AbiParameter[]} params - The parameters.
+ * @param {string} data - The hex digits without prefix.
+ * @param {number} base - The byte offset where the sequence starts; dynamic offsets are relative to it.
+ * @returns {AbiValue[]} The decoded values.
+ */
+const decodeSequence = (
+  params: readonly AbiParameter[],
+  data: string,
+  base: number
+): AbiValue[] => {
+  let cursor: number = base;
+
+  return params.map((param: AbiParameter): AbiValue => {
+    let value: AbiValue;
+    if (isDynamic(param)) {
+      value = decodeParameter(param, data, base + readOffset(data, cursor));
+    } else {
+      value = decodeParameter(param, data, cursor);
+    }
+    cursor += headSize(param);
+    return value;
+  });
+};
+
+/**
+ * Decodes a single parameter at the given byte offset.
+ *
+ * @param {AbiParameter} param - The parameter.
+ * @param {string} data - The hex digits without prefix.
+ * @param {number} offset - The byte offset of the parameter.
+ * @returns {AbiValue} The decoded value.
+ */
+const decodeParameter = (
+  param: AbiParameter,
+  data: string,
+  offset: number
+): AbiValue => {
+  const { type } = param;
+
+  if (isArray(param)) {
+    const { element, length } = arrayElement(param);
+    const count: number =
+      length ?? Number(BigInt(`0x${readWord(data, offset)}`));
+    const start: number = length === undefined ? offset + WORD_SIZE : offset;
+
+    if (count * headSize(element) > data.length / 2 - start) {
+      throw new Error('[abi/decode] error: Array length out of bounds');
+    }
+
+    return decodeSequence(
+      Array.from({ length: count }, (): AbiParameter => element),
+      data,
+      start
+    );
+  }
+
+  if (isTuple(param)) {
+    return decodeSequence(param.components ?? [], data, offset);
+  }
+
+  if (type === 'string' || type === 'bytes') {
+    const length: number = Number(BigInt(`0x${readWord(data, offset)}`));
+    const start: number = (offset + WORD_SIZE) * 2;
+    const digits: string = data.slice(start, start + length * 2);
+    if (digits.length !== length * 2) {
+      throw new Error('[abi/decode] error: Data is too short');
+    }
+    return type === 'string' ? hex.toUtf8(digits) : `0x${digits}`;
+  }
+
+  const word: string = readWord(data, offset);
+
+  if (type === 'address') {
+    return `0x${word.slice(24)}`;
+  }
+
+  if (type === 'bool') {
+    return BigInt(`0x${word}`) !== ZERO;
+  }
+
+  const bytesMatch: RegExpMatchArray | null = type.match(/^bytes(\d+)$/);
+  if (bytesMatch) {
+    return `0x${word.slice(0, Number(bytesMatch[1]) * 2)}`;
+  }
+
+  const intMatch: RegExpMatchArray | null = type.match(/^(u?)int(\d*)$/);
+  if (intMatch) {
+    const bits: number = Number(intMatch[2] || 256);
+    const value: bigint = BigInt(`0x${word}`);
+    return intMatch[1] === ''
+      ? BigInt.asIntN(bits, value)
+      : BigInt.asUintN(bits, value);
+  }
+
+  throw new Error(`[abi/decode] error: Unsupported type ${type}`);
+};
+
+/**
+ * Provides an ABI encoder and decoder for static and dynamic solidity types.
+ *
+ * @fileoverview This file includes the contract ABI coder used to build calldata and decode results.
+ * @namespace abi
+ */
+export const abi = {
+  /**
+   * Parses a human-readable type (e.g. 'uint256', '(address,uint256)[]' or 'address owner') into an ABI parameter.
+   *
+   * @param {string} type - The human-readable type.
+   * @returns {AbiParameter} The ABI parameter.
+   *
+   * @example
+   * const data = abi.parseType('(address,uint256)[]');
+   */
+  parseType: (type: string): AbiParameter => {
+    const trimmed: string = type.trim();
+    const tupleMatch: RegExpMatchArray | null = trimmed.match(
+      /^(?:tuple)?\((.*)\)((?:\[\d*\])*)(?:\s+(\w+))?$/
+    );
+
+    if (tupleMatch) {
+      return {
+        type: `tuple${tupleMatch[2]}`,
+        name: tupleMatch[3],
+        components: splitTopLevel(tupleMatch[1]).map(abi.parseType),
+      };
+    }
+
+    const [baseType, name] = trimmed.split(/\s+/);
+    if (!/^[a-z]+\d*(\[\d*\])*$/.test(baseType)) {
+      throw new Error(`[abi/parseType] error: Invalid type ${type}`);
+    }
+
+    const normalized: string = baseType.replace(/^(u?int)(?=\[|$)/, '$1256');
+
+    return { type: normalized, name };
+  },
+
+  /**
+   * Returns the canonical type of a parameter, as used in function and event signatures.
+   *
+   * @param {AbiParameter} param - The parameter.
+   * @returns {string} The canonical type (e.g. '(address,uint256)[]').
+   *
+   * @example
+   * const data = abi.formatType({ type: 'tuple', components: [{ type: 'address' }] }); // '(address)'
+   */
+  formatType: (param: AbiParameter): string => {
+    if (param.type.startsWith('tuple')) {
+      const components: string = (param.components ?? [])
+        .map(abi.formatType)
+        .join(',');
+      return `(${components})${param.type.slice('tuple'.length)}`;
+    }
+    return param.type;
+  },
+
+  /**
+   * Returns the canonical signature of a function, event or error ABI entry.
+   *
+   * @param {{ name: string; inputs: AbiParameter[] }} item - The ABI entry.
+   * @returns {string} The signature (e.g. 'balanceOf(address)').
+   *
+   * @example
+   * const data = abi.getSignature({ name: 'balanceOf', inputs: [{ type: 'address' }] });
+   */
+  getSignature: (item: {
+    readonly name: string;
+    readonly inputs: readonly AbiParameter[];
+  }): string => `${item.name}(${item.inputs.map(abi.formatType).join(',')})`,
+
+  /**
+   * Computes the 4 byte selector of a function or error ABI entry.
+   *
+   * @param {{ name: string; inputs: AbiParameter[] }} item - The ABI entry.
+   * @returns {string} The `0x` prefixed selector.
+   *
+   * @example
+   * const data = abi.getSelector(balanceOfAbiItem); // '0x70a08231'
+   */
+  getSelector: (item: {
+    readonly name: string;
+    readonly inputs: readonly AbiParameter[];
+  }): string => selector(abi.getSignature(item)),
+
+  /**
+   * Computes the first topic of the logs of an event ABI entry.
+   *
+   * @param {AbiEvent} event - The event ABI entry.
+   * @returns {string} The `0x` prefixed 32 byte topic.
+   *
+   * @example
+   * const data = abi.getEventTopic(ERC20_EVENTS.Transfer); // '0xddf252ad...'
+   */
+  getEventTopic: (event: AbiEvent): string =>
+    eventTopic(abi.getSignature(event)),
+
+  /**
+   * Builds the topic filter of an event for `eth_getLogs`, from values of its indexed arguments.
+   *
+   * @param {AbiEvent} event - The event ABI entry.
+   * @param {{ [key: string]: AbiValue | AbiValue[] | null }} [args] - Optional. The indexed arguments to match by name. An array matches any of its values, null or a missing argument matches anything.
+   * @returns {(string | string[] | null)[]} The topics, without trailing wildcards.
+   * @throws {Error} When an array or tuple argument is given, as their hashed encoding is not supported.
+   *
+   * @example
+   * const data = abi.encodeEventTopics(ERC20_EVENTS.Transfer, { to: '0xACCOUNT_ADDRESS' });
+   */
+  encodeEventTopics: (
+    event: AbiEvent,
+    args: { [key: string]: AbiValue | AbiValue[] | null } = {}
+  ): (string | string[] | null)[] => {
+    const encodeTopic = (param: AbiParameter, value: AbiValue): string => {
+      if (param.type === 'string') {
+        return keccak256(hex.fromUtf8(value as string));
+      }
+      if (param.type === 'bytes') {
+        return keccak256(value as string);
+      }
+      if (isHashedTopic(param)) {
+        throw new Error(
+          `[abi/encodeEventTopics] error: Filtering on ${param.type} argument ${param.name} is not supported`
+        );
+      }
+      return abi.encodeParameters([param], [value]);
+    };
+
+    const topics: (string | string[] | null)[] = [
+      ...(event.anonymous ? [] : [abi.getEventTopic(event)]),
+      ...event.inputs
+        .filter((param: AbiParameter): boolean => Boolean(param.indexed))
+        .map((param: AbiParameter): string | string[] | null => {
+          const value: AbiValue | AbiValue[] | null | undefined =
+            args[param.name];
+          if (value === undefined || value === null) {
+            return null;
+          }
+          return Array.isArray(value) && !isArray(param)
+            ? value.map((item: AbiValue): string => encodeTopic(param, item))
+            : encodeTopic(param, value as AbiValue);
+        }),
+    ];
+
+    while (topics.length > 0 && topics[topics.length - 1] === null) {
+      topics.pop();
+    }
+    return topics;
+  },
+
+  /**
+   * Decodes the arguments of an event log. Indexed strings, bytes, arrays and tuples are only stored as a hash,
+   * which is returned in place of their value.
+   *
+   * @param {AbiEvent} event - The event ABI entry.
+   * @param {string[]} topics - The topics of the log.
+   * @param {string} data - The data of the log.
+   * @returns {{ [key: string]: AbiValue }} The arguments by name, or by position for unnamed arguments.
+   * @throws {Error} When the topics do not match the event.
+   *
+   * @example
+   * const { from, to, value } = abi.decodeEventLog(ERC20_EVENTS.Transfer, log.topics, log.data);
+   */
+  decodeEventLog: (
+    event: AbiEvent,
+    topics: readonly string[],
+    data: string
+  ): { [key: string]: AbiValue } => {
+    const indexed: AbiParameter[] = event.inputs.filter(
+      (param: AbiParameter): boolean => Boolean(param.indexed)
+    );
+    const nonIndexed: AbiParameter[] = event.inputs.filter(
+      (param: AbiParameter): boolean => !param.indexed
+    );
+    const indexedTopics: readonly string[] = event.anonymous
+      ? topics
+      : topics.slice(1);
+
+    if (
+      (!event.anonymous &&
+        topics[0]?.toLowerCase() !== abi.getEventTopic(event)) ||
+      indexedTopics.length !== indexed.length
+    ) {
+      throw new Error(
+        `[abi/decodeEventLog] error: Log does not match event ${abi.getSignature(
+          event
+        )}`
+      );
+    }
+
+    const values: AbiValue[] = abi.decodeParameters(nonIndexed, data);
+
+    return event.inputs.reduce(
+      (
+        result: { [key: string]: AbiValue },
+        param: AbiParameter,
+        i: number
+      ): { [key: string]: AbiValue } => {
+        const topic: string | undefined = param.indexed
+          ? indexedTopics[indexed.indexOf(param)]
+          : undefined;
+        result[param.name || String(i)] = !param.indexed
+          ? values[nonIndexed.indexOf(param)]
+          : isHashedTopic(param)
+          ? topic
+          : abi.decodeParameters([param], topic)[0];
+        return result;
+      },
+      {}
+    );
+  },
+
+  /**
+   * Finds a function of a JSON ABI by name, resolving overloads by the number of arguments.
+   *
+   * @param {Abi} contractAbi - The JSON ABI.
+   * @param {string} name - The function name.
+   * @param {number} argCount - The number of arguments.
+   * @returns {AbiFunction | undefined} The ABI entry of the function, or undefined when there is none.
+   *
+   * @example
+   * const data = abi.findFunction(erc20Abi, 'balanceOf', 1);
+   */
+  findFunction: (
+    contractAbi: Abi,
+    name: string,
+    argCount: number
+  ): AbiFunction | undefined =>
+    contractAbi.find(
+      (item: Abi[number]): item is AbiFunction =>
+        item.type === 'function' &&
+        item.name === name &&
+        item.inputs.length === argCount
+    ),
+
+  /**
+   * Encodes a list of values according to their ABI types.
+   *
+   * @param {(AbiParameter | string)[]} params - The ABI parameters or human-readable types.
+   * @param {AbiValue[]} values - The values, in the same order.
+   * @returns {string} The `0x` prefixed encoding.
+   *
+   * @example
+   * const data = abi.encodeParameters(['address', 'uint256'], ['0xACCOUNT_ADDRESS', BigInt(1)]);
+   */
+  encodeParameters: (
+    params: readonly (AbiParameter | string)[],
+    values: readonly AbiValue[]
+  ): string => `0x${encodeSequence(normalizeParams(params), values)}`,
+
+  /**
+   * Decodes ABI encoded data into a list of values.
+   *
+   * @param {(AbiParameter | string)[]} params - The ABI parameters or human-readable types.
+   * @param {string} data - The `0x` prefixed encoding.
+   * @returns {AbiValue[]} The decoded values.
+   * @throws {EmptyResultError} When the data is empty but values are expected, e.g. the result of a call to an
+   * address without code.
+   *
+   * @example
+   * const [balance] = abi.decodeParameters(['uint256'], '0xRETURNED_VALUE');
+   */
+  decodeParameters: (
+    params: readonly (AbiParameter | string)[],
+    data: string
+  ): AbiValue[] => {
+    const digits: string = hex.strip(data);
+    if (!/^[0-9a-fA-F]*$/.test(digits) || digits.length % 2 !== 0) {
+      throw new Error('[abi/decode] error: Invalid hex data');
+    }
+    if (digits.length === 0 && params.length > 0) {
+      throw new EmptyResultError(
+        '[abi/decode] error: No data to decode, the address may have no code'
+      );
+    }
+    return decodeSequence(normalizeParams(params), digits, 0);
+  },
+
+  /**
+   * Builds calldata from a function selector and its encoded arguments.
+   *
+   * @param {string} selector - The 4 byte function selector.
+   * @param {(AbiParameter | string)[]} params - The ABI parameters or human-readable types of the arguments.
+   * @param {AbiValue[]} values - The arguments.
+   * @returns {string} The `0x` prefixed calldata.
+   *
+   * @example
+   * const data = abi.encodeFunctionData(Erc20.BalanceOf, ['address'], ['0xACCOUNT_ADDRESS']);
+   */
+  encodeFunctionData: (
+    selector: string,
+    params: readonly (AbiParameter | string)[] = [],
+    values: readonly AbiValue[] = []
+  ): string => hex.concat([selector, abi.encodeParameters(params, values)]),
+
+  /**
+   * Decodes a string result, falling back to a right padded bytes32 for legacy tokens (e.g. MKR).
+   *
+   * @param {string} data - The `0x` prefixed result of the call.
+   * @returns {string} The decoded string.
+   *
+   * @example
+   * const data = abi.decodeString('0xRETURNED_VALUE');
+   */
+  decodeString: (data: string): string => {
+    const digits: string = hex.strip(data);
+
+    if (digits.length === 64) {
+      return hex.toUtf8(digits.replace(/(00)+$/, ''));
+    }
+
+    return abi.decodeParameters(['string'], data)[0] as string;
+  },
+};
+
+/**
+ * Converts human-readable types into ABI parameters.
+ *
+ * @param {(AbiParameter | string)[]} params - The ABI parameters or human-readable types.
+ * @returns {AbiParameter[]} The ABI parameters.
+ */
+const normalizeParams = (
+  params: readonly (AbiParameter | string)[]
+): AbiParameter[] =>
+  params.map(
+    (param: AbiParameter | string): AbiParameter =>
+      typeof param === 'string' ? abi.parseType(param) : param
+  );
@@ -0,0 +1,149 @@
+import { InvalidAddressError } from '../lib/errors/errors.js';
+import { hex } from './hex.js';
+import { keccak256 } from './keccak.js';
+
+/**
+ * Interface representing the options accepted by the address validation helpers.
+ *
+ * @interface
+ * @property {boolean} [strict=false] - Optional. Require a valid EIP-55 checksum. By default all lowercase and all
+ * uppercase addresses are accepted, and only mixed case addresses must carry a valid checksum.
+ */
+export interface AddressOptions {
+  strict?: boolean;
+}
+
+const ADDRESS_PATTERN: RegExp = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * Applies the EIP-55 checksum to the 40 lowercase hex digits of an address.
+ *
+ * @param {string} digits - The lowercase address without `0x` prefix.
+ * @returns {string} The `0x` prefixed checksummed address.
+ */
+const checksum = (digits: string): string => {
+  const hash: string = hex.strip(keccak256(hex.fromUtf8(digits)));
+  let result: string = '0x';
+
+  for (let i = 0; i < digits.length; i++) {
+    result += parseInt(hash[i], 16) >= 8 ? digits[i].toUpperCase() : digits[i];
+  }
+
+  return result;
+};
+
+/**
+ * Provides helpers to validate and checksum addresses.
+ *
+ * @fileoverview This file includes the EIP-55 checksum and the address validation shared by the integrations.
+ * @namespace address
+ */
+export const address = {
+  /**
+   * Checks whether a value is a valid address.
+   *
+   * @param {unknown} value - The value to check.
+   * @param {AddressOptions} [options] - Optional. Whether a valid checksum is required.
+   * @returns {boolean} True when the value is a `0x` prefixed 20 byte address with a valid checksum, if any.
+   *
+   * @example
+   * const data = address.isAddress('0xd8da6bf26964af9d7eed9e03e53415d37aa96045'); // true
+   */
+  isAddress: (
+    value: unknown,
+    { strict = false }: AddressOptions = {}
+  ): value is string => {
+    if (typeof value !== 'string' || !ADDRESS_PATTERN.test(value)) {
+      return false;
+    }
+
+    const digits: string = value.slice(2);
+    if (
+      !strict &&
+      (digits === digits.toLowerCase() || digits === digits.toUpperCase())
+    ) {
+      return true;
+    }
+
+    return checksum(digits.toLowerCase()) === value;
+  },
+
+  /**
+   * Converts an address to its EIP-55 checksummed form.
+   *
+   * @param {string} value - The address, in any case.
+   * @returns {string} The checksummed address.
+   * @throws {InvalidAddressError} When the value is not an address or a mixed case address has an invalid checksum.
+   *
+   * @example
+   * const data = address.getAddress('0xd8da6bf26964af9d7eed9e03e53415d37aa96045'); // '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045'
+   */
+  getAddress: (value: string): string => {
+    if (!address.isAddress(value)) {
+      throw new InvalidAddressError(
+        `[address/getAddress] error: Invalid address ${String(value)}`,
+        String(value)
+      );
+    }
+
+    return checksum(value.slice(2).toLowerCase());
+  },
+
+  /**
+   * Computes the address of an account from its public key, the last 20 bytes of the keccak-256 hash of the key.
+   *
+   * @param {string} publicKey - The `0x` prefixed 65 byte uncompressed public key, or its 64 byte coordinates.
+   * @returns {string} The checksummed address.
+   * @throws {Error} When the value is not an uncompressed public key.
+   *
+   * @example
+   * const data = address.fromPublicKey(secp256k1.getPublicKey('0xPRIVATE_KEY'));
+   */
+  fromPublicKey: (publicKey: string): string => {
+    const digits: string = hex.strip(publicKey);
+    if (
+      !hex.isHex(`0x${digits}`) ||
+      !(
+        digits.length === 128 ||
+        (digits.length === 130 && digits.startsWith('04'))
+      )
+    ) {
+      throw new Error(
+        '[address/fromPublicKey] error: Expected an uncompressed public key'
+      );
+    }
+
+    return address.getAddress(
+      `0x${keccak256(`0x${digits.slice(-128)}`).slice(-40)}`
+    );
+  },
+
+  /**
+   * Validates an address argument of a client method.
+   *
+   * @param {string} value - The address to validate.
+   * @param {string} context - The module and function validating the address, e.g. '[erc20/getBalanceOf]'.
+   * @param {AddressOptions} [options] - Optional. Whether a valid checksum is required.
+   * @returns {string} The checksummed address.
+   * @throws {InvalidAddressError} When the value is not a valid address.
+   *
+   * @example
+   * const data = address.validate('0xACCOUNT_ADDRESS', '[erc20/getBalance]', { strict: true });
+   */
+  validate: (
+    value: string,
+    context: string,
+    options: AddressOptions = {}
+  ): string => {
+    if (!address.isAddress(value, options)) {
+      throw new InvalidAddressError(
+        `${context} error: Invalid address ${String(value)}${
+          ADDRESS_PATTERN.test(String(value)) ? ' (invalid checksum)' : ''
+        }`,
+        String(value)
+      );
+    }
+
+    return address.getAddress(value);
+  },
+};
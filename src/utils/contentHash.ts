@@ -0,0 +1,66 @@
+import { hex } from './hex.js';
+
+const BASE58_ALPHABET: string =
+  '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Encodes bytes in base58, the encoding of version 0 IPFS content identifiers.
+ *
+ * @param {string} data - The `0x` prefixed bytes.
+ * @returns {string} The base58 string.
+ */
+const toBase58 = (data: string): string => {
+  const fiftyEight: bigint = BigInt(58);
+  let value: bigint = BigInt(hex.strip(data) ? data : '0x0');
+  let result: string = '';
+
+  while (value > BigInt(0)) {
+    result = BASE58_ALPHABET[Number(value % fiftyEight)] + result;
+    value /= fiftyEight;
+  }
+
+  const leadingZeros: RegExpMatchArray | null = hex.strip(data).match(/^(00)*/);
+  return '1'.repeat((leadingZeros?.[0].length ?? 0) / 2) + result;
+};
+
+/**
+ * Provides helpers to decode the content hash records of ENS names (ENSIP-7).
+ *
+ * @fileoverview This file includes the multicodec decoding of IPFS, IPNS and Swarm content hashes.
+ * @namespace contentHash
+ */
+export const contentHash = {
+  /**
+   * Decodes a content hash record into a URL.
+   *
+   * @param {string} data - The `0x` prefixed content hash.
+   * @returns {string} The content URL, e.g. 'ipfs://Qm...' or 'bzz://...'.
+   * @throws {Error} When the content hash uses an unsupported codec.
+   *
+   * @example
+   * const data = contentHash.decode('0xe30101701220...'); // 'ipfs://QmRAQB6YaCyidP37UdDnjFY5vQuiBrcqdyoW1CuDgwxkD4'
+   */
+  decode: (data: string): string => {
+    const value: string = data.toLowerCase();
+
+    const ipfs: RegExpMatchArray | null = value.match(
+      /^0x(e3010170|e5010172)(([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]*))$/
+    );
+    if (ipfs && ipfs[5].length === parseInt(ipfs[4], 16) * 2) {
+      return `${ipfs[1] === 'e3010170' ? 'ipfs' : 'ipns'}://${toBase58(
+        `0x${ipfs[2]}`
+      )}`;
+    }
+
+    const swarm: RegExpMatchArray | null = value.match(
+      /^0xe40101fa011b20([0-9a-f]{64})$/
+    );
+    if (swarm) {
+      return `bzz://${swarm[1]}`;
+    }
+
+    throw new Error(
+      `[contentHash/decode] error: Unsupported content hash ${data}`
+    );
+  },
+};
@@ -1,5 +1,10 @@
+import { AxiosRequestConfig } from 'axios';
+
 import {
+  BlockParameter,
+  JsonRpcCall,
   JsonRpcRequestPayload,
+  RequestOptions,
   RpcParams,
 } from '../lib/interfaces/jsonRpcRequest.js';
 
@@ -8,7 +13,7 @@ import {
  *
  * @param {Object|string} param - An object containing the 'to' and 'data' properties for the RPC call, or the method signature.
  * @param {string} method - The JSON-RPC method to be invoked (e.g., 'eth_call', 'eth_sendTransaction').
- * @param {string} [tag='latest'] - The block number tag specifying the state to query or transact with. Common values are 'latest', 'earliest', or 'pending'.
+ * @param {BlockParameter} [tag='latest'] - The block specifying the state to query or transact with. Common values are 'latest', 'earliest', 'pending', a hex block number or an EIP-1898 object.
  * @param {number} [id=1] - A unique identifier for the JSON-RPC request, used to match responses with requests.
  * @returns {object} The JSON-RPC payload formatted as an object.
  *
@@ -24,7 +29,7 @@ import {
 export const constructEthMethodPayload = (
   params: RpcParams,
   method: string,
-  tag: string = 'latest',
+  tag: BlockParameter = 'latest',
   id: number = 1
 ): JsonRpcRequestPayload => {
   return {
@@ -34,3 +39,66 @@ export const constructEthMethodPayload = (
     id,
   };
 };
+
+/**
+ * This function creates the payload of any JSON-RPC method from its params.
+ *
+ * @param {string} method - The JSON-RPC method to be invoked (e.g., 'eth_blockNumber', 'eth_getBlockByNumber').
+ * @param {unknown[]} [params=[]] - The params of the method, in order.
+ * @param {number} [id=1] - A unique identifier for the JSON-RPC request, used to match responses with requests.
+ * @returns {JsonRpcRequestPayload} The JSON-RPC payload formatted as an object.
+ *
+ * @example
+ * const data = constructRpcPayload('eth_getBlockByNumber', ['latest', false]);
+ */
+export const constructRpcPayload = (
+  method: string,
+  params: unknown[] = [],
+  id: number = 1
+): JsonRpcRequestPayload => ({
+  jsonrpc: '2.0',
+  method,
+  params,
+  id,
+});
+
+/**
+ * This function creates the payload of a JSON-RPC batch, giving every call a unique id matching its position.
+ *
+ * @param {JsonRpcCall[]} calls - The calls to batch, each with a method and its params.
+ * @returns {JsonRpcRequestPayload[]} The JSON-RPC batch payload with ids starting at 1.
+ *
+ * @example
+ * const data = constructBatchPayload([
+ *   { method: 'eth_blockNumber' },
+ *   { method: 'eth_getBalance', params: ['0xACCOUNT_ADDRESS', 'latest'] },
+ * ]);
+ */
+export const constructBatchPayload = (
+  calls: JsonRpcCall[]
+): JsonRpcRequestPayload[] =>
+  calls.map(
+    (call: JsonRpcCall, i: number): JsonRpcRequestPayload => ({
+      jsonrpc: '2.0',
+      method: call.method,
+      params: call.params ?? [],
+      id: i + 1,
+    })
+  );
+
+/**
+ * This function creates the axios request config carrying the timeout and cancellation signal of a request.
+ *
+ * @param {RequestOptions} [options] - Optional. The request timeout and abort signal.
+ * @returns {AxiosRequestConfig} The request config, without the options that were not provided.
+ *
+ * @example
+ * const config = constructRequestConfig({ timeout: 5000, signal: controller.signal });
+ */
+export const constructRequestConfig = ({
+  timeout,
+  signal,
+}: RequestOptions = {}): AxiosRequestConfig => ({
+  ...(timeout !== undefined ? { timeout } : {}),
+  ...(signal ? { signal } : {}),
+});
@@ -1,3 +1,76 @@
+import {
+  AccessListEntry,
+  Block,
+  FeeHistory,
+  Log,
+  RpcObject,
+  Transaction,
+  TransactionReceipt,
+} from '../lib/interfaces/chain.js';
+import {
+  BlockIdentifier,
+  BlockParameter,
+} from '../lib/interfaces/jsonRpcRequest.js';
+import { TokenAmount } from '../lib/interfaces/tokenAmount.js';
+
+import { units } from './units.js';
+
+/**
+ * Checks that a field returned by the node holds a quantity.
+ *
+ * @param {unknown} value - The field value.
+ * @returns {string | number | bigint} The quantity, usually hex encoded.
+ * @throws {Error} When the value is not a string, a number or a bigint.
+ */
+const toQuantity = (value: unknown): string | number | bigint => {
+  if (
+    typeof value !== 'string' &&
+    typeof value !== 'number' &&
+    typeof value !== 'bigint'
+  ) {
+    throw new Error(
+      `[format/toQuantity] error: Invalid quantity ${String(value)}`
+    );
+  }
+  return value;
+};
+
+/**
+ * Decodes an optional hex quantity into a number.
+ *
+ * @param {unknown} [value] - The hex quantity.
+ * @returns {number | null} The number, or null when the quantity is missing.
+ */
+const toNumber = (value?: unknown): number | null =>
+  value === undefined || value === null ? null : Number(toQuantity(value));
+
+/**
+ * Decodes an optional hex quantity into a bigint.
+ *
+ * @param {unknown} [value] - The hex quantity.
+ * @returns {bigint | undefined} The bigint, or undefined when the quantity is missing.
+ */
+const toBigInt = (value?: unknown): bigint | undefined =>
+  value === undefined || value === null ? undefined : BigInt(toQuantity(value));
+
+/**
+ * Reads an optional string field, e.g. a hash, an address or hex data.
+ *
+ * @param {unknown} [value] - The field value.
+ * @returns {string | undefined} The string, or undefined when the field is not a string.
+ */
+const toText = (value?: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+/**
+ * Reads an optional list field.
+ *
+ * @param {unknown} [value] - The field value.
+ * @returns {T[] | undefined} The list, or undefined when the field is not an array.
+ */
+const toList = <T>(value?: unknown): T[] | undefined =>
+  Array.isArray(value) ? (value as T[]) : undefined;
+
 /**
  * Provides utility functions for formatting and converting blockchain-related data types.
  *
@@ -5,8 +78,10 @@
  * @namespace format
  */
 export const format = {
+  ...units,
+
   /**
-   * Converts a value from Wei to Ether. Handles various input formats and ensures accurate conversion using floating-point precision.
+   * Converts a value from Wei to Ether. Handles various input formats and converts exactly using bigint arithmetic.
    *
    * @param {string | number | bigint | boolean} weiValue - The value in Wei to be converted to Ether.
    * @returns {string} The value in Ether, formatted as a string with up to 18 decimal places.
@@ -26,14 +101,22 @@ export const format = {
       typeof weiValue === 'string'
         ? BigInt(weiValue === '0x' ? '0x0' : weiValue)
         : BigInt(weiValue);
-    const ether: number = Number(value) / 10 ** 18;
 
-    return ether === 0 ? '0' : ether.toFixed(18);
+    if (value === BigInt(0)) {
+      return '0';
+    }
+
+    const [integerPart, fractionalPart = ''] = units
+      .formatUnits(value, 18)
+      .split('.');
+
+    return `${integerPart}.${fractionalPart.padEnd(18, '0')}`;
   },
 
   /**
    * Decodes a hex string to a readable ASCII string. This function assumes the hex string is ABI-encoded.
    *
+   * @deprecated Use `abi.decodeString`, which handles bytes32 results and UTF-8 strings.
    * @param {string} hexString - The hex string to decode, typically ABI-encoded.
    * @returns {string} The decoded ASCII string.
    *
@@ -83,27 +166,46 @@ export const format = {
       return '0';
     }
 
-    const divisor = BigInt(10 ** decimals);
-    const integerPart = amount / divisor;
-    const fractionalPart = amount % divisor;
-    const formattedInteger = new Intl.NumberFormat('en-US').format(
-      Number(integerPart)
+    const [integerPart, fractionalPart] = units
+      .formatUnits(amount, decimals)
+      .split('.');
+    const formattedInteger: string = integerPart.replace(
+      /\B(?=(\d{3})+(?!\d))/g,
+      ','
     );
 
-    let formattedFractional: string = fractionalPart
-      .toString()
-      .padStart(decimals, '0')
-      .substring(0, decimals);
-    formattedFractional = formattedFractional.replace(/0+$/, '');
-
-    return formattedFractional.length > 0
-      ? `${formattedInteger}.${formattedFractional}`
+    return fractionalPart
+      ? `${formattedInteger}.${fractionalPart}`
       : formattedInteger;
   },
 
+  /**
+   * Builds a structured token amount holding the raw value, its decimals and the formatted display string.
+   *
+   * @param {string | number | bigint} tokenAmount - The token amount in the smallest unit.
+   * @param {number} decimals - The number of decimals the token uses.
+   * @returns {TokenAmount} The structured token amount.
+   *
+   * @example
+   * const data = format.toTokenAmount('0xRETURNED_VALUE', DECIMAL_VALUE);
+   */
+  toTokenAmount: (
+    tokenAmount: string | number | bigint,
+    decimals: number
+  ): TokenAmount => {
+    const raw: bigint = tokenAmount === '0x' ? BigInt(0) : BigInt(tokenAmount);
+
+    return {
+      raw,
+      decimals,
+      formatted: format.formatTokenAmount(raw, decimals),
+    };
+  },
+
   /**
    * Concatenates arrays of Ethereum account addresses and token IDs into single strings of concatenated, normalized values.
    *
+   * @deprecated Use `abi.encodeParameters(['address[]', 'uint256[]'], [addresses, ids])`, which includes the array offsets and lengths.
    * @param {string[]} accountAddresses - An array of Ethereum account addresses.
    * @param {string[]} tokenIds - An array of token IDs associated with the addresses.
    * @returns {object} An object containing concatenated and padded strings of addresses and token IDs.
@@ -141,6 +243,7 @@ export const format = {
   /**
    * Cleans a hexadecimal string returned in a JSON RPC response by removing unnecessary leading zeros.
    *
+   * @deprecated Use `abi.decodeParameters` for numbers and `address.getAddress` for addresses; stripping zeros shortens addresses starting with `00`.
    * @param {string} hexString - The hexadecimal string to be cleaned, usually representing a numeric value.
    * @returns {string} The cleaned hexadecimal string with leading zeros removed, except for the '0x' prefix.
    *
@@ -156,4 +259,200 @@ export const format = {
 
     return hexString.replace(/^(0x)0+/, '$1') || '0x0';
   },
+
+  /**
+   * Converts a block identifier into the block parameter expected by JSON-RPC methods.
+   *
+   * @param {BlockIdentifier} [block='latest'] - A block tag, number, hex number, 32 byte block hash or EIP-1898 object.
+   * @returns {BlockParameter} The block parameter: a tag, a hex quantity or an EIP-1898 object for block hashes.
+   *
+   * @example
+   * const data = format.toBlockParameter(19000000); // '0x121eac0'
+   */
+  toBlockParameter: (block: BlockIdentifier = 'latest'): BlockParameter => {
+    if (typeof block === 'number' || typeof block === 'bigint') {
+      if (block < 0) {
+        throw new Error(
+          '[format/toBlockParameter] error: Block number must be non-negative'
+        );
+      }
+      if (typeof block === 'number' && !Number.isSafeInteger(block)) {
+        throw new Error(
+          `[format/toBlockParameter] error: Block number ${block} must be a safe integer`
+        );
+      }
+      return `0x${block.toString(16)}`;
+    }
+
+    if (typeof block === 'object') {
+      if ('blockHash' in block) {
+        return block;
+      }
+      return {
+        blockNumber: format.toBlockParameter(block.blockNumber) as string,
+      };
+    }
+
+    if (
+      ['latest', 'earliest', 'pending', 'safe', 'finalized'].includes(block)
+    ) {
+      return block;
+    }
+
+    if (/^0x[0-9a-fA-F]{64}$/.test(block)) {
+      return { blockHash: block };
+    }
+
+    if (/^(0x[0-9a-fA-F]+|\d+)$/.test(block)) {
+      return format.toBlockParameter(BigInt(block));
+    }
+
+    throw new Error(
+      `[format/toBlockParameter] error: Invalid block identifier ${block}`
+    );
+  },
+
+  /**
+   * Decodes an event log returned by the node.
+   *
+   * @param {RpcObject} log - The log, with hex quantities.
+   * @returns {Log} The decoded log.
+   *
+   * @example
+   * const data = format.toLog(response.logs[0]);
+   */
+  toLog: (log: RpcObject): Log => ({
+    address: toText(log.address),
+    topics: toList<string>(log.topics) ?? [],
+    data: toText(log.data),
+    blockHash: toText(log.blockHash) ?? null,
+    blockNumber: toNumber(log.blockNumber),
+    transactionHash: toText(log.transactionHash) ?? null,
+    transactionIndex: toNumber(log.transactionIndex),
+    logIndex: toNumber(log.logIndex),
+    removed: Boolean(log.removed),
+  }),
+
+  /**
+   * Decodes a transaction returned by the node.
+   *
+   * @param {RpcObject} transaction - The transaction, with hex quantities.
+   * @returns {Transaction} The decoded transaction.
+   *
+   * @example
+   * const data = format.toTransaction(response);
+   */
+  toTransaction: (transaction: RpcObject): Transaction => ({
+    hash: toText(transaction.hash),
+    type: toNumber(transaction.type) ?? 0,
+    chainId: toNumber(transaction.chainId) ?? undefined,
+    nonce: Number(toQuantity(transaction.nonce)),
+    blockHash: toText(transaction.blockHash) ?? null,
+    blockNumber: toNumber(transaction.blockNumber),
+    transactionIndex: toNumber(transaction.transactionIndex),
+    from: toText(transaction.from),
+    to: toText(transaction.to) ?? null,
+    value: BigInt(toQuantity(transaction.value)),
+    gas: BigInt(toQuantity(transaction.gas)),
+    gasPrice: toBigInt(transaction.gasPrice),
+    maxFeePerGas: toBigInt(transaction.maxFeePerGas),
+    maxPriorityFeePerGas: toBigInt(transaction.maxPriorityFeePerGas),
+    maxFeePerBlobGas: toBigInt(transaction.maxFeePerBlobGas),
+    blobVersionedHashes: toList<string>(transaction.blobVersionedHashes),
+    accessList: toList<AccessListEntry>(transaction.accessList),
+    input: toText(transaction.input),
+    v: toBigInt(transaction.v),
+    yParity: toNumber(transaction.yParity) ?? undefined,
+    r: toText(transaction.r),
+    s: toText(transaction.s),
+  }),
+
+  /**
+   * Decodes a transaction receipt returned by the node.
+   *
+   * @param {RpcObject} receipt - The receipt, with hex quantities.
+   * @returns {TransactionReceipt} The decoded receipt.
+   *
+   * @example
+   * const data = format.toReceipt(response);
+   */
+  toReceipt: (receipt: RpcObject): TransactionReceipt => ({
+    transactionHash: toText(receipt.transactionHash),
+    transactionIndex: Number(toQuantity(receipt.transactionIndex)),
+    blockHash: toText(receipt.blockHash),
+    blockNumber: Number(toQuantity(receipt.blockNumber)),
+    from: toText(receipt.from),
+    to: toText(receipt.to) ?? null,
+    contractAddress: toText(receipt.contractAddress) ?? null,
+    status: toNumber(receipt.status) === 1 ? 'success' : 'reverted',
+    type: toNumber(receipt.type) ?? 0,
+    gasUsed: BigInt(toQuantity(receipt.gasUsed)),
+    cumulativeGasUsed: BigInt(toQuantity(receipt.cumulativeGasUsed)),
+    effectiveGasPrice: toBigInt(receipt.effectiveGasPrice) ?? BigInt(0),
+    blobGasUsed: toBigInt(receipt.blobGasUsed),
+    blobGasPrice: toBigInt(receipt.blobGasPrice),
+    logs: (toList<RpcObject>(receipt.logs) ?? []).map(format.toLog),
+    logsBloom: toText(receipt.logsBloom),
+  }),
+
+  /**
+   * Decodes a block returned by the node, with either transaction hashes or full transactions.
+   *
+   * @param {RpcObject} block - The block, with hex quantities.
+   * @returns {Block<string | Transaction>} The decoded block.
+   *
+   * @example
+   * const data = format.toBlock(response);
+   */
+  toBlock: (block: RpcObject): Block<string | Transaction> => ({
+    number: toNumber(block.number),
+    hash: toText(block.hash) ?? null,
+    parentHash: toText(block.parentHash),
+    timestamp: Number(toQuantity(block.timestamp)),
+    miner: toText(block.miner) ?? null,
+    gasLimit: BigInt(toQuantity(block.gasLimit)),
+    gasUsed: BigInt(toQuantity(block.gasUsed)),
+    baseFeePerGas: toBigInt(block.baseFeePerGas),
+    blobGasUsed: toBigInt(block.blobGasUsed),
+    excessBlobGas: toBigInt(block.excessBlobGas),
+    difficulty: toBigInt(block.difficulty) ?? BigInt(0),
+    extraData: toText(block.extraData),
+    nonce: toText(block.nonce) ?? null,
+    size: Number(toQuantity(block.size)),
+    stateRoot: toText(block.stateRoot),
+    transactionsRoot: toText(block.transactionsRoot),
+    receiptsRoot: toText(block.receiptsRoot),
+    logsBloom: toText(block.logsBloom) ?? null,
+    transactions: (toList<string | RpcObject>(block.transactions) ?? []).map(
+      (transaction: string | RpcObject): string | Transaction =>
+        typeof transaction === 'string'
+          ? transaction
+          : format.toTransaction(transaction)
+    ),
+  }),
+
+  /**
+   * Decodes the fee history returned by `eth_feeHistory`.
+   *
+   * @param {RpcObject} feeHistory - The fee history, with hex quantities.
+   * @returns {FeeHistory} The decoded fee history.
+   *
+   * @example
+   * const data = format.toFeeHistory(response);
+   */
+  toFeeHistory: (feeHistory: RpcObject): FeeHistory => ({
+    oldestBlock: Number(toQuantity(feeHistory.oldestBlock)),
+    baseFeePerGas: (toList<unknown>(feeHistory.baseFeePerGas) ?? []).map(
+      (value: unknown): bigint => BigInt(toQuantity(value))
+    ),
+    gasUsedRatio: toList<number>(feeHistory.gasUsedRatio) ?? [],
+    reward: toList<unknown[]>(feeHistory.reward)?.map(
+      (rewards: unknown[]): bigint[] =>
+        rewards.map((value: unknown): bigint => BigInt(toQuantity(value)))
+    ),
+    baseFeePerBlobGas: toList<unknown>(feeHistory.baseFeePerBlobGas)?.map(
+      (value: unknown): bigint => BigInt(toQuantity(value))
+    ),
+    blobGasUsedRatio: toList<number>(feeHistory.blobGasUsedRatio),
+  }),
 };
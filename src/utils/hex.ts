@@ -0,0 +1,118 @@
+/**
+ * Provides utility functions for converting between hex strings, byte arrays and text.
+ *
+ * @fileoverview This file includes the byte level helpers shared by the encoders.
+ * @namespace hex
+ */
+export const hex = {
+  /**
+   * Checks whether a value is a `0x` prefixed hex string.
+   *
+   * @param {unknown} value - The value to check.
+   * @returns {boolean} True when the value is a hex string.
+   *
+   * @example
+   * const data = hex.isHex('0x1234');
+   */
+  isHex: (value: unknown): value is string =>
+    typeof value === 'string' && /^0x[0-9a-fA-F]*$/.test(value),
+
+  /**
+   * Removes the `0x` prefix from a hex string.
+   *
+   * @param {string} value - The hex string.
+   * @returns {string} The hex string without prefix.
+   *
+   * @example
+   * const data = hex.strip('0x1234'); // '1234'
+   */
+  strip: (value: string): string =>
+    value.startsWith('0x') || value.startsWith('0X') ? value.slice(2) : value,
+
+  /**
+   * Converts a hex string into a byte array.
+   *
+   * @param {string} value - The hex string, with or without `0x` prefix.
+   * @returns {Uint8Array} The bytes.
+   *
+   * @example
+   * const data = hex.toBytes('0x1234');
+   */
+  toBytes: (value: string): Uint8Array => {
+    const digits: string = hex.strip(value);
+    if (digits.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(digits)) {
+      throw new Error('[hex/toBytes] error: Invalid hex string');
+    }
+
+    const bytes = new Uint8Array(digits.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+  },
+
+  /**
+   * Converts a byte array into a `0x` prefixed hex string.
+   *
+   * @param {Uint8Array} bytes - The bytes.
+   * @returns {string} The hex string.
+   *
+   * @example
+   * const data = hex.fromBytes(new Uint8Array([18, 52])); // '0x1234'
+   */
+  fromBytes: (bytes: Uint8Array): string => {
+    let digits: string = '';
+    for (let i = 0; i < bytes.length; i++) {
+      digits += bytes[i].toString(16).padStart(2, '0');
+    }
+    return `0x${digits}`;
+  },
+
+  /**
+   * Encodes a text as UTF-8 bytes in a hex string.
+   *
+   * @param {string} text - The text to encode.
+   * @returns {string} The hex string.
+   *
+   * @example
+   * const data = hex.fromUtf8('USDT'); // '0x55534454'
+   */
+  fromUtf8: (text: string): string =>
+    hex.fromBytes(new TextEncoder().encode(text)),
+
+  /**
+   * Decodes a hex string holding UTF-8 bytes into a text.
+   *
+   * @param {string} value - The hex string.
+   * @returns {string} The decoded text.
+   *
+   * @example
+   * const data = hex.toUtf8('0x55534454'); // 'USDT'
+   */
+  toUtf8: (value: string): string =>
+    new TextDecoder().decode(hex.toBytes(value)),
+
+  /**
+   * Converts a non-negative integer into a `0x` prefixed quantity, as used by JSON-RPC.
+   *
+   * @param {number | bigint} value - The integer.
+   * @returns {string} The quantity hex string, without leading zeros.
+   *
+   * @example
+   * const data = hex.fromNumber(255); // '0xff'
+   */
+  fromNumber: (value: number | bigint): string =>
+    `0x${BigInt(value).toString(16)}`,
+
+  /**
+   * Concatenates hex strings into one `0x` prefixed hex string.
+   *
+   * @param {string[]} values - The hex strings.
+   * @returns {string} The concatenated hex string.
+   *
+   * @example
+   * const data = hex.concat(['0x12', '0x34']); // '0x1234'
+   */
+  concat: (values: string[]): string =>
+    `0x${values.map((value: string): string => hex.strip(value)).join('')}`,
+};
@@ -0,0 +1,158 @@
+import { hex } from './hex.js';
+
+const RATE: number = 136;
+const MASK: bigint = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+/**
+ * Rotation offsets of the rho step, indexed by lane position `x + 5 * y`.
+ */
+const ROTATIONS: number[] = [
+  0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18,
+  2, 61, 56, 14,
+];
+
+/**
+ * Round constants of the iota step, generated with the linear feedback shift register from the specification.
+ */
+const ROUND_CONSTANTS: bigint[] = ((): bigint[] => {
+  const constants: bigint[] = [];
+  let register: number = 1;
+
+  for (let round = 0; round < 24; round++) {
+    let constant: bigint = BigInt(0);
+    for (let j = 0; j < 7; j++) {
+      register = ((register << 1) ^ ((register >> 7) * 0x71)) % 256;
+      if (register & 2) {
+        constant ^= BigInt(1) << BigInt((1 << j) - 1);
+      }
+    }
+    constants.push(constant);
+  }
+
+  return constants;
+})();
+
+const rotate = (lane: bigint, offset: number): bigint =>
+  offset === 0
+    ? lane
+    : ((lane << BigInt(offset)) | (lane >> BigInt(64 - offset))) & MASK;
+
+/**
+ * Applies the keccak-f[1600] permutation to the state in place.
+ *
+ * @param {bigint[]} state - The 25 lanes of the state.
+ */
+const permute = (state: bigint[]): void => {
+  const columns: bigint[] = new Array(5);
+  const lanes: bigint[] = new Array(25);
+
+  for (let round = 0; round < 24; round++) {
+    for (let x = 0; x < 5; x++) {
+      columns[x] =
+        state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+
+    for (let x = 0; x < 5; x++) {
+      const delta: bigint =
+        columns[(x + 4) % 5] ^ rotate(columns[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) {
+        state[x + y] ^= delta;
+      }
+    }
+
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        lanes[y + 5 * ((2 * x + 3 * y) % 5)] = rotate(
+          state[x + 5 * y],
+          ROTATIONS[x + 5 * y]
+        );
+      }
+    }
+
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] =
+          lanes[x + y] ^
+          (~lanes[((x + 1) % 5) + y] & MASK & lanes[((x + 2) % 5) + y]);
+      }
+    }
+
+    state[0] ^= ROUND_CONSTANTS[round];
+  }
+};
+
+/**
+ * Computes the keccak-256 hash used by Ethereum (the original keccak padding, not NIST SHA3-256).
+ *
+ * @param {Uint8Array | string} data - The bytes to hash, as a byte array or `0x` prefixed hex string.
+ * @returns {string} The `0x` prefixed 32 byte hash.
+ *
+ * @example
+ * const data = keccak256(hex.fromUtf8('balanceOf(address)'));
+ */
+export const keccak256 = (data: Uint8Array | string): string => {
+  const input: Uint8Array = typeof data === 'string' ? hex.toBytes(data) : data;
+  const blocks: number = Math.floor(input.length / RATE) + 1;
+  const padded = new Uint8Array(blocks * RATE);
+  padded.set(input);
+  padded[input.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state: bigint[] = new Array(25).fill(BigInt(0));
+
+  for (let offset = 0; offset < padded.length; offset += RATE) {
+    for (let i = 0; i < RATE / 8; i++) {
+      let lane: bigint = BigInt(0);
+      for (let b = 7; b >= 0; b--) {
+        lane = (lane << BigInt(8)) | BigInt(padded[offset + i * 8 + b]);
+      }
+      state[i] ^= lane;
+    }
+    permute(state);
+  }
+
+  const output = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    output[i] = Number((state[i >> 3] >> BigInt((i % 8) * 8)) & BigInt(0xff));
+  }
+
+  return hex.fromBytes(output);
+};
+
+/**
+ * Normalizes a human-readable signature by removing whitespace (e.g. 'transfer(address, uint256)').
+ *
+ * @param {string} signature - The signature.
+ * @returns {string} The canonical signature.
+ */
+const normalizeSignature = (signature: string): string => {
+  const normalized: string = signature.replace(/\s+/g, '');
+  if (!/^[A-Za-z_$][A-Za-z0-9_$]*\(.*\)$/.test(normalized)) {
+    throw new Error(`[keccak/signature] error: Invalid signature ${signature}`);
+  }
+  return normalized;
+};
+
+/**
+ * Computes the 4 byte function (or custom error) selector of a signature.
+ *
+ * @param {string} signature - The canonical signature (e.g. 'balanceOf(address)').
+ * @returns {string} The `0x` prefixed selector.
+ *
+ * @example
+ * const data = selector('balanceOf(address)'); // '0x70a08231'
+ */
+export const selector = (signature: string): string =>
+  keccak256(hex.fromUtf8(normalizeSignature(signature))).slice(0, 10);
+
+/**
+ * Computes the topic of an event signature, used as the first topic of its logs.
+ *
+ * @param {string} signature - The canonical event signature (e.g. 'Transfer(address,address,uint256)').
+ * @returns {string} The `0x` prefixed 32 byte topic.
+ *
+ * @example
+ * const data = eventTopic('Transfer(address,address,uint256)');
+ */
+export const eventTopic = (signature: string): string =>
+  keccak256(hex.fromUtf8(normalizeSignature(signature)));
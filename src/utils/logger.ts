@@ -0,0 +1,11 @@
+import { Logger } from '../lib/interfaces/logger.js';
+
+/**
+ * Logger that discards every message, used by default.
+ */
+export const silentLogger: Logger = {
+  debug: (): void => undefined,
+  info: (): void => undefined,
+  warn: (): void => undefined,
+  error: (): void => undefined,
+};
@@ -0,0 +1,100 @@
+import { hex } from './hex.js';
+import { keccak256 } from './keccak.js';
+
+const ZERO_NODE: string = `0x${'00'.repeat(32)}`;
+
+/**
+ * Characters that can never appear in a normalized name: whitespace, control characters and URL delimiters.
+ */
+const DISALLOWED_PATTERN: RegExp = /[\s\u0000-\u001f\u007f-\u009f%/?#@:\\[\]]/u;
+
+/**
+ * Matches a label given as its hash, e.g. `[4f5b...]`, used for labels whose plain text is unknown.
+ */
+const HASHED_LABEL_PATTERN: RegExp = /^\[[0-9a-f]{64}\]$/;
+
+/**
+ * Normalizes an ENS name: lowercases it, applies NFC normalization and rejects empty labels and disallowed characters.
+ * This covers the common cases of ENSIP-15 but does not apply its emoji and confusable tables.
+ *
+ * @param {string} name - The name, e.g. 'Vitalik.eth'.
+ * @returns {string} The normalized name.
+ * @throws {Error} When the name has an empty label or a disallowed character.
+ *
+ * @example
+ * const data = normalize('Vitalik.ETH'); // 'vitalik.eth'
+ */
+export const normalize = (name: string): string => {
+  const normalized: string = name.toLowerCase().normalize('NFC');
+
+  normalized.split('.').forEach((label: string): void => {
+    if (
+      !label ||
+      (DISALLOWED_PATTERN.test(label) && !HASHED_LABEL_PATTERN.test(label))
+    ) {
+      throw new Error(`[namehash/normalize] error: Invalid name ${name}`);
+    }
+  });
+
+  return normalized;
+};
+
+/**
+ * Hashes a single label, or returns the hash of a label already given in `[hash]` form.
+ *
+ * @param {string} label - The label.
+ * @returns {string} The `0x` prefixed 32 byte label hash.
+ */
+const labelhash = (label: string): string =>
+  HASHED_LABEL_PATTERN.test(label)
+    ? `0x${label.slice(1, -1)}`
+    : keccak256(hex.fromUtf8(label));
+
+/**
+ * Computes the ENS node of a name (EIP-137 namehash). The name is normalized first.
+ *
+ * @param {string} name - The name, e.g. 'vitalik.eth'. The empty string is the root node.
+ * @returns {string} The `0x` prefixed 32 byte node.
+ *
+ * @example
+ * const data = namehash('eth'); // '0x93cdeb708b7545dc668eb9280176169d1c33cfd8ed6f04690a0bcc88a93fc4ae'
+ */
+export const namehash = (name: string): string => {
+  if (!name) {
+    return ZERO_NODE;
+  }
+
+  return normalize(name)
+    .split('.')
+    .reduceRight(
+      (node: string, label: string): string =>
+        keccak256(hex.concat([node, labelhash(label)])),
+      ZERO_NODE
+    );
+};
+
+/**
+ * Encodes a name in the DNS wire format used by ENSIP-10 wildcard resolvers: every label prefixed with its length.
+ *
+ * @param {string} name - The name, e.g. 'vitalik.eth'.
+ * @returns {string} The `0x` prefixed encoded name, terminated by a zero byte.
+ * @throws {Error} When a label is longer than 255 bytes.
+ *
+ * @example
+ * const data = dnsEncode('vitalik.eth'); // '0x07766974616c696b0365746800'
+ */
+export const dnsEncode = (name: string): string =>
+  hex.concat([
+    ...normalize(name)
+      .split('.')
+      .map((label: string): string => {
+        const bytes: Uint8Array = new TextEncoder().encode(label);
+        if (bytes.length > 255) {
+          throw new Error(
+            `[namehash/dnsEncode] error: Label ${label} is longer than 255 bytes`
+          );
+        }
+        return hex.fromBytes(new Uint8Array([bytes.length, ...bytes]));
+      }),
+    '0x00',
+  ]);
@@ -0,0 +1,217 @@
+import { Abi, AbiError, AbiValue } from '../lib/interfaces/abi.js';
+import { ContractRevertError } from '../lib/errors/errors.js';
+import { Revert } from '../lib/interfaces/ethMethods.js';
+import { JsonRpcError } from '../lib/interfaces/jsonRpcResponse.js';
+
+import { abi } from './abi.js';
+import { hex } from './hex.js';
+
+/**
+ * Interface representing decoded revert data.
+ *
+ * @interface
+ * @property {string} data - The raw revert data.
+ * @property {string} [errorName] - Optional. The name of the error, undefined when the selector is unknown.
+ * @property {AbiValue[]} [args] - Optional. The decoded error arguments.
+ * @property {string} [reason] - Optional. The reason string of an `Error(string)` revert.
+ * @property {bigint} [panicCode] - Optional. The code of a `Panic(uint256)` revert.
+ * @property {string} [panicReason] - Optional. The human-readable description of the panic code.
+ */
+export interface DecodedRevert {
+  data: string;
+  errorName?: string;
+  args?: AbiValue[];
+  reason?: string;
+  panicCode?: bigint;
+  panicReason?: string;
+}
+
+/**
+ * Descriptions of the panic codes raised by the solidity compiler.
+ */
+export const PANIC_REASONS: { [code: number]: string } = {
+  0x00: 'generic compiler panic',
+  0x01: 'assertion failed',
+  0x11: 'arithmetic underflow or overflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'conversion to an invalid enum value',
+  0x22: 'access to an incorrectly encoded storage byte array',
+  0x31: 'pop on an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory or array too large',
+  0x51: 'call to an uninitialized internal function',
+};
+
+/**
+ * Provides helpers to decode the revert data of failed contract calls.
+ *
+ * @fileoverview This file includes the decoder of `Error(string)`, `Panic(uint256)` and custom errors.
+ * @namespace revert
+ */
+export const revert = {
+  /**
+   * Extracts the revert data from a JSON-RPC error. Nodes return it as `error.data`, some providers nest it
+   * one level deeper.
+   *
+   * @param {JsonRpcError} error - The JSON-RPC error.
+   * @returns {string | undefined} The `0x` prefixed revert data, or undefined when the error is not a revert.
+   *
+   * @example
+   * const data = revert.extractData({ code: 3, message: 'execution reverted', data: '0x08c379a0...' });
+   */
+  extractData: (error: JsonRpcError): string | undefined => {
+    const candidates: unknown[] = [
+      error.data,
+      error.data?.data,
+      error.data?.originalError?.data,
+    ];
+    const data: unknown = candidates.find(
+      (candidate: unknown): boolean =>
+        typeof candidate === 'string' && hex.isHex(candidate)
+    );
+
+    if (typeof data === 'string') {
+      return data;
+    }
+
+    return error.code === 3 || /revert/i.test(error.message) ? '0x' : undefined;
+  },
+
+  /**
+   * Decodes revert data as `Error(string)`, `Panic(uint256)` or one of the custom errors of an ABI.
+   *
+   * @param {string} data - The `0x` prefixed revert data.
+   * @param {Abi} [contractAbi] - Optional. The ABI declaring the custom errors of the contract.
+   * @returns {DecodedRevert} The decoded revert, with only `data` set when it cannot be decoded.
+   *
+   * @example
+   * const { reason } = revert.decode('0x08c379a0...'); // 'Ownable: caller is not the owner'
+   */
+  decode: (data: string, contractAbi: Abi = []): DecodedRevert => {
+    const errorSelector: string = data.slice(0, 10).toLowerCase();
+    const params: string = `0x${data.slice(10)}`;
+
+    try {
+      if (errorSelector === Revert.Error) {
+        const [reason] = abi.decodeParameters(['string'], params);
+        return {
+          data,
+          errorName: 'Error',
+          args: [reason],
+          reason: reason as string,
+        };
+      }
+
+      if (errorSelector === Revert.Panic) {
+        const [panicCode] = abi.decodeParameters(['uint256'], params);
+        return {
+          data,
+          errorName: 'Panic',
+          args: [panicCode],
+          panicCode: panicCode as bigint,
+          panicReason:
+            PANIC_REASONS[Number(panicCode)] ??
+            `unknown panic code 0x${(panicCode as bigint).toString(16)}`,
+        };
+      }
+
+      const error: AbiError | undefined = contractAbi.find(
+        (item: Abi[number]): item is AbiError =>
+          item.type === 'error' && abi.getSelector(item) === errorSelector
+      );
+
+      if (error) {
+        return {
+          data,
+          errorName: error.name,
+          args: abi.decodeParameters(error.inputs, params),
+        };
+      }
+    } catch {
+      return { data };
+    }
+
+    return { data };
+  },
+
+  /**
+   * Describes decoded revert data in a single line: the reason string, the panic code or the custom error.
+   *
+   * @param {DecodedRevert} decoded - The decoded revert.
+   * @returns {string} The description, empty when the contract reverted without data.
+   *
+   * @example
+   * const data = revert.describe(revert.decode('0x4e487b71...')); // 'Panic(0x11): arithmetic underflow or overflow'
+   */
+  describe: (decoded: DecodedRevert): string => {
+    if (decoded.reason !== undefined) {
+      return decoded.reason;
+    }
+
+    if (decoded.panicCode !== undefined) {
+      return `Panic(0x${decoded.panicCode.toString(16)}): ${
+        decoded.panicReason
+      }`;
+    }
+
+    if (decoded.errorName) {
+      return `${decoded.errorName}(${(decoded.args ?? [])
+        .map(formatArg)
+        .join(', ')})`;
+    }
+
+    return decoded.data === '0x'
+      ? ''
+      : `unknown error ${decoded.data.slice(0, 10)}`;
+  },
+
+  /**
+   * Creates the error thrown for a reverted call, with the decoded revert attached.
+   *
+   * @param {string} context - The module and function of the call, e.g. '[erc20/getName]'.
+   * @param {string} data - The `0x` prefixed revert data.
+   * @param {Abi} [contractAbi] - Optional. The ABI declaring the custom errors of the contract.
+   * @param {unknown} [cause] - Optional. The underlying error.
+   * @returns {ContractRevertError} The revert error.
+   *
+   * @example
+   * throw revert.toError('[contract/transfer]', '0x08c379a0...', tokenAbi);
+   */
+  toError: (
+    context: string,
+    data: string,
+    contractAbi: Abi = [],
+    cause?: unknown
+  ): ContractRevertError => {
+    const decoded: DecodedRevert = revert.decode(data, contractAbi);
+    const description: string = revert.describe(decoded);
+
+    return new ContractRevertError(
+      `${context} error: execution reverted${
+        description ? `: ${description}` : ''
+      }`,
+      { ...decoded, cause }
+    );
+  },
+};
+
+/**
+ * Formats a decoded error argument for display.
+ *
+ * @param {AbiValue} value - The argument.
+ * @returns {string} The formatted argument.
+ */
+const formatArg = (value: AbiValue): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatArg).join(', ')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.entries(value)
+      .map(
+        ([key, item]: [string, AbiValue]): string =>
+          `${key}: ${formatArg(item)}`
+      )
+      .join(', ')}}`;
+  }
+  return typeof value === 'string' ? `"${value}"` : String(value);
+};
@@ -0,0 +1,173 @@
+import { hex } from './hex.js';
+
+/**
+ * Type representing a value of the recursive length prefix encoding: a byte string, as a `0x` prefixed hex string or
+ * a byte array, or a list of values.
+ *
+ * @type
+ */
+export type RlpInput = string | Uint8Array | RlpInput[];
+
+/**
+ * Type representing a decoded value: a `0x` prefixed hex string, or a list of values.
+ *
+ * @type
+ */
+export type RlpValue = string | RlpValue[];
+
+/**
+ * Encodes the length prefix of a string or a list.
+ *
+ * @param {number} length - The length of the payload in bytes.
+ * @param {number} offset - 0x80 for strings, 0xc0 for lists.
+ * @returns {string} The prefix, without `0x`.
+ */
+const encodeLength = (length: number, offset: number): string => {
+  if (length < 56) {
+    return (offset + length).toString(16).padStart(2, '0');
+  }
+
+  let lengthDigits: string = length.toString(16);
+  if (lengthDigits.length % 2 !== 0) {
+    lengthDigits = `0${lengthDigits}`;
+  }
+  const prefix: number = offset + 55 + lengthDigits.length / 2;
+  return `${prefix.toString(16)}${lengthDigits}`;
+};
+
+/**
+ * Encodes a value, returning its hex digits without `0x`.
+ *
+ * @param {RlpInput} value - The value.
+ * @returns {string} The encoded digits.
+ */
+const encodeDigits = (value: RlpInput): string => {
+  if (Array.isArray(value)) {
+    const payload: string = value.map(encodeDigits).join('');
+    return `${encodeLength(payload.length / 2, 0xc0)}${payload}`;
+  }
+
+  const bytes: Uint8Array =
+    typeof value === 'string' ? hex.toBytes(value) : value;
+  const digits: string = hex.strip(hex.fromBytes(bytes));
+  if (bytes.length === 1 && bytes[0] < 0x80) {
+    return digits;
+  }
+  return `${encodeLength(bytes.length, 0x80)}${digits}`;
+};
+
+/**
+ * Reads a big-endian length from the bytes following a long form prefix.
+ *
+ * @param {Uint8Array} bytes - The encoded data.
+ * @param {number} offset - The position of the length.
+ * @param {number} size - The number of bytes of the length.
+ * @returns {number} The length.
+ */
+const readLength = (
+  bytes: Uint8Array,
+  offset: number,
+  size: number
+): number => {
+  if (offset + size > bytes.length || bytes[offset] === 0) {
+    throw new Error('[rlp/decode] error: Invalid length prefix');
+  }
+
+  let length: number = 0;
+  for (let i = 0; i < size; i++) {
+    length = length * 256 + bytes[offset + i];
+  }
+  if (length < 56) {
+    throw new Error('[rlp/decode] error: Invalid length prefix');
+  }
+  return length;
+};
+
+/**
+ * Decodes the value starting at a position.
+ *
+ * @param {Uint8Array} bytes - The encoded data.
+ * @param {number} offset - The position of the value.
+ * @returns {[RlpValue, number]} The value and the position following it.
+ */
+const decodeAt = (bytes: Uint8Array, offset: number): [RlpValue, number] => {
+  if (offset >= bytes.length) {
+    throw new Error('[rlp/decode] error: Unexpected end of data');
+  }
+
+  const prefix: number = bytes[offset];
+  if (prefix < 0x80) {
+    return [hex.fromBytes(bytes.subarray(offset, offset + 1)), offset + 1];
+  }
+
+  const isList: boolean = prefix >= 0xc0;
+  const shortForm: number = isList ? 0xc0 : 0x80;
+  let start: number = offset + 1;
+  let length: number = prefix - shortForm;
+  if (length > 55) {
+    start += length - 55;
+    length = readLength(bytes, offset + 1, length - 55);
+  }
+
+  const end: number = start + length;
+  if (end > bytes.length) {
+    throw new Error('[rlp/decode] error: Unexpected end of data');
+  }
+
+  if (!isList) {
+    if (length === 1 && prefix === 0x81 && bytes[start] < 0x80) {
+      throw new Error('[rlp/decode] error: Invalid single byte encoding');
+    }
+    return [hex.fromBytes(bytes.subarray(start, end)), end];
+  }
+
+  const items: RlpValue[] = [];
+  let position: number = start;
+  while (position < end) {
+    const [item, next] = decodeAt(bytes, position);
+    items.push(item);
+    position = next;
+  }
+  if (position !== end) {
+    throw new Error('[rlp/decode] error: List length mismatch');
+  }
+  return [items, end];
+};
+
+/**
+ * Provides the recursive length prefix (RLP) serialization used by transactions.
+ *
+ * @fileoverview This file includes the encoder and decoder of byte strings and nested lists.
+ * @namespace rlp
+ */
+export const rlp = {
+  /**
+   * Encodes a byte string or a nested list of byte strings.
+   *
+   * @param {RlpInput} value - The value, with byte strings as `0x` prefixed hex strings or byte arrays.
+   * @returns {string} The `0x` prefixed encoding.
+   *
+   * @example
+   * const data = rlp.encode([hex.fromUtf8('cat'), hex.fromUtf8('dog')]); // '0xc88363617483646f67'
+   */
+  encode: (value: RlpInput): string => `0x${encodeDigits(value)}`,
+
+  /**
+   * Decodes an encoded byte string or nested list of byte strings.
+   *
+   * @param {string} data - The `0x` prefixed encoding.
+   * @returns {RlpValue} The value, with byte strings as `0x` prefixed hex strings.
+   * @throws {Error} When the data is not a canonical encoding of a single value.
+   *
+   * @example
+   * const data = rlp.decode('0xc88363617483646f67'); // ['0x636174', '0x646f67']
+   */
+  decode: (data: string): RlpValue => {
+    const bytes: Uint8Array = hex.toBytes(data);
+    const [value, end] = decodeAt(bytes, 0);
+    if (end !== bytes.length) {
+      throw new Error('[rlp/decode] error: Trailing bytes after value');
+    }
+    return value;
+  },
+};
@@ -0,0 +1,343 @@
+import { Signature } from '../lib/interfaces/signer.js';
+
+import { hex } from './hex.js';
+import { hmacSha256 } from './sha256.js';
+
+/**
+ * The field prime, the curve order and the generator of secp256k1 (y² = x³ + 7).
+ */
+const P: bigint = BigInt(
+  '0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f'
+);
+const N: bigint = BigInt(
+  '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141'
+);
+const G: AffinePoint = [
+  BigInt('0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'),
+  BigInt('0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8'),
+];
+
+/**
+ * A point in affine coordinates, or null for the point at infinity.
+ */
+type AffinePoint = [bigint, bigint] | null;
+
+/**
+ * A point in jacobian coordinates `(X / Z², Y / Z³)`, the point at infinity having `Z = 0`.
+ */
+type JacobianPoint = [bigint, bigint, bigint];
+
+const ZERO: bigint = BigInt(0);
+const ONE: bigint = BigInt(1);
+const TWO: bigint = BigInt(2);
+const THREE: bigint = BigInt(3);
+const INFINITY: JacobianPoint = [ZERO, ONE, ZERO];
+
+const mod = (value: bigint, modulus: bigint = P): bigint => {
+  const result: bigint = value % modulus;
+  return result >= ZERO ? result : result + modulus;
+};
+
+/**
+ * Computes the modular inverse with the extended Euclidean algorithm.
+ *
+ * @param {bigint} value - The value to invert, not a multiple of the modulus.
+ * @param {bigint} modulus - The prime modulus.
+ * @returns {bigint} The inverse.
+ */
+const invert = (value: bigint, modulus: bigint): bigint => {
+  let [low, high] = [mod(value, modulus), modulus];
+  let [lowCoefficient, highCoefficient] = [ONE, ZERO];
+
+  while (low > ONE) {
+    const ratio: bigint = high / low;
+    [low, high] = [high - ratio * low, low];
+    [lowCoefficient, highCoefficient] = [
+      highCoefficient - ratio * lowCoefficient,
+      lowCoefficient,
+    ];
+  }
+
+  return mod(lowCoefficient, modulus);
+};
+
+const power = (base: bigint, exponent: bigint): bigint => {
+  let result: bigint = ONE;
+  base = mod(base);
+  while (exponent > ZERO) {
+    if (exponent & ONE) {
+      result = mod(result * base);
+    }
+    base = mod(base * base);
+    exponent >>= ONE;
+  }
+  return result;
+};
+
+const double = ([x, y, z]: JacobianPoint): JacobianPoint => {
+  if (z === ZERO || y === ZERO) {
+    return INFINITY;
+  }
+
+  const a: bigint = mod(x * x);
+  const b: bigint = mod(y * y);
+  const c: bigint = mod(b * b);
+  const d: bigint = mod(TWO * ((x + b) * (x + b) - a - c));
+  const e: bigint = mod(THREE * a);
+  const x3: bigint = mod(e * e - TWO * d);
+
+  return [x3, mod(e * (d - x3) - BigInt(8) * c), mod(TWO * y * z)];
+};
+
+const add = (first: JacobianPoint, second: JacobianPoint): JacobianPoint => {
+  const [x1, y1, z1] = first;
+  const [x2, y2, z2] = second;
+  if (z1 === ZERO) {
+    return second;
+  }
+  if (z2 === ZERO) {
+    return first;
+  }
+
+  const z1z1: bigint = mod(z1 * z1);
+  const z2z2: bigint = mod(z2 * z2);
+  const u1: bigint = mod(x1 * z2z2);
+  const u2: bigint = mod(x2 * z1z1);
+  const s1: bigint = mod(y1 * z2 * z2z2);
+  const s2: bigint = mod(y2 * z1 * z1z1);
+
+  if (u1 === u2) {
+    return s1 === s2 ? double(first) : INFINITY;
+  }
+
+  const h: bigint = mod(u2 - u1);
+  const r: bigint = mod(s2 - s1);
+  const h2: bigint = mod(h * h);
+  const h3: bigint = mod(h * h2);
+  const u1h2: bigint = mod(u1 * h2);
+  const x3: bigint = mod(r * r - h3 - TWO * u1h2);
+
+  return [x3, mod(r * (u1h2 - x3) - s1 * h3), mod(h * z1 * z2)];
+};
+
+const toAffine = ([x, y, z]: JacobianPoint): AffinePoint => {
+  if (z === ZERO) {
+    return null;
+  }
+  const inverse: bigint = invert(z, P);
+  const inverse2: bigint = mod(inverse * inverse);
+  return [mod(x * inverse2), mod(y * inverse2 * inverse)];
+};
+
+/**
+ * Multiplies a point by a scalar with the double-and-add method.
+ *
+ * @param {AffinePoint} point - The point.
+ * @param {bigint} scalar - The scalar.
+ * @returns {JacobianPoint} The product.
+ */
+const multiply = (point: AffinePoint, scalar: bigint): JacobianPoint => {
+  let result: JacobianPoint = INFINITY;
+  let addend: JacobianPoint = point ? [point[0], point[1], ONE] : INFINITY;
+
+  while (scalar > ZERO) {
+    if (scalar & ONE) {
+      result = add(result, addend);
+    }
+    addend = double(addend);
+    scalar >>= ONE;
+  }
+
+  return result;
+};
+
+const toBigInt = (value: string): bigint =>
+  hex.strip(value).length ? BigInt(`0x${hex.strip(value)}`) : ZERO;
+
+const toWord = (value: bigint): string =>
+  `0x${value.toString(16).padStart(64, '0')}`;
+
+/**
+ * Reads a 32 byte hash as an integer.
+ *
+ * @param {string} hash - The `0x` prefixed hash.
+ * @param {string} context - The module and function reading the hash, used in errors.
+ * @returns {bigint} The hash as an integer.
+ */
+const readHash = (hash: string, context: string): bigint => {
+  if (!hex.isHex(hash) || hash.length !== 66) {
+    throw new Error(`${context} error: Expected a 32 byte hash`);
+  }
+  return toBigInt(hash);
+};
+
+/**
+ * Reads a private key as an integer.
+ *
+ * @param {string} privateKey - The `0x` prefixed 32 byte private key.
+ * @param {string} context - The module and function reading the key, used in errors.
+ * @returns {bigint} The private key as an integer, between 1 and the curve order.
+ */
+const readPrivateKey = (privateKey: string, context: string): bigint => {
+  if (!secp256k1.isValidPrivateKey(privateKey)) {
+    throw new Error(`${context} error: Invalid private key`);
+  }
+  return toBigInt(privateKey);
+};
+
+/**
+ * Signs a hash with the deterministic nonces of RFC 6979, generated with HMAC-SHA256.
+ *
+ * @param {bigint} privateKey - The private key.
+ * @param {bigint} hash - The hash to sign.
+ * @returns {Signature} The signature, with the s value in the lower half of the curve order.
+ */
+const signDeterministic = (privateKey: bigint, hash: bigint): Signature => {
+  const seed: string = hex.concat([toWord(privateKey), toWord(mod(hash, N))]);
+  let v: string = `0x${'01'.repeat(32)}`;
+  let k: string = `0x${'00'.repeat(32)}`;
+
+  k = hmacSha256(k, hex.concat([v, '0x00', seed]));
+  v = hmacSha256(k, v);
+  k = hmacSha256(k, hex.concat([v, '0x01', seed]));
+  v = hmacSha256(k, v);
+
+  for (;;) {
+    v = hmacSha256(k, v);
+    const nonce: bigint = toBigInt(v);
+
+    if (nonce > ZERO && nonce < N) {
+      const [x, y] = toAffine(multiply(G, nonce));
+      const r: bigint = mod(x, N);
+      let s: bigint = mod(invert(nonce, N) * (hash + r * privateKey), N);
+
+      // The rare nonces whose point has an x coordinate above the curve order cannot be recovered from a 0 or 1 parity.
+      if (r !== ZERO && s !== ZERO && x < N) {
+        let yParity: number = Number(y & ONE);
+        if (s > N >> ONE) {
+          s = N - s;
+          yParity ^= 1;
+        }
+        return { r: toWord(r), s: toWord(s), yParity };
+      }
+    }
+
+    k = hmacSha256(k, hex.concat([v, '0x00']));
+    v = hmacSha256(k, v);
+  }
+};
+
+/**
+ * Provides the secp256k1 elliptic curve operations behind Ethereum accounts: public key derivation, deterministic
+ * signatures and public key recovery.
+ *
+ * @fileoverview This file includes a pure bigint implementation of the curve. It is not constant time, so keys
+ * should only be used in environments where timing side channels are not a concern, e.g. a backend service.
+ * @namespace secp256k1
+ */
+export const secp256k1 = {
+  /**
+   * Checks whether a value is a valid private key.
+   *
+   * @param {unknown} value - The value to check.
+   * @returns {boolean} True when the value is a `0x` prefixed 32 byte integer between 1 and the curve order.
+   *
+   * @example
+   * const data = secp256k1.isValidPrivateKey('0xPRIVATE_KEY');
+   */
+  isValidPrivateKey: (value: unknown): value is string => {
+    if (!hex.isHex(value) || value.length !== 66) {
+      return false;
+    }
+    const key: bigint = toBigInt(value);
+    return key > ZERO && key < N;
+  },
+
+  /**
+   * Derives the public key of a private key.
+   *
+   * @param {string} privateKey - The `0x` prefixed 32 byte private key.
+   * @param {boolean} [compressed=false] - Optional. Return the 33 byte compressed form instead of the 65 byte uncompressed form.
+   * @returns {string} The `0x` prefixed public key, starting with `04` uncompressed, `02` or `03` compressed.
+   * @throws {Error} When the private key is invalid.
+   *
+   * @example
+   * const data = secp256k1.getPublicKey('0xPRIVATE_KEY');
+   */
+  getPublicKey: (privateKey: string, compressed: boolean = false): string => {
+    const [x, y] = toAffine(
+      multiply(G, readPrivateKey(privateKey, '[secp256k1/getPublicKey]'))
+    );
+    return compressed
+      ? hex.concat([y & ONE ? '0x03' : '0x02', toWord(x)])
+      : hex.concat(['0x04', toWord(x), toWord(y)]);
+  },
+
+  /**
+   * Signs a 32 byte hash with a deterministic nonce (RFC 6979). The s value is normalized to the lower half of the
+   * curve order, as required by Ethereum since EIP-2.
+   *
+   * @param {string} hash - The `0x` prefixed 32 byte hash.
+   * @param {string} privateKey - The `0x` prefixed 32 byte private key.
+   * @returns {Signature} The signature and the parity needed to recover the public key.
+   * @throws {Error} When the hash or the private key is invalid.
+   *
+   * @example
+   * const data = secp256k1.sign(keccak256(hex.fromUtf8('hello')), '0xPRIVATE_KEY');
+   */
+  sign: (hash: string, privateKey: string): Signature => {
+    const message: bigint = readHash(hash, '[secp256k1/sign]');
+    return signDeterministic(
+      readPrivateKey(privateKey, '[secp256k1/sign]'),
+      message
+    );
+  },
+
+  /**
+   * Recovers the public key that produced a signature of a hash.
+   *
+   * @param {string} hash - The `0x` prefixed 32 byte hash.
+   * @param {Signature} signature - The signature.
+   * @returns {string} The `0x` prefixed 65 byte uncompressed public key.
+   * @throws {Error} When the signature is invalid.
+   *
+   * @example
+   * const data = secp256k1.recoverPublicKey('0xHASH', { r: '0xR', s: '0xS', yParity: 1 });
+   */
+  recoverPublicKey: (hash: string, { r, s, yParity }: Signature): string => {
+    const message: bigint = readHash(hash, '[secp256k1/recoverPublicKey]');
+    const rValue: bigint = toBigInt(r);
+    const sValue: bigint = toBigInt(s);
+    if (
+      rValue <= ZERO ||
+      rValue >= N ||
+      sValue <= ZERO ||
+      sValue >= N ||
+      (yParity !== 0 && yParity !== 1)
+    ) {
+      throw new Error('[secp256k1/recoverPublicKey] error: Invalid signature');
+    }
+
+    const y2: bigint = mod(rValue * rValue * rValue + BigInt(7));
+    let y: bigint = power(y2, (P + ONE) >> TWO);
+    if (mod(y * y) !== y2) {
+      throw new Error('[secp256k1/recoverPublicKey] error: Invalid signature');
+    }
+    if (Number(y & ONE) !== yParity) {
+      y = P - y;
+    }
+
+    const inverse: bigint = invert(rValue, N);
+    const point: AffinePoint = toAffine(
+      add(
+        multiply(G, mod(-message * inverse, N)),
+        multiply([rValue, y], mod(sValue * inverse, N))
+      )
+    );
+    if (!point) {
+      throw new Error('[secp256k1/recoverPublicKey] error: Invalid signature');
+    }
+
+    return hex.concat(['0x04', toWord(point[0]), toWord(point[1])]);
+  },
+};
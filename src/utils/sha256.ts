@@ -0,0 +1,176 @@
+import { hex } from './hex.js';
+
+const BLOCK_SIZE: number = 64;
+
+/**
+ * Round constants, the first 32 bits of the fractional parts of the cube roots of the first 64 primes.
+ */
+const ROUND_CONSTANTS: Uint32Array = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * Initial hash value, the first 32 bits of the fractional parts of the square roots of the first 8 primes.
+ */
+const INITIAL_HASH: Uint32Array = new Uint32Array([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+  0x1f83d9ab, 0x5be0cd19,
+]);
+
+const rotate = (word: number, offset: number): number =>
+  (word >>> offset) | (word << (32 - offset));
+
+/**
+ * Applies the compression function to a 64 byte block, updating the hash in place.
+ *
+ * @param {Uint32Array} hash - The 8 words of the intermediate hash.
+ * @param {DataView} view - The padded message.
+ * @param {number} offset - The position of the block in the message.
+ * @param {Uint32Array} schedule - The 64 words of the message schedule, reused between blocks.
+ */
+const compress = (
+  hash: Uint32Array,
+  view: DataView,
+  offset: number,
+  schedule: Uint32Array
+): void => {
+  for (let i = 0; i < 16; i++) {
+    schedule[i] = view.getUint32(offset + i * 4);
+  }
+  for (let i = 16; i < 64; i++) {
+    const s0: number =
+      rotate(schedule[i - 15], 7) ^
+      rotate(schedule[i - 15], 18) ^
+      (schedule[i - 15] >>> 3);
+    const s1: number =
+      rotate(schedule[i - 2], 17) ^
+      rotate(schedule[i - 2], 19) ^
+      (schedule[i - 2] >>> 10);
+    schedule[i] = schedule[i - 16] + s0 + schedule[i - 7] + s1;
+  }
+
+  let [a, b, c, d, e, f, g, h] = hash;
+  for (let i = 0; i < 64; i++) {
+    const t1: number =
+      (h +
+        (rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25)) +
+        ((e & f) ^ (~e & g)) +
+        ROUND_CONSTANTS[i] +
+        schedule[i]) |
+      0;
+    const t2: number =
+      ((rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22)) +
+        ((a & b) ^ (a & c) ^ (b & c))) |
+      0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+
+  hash[0] += a;
+  hash[1] += b;
+  hash[2] += c;
+  hash[3] += d;
+  hash[4] += e;
+  hash[5] += f;
+  hash[6] += g;
+  hash[7] += h;
+};
+
+/**
+ * Computes the SHA-256 digest of a byte array.
+ *
+ * @param {Uint8Array} input - The bytes to hash.
+ * @returns {Uint8Array} The 32 byte digest.
+ */
+const digest = (input: Uint8Array): Uint8Array => {
+  const blocks: number = Math.ceil((input.length + 9) / BLOCK_SIZE);
+  const padded = new Uint8Array(blocks * BLOCK_SIZE);
+  padded.set(input);
+  padded[input.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(input.length / 0x20000000));
+  view.setUint32(padded.length - 4, (input.length * 8) >>> 0);
+
+  const hash = new Uint32Array(INITIAL_HASH);
+  const schedule = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += BLOCK_SIZE) {
+    compress(hash, view, offset, schedule);
+  }
+
+  const output = new Uint8Array(32);
+  const outputView = new DataView(output.buffer);
+  hash.forEach((word: number, i: number): void =>
+    outputView.setUint32(i * 4, word)
+  );
+  return output;
+};
+
+const toBytes = (data: Uint8Array | string): Uint8Array =>
+  typeof data === 'string' ? hex.toBytes(data) : data;
+
+/**
+ * Computes the SHA-256 hash of some data.
+ *
+ * @param {Uint8Array | string} data - The bytes to hash, as a byte array or `0x` prefixed hex string.
+ * @returns {string} The `0x` prefixed 32 byte hash.
+ *
+ * @example
+ * const data = sha256(hex.fromUtf8('abc'));
+ */
+export const sha256 = (data: Uint8Array | string): string =>
+  hex.fromBytes(digest(toBytes(data)));
+
+/**
+ * Computes the HMAC-SHA256 (RFC 2104) of some data, as used by the deterministic signature nonces of RFC 6979.
+ *
+ * @param {Uint8Array | string} key - The secret key, as a byte array or `0x` prefixed hex string.
+ * @param {Uint8Array | string} data - The bytes to authenticate, as a byte array or `0x` prefixed hex string.
+ * @returns {string} The `0x` prefixed 32 byte authentication code.
+ *
+ * @example
+ * const data = hmacSha256(hex.fromUtf8('key'), hex.fromUtf8('message'));
+ */
+export const hmacSha256 = (
+  key: Uint8Array | string,
+  data: Uint8Array | string
+): string => {
+  let keyBytes: Uint8Array = toBytes(key);
+  if (keyBytes.length > BLOCK_SIZE) {
+    keyBytes = digest(keyBytes);
+  }
+
+  const inner = new Uint8Array(BLOCK_SIZE);
+  const outer = new Uint8Array(BLOCK_SIZE);
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    inner[i] = (keyBytes[i] ?? 0) ^ 0x36;
+    outer[i] = (keyBytes[i] ?? 0) ^ 0x5c;
+  }
+
+  const message: Uint8Array = toBytes(data);
+  const innerInput = new Uint8Array(BLOCK_SIZE + message.length);
+  innerInput.set(inner);
+  innerInput.set(message, BLOCK_SIZE);
+
+  const outerInput = new Uint8Array(BLOCK_SIZE + 32);
+  outerInput.set(outer);
+  outerInput.set(digest(innerInput), BLOCK_SIZE);
+
+  return hex.fromBytes(digest(outerInput));
+};
@@ -0,0 +1,99 @@
+import { Signature } from '../lib/interfaces/signer.js';
+import { address } from './address.js';
+import { hex } from './hex.js';
+import { keccak256 } from './keccak.js';
+import { secp256k1 } from './secp256k1.js';
+
+/**
+ * Provides the conversion of signatures to and from their 65 byte `r ‖ s ‖ v` form, used by `ecrecover`, permits and
+ * wallet signatures, the EIP-191 message hash and the recovery of signers.
+ *
+ * @fileoverview This file includes the serialization of secp256k1 signatures and the recovery of their signer.
+ * @namespace signature
+ */
+export const signature = {
+  /**
+   * Serializes a signature as `r ‖ s ‖ v`, with `v` 27 or 28.
+   *
+   * @param {Signature} value - The signature.
+   * @returns {string} The `0x` prefixed 65 byte signature.
+   *
+   * @example
+   * const data = signature.serialize(secp256k1.sign('0xHASH', '0xPRIVATE_KEY'));
+   */
+  serialize: ({ r, s, yParity }: Signature): string =>
+    hex.concat([
+      hex.strip(r).padStart(64, '0'),
+      hex.strip(s).padStart(64, '0'),
+      (27 + yParity).toString(16),
+    ]),
+
+  /**
+   * Parses a 65 byte `r ‖ s ‖ v` signature, with `v` 27 or 28, or 0 or 1.
+   *
+   * @param {string} value - The `0x` prefixed signature.
+   * @returns {Signature} The signature.
+   * @throws {Error} When the value is not a 65 byte signature.
+   *
+   * @example
+   * const { r, s, yParity } = signature.parse('0xSIGNATURE');
+   */
+  parse: (value: string): Signature => {
+    const digits: string = hex.strip(String(value));
+    const v: number = parseInt(digits.slice(128), 16);
+    if (
+      !hex.isHex(`0x${digits}`) ||
+      digits.length !== 130 ||
+      ![0, 1, 27, 28].includes(v)
+    ) {
+      throw new Error('[signature/parse] error: Invalid signature');
+    }
+
+    return {
+      r: `0x${digits.slice(0, 64)}`,
+      s: `0x${digits.slice(64, 128)}`,
+      yParity: v % 27,
+    };
+  },
+
+  /**
+   * Computes the EIP-191 hash signed by `personal_sign`,
+   * `keccak256('\x19Ethereum Signed Message:\n' ‖ length ‖ message)`.
+   *
+   * @param {string | Uint8Array} message - The message, as a UTF-8 string or as raw bytes.
+   * @returns {string} The `0x` prefixed 32 byte hash.
+   *
+   * @example
+   * const data = signature.hashMessage('hello world'); // '0xd9eba16ed0ecae432b71fe008c98cc872bb4cc214d3220a36f365326cf807d68'
+   */
+  hashMessage: (message: string | Uint8Array): string => {
+    const bytes: Uint8Array =
+      typeof message === 'string' ? new TextEncoder().encode(message) : message;
+
+    return keccak256(
+      hex.concat([
+        hex.fromUtf8(`\x19Ethereum Signed Message:\n${bytes.length}`),
+        hex.fromBytes(bytes),
+      ])
+    );
+  },
+
+  /**
+   * Recovers the address of the account that signed a hash.
+   *
+   * @param {string} hash - The `0x` prefixed 32 byte hash.
+   * @param {string | Signature} value - The 65 byte signature, or its components.
+   * @returns {string} The checksummed address of the signer.
+   * @throws {Error} When the signature is invalid.
+   *
+   * @example
+   * const data = signature.recoverAddress(signature.hashMessage('hello world'), '0xSIGNATURE');
+   */
+  recoverAddress: (hash: string, value: string | Signature): string =>
+    address.fromPublicKey(
+      secp256k1.recoverPublicKey(
+        hash,
+        typeof value === 'string' ? signature.parse(value) : value
+      )
+    ),
+};
@@ -0,0 +1,330 @@
+import { SiweError } from '../lib/errors/errors.js';
+import {
+  SiweMessage,
+  SiweMessageRequest,
+  SiweValidateOptions,
+} from '../lib/interfaces/siwe.js';
+import { address } from './address.js';
+import { hex } from './hex.js';
+
+const HEADER_SUFFIX: string =
+  ' wants you to sign in with your Ethereum account:';
+const HEADER_PATTERN: RegExp =
+  /^(?:([a-zA-Z][a-zA-Z0-9+\-.]*):\/\/)?(\S+) wants you to sign in with your Ethereum account:$/;
+const NONCE_PATTERN: RegExp = /^[a-zA-Z0-9]{8,}$/;
+const DATE_TIME_PATTERN: RegExp =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+/**
+ * The tagged fields of a message, in the order of the specification.
+ */
+const FIELDS: {
+  label: string;
+  key: keyof SiweMessage;
+  required: boolean;
+}[] = [
+  { label: 'URI', key: 'uri', required: true },
+  { label: 'Version', key: 'version', required: true },
+  { label: 'Chain ID', key: 'chainId', required: true },
+  { label: 'Nonce', key: 'nonce', required: true },
+  { label: 'Issued At', key: 'issuedAt', required: true },
+  { label: 'Expiration Time', key: 'expirationTime', required: false },
+  { label: 'Not Before', key: 'notBefore', required: false },
+  { label: 'Request ID', key: 'requestId', required: false },
+];
+
+/**
+ * Checks whether a value is an RFC 3339 date time.
+ *
+ * @param {string} value - The value to check.
+ * @returns {boolean} True when the value is a valid date time.
+ */
+const isDateTime = (value: string): boolean =>
+  DATE_TIME_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+
+/**
+ * Formats a time as an RFC 3339 date time, keeping strings as they are.
+ *
+ * @param {string | Date} value - The time.
+ * @returns {string} The date time.
+ */
+const toDateTime = (value: string | Date): string =>
+  value instanceof Date ? value.toISOString() : value;
+
+/**
+ * Checks the value of a tagged field, returning the value of the message field.
+ *
+ * @param {keyof SiweMessage} key - The message field.
+ * @param {string} value - The value of the tagged field.
+ * @returns {string | number | null} The field value, or null when it is invalid.
+ */
+const readField = (
+  key: keyof SiweMessage,
+  value: string
+): string | number | null => {
+  switch (key) {
+    case 'version':
+      return value === '1' ? value : null;
+    case 'chainId':
+      return /^[1-9]\d*$/.test(value) ? Number(value) : null;
+    case 'nonce':
+      return NONCE_PATTERN.test(value) ? value : null;
+    case 'issuedAt':
+    case 'expirationTime':
+    case 'notBefore':
+      return isDateTime(value) ? value : null;
+    default:
+      return value;
+  }
+};
+
+/**
+ * Provides the Sign-In With Ethereum (EIP-4361) messages, with which an account authenticates to an offchain service
+ * by signing a human-readable message.
+ *
+ * @fileoverview This file includes the creation, parsing and validation of EIP-4361 messages. Signatures are verified
+ * by the signatures integration, as they may need the chain for smart contract wallets.
+ * @namespace siwe
+ */
+export const siwe = {
+  /**
+   * Generates a random alphanumeric nonce, to issue for a sign-in.
+   *
+   * @returns {string} A 32 character nonce.
+   *
+   * @example
+   * const data = siwe.generateNonce();
+   */
+  generateNonce: (): string =>
+    hex.strip(hex.fromBytes(crypto.getRandomValues(new Uint8Array(16)))),
+
+  /**
+   * Creates the text of a message, to sign with `personal_sign`.
+   *
+   * @param {SiweMessageRequest} request - The fields of the message. The version defaults to '1' and the issue time to
+   * now, and an empty statement is omitted like a missing one.
+   * @returns {string} The message.
+   * @throws {Error} When a field is invalid, e.g. a nonce shorter than 8 characters or a statement on several lines.
+   *
+   * @example
+   * const data = siwe.createMessage({
+   *   domain: 'example.com',
+   *   address: '0xACCOUNT_ADDRESS',
+   *   statement: 'Sign in to Example',
+   *   uri: 'https://example.com/login',
+   *   chainId: 1,
+   *   nonce: siwe.generateNonce(),
+   * });
+   */
+  createMessage: ({
+    scheme,
+    domain,
+    address: accountAddress,
+    statement,
+    uri,
+    version = '1',
+    chainId,
+    nonce,
+    issuedAt = new Date(),
+    expirationTime,
+    notBefore,
+    requestId,
+    resources,
+  }: SiweMessageRequest): string => {
+    const fields: Partial<SiweMessage> = {
+      uri,
+      version,
+      chainId,
+      nonce,
+      issuedAt: toDateTime(issuedAt),
+      expirationTime: expirationTime && toDateTime(expirationTime),
+      notBefore: notBefore && toDateTime(notBefore),
+      requestId,
+    };
+
+    if (!domain || /\s/.test(domain)) {
+      throw new Error(`[siwe/createMessage] error: Invalid domain ${domain}`);
+    }
+    if (statement?.includes('\n')) {
+      throw new Error(
+        '[siwe/createMessage] error: The statement must be on a single line'
+      );
+    }
+
+    const lines: string[] = [
+      `${scheme ? `${scheme}://` : ''}${domain}${HEADER_SUFFIX}`,
+      address.getAddress(accountAddress),
+      '',
+      ...(statement ? [statement] : []),
+      '',
+    ];
+    for (const { label, key, required } of FIELDS) {
+      const value: unknown = fields[key];
+      if (value === undefined && !required) {
+        continue;
+      }
+      if (
+        value === undefined ||
+        readField(key, String(value)) === null ||
+        /\s/.test(String(value))
+      ) {
+        throw new Error(
+          `[siwe/createMessage] error: Invalid ${label} ${String(value)}`
+        );
+      }
+      lines.push(`${label}: ${String(value)}`);
+    }
+    if (resources?.length) {
+      lines.push(
+        'Resources:',
+        ...resources.map((resource: string): string => `- ${resource}`)
+      );
+    }
+
+    return lines.join('\n');
+  },
+
+  /**
+   * Parses the text of a message.
+   *
+   * @param {string} message - The message.
+   * @returns {SiweMessage} The fields of the message.
+   * @throws {SiweError} When the message is not a valid EIP-4361 message, with the reason 'malformed'.
+   *
+   * @example
+   * const { address, nonce, expirationTime } = siwe.parseMessage(message);
+   */
+  parseMessage: (message: string): SiweMessage => {
+    const lines: string[] = String(message).split('\n');
+    const fail = (reason: string): never => {
+      throw new SiweError(`[siwe/parseMessage] error: ${reason}`, 'malformed');
+    };
+
+    const header: RegExpMatchArray | null = lines[0].match(HEADER_PATTERN);
+    if (!header) {
+      fail('Invalid header on line 1');
+    }
+    if (!address.isAddress(lines[1], { strict: true })) {
+      fail(`Invalid address ${lines[1]}, expected a checksummed address`);
+    }
+    if (lines[2] !== '') {
+      fail('Expected an empty line on line 3');
+    }
+
+    const parsed: Record<string, unknown> = {
+      scheme: header[1],
+      domain: header[2],
+      address: lines[1],
+    };
+    let line: number = 4;
+    if (lines[3] !== '') {
+      parsed.statement = lines[3];
+      if (lines[4] !== '') {
+        fail('Expected an empty line on line 5');
+      }
+      line = 5;
+    }
+
+    for (const { label, key, required } of FIELDS) {
+      const prefix: string = `${label}: `;
+      if (!lines[line]?.startsWith(prefix)) {
+        if (required) {
+          fail(`Expected "${prefix}" on line ${line + 1}`);
+        }
+        continue;
+      }
+
+      const value: string | number | null = readField(
+        key,
+        lines[line].slice(prefix.length)
+      );
+      if (value === null) {
+        fail(`Invalid ${label} on line ${line + 1}`);
+      }
+      parsed[key] = value;
+      line++;
+    }
+
+    if (lines[line] === 'Resources:') {
+      parsed.resources = [];
+      for (line++; lines[line]?.startsWith('- '); line++) {
+        (parsed.resources as string[]).push(lines[line].slice(2));
+      }
+    }
+    if (line !== lines.length) {
+      fail(`Unexpected content on line ${line + 1}`);
+    }
+
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        ([, value]: [string, unknown]): boolean => value !== undefined
+      )
+    ) as unknown as SiweMessage;
+  },
+
+  /**
+   * Validates a message against the domain, nonce and chain expected by the server, and checks that it is valid at
+   * the given time. The signature is not checked.
+   *
+   * @param {SiweMessage} message - The fields of the message.
+   * @param {SiweValidateOptions} options - The expected domain and nonce, and optionally the chain id and the time to validate at.
+   * @throws {SiweError} When the expected domain or nonce is missing or the message does not match, with the reason 'domain',
+   * 'nonce', 'chainId', 'expired' or 'notYetValid'.
+   *
+   * @example
+   * siwe.validate(siwe.parseMessage(message), { domain: 'example.com', nonce: session.nonce, chainId: 1 });
+   */
+  validate: (
+    message: SiweMessage,
+    { domain, nonce, chainId, time = new Date() }: SiweValidateOptions = {
+      domain: undefined,
+      nonce: undefined,
+    }
+  ): void => {
+    if (!domain) {
+      throw new SiweError(
+        '[siwe/validate] error: The expected domain is required',
+        'domain'
+      );
+    }
+    if (!nonce) {
+      throw new SiweError(
+        '[siwe/validate] error: The expected nonce is required',
+        'nonce'
+      );
+    }
+    if (message.domain !== domain) {
+      throw new SiweError(
+        `[siwe/validate] error: The domain ${message.domain} does not match ${domain}`,
+        'domain'
+      );
+    }
+    if (message.nonce !== nonce) {
+      throw new SiweError(
+        `[siwe/validate] error: The nonce ${message.nonce} does not match ${nonce}`,
+        'nonce'
+      );
+    }
+    if (chainId !== undefined && message.chainId !== chainId) {
+      throw new SiweError(
+        `[siwe/validate] error: The chain id ${message.chainId} does not match ${chainId}`,
+        'chainId'
+      );
+    }
+    if (
+      message.expirationTime &&
+      time.getTime() >= Date.parse(message.expirationTime)
+    ) {
+      throw new SiweError(
+        `[siwe/validate] error: The message expired at ${message.expirationTime}`,
+        'expired'
+      );
+    }
+    if (message.notBefore && time.getTime() < Date.parse(message.notBefore)) {
+      throw new SiweError(
+        `[siwe/validate] error: The message is not valid before ${message.notBefore}`,
+        'notYetValid'
+      );
+    }
+  },
+};
@@ -0,0 +1,161 @@
+import { AccessListEntry } from '../lib/interfaces/chain.js';
+import { Signature, TransactionRequest } from '../lib/interfaces/signer.js';
+
+import { hex } from './hex.js';
+import { keccak256 } from './keccak.js';
+import { RlpInput, rlp } from './rlp.js';
+
+/**
+ * Encodes an integer as an RLP byte string, big-endian without leading zeros, the empty string for zero.
+ *
+ * @param {number | bigint} [value] - The integer, zero when omitted.
+ * @returns {string} The `0x` prefixed byte string.
+ */
+const toQuantity = (value: number | bigint = 0): string => {
+  const digits: string = BigInt(value).toString(16);
+  if (digits === '0') {
+    return '0x';
+  }
+  return `0x${digits.length % 2 ? '0' : ''}${digits}`;
+};
+
+/**
+ * Encodes an access list as nested RLP lists of addresses and storage keys.
+ *
+ * @param {AccessListEntry[]} [accessList] - The access list, empty when omitted.
+ * @returns {RlpInput[]} The RLP lists.
+ */
+const toAccessList = (accessList: AccessListEntry[] = []): RlpInput[] =>
+  accessList.map(({ address, storageKeys }: AccessListEntry): RlpInput[] => [
+    address,
+    storageKeys,
+  ]);
+
+/**
+ * Encodes the signature fields appended to a typed transaction.
+ *
+ * @param {Signature} signature - The signature.
+ * @returns {string[]} The y parity, r and s byte strings.
+ */
+const toSignatureFields = ({ r, s, yParity }: Signature): string[] => [
+  toQuantity(yParity),
+  toQuantity(BigInt(r)),
+  toQuantity(BigInt(s)),
+];
+
+/**
+ * Provides the serialization of legacy, EIP-2930 and EIP-1559 transactions.
+ *
+ * @fileoverview This file includes the RLP encoding of transactions, signed or ready to be signed.
+ * @namespace transaction
+ */
+export const transaction = {
+  /**
+   * Infers the type of a transaction from its fields when it is not set: 2 when an EIP-1559 fee is set, 1 when a
+   * gas price is set with an access list, 0 when only a gas price is set, and 2 otherwise.
+   *
+   * @param {TransactionRequest} request - The transaction.
+   * @returns {number} The transaction type.
+   *
+   * @example
+   * const data = transaction.getType({ gasPrice: BigInt(1000000000) }); // 0
+   */
+  getType: (request: TransactionRequest): number => {
+    if (request.type !== undefined) {
+      return request.type;
+    }
+    if (
+      request.maxFeePerGas !== undefined ||
+      request.maxPriorityFeePerGas !== undefined
+    ) {
+      return 2;
+    }
+    if (request.gasPrice !== undefined) {
+      return request.accessList ? 1 : 0;
+    }
+    return 2;
+  },
+
+  /**
+   * Serializes a transaction. Without a signature, the result is the payload whose hash is signed, including the
+   * EIP-155 chain id fields for legacy transactions with a chain id. Omitted numeric fields are encoded as zero.
+   *
+   * @param {TransactionRequest} request - The transaction.
+   * @param {Signature} [signature] - Optional. The signature of the transaction.
+   * @returns {string} The `0x` prefixed serialized transaction.
+   * @throws {Error} When the type is not supported, or a typed transaction has no chain id.
+   *
+   * @example
+   * const data = transaction.serialize({ chainId: 1, nonce: 0, to: '0xRECIPIENT_ADDRESS', value: BigInt(1), gas: BigInt(21000), maxFeePerGas: BigInt(30000000000), maxPriorityFeePerGas: BigInt(1000000000) }, signature);
+   */
+  serialize: (request: TransactionRequest, signature?: Signature): string => {
+    const type: number = transaction.getType(request);
+    const common: string[] = [
+      toQuantity(request.nonce),
+      ...(type === 2
+        ? [
+            toQuantity(request.maxPriorityFeePerGas),
+            toQuantity(request.maxFeePerGas),
+          ]
+        : [toQuantity(request.gasPrice)]),
+      toQuantity(request.gas),
+      request.to ?? '0x',
+      toQuantity(request.value),
+      request.data ?? '0x',
+    ];
+
+    if (type === 0) {
+      const { chainId } = request;
+      if (signature) {
+        const v: bigint =
+          chainId === undefined
+            ? BigInt(27 + signature.yParity)
+            : BigInt(chainId) * BigInt(2) + BigInt(35 + signature.yParity);
+        return rlp.encode([
+          ...common,
+          toQuantity(v),
+          toQuantity(BigInt(signature.r)),
+          toQuantity(BigInt(signature.s)),
+        ]);
+      }
+      return rlp.encode(
+        chainId === undefined
+          ? common
+          : [...common, toQuantity(chainId), '0x', '0x']
+      );
+    }
+
+    if (type !== 1 && type !== 2) {
+      throw new Error(
+        `[transaction/serialize] error: Unsupported transaction type ${type}`
+      );
+    }
+    if (request.chainId === undefined) {
+      throw new Error(
+        '[transaction/serialize] error: Typed transactions require a chainId'
+      );
+    }
+
+    return hex.concat([
+      `0x0${type}`,
+      rlp.encode([
+        toQuantity(request.chainId),
+        ...common,
+        toAccessList(request.accessList),
+        ...(signature ? toSignatureFields(signature) : []),
+      ]),
+    ]);
+  },
+
+  /**
+   * Computes the hash signed by the sender of a transaction.
+   *
+   * @param {TransactionRequest} request - The transaction.
+   * @returns {string} The `0x` prefixed 32 byte hash.
+   *
+   * @example
+   * const data = transaction.getSigningHash({ chainId: 1, nonce: 0, to: '0xRECIPIENT_ADDRESS', gas: BigInt(21000), gasPrice: BigInt(20000000000) });
+   */
+  getSigningHash: (request: TransactionRequest): string =>
+    keccak256(transaction.serialize(request)),
+};
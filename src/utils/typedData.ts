@@ -0,0 +1,219 @@
+import { AbiValue } from '../lib/interfaces/abi.js';
+import {
+  TypedData,
+  TypedDataDomain,
+  TypedDataField,
+  TypedDataTypes,
+} from '../lib/interfaces/typedData.js';
+import { abi } from './abi.js';
+import { hex } from './hex.js';
+import { keccak256 } from './keccak.js';
+
+/**
+ * The members of the `EIP712Domain` struct, in the order of the specification.
+ */
+const DOMAIN_FIELDS: TypedDataField[] = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' },
+  { name: 'salt', type: 'bytes32' },
+];
+
+const ARRAY_PATTERN: RegExp = /^(.+)\[(\d*)\]$/;
+
+/**
+ * Removes the array suffixes of a type, e.g. 'Person[][2]' to 'Person'.
+ *
+ * @param {string} type - The type.
+ * @returns {string} The element type.
+ */
+const baseType = (type: string): string => type.replace(/(\[\d*\])+$/, '');
+
+/**
+ * Collects the struct types referenced by a struct type, including itself.
+ *
+ * @param {string} typeName - The struct type.
+ * @param {TypedDataTypes} types - The struct types.
+ * @param {Set<string>} [found] - Optional. The types collected so far.
+ * @returns {Set<string>} The referenced struct types.
+ */
+const findDependencies = (
+  typeName: string,
+  types: TypedDataTypes,
+  found: Set<string> = new Set()
+): Set<string> => {
+  if (found.has(typeName) || !types[typeName]) {
+    return found;
+  }
+
+  found.add(typeName);
+  for (const field of types[typeName]) {
+    findDependencies(baseType(field.type), types, found);
+  }
+  return found;
+};
+
+/**
+ * Encodes a member value as a 32 byte word: atomic values are ABI encoded, dynamic values and structs are hashed.
+ *
+ * @param {string} type - The type of the member.
+ * @param {AbiValue} value - The value.
+ * @param {TypedDataTypes} types - The struct types.
+ * @returns {string} The `0x` prefixed word.
+ */
+const encodeValue = (
+  type: string,
+  value: AbiValue,
+  types: TypedDataTypes
+): string => {
+  if (types[type]) {
+    return typedData.hashStruct(
+      type,
+      value as { readonly [key: string]: AbiValue },
+      types
+    );
+  }
+
+  const array: RegExpMatchArray | null = type.match(ARRAY_PATTERN);
+  if (array) {
+    if (
+      !Array.isArray(value) ||
+      (array[2] !== '' && value.length !== Number(array[2]))
+    ) {
+      throw new Error(
+        `[typedData/hashStruct] error: Invalid value for type ${type}`
+      );
+    }
+    return keccak256(
+      hex.concat(
+        value.map((item: AbiValue): string =>
+          encodeValue(array[1], item, types)
+        )
+      )
+    );
+  }
+
+  if (type === 'string') {
+    return keccak256(hex.fromUtf8(value as string));
+  }
+  if (type === 'bytes') {
+    return keccak256(value as string);
+  }
+  return abi.encodeParameters([type], [value]);
+};
+
+/**
+ * Provides the EIP-712 hashing of typed structured data, signed by permits and offchain orders.
+ *
+ * @fileoverview This file includes the type encoding, the struct hashing and the domain separator of EIP-712.
+ * @namespace typedData
+ */
+export const typedData = {
+  /**
+   * Encodes a struct type with the struct types it references, sorted by name, e.g.
+   * 'Mail(Person from,Person to,string contents)Person(string name,address wallet)'.
+   *
+   * @param {string} primaryType - The struct type.
+   * @param {TypedDataTypes} types - The struct types.
+   * @returns {string} The encoded type.
+   * @throws {Error} When the type is not declared.
+   *
+   * @example
+   * const data = typedData.encodeType('Mail', types);
+   */
+  encodeType: (primaryType: string, types: TypedDataTypes): string => {
+    if (!types[primaryType]) {
+      throw new Error(
+        `[typedData/encodeType] error: Unknown type ${primaryType}`
+      );
+    }
+
+    const dependencies: string[] = [
+      ...findDependencies(primaryType, types),
+    ].filter((typeName: string): boolean => typeName !== primaryType);
+
+    return [primaryType, ...dependencies.sort()]
+      .map(
+        (typeName: string): string =>
+          `${typeName}(${types[typeName]
+            .map(({ name, type }: TypedDataField): string => `${type} ${name}`)
+            .join(',')})`
+      )
+      .join('');
+  },
+
+  /**
+   * Hashes a struct value, `keccak256(typeHash ‖ encodeData(value))`.
+   *
+   * @param {string} primaryType - The struct type.
+   * @param {object} data - The struct value, with one value per member.
+   * @param {TypedDataTypes} types - The struct types.
+   * @returns {string} The `0x` prefixed 32 byte hash.
+   * @throws {Error} When the type is not declared or a member is missing.
+   *
+   * @example
+   * const data = typedData.hashStruct('Mail', message, types);
+   */
+  hashStruct: (
+    primaryType: string,
+    data: { readonly [key: string]: AbiValue },
+    types: TypedDataTypes
+  ): string => {
+    const typeHash: string = keccak256(
+      hex.fromUtf8(typedData.encodeType(primaryType, types))
+    );
+
+    return keccak256(
+      hex.concat([
+        typeHash,
+        ...types[primaryType].map(({ name, type }: TypedDataField): string => {
+          if (data?.[name] === undefined || data[name] === null) {
+            throw new Error(
+              `[typedData/hashStruct] error: Missing value for ${primaryType}.${name}`
+            );
+          }
+          return encodeValue(type, data[name], types);
+        }),
+      ])
+    );
+  },
+
+  /**
+   * Computes the domain separator, the struct hash of the domain with the `EIP712Domain` members that are set.
+   *
+   * @param {TypedDataDomain} domain - The signing domain.
+   * @returns {string} The `0x` prefixed 32 byte domain separator.
+   *
+   * @example
+   * const data = typedData.hashDomain({ name: 'USD Coin', version: '2', chainId: 1, verifyingContract: '0xCONTRACT_ADDRESS' });
+   */
+  hashDomain: (domain: TypedDataDomain): string =>
+    typedData.hashStruct(
+      'EIP712Domain',
+      domain as { readonly [key: string]: AbiValue },
+      {
+        EIP712Domain: DOMAIN_FIELDS.filter(
+          ({ name }: TypedDataField): boolean =>
+            domain[name as keyof TypedDataDomain] !== undefined
+        ),
+      }
+    ),
+
+  /**
+   * Computes the hash signed for a typed data message, `keccak256(0x1901 ‖ domainSeparator ‖ hashStruct(message))`.
+   *
+   * @param {TypedData} data - The domain, types, primary type and message.
+   * @returns {string} The `0x` prefixed 32 byte hash.
+   *
+   * @example
+   * const data = typedData.hash({ domain, types, primaryType: 'Mail', message });
+   */
+  hash: ({ domain, types, primaryType, message }: TypedData): string => {
+    const parts: string[] = ['0x1901', typedData.hashDomain(domain)];
+    if (primaryType !== 'EIP712Domain') {
+      parts.push(typedData.hashStruct(primaryType, message, types));
+    }
+    return keccak256(hex.concat(parts));
+  },
+};
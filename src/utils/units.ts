@@ -0,0 +1,279 @@
+/**
+ * Type representing the rounding modes supported by the unit conversions.
+ *
+ * @type 'trunc' rounds towards zero, 'floor' towards negative infinity, 'ceil' towards positive infinity,
+ * 'round' to the nearest value with ties away from zero and 'halfEven' to the nearest value with ties to even.
+ */
+export type RoundingMode = 'trunc' | 'floor' | 'ceil' | 'round' | 'halfEven';
+
+/**
+ * Interface representing the options accepted by {@link units.formatUnits}.
+ *
+ * @interface
+ * @property {number} [precision] - Optional. Maximum number of fractional digits to keep.
+ * @property {RoundingMode} [rounding='trunc'] - Optional. Rounding mode applied when digits are dropped.
+ */
+export interface FormatUnitsOptions {
+  precision?: number;
+  rounding?: RoundingMode;
+}
+
+const ZERO: bigint = BigInt(0);
+const ONE: bigint = BigInt(1);
+const TWO: bigint = BigInt(2);
+const TEN: bigint = BigInt(10);
+
+const DECIMAL_PATTERN: RegExp = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Computes 10 raised to the given power without leaving bigint arithmetic.
+ *
+ * @param {number} exponent - The non-negative power of ten.
+ * @returns {bigint} The power of ten.
+ */
+const pow10 = (exponent: number): bigint => TEN ** BigInt(exponent);
+
+/**
+ * Validates that a number of decimals (or precision) is a non-negative integer.
+ *
+ * @param {number} decimals - The value to validate.
+ * @param {string} context - The calling function, used in the error message.
+ */
+const assertDecimals = (decimals: number, context: string): void => {
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new Error(
+      `[units/${context}] error: Decimals must be a non-negative integer`
+    );
+  }
+};
+
+/**
+ * Converts a hex string, decimal integer string, number or bigint into a bigint.
+ *
+ * @param {string | number | bigint} value - The value to convert.
+ * @param {string} context - The calling function, used in the error message.
+ * @returns {bigint} The value as a bigint.
+ */
+const toBigInt = (value: string | number | bigint, context: string): bigint => {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(
+        `[units/${context}] error: Numbers must be safe integers, use a bigint or string instead`
+      );
+    }
+    return BigInt(value);
+  }
+
+  if (value === '0x') {
+    return ZERO;
+  }
+
+  if (value.startsWith('-')) {
+    return -toBigInt(value.slice(1), context);
+  }
+
+  if (!/^(0x[0-9a-fA-F]+|\d+)$/.test(value)) {
+    throw new Error(`[units/${context}] error: Invalid integer value`);
+  }
+
+  return BigInt(value);
+};
+
+/**
+ * Divides two bigints and rounds the quotient with the given rounding mode.
+ *
+ * @param {bigint} numerator - The dividend.
+ * @param {bigint} divisor - The positive divisor.
+ * @param {RoundingMode} rounding - The rounding mode to apply to the quotient.
+ * @returns {bigint} The rounded quotient.
+ */
+const divide = (
+  numerator: bigint,
+  divisor: bigint,
+  rounding: RoundingMode
+): bigint => {
+  const quotient: bigint = numerator / divisor;
+  const remainder: bigint = numerator % divisor;
+
+  if (remainder === ZERO) {
+    return quotient;
+  }
+
+  const negative: boolean = numerator < ZERO;
+  const awayFromZero: bigint = negative ? quotient - ONE : quotient + ONE;
+  const doubledRemainder: bigint = (negative ? -remainder : remainder) * TWO;
+
+  switch (rounding) {
+    case 'trunc':
+      return quotient;
+    case 'floor':
+      return negative ? awayFromZero : quotient;
+    case 'ceil':
+      return negative ? quotient : awayFromZero;
+    case 'round':
+      return doubledRemainder >= divisor ? awayFromZero : quotient;
+    case 'halfEven':
+      if (doubledRemainder === divisor) {
+        return quotient % TWO === ZERO ? quotient : awayFromZero;
+      }
+      return doubledRemainder > divisor ? awayFromZero : quotient;
+    default:
+      throw new Error(
+        `[units/divide] error: Unknown rounding mode ${rounding}`
+      );
+  }
+};
+
+/**
+ * Provides exact conversions between integer amounts in the smallest unit and decimal strings.
+ *
+ * @fileoverview This file includes bigint based unit conversions, no floating-point arithmetic is involved.
+ * @namespace units
+ */
+export const units = {
+  /**
+   * Parses a decimal string into an integer amount in the smallest unit.
+   *
+   * @param {string} value - The decimal string to parse (e.g. '1.5').
+   * @param {number} decimals - The number of decimals of the unit.
+   * @param {RoundingMode} [rounding] - Optional. Rounding mode used when the value has more fractional digits than `decimals`. Throws when omitted.
+   * @returns {bigint} The amount in the smallest unit.
+   *
+   * @example
+   * const data = units.parseUnits('1.5', 6); // 1500000n
+   */
+  parseUnits: (
+    value: string,
+    decimals: number,
+    rounding?: RoundingMode
+  ): bigint => {
+    assertDecimals(decimals, 'parseUnits');
+
+    const match: RegExpMatchArray | null = value.trim().match(DECIMAL_PATTERN);
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error('[units/parseUnits] error: Invalid decimal value');
+    }
+
+    const [, sign, integerDigits = '', fractionDigits = ''] = match;
+    const digits: string = `${integerDigits}${fractionDigits}` || '0';
+    const scaled: bigint =
+      (sign === '-' ? -BigInt(digits) : BigInt(digits)) *
+      pow10(Math.max(decimals - fractionDigits.length, 0));
+
+    if (fractionDigits.length <= decimals) {
+      return scaled;
+    }
+
+    const divisor: bigint = pow10(fractionDigits.length - decimals);
+    if (!rounding && scaled % divisor !== ZERO) {
+      throw new Error(
+        `[units/parseUnits] error: Value has more than ${decimals} decimal places`
+      );
+    }
+
+    return divide(scaled, divisor, rounding ?? 'trunc');
+  },
+
+  /**
+   * Formats an integer amount in the smallest unit as a decimal string, without trailing zeros.
+   *
+   * @param {string | number | bigint} value - The amount in the smallest unit, as a bigint, safe integer, decimal or hex string.
+   * @param {number} decimals - The number of decimals of the unit.
+   * @param {FormatUnitsOptions} [options] - Optional. Precision and rounding mode for the fractional part.
+   * @returns {string} The decimal string.
+   *
+   * @example
+   * const data = units.formatUnits(BigInt(1500000), 6); // '1.5'
+   */
+  formatUnits: (
+    value: string | number | bigint,
+    decimals: number,
+    { precision, rounding = 'trunc' }: FormatUnitsOptions = {}
+  ): string => {
+    assertDecimals(decimals, 'formatUnits');
+
+    let amount: bigint = toBigInt(value, 'formatUnits');
+    let scale: number = decimals;
+
+    if (precision !== undefined) {
+      assertDecimals(precision, 'formatUnits');
+      if (precision < decimals) {
+        amount = divide(amount, pow10(decimals - precision), rounding);
+        scale = precision;
+      }
+    }
+
+    const negative: boolean = amount < ZERO;
+    const digits: string = (negative ? -amount : amount)
+      .toString()
+      .padStart(scale + 1, '0');
+    const integerPart: string = digits.slice(0, digits.length - scale);
+    const fractionalPart: string = digits
+      .slice(digits.length - scale)
+      .replace(/0+$/, '');
+
+    return `${negative ? '-' : ''}${integerPart}${
+      fractionalPart ? `.${fractionalPart}` : ''
+    }`;
+  },
+
+  /**
+   * Parses an Ether decimal string into Wei.
+   *
+   * @param {string} value - The amount of Ether.
+   * @param {RoundingMode} [rounding] - Optional. Rounding mode for more than 18 fractional digits.
+   * @returns {bigint} The amount in Wei.
+   *
+   * @example
+   * const data = units.parseEther('0.1');
+   */
+  parseEther: (value: string, rounding?: RoundingMode): bigint =>
+    units.parseUnits(value, 18, rounding),
+
+  /**
+   * Formats a Wei amount as an Ether decimal string.
+   *
+   * @param {string | number | bigint} value - The amount in Wei.
+   * @param {FormatUnitsOptions} [options] - Optional. Precision and rounding mode.
+   * @returns {string} The amount in Ether.
+   *
+   * @example
+   * const data = units.formatEther('0xRETURNED_VALUE');
+   */
+  formatEther: (
+    value: string | number | bigint,
+    options?: FormatUnitsOptions
+  ): string => units.formatUnits(value, 18, options),
+
+  /**
+   * Parses a Gwei decimal string into Wei.
+   *
+   * @param {string} value - The amount of Gwei.
+   * @param {RoundingMode} [rounding] - Optional. Rounding mode for more than 9 fractional digits.
+   * @returns {bigint} The amount in Wei.
+   *
+   * @example
+   * const data = units.parseGwei('1.5');
+   */
+  parseGwei: (value: string, rounding?: RoundingMode): bigint =>
+    units.parseUnits(value, 9, rounding),
+
+  /**
+   * Formats a Wei amount as a Gwei decimal string.
+   *
+   * @param {string | number | bigint} value - The amount in Wei.
+   * @param {FormatUnitsOptions} [options] - Optional. Precision and rounding mode.
+   * @returns {string} The amount in Gwei.
+   *
+   * @example
+   * const data = units.formatGwei('0xRETURNED_VALUE');
+   */
+  formatGwei: (
+    value: string | number | bigint,
+    options?: FormatUnitsOptions
+  ): string => units.formatUnits(value, 9, options),
+};